@@ -12,6 +12,7 @@ import { config } from './config';
 import './App.css';
 
 // Lazy load the heavy components for better performance
+const ProductOverview = React.lazy(() => import('./components/ProductOverview'));
 const ProductModules = React.lazy(() => import('./components/ProductModules'));
 const ProductBasics = React.lazy(() => import('./components/ProductBasics'));
 const MarketCompetition = React.lazy(() => import('./components/MarketCompetition'));
@@ -21,6 +22,7 @@ const RoadmapPlanner = React.lazy(() => import('./components/RoadmapPlanner'));
 const RoadmapVisualization = React.lazy(() => import('./components/RoadmapVisualization'));
 const CapacityPlanning = React.lazy(() => import('./components/CapacityPlanning'));
 const KanbanBoard = React.lazy(() => import('./components/KanbanBoard'));
+const SprintPlanning = React.lazy(() => import('./components/SprintPlanning'));
 const ResourcePlanningPage = React.lazy(() => import('./components/ResourcePlanning/ResourcePlanningPage'));
 const AdminDashboard = React.lazy(() => import('./components/AdminDashboard'));
 const SetPasswordPage = React.lazy(() => import('./components/SetPasswordPage'));
@@ -81,6 +83,14 @@ function App() {
                 </PrivateRoute>
               } 
             />
+            <Route
+              path="/products/:productSlug"
+              element={
+                <PrivateRoute>
+                  <ProductOverview />
+                </PrivateRoute>
+              }
+            />
             <Route 
               path="/products/:productSlug/modules" 
               element={
@@ -137,6 +147,14 @@ function App() {
                 </PrivateRoute>
               } 
             />
+            <Route
+              path="/products/:productSlug/modules/sprints"
+              element={
+                <PrivateRoute>
+                  <SprintPlanning />
+                </PrivateRoute>
+              }
+            />
             <Route 
               path="/products/:productSlug/modules/roadmap-visualization" 
               element={
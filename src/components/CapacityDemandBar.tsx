@@ -0,0 +1,57 @@
+import React from 'react';
+import { EffortUnit } from '../types/capacity';
+import { getLoadStatus, TeamLoad } from '../utils/teamCapacity';
+import './CapacityDemandBar.css';
+
+interface CapacityDemandBarProps {
+  loads: TeamLoad[];
+  effortUnit: EffortUnit;
+  unestimatedCount?: number;
+}
+
+const formatAmount = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const CapacityDemandBar: React.FC<CapacityDemandBarProps> = ({ loads, effortUnit, unestimatedCount = 0 }) => {
+  const unit = effortUnit.toLowerCase();
+
+  if (loads.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="capacity-demand">
+      <div className="capacity-demand-title">
+        <span className="material-icons">speed</span>
+        Capacity vs. demand
+        {unestimatedCount > 0 && (
+          <span className="capacity-demand-note">
+            {unestimatedCount} {unestimatedCount === 1 ? 'epic has' : 'epics have'} no effort estimate yet
+          </span>
+        )}
+      </div>
+      {loads.map(load => {
+        const status = getLoadStatus(load);
+        const fill = load.capacity > 0 ? Math.min((load.effort / load.capacity) * 100, 100) : load.effort > 0 ? 100 : 0;
+        const difference = Math.abs(load.capacity - load.effort);
+        return (
+          <div key={load.teamId} className={`capacity-demand-row ${status}`}>
+            <span className="capacity-demand-team" title={load.teamName}>{load.teamName}</span>
+            <div className="capacity-demand-track">
+              <div className="capacity-demand-fill" style={{ width: `${fill}%` }} />
+            </div>
+            <span className="capacity-demand-amount">
+              {formatAmount(load.effort)} / {formatAmount(load.capacity)} {unit}
+            </span>
+            <span className="capacity-demand-status">
+              {status === 'over'
+                ? `Over by ${formatAmount(difference)}`
+                : `${formatAmount(difference)} left`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CapacityDemandBar;
@@ -2,59 +2,34 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useProduct } from '../hooks/useProduct';
+import { capacityService } from '../services/capacityService';
+import { resourcePlanningService } from '../services/resourcePlanningService';
+import { roadmapService } from '../services/roadmapService';
+import { sprintService } from '../services/sprintService';
+import {
+  CapacityTeam as Team,
+  EpicEffort,
+  EffortRatingConfig,
+  EffortUnit,
+  CapacityPlan,
+  TeamCapacitySettings,
+} from '../types/capacity';
+import { PublicHoliday, RateCard, Team as DurableTeam, TeamMember } from '../types/resourcePlanning.types';
+import { Sprint } from '../types/sprint';
+import { CostRollup, formatCostTotals, rollUpEffortCosts } from '../utils/costs';
+import { getResponseMessage } from '../utils/errorHandler';
+import { addQuarters, formatQuarter } from '../utils/quarterUtils';
+import { getAverageVelocity, getDeliveryRate } from '../utils/sprintUtils';
+import { buildTeamLoads, calculateTeamCapacity, getDefaultCapacitySettings } from '../utils/teamCapacity';
+import CapacityDemandBar from './CapacityDemandBar';
 import './CapacityPlanning.css';
 
-interface Team {
-  id: number;
-  name: string;
-  description: string;
-  productId: number;
-  isActive: boolean;
-}
-
-interface EpicEffort {
-  id?: number;
-  capacityPlanId?: number;
-  epicId: string;
-  epicName: string;
-  teamId: number;
-  teamName?: string;
-  effortDays: number;
-  notes?: string;
-}
-
-interface EffortRatingConfig {
-  id?: number;
-  productId: number;
-  unitType: string;
-  star1Max: number;
-  star2Min: number;
-  star2Max: number;
-  star3Min: number;
-  star3Max: number;
-  star4Min: number;
-  star4Max: number;
-  star5Min: number;
-}
-
-type EffortUnit = 'SPRINTS' | 'DAYS';
-
 interface Epic {
   epicId: string;
   epicName: string;
   efforts: EpicEffort[];
 }
 
-interface CapacityPlan {
-  id?: number;
-  productId: number;
-  year: number;
-  quarter: number;
-  effortUnit?: string;
-  teams: Team[];
-  epicEfforts: EpicEffort[];
-}
-
 const CapacityPlanning: React.FC = () => {
   const { productSlug } = useParams<{ productSlug: string }>();
   const navigate = useNavigate();
@@ -67,6 +42,8 @@ const CapacityPlanning: React.FC = () => {
   const [capacityPlan, setCapacityPlan] = useState<CapacityPlan | null>(null);
   const [teams, setTeams] = useState<Team[]>([]);
   const [epics, setEpics] = useState<Epic[]>([]);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [velocityUnavailable, setVelocityUnavailable] = useState(false);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
@@ -76,6 +53,13 @@ const CapacityPlanning: React.FC = () => {
   const [newTeam, setNewTeam] = useState({ name: '', description: '' });
   const [effortRatingConfigs, setEffortRatingConfigs] = useState<EffortRatingConfig[]>([]);
   const [editingRatingConfig, setEditingRatingConfig] = useState<EffortRatingConfig | null>(null);
+  const [teamCapacities, setTeamCapacities] = useState<TeamCapacitySettings[]>([]);
+  const [teamMembers, setTeamMembers] = useState<Map<number, TeamMember[]>>(new Map());
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [allTeams, setAllTeams] = useState<DurableTeam[]>([]);
+  const [existingTeamId, setExistingTeamId] = useState('');
+  const [copyingTeams, setCopyingTeams] = useState(false);
 
   useEffect(() => {
     window.scrollTo(0, 0);
@@ -110,24 +94,40 @@ const CapacityPlanning: React.FC = () => {
     }
   }, [product, selectedYear, selectedQuarter]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  useEffect(() => {
+    if (product) {
+      loadSprints();
+    }
+  }, [product]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const loadTeams = async () => {
     if (!product) return;
 
+    let teamsData: Team[];
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${product.productId}/capacity-planning/${selectedYear}/${selectedQuarter}/teams`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        const teamsData = await response.json();
-        setTeams(teamsData);
-      } else {
-        throw new Error('Failed to load teams');
-      }
+      teamsData = await capacityService.getTeams(product.productId, selectedYear, selectedQuarter);
+      setTeams(teamsData);
     } catch (err: any) {
       setError('Failed to load teams');
+      return;
+    }
+
+    // Members and rates only feed the capacity bars and costs, so a failure leaves them empty
+    try {
+      const [members, holidayData, rateCardData, allTeamData] = await Promise.all([
+        resourcePlanningService.getMembersByTeam(product.productId, teamsData.map(team => team.id), {
+          year: selectedYear,
+          quarter: selectedQuarter,
+        }),
+        resourcePlanningService.getHolidays(product.productId),
+        resourcePlanningService.getRateCards(product.productId),
+        resourcePlanningService.getTeams(product.productId),
+      ]);
+      setTeamMembers(members);
+      setHolidays(holidayData);
+      setRateCards(rateCardData);
+      setAllTeams(allTeamData);
+    } catch (err: any) {
     }
   };
 
@@ -135,49 +135,92 @@ const CapacityPlanning: React.FC = () => {
     if (!product) return;
     
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${product.productId}/capacity-planning/effort-rating-configs`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
+      const configs = await capacityService.getEffortRatingConfigs(product.productId);
+      setEffortRatingConfigs(configs);
+    } catch (err: any) {
+    }
+  };
 
-      if (response.ok) {
-        const configs = await response.json();
-        setEffortRatingConfigs(configs);
-      } else {
-        throw new Error('Failed to load effort rating configs');
-      }
+  // Velocity is informational, so a failure here doesn't block capacity planning
+  const loadSprints = async () => {
+    if (!product) return;
+
+    try {
+      const sprintData = await sprintService.getSprints(product.productId);
+      setSprints(sprintData);
+      setVelocityUnavailable(false);
     } catch (err: any) {
+      setSprints([]);
+      setVelocityUnavailable(true);
     }
   };
 
+  const showVelocity = effortUnit === 'SPRINTS';
+  const productVelocity = getAverageVelocity(sprints);
+
+  // Teams without sprint history fall back to the product-wide velocity and delivery rate
+  const hasTeamVelocity = (teamId: number) => getAverageVelocity(sprints, teamId) !== null;
+  const getTeamVelocity = (teamId: number) => getAverageVelocity(sprints, teamId) ?? productVelocity;
+  const getTeamDeliveryRate = (teamId: number) => getDeliveryRate(sprints, teamId) ?? getDeliveryRate(sprints) ?? 1;
+
+  const getTeamCapacitySettings = (teamId: number) =>
+    teamCapacities.find(settings => settings.teamId === teamId) || getDefaultCapacitySettings(teamId);
+
+  const updateTeamCapacity = (teamId: number, changes: Partial<TeamCapacitySettings>) => {
+    setTeamCapacities(prev => [
+      ...prev.filter(settings => settings.teamId !== teamId),
+      { ...getTeamCapacitySettings(teamId), ...changes },
+    ]);
+  };
+
+  const getTeamCapacity = (teamId: number) =>
+    calculateTeamCapacity(
+      teamMembers.get(teamId) || [],
+      holidays,
+      getTeamCapacitySettings(teamId),
+      effortUnit,
+      selectedYear,
+      selectedQuarter,
+      getTeamDeliveryRate(teamId)
+    );
+
+  const showCosts = rateCards.length > 0;
+
+  const getEffortCost = (efforts: EpicEffort[]): CostRollup =>
+    rollUpEffortCosts(efforts, effortUnit, teamId => teamMembers.get(teamId) || [], rateCards);
+
+  const renderCost = (rollup: CostRollup) => (
+    <span
+      className={`effort-cost ${rollup.unpricedCount > 0 ? 'partial' : ''}`}
+      title={rollup.unpricedCount > 0 ? 'Some effort belongs to teams without rate cards and is not costed' : undefined}
+    >
+      {formatCostTotals(rollup.totals)}
+      {rollup.unpricedCount > 0 && '*'}
+    </span>
+  );
+
+  const teamLoads = buildTeamLoads(teams, epics.flatMap(epic => epic.efforts), getTeamCapacity);
+
   const loadCapacityPlan = async () => {
     if (!product) return;
     
     try {
       setLoading(true);
-      const response = await fetch(
-        `http://localhost:8080/api/products/${product.productId}/capacity-planning/${selectedYear}/${selectedQuarter}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        }
-      );
+      const data = await capacityService.getCapacityPlan(product.productId, selectedYear, selectedQuarter);
 
-      if (response.ok) {
-        const data = await response.json();
+      if (data) {
         setCapacityPlan(data);
         
         // Set the effort unit from the response, default to SPRINTS if not present
         if (data.effortUnit) {
           setEffortUnit(data.effortUnit as EffortUnit);
         }
+        setTeamCapacities(data.teamCapacities || []);
         
         // Group epic efforts by epic
         const epicGroups: { [key: string]: Epic } = {};
         
-        data.epicEfforts?.forEach((effort: EpicEffort) => {
+        data.epicEfforts?.forEach(effort => {
           if (!epicGroups[effort.epicId]) {
             epicGroups[effort.epicId] = {
               epicId: effort.epicId,
@@ -211,7 +254,7 @@ const CapacityPlanning: React.FC = () => {
         });
         
         setEpics(epicsWithAllTeams);
-      } else if (response.status === 404) {
+      } else {
         // No capacity plan exists for this quarter yet
         setCapacityPlan({
           productId: product.productId,
@@ -221,8 +264,7 @@ const CapacityPlanning: React.FC = () => {
           epicEfforts: []
         });
         setEpics([]);
-      } else {
-        throw new Error('Failed to load capacity plan');
+        setTeamCapacities([]);
       }
     } catch (err: any) {
       setError('Failed to load capacity plan');
@@ -231,50 +273,72 @@ const CapacityPlanning: React.FC = () => {
     }
   };
 
+  // Add a team that just joined the quarter to all existing epics
+  const addTeamToEpics = (team: Team) => {
+    setEpics(prevEpics =>
+      prevEpics.map(epic => ({
+        ...epic,
+        efforts: [...epic.efforts, {
+          id: 0,
+          epicId: epic.epicId,
+          epicName: epic.epicName,
+          teamId: team.id,
+          teamName: team.name,
+          effortDays: 0,
+          notes: ''
+        }]
+      }))
+    );
+  };
+
   const addTeam = async () => {
     if (!product || !newTeam.name.trim()) return;
 
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${product.productId}/capacity-planning/${selectedYear}/${selectedQuarter}/teams`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
-          name: newTeam.name.trim(),
-          description: newTeam.description.trim(),
-          isActive: true
-        })
+      const newTeamData = await capacityService.createTeam(product.productId, selectedYear, selectedQuarter, {
+        name: newTeam.name.trim(),
+        description: newTeam.description.trim(),
+        isActive: true
       });
 
-      if (response.ok) {
-        setNewTeam({ name: '', description: '' });
-        setShowTeamModal(false);
-        const newTeamData = await response.json();
-        await loadTeams();
-        
-        // Add the new team to all existing epics
-        setEpics(prevEpics => 
-          prevEpics.map(epic => ({
-            ...epic,
-            efforts: [...epic.efforts, {
-              id: 0,
-              epicId: epic.epicId,
-              epicName: epic.epicName,
-              teamId: newTeamData.id,
-              teamName: newTeamData.name,
-              effortDays: 0,
-              notes: ''
-            }]
-          }))
-        );
-      } else {
-        const errorText = await response.text();
-        throw new Error(errorText || 'Failed to add team');
-      }
+      setNewTeam({ name: '', description: '' });
+      setShowTeamModal(false);
+      await loadTeams();
+      addTeamToEpics(newTeamData);
+    } catch (err: any) {
+      setError(getResponseMessage(err) || 'Failed to add team');
+    }
+  };
+
+  const addExistingTeam = async () => {
+    if (!product || !existingTeamId) return;
+
+    try {
+      const teamData = await capacityService.addTeam(product.productId, selectedYear, selectedQuarter, parseInt(existingTeamId));
+      setExistingTeamId('');
+      setShowTeamModal(false);
+      await loadTeams();
+      addTeamToEpics(teamData);
+    } catch (err: any) {
+      setError(getResponseMessage(err) || 'Failed to add team');
+    }
+  };
+
+  const previousQuarter = addQuarters({ year: selectedYear, quarter: selectedQuarter }, -1);
+  const teamsOutsideQuarter = allTeams.filter(team => !teams.some(t => t.id === team.id));
+
+  const copyTeamsFromPreviousQuarter = async () => {
+    if (!product) return;
+
+    try {
+      setCopyingTeams(true);
+      await capacityService.copyTeams(product.productId, selectedYear, selectedQuarter, previousQuarter);
+      await loadTeams();
+      await loadCapacityPlan(); // Reload so epics pick up the copied teams
     } catch (err: any) {
-      setError(err.message || 'Failed to add team');
+      setError(getResponseMessage(err) || `Failed to copy teams from ${formatQuarter(previousQuarter.year, previousQuarter.quarter)}`);
+    } finally {
+      setCopyingTeams(false);
     }
   };
 
@@ -282,19 +346,9 @@ const CapacityPlanning: React.FC = () => {
     if (!product || !window.confirm('Are you sure you want to remove this team?')) return;
 
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${product.productId}/capacity-planning/${selectedYear}/${selectedQuarter}/teams/${teamId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        await loadTeams();
-        await loadCapacityPlan(); // Reload to get updated epic efforts
-      } else {
-        throw new Error('Failed to remove team');
-      }
+      await capacityService.deleteTeam(product.productId, selectedYear, selectedQuarter, teamId);
+      await loadTeams();
+      await loadCapacityPlan(); // Reload to get updated epic efforts
     } catch (err: any) {
       setError('Failed to remove team');
     }
@@ -420,21 +474,7 @@ const CapacityPlanning: React.FC = () => {
       // Update roadmap planner with calculated star ratings
       const roadmapUpdatePromises = Object.entries(epicRatings).map(async ([epicId, rating]) => {
         try {
-          const url = `http://localhost:8080/api/products/${product.productId}/roadmap/${selectedYear}/${selectedQuarter}/epics/${epicId}/effort-rating`;
-          
-          const response = await fetch(url, {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${localStorage.getItem('token')}`
-            },
-            body: JSON.stringify({
-              effortRating: rating.starRating
-            })
-          });
-          
-          if (!response.ok) {
-          }
+          await roadmapService.updateEffortRating(product.productId, selectedYear, selectedQuarter, epicId, rating.starRating);
         } catch (err) {
         }
       });
@@ -471,32 +511,19 @@ const CapacityPlanning: React.FC = () => {
         });
       });
 
-      const response = await fetch(
-        `http://localhost:8080/api/products/${product.productId}/capacity-planning/${selectedYear}/${selectedQuarter}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          },
-          body: JSON.stringify({
-            year: selectedYear,
-            quarter: selectedQuarter,
-            effortUnit: effortUnit,
-            epicEfforts: allEfforts
-          })
-        }
-      );
+      await capacityService.saveCapacityPlan(product.productId, selectedYear, selectedQuarter, {
+        year: selectedYear,
+        quarter: selectedQuarter,
+        effortUnit: effortUnit,
+        epicEfforts: allEfforts,
+        teamCapacities: teamCapacities.filter(settings => teams.some(team => team.id === settings.teamId))
+      });
 
-      if (response.ok) {
-        setIsEditMode(false);
-        await loadCapacityPlan(); // Reload to get updated data
-        
-        // Auto-fill effort ratings after saving capacity plan
-        await autoFillEffortRatingsAfterSave();
-      } else {
-        throw new Error('Failed to save capacity plan');
-      }
+      setIsEditMode(false);
+      await loadCapacityPlan(); // Reload to get updated data
+
+      // Auto-fill effort ratings after saving capacity plan
+      await autoFillEffortRatingsAfterSave();
     } catch (err: any) {
       setError('Failed to save capacity plan');
     } finally {
@@ -549,31 +576,20 @@ const CapacityPlanning: React.FC = () => {
     if (!product) return;
     
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${product.productId}/capacity-planning/effort-rating-configs/${config.unitType}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
-          unitType: config.unitType,
-          star1Max: config.star1Max,
-          star2Min: config.star2Min,
-          star2Max: config.star2Max,
-          star3Min: config.star3Min,
-          star3Max: config.star3Max,
-          star4Min: config.star4Min,
-          star4Max: config.star4Max,
-          star5Min: config.star5Min
-        })
+      await capacityService.updateEffortRatingConfig(product.productId, {
+        unitType: config.unitType,
+        star1Max: config.star1Max,
+        star2Min: config.star2Min,
+        star2Max: config.star2Max,
+        star3Min: config.star3Min,
+        star3Max: config.star3Max,
+        star4Min: config.star4Min,
+        star4Max: config.star4Max,
+        star5Min: config.star5Min
       });
 
-      if (response.ok) {
-        await loadEffortRatingConfigs();
-        setEditingRatingConfig(null);
-      } else {
-        throw new Error('Failed to update effort rating config');
-      }
+      await loadEffortRatingConfigs();
+      setEditingRatingConfig(null);
     } catch (err: any) {
       setError('Failed to update effort rating config');
     }
@@ -661,12 +677,33 @@ const CapacityPlanning: React.FC = () => {
             <span className="material-icons capacity-icon">groups</span>
             <div className="capacity-details">
               <h2>Q{selectedQuarter} {selectedYear} Capacity Plan</h2>
-              <p>{epics.length} epics • {teams.length} teams</p>
+              <p>
+                {epics.length} epics • {teams.length} teams
+                {showVelocity && productVelocity !== null && (
+                  <> • Avg velocity {Math.round(productVelocity)} pts/sprint</>
+                )}
+                {showVelocity && velocityUnavailable && (
+                  <span className="velocity-unavailable" title="Sprint capacity is worked out from team members only">
+                    {' '}• Velocity unavailable
+                  </span>
+                )}
+              </p>
             </div>
           </div>
 
           <div className="capacity-actions">
-            
+            <button
+              onClick={copyTeamsFromPreviousQuarter}
+              className="add-team-btn"
+              disabled={copyingTeams}
+              title="Add last quarter's teams, with who was on them, to this quarter"
+            >
+              <span className="material-icons">content_copy</span>
+              {copyingTeams
+                ? 'Copying...'
+                : `Copy teams from ${formatQuarter(previousQuarter.year, previousQuarter.quarter)}`}
+            </button>
+
             <button
               onClick={() => setShowSettingsModal(true)}
               className="settings-btn"
@@ -677,13 +714,15 @@ const CapacityPlanning: React.FC = () => {
           </div>
         </div>
 
+        <CapacityDemandBar loads={teamLoads} effortUnit={effortUnit} />
+
         {epics.length === 0 ? (
           <div className="empty-state">
             <span className="material-icons">timeline</span>
             <h3>No Epics or Teams for Q{selectedQuarter} {selectedYear}</h3>
             {teams.length === 0 ? (
               <p>
-                <strong>Start by adding teams:</strong> Click "Add Team" above to create teams for this quarter.
+                <strong>Start by adding teams:</strong> Copy last quarter's teams, or add teams in settings.
                 Once teams are added, epics from your roadmap will automatically appear here for capacity planning.
               </p>
             ) : (
@@ -710,9 +749,23 @@ const CapacityPlanning: React.FC = () => {
                           </button>
                         )}
                       </div>
+                      {showVelocity && getTeamVelocity(team.id) !== null && (
+                        <div
+                          className="team-velocity"
+                          title={
+                            'Average completed points over recent sprints. Sprint capacity counts the ' +
+                            `${Math.round(getTeamDeliveryRate(team.id) * 100)}% of committed points delivered` +
+                            (hasTeamVelocity(team.id) ? '' : ', from all sprints of the product')
+                          }
+                        >
+                          {Math.round(getTeamVelocity(team.id)!)} pts/sprint
+                          {!hasTeamVelocity(team.id) && ' (product avg)'}
+                        </div>
+                      )}
                     </th>
                   ))}
                   <th className="col-total">Total</th>
+                  {showCosts && <th className="col-cost">Cost</th>}
                 </tr>
               </thead>
               <tbody>
@@ -751,6 +804,7 @@ const CapacityPlanning: React.FC = () => {
                     <td className="total-cell">
                       <span className="total-effort">{getTotalEffortForEpic(epic)} {effortUnit.toLowerCase()}</span>
                     </td>
+                    {showCosts && <td className="cost-cell">{renderCost(getEffortCost(epic.efforts))}</td>}
                   </tr>
                 ))}
                 <tr className="totals-row">
@@ -760,6 +814,16 @@ const CapacityPlanning: React.FC = () => {
                   {teams.map(team => (
                     <td key={team.id} className="team-total-cell">
                       <strong>{getTotalEffortForTeam(team.id)} {effortUnit.toLowerCase()}</strong>
+                      {showVelocity && getTeamVelocity(team.id) !== null && (
+                        <div className="team-total-points">
+                          ≈ {Math.round(getTotalEffortForTeam(team.id) * getTeamVelocity(team.id)!)} pts
+                        </div>
+                      )}
+                      {showCosts && (
+                        <div className="team-total-cost">
+                          {renderCost(getEffortCost(epics.flatMap(epic => epic.efforts).filter(e => e.teamId === team.id)))}
+                        </div>
+                      )}
                     </td>
                   ))}
                   <td className="grand-total-cell">
@@ -767,6 +831,11 @@ const CapacityPlanning: React.FC = () => {
                       {epics.reduce((total, epic) => total + getTotalEffortForEpic(epic), 0)} {effortUnit.toLowerCase()}
                     </strong>
                   </td>
+                  {showCosts && (
+                    <td className="grand-total-cell cost-cell">
+                      <strong>{renderCost(getEffortCost(epics.flatMap(epic => epic.efforts)))}</strong>
+                    </td>
+                  )}
                 </tr>
               </tbody>
             </table>
@@ -844,6 +913,62 @@ const CapacityPlanning: React.FC = () => {
                 </div>
               </div>
 
+              {/* Team Capacity Section */}
+              <div className="settings-section">
+                <h4>Team Capacity</h4>
+                <p className="section-description">
+                  Each member's working days in the quarter after their public holidays, time off and FTE, less the team's
+                  holiday days, at the share of time left for roadmap work.
+                  Saved with the capacity plan.
+                </p>
+                {teams.length === 0 ? (
+                  <p className="no-teams">No teams configured</p>
+                ) : (
+                  <table className="team-capacity-table">
+                    <thead>
+                      <tr>
+                        <th>Team</th>
+                        <th>Members</th>
+                        <th>Holidays (days)</th>
+                        <th>Allocation %</th>
+                        <th>Capacity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {teams.map(team => {
+                        const settings = getTeamCapacitySettings(team.id);
+                        return (
+                          <tr key={team.id}>
+                            <td>{team.name}</td>
+                            <td>{(teamMembers.get(team.id) || []).length}</td>
+                            <td>
+                              <input
+                                type="number"
+                                min={0}
+                                value={settings.holidayDays}
+                                onChange={(e) => updateTeamCapacity(team.id, { holidayDays: Math.max(parseInt(e.target.value) || 0, 0) })}
+                              />
+                            </td>
+                            <td>
+                              <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={settings.allocationPercent}
+                                onChange={(e) => updateTeamCapacity(team.id, {
+                                  allocationPercent: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100),
+                                })}
+                              />
+                            </td>
+                            <td>{getTeamCapacity(team.id)} {effortUnit.toLowerCase()}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
               {/* Effort Rating Configuration Section */}
               <div className="settings-section">
                 <h4>Auto-Fill Effort Ratings</h4>
@@ -919,6 +1044,28 @@ const CapacityPlanning: React.FC = () => {
               </button>
             </div>
             <div className="modal-body">
+              {teamsOutsideQuarter.length > 0 && (
+                <div className="form-group existing-team-group">
+                  <label htmlFor="existingTeam">Existing team</label>
+                  <div className="existing-team-row">
+                    <select
+                      id="existingTeam"
+                      value={existingTeamId}
+                      onChange={(e) => setExistingTeamId(e.target.value)}
+                      className="form-input"
+                    >
+                      <option value="">Select a team from another quarter...</option>
+                      {teamsOutsideQuarter.map(team => (
+                        <option key={team.id} value={team.id}>{team.name}</option>
+                      ))}
+                    </select>
+                    <button onClick={addExistingTeam} className="btn-confirm" disabled={!existingTeamId}>
+                      Add
+                    </button>
+                  </div>
+                  <p className="existing-team-hint">Or create a new team:</p>
+                </div>
+              )}
               <div className="form-group">
                 <label htmlFor="teamName">Team Name</label>
                 <input
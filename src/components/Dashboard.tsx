@@ -174,7 +174,7 @@ const Dashboard: React.FC = () => {
               <div 
                 key={product.productId} 
                 className="product-card clickable"
-                onClick={() => navigate(`/products/${product.slug || toSlug(product.productName)}/modules`)}
+                onClick={() => navigate(`/products/${product.slug || toSlug(product.productName)}`)}
               >
                 <div className="product-header">
                   <h4 className="product-name">{product.productName}</h4>
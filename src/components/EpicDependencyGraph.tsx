@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { Epic } from '../types/backlog';
+import { getBlockerIds, getCyclicEpicIds, getDependencyLevels } from '../utils/epicDependencies';
+import './EpicDependencyGraph.css';
+
+interface EpicDependencyGraphProps {
+  epics: Epic[];
+  onSelectEpic: (epic: Epic) => void;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 48;
+const COLUMN_GAP = 90;
+const ROW_GAP = 20;
+const PADDING = 16;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const EpicDependencyGraph: React.FC<EpicDependencyGraphProps> = ({ epics, onSelectEpic }) => {
+  const [linkedOnly, setLinkedOnly] = useState(true);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const linkedIds = useMemo(() => {
+    const ids = new Set<string>();
+    epics.forEach(epic => {
+      const blockers = getBlockerIds(epic, epics);
+      if (blockers.length) {
+        ids.add(epic.id);
+        blockers.forEach(id => ids.add(id));
+      }
+    });
+    return ids;
+  }, [epics]);
+
+  const visibleEpics = useMemo(
+    () => (linkedOnly ? epics.filter(epic => linkedIds.has(epic.id)) : epics),
+    [epics, linkedOnly, linkedIds]
+  );
+  const cyclicIds = useMemo(() => getCyclicEpicIds(epics), [epics]);
+
+  const layout = useMemo(() => {
+    const levels = getDependencyLevels(visibleEpics);
+    const columns: Epic[][] = [];
+    visibleEpics.forEach(epic => {
+      const level = levels.get(epic.id) || 0;
+      columns[level] = [...(columns[level] || []), epic];
+    });
+
+    const positions = new Map<string, { x: number; y: number }>();
+    columns.forEach((column, level) => {
+      column.forEach((epic, row) => {
+        positions.set(epic.id, {
+          x: PADDING + level * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+        });
+      });
+    });
+
+    const rows = Math.max(...columns.map(column => column?.length || 0), 1);
+    return {
+      positions,
+      width: PADDING * 2 + columns.length * NODE_WIDTH + Math.max(columns.length - 1, 0) * COLUMN_GAP,
+      height: PADDING * 2 + rows * NODE_HEIGHT + (rows - 1) * ROW_GAP,
+    };
+  }, [visibleEpics]);
+
+  const edges = visibleEpics.flatMap(epic =>
+    getBlockerIds(epic, epics)
+      .filter(blockerId => layout.positions.has(blockerId))
+      .map(blockerId => ({ from: blockerId, to: epic.id }))
+  );
+
+  const isHighlighted = (edge: { from: string; to: string }) =>
+    hoveredId !== null && (edge.from === hoveredId || edge.to === hoveredId);
+
+  return (
+    <div className="dependency-graph">
+      <div className="dependency-graph-toolbar">
+        <label className="dependency-graph-toggle">
+          <input type="checkbox" checked={linkedOnly} onChange={(e) => setLinkedOnly(e.target.checked)} />
+          Only show linked epics
+        </label>
+        <span className="dependency-graph-hint">Arrows point from a blocker to the epic it blocks</span>
+      </div>
+
+      {cyclicIds.size > 0 && (
+        <div className="dependency-graph-warning">
+          <span className="material-icons">sync_problem</span>
+          {cyclicIds.size} epics are part of a dependency cycle. Remove one of the highlighted links to resolve it.
+        </div>
+      )}
+
+      {visibleEpics.length === 0 ? (
+        <div className="empty-state-table">
+          <span className="empty-text">
+            No dependencies yet. Open an epic and add the epics that block it.
+          </span>
+        </div>
+      ) : (
+        <div className="dependency-graph-canvas">
+          <svg width={layout.width} height={layout.height} role="img" aria-label="Epic dependency graph">
+            <defs>
+              <marker id="dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" className="dependency-arrow-head" />
+              </marker>
+            </defs>
+
+            {edges.map(edge => {
+              const from = layout.positions.get(edge.from)!;
+              const to = layout.positions.get(edge.to)!;
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const bend = Math.max(Math.abs(x2 - x1) / 2, 40);
+              const cyclic = cyclicIds.has(edge.from) && cyclicIds.has(edge.to);
+              return (
+                <path
+                  key={`${edge.from}-${edge.to}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  className={`dependency-edge ${cyclic ? 'cyclic' : ''} ${isHighlighted(edge) ? 'highlighted' : ''}`}
+                  markerEnd="url(#dependency-arrow)"
+                />
+              );
+            })}
+
+            {visibleEpics.map(epic => {
+              const position = layout.positions.get(epic.id)!;
+              return (
+                <g
+                  key={epic.id}
+                  className={`dependency-node ${cyclicIds.has(epic.id) ? 'cyclic' : ''}`}
+                  transform={`translate(${position.x}, ${position.y})`}
+                  onClick={() => onSelectEpic(epic)}
+                  onMouseEnter={() => setHoveredId(epic.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                >
+                  <title>{epic.name}</title>
+                  <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={10} />
+                  <rect width={5} height={NODE_HEIGHT} rx={2} fill={epic.themeColor || 'var(--primary-teal)'} />
+                  <text x={16} y={20} className="dependency-node-name">{truncate(epic.name, 24)}</text>
+                  <text x={16} y={36} className="dependency-node-meta">
+                    {truncate(epic.themeName || epic.track || '', 28)}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpicDependencyGraph;
@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { resourcePlanningService } from '../services/resourcePlanningService';
+import { roadmapService } from '../services/roadmapService';
+import { EffortUnit, EpicEffort } from '../types/capacity';
+import { PublicHoliday, RateCard, ResourceAssignment, TeamMember } from '../types/resourcePlanning.types';
+import { InitiativeBudget, RoadmapItem } from '../types/roadmap';
+import {
+  CostRollup,
+  DEFAULT_CURRENCY,
+  formatCost,
+  formatCostTotals,
+  getBudgetStatus,
+  rollUpAssignmentCosts,
+  rollUpEffortCosts,
+} from '../utils/costs';
+import { formatQuarter, getQuarterBounds } from '../utils/quarterUtils';
+import './InitiativeBudgets.css';
+
+interface InitiativeBudgetsProps {
+  productId: number;
+  year: number;
+  quarter: number;
+  roadmapItems: RoadmapItem[];
+  epicEfforts: EpicEffort[];
+  effortUnit: EffortUnit;
+  getTeamMembers: (teamId: number) => TeamMember[];
+  holidays: PublicHoliday[];
+}
+
+interface InitiativeRow {
+  initiativeId: string;
+  initiativeName: string;
+  epicIds: Set<string>;
+}
+
+interface BudgetDraft {
+  amount: string;
+  currency: string;
+}
+
+// Epics without an initiative are costed but can't carry a budget
+const UNASSIGNED_ID = '';
+
+// Everything not in the budget's currency, which can't be compared against it
+const getOtherCurrencies = (rollup: CostRollup, currency: string) =>
+  Object.fromEntries(Object.entries(rollup.totals).filter(([code]) => code !== currency));
+
+const InitiativeBudgets: React.FC<InitiativeBudgetsProps> = ({
+  productId,
+  year,
+  quarter,
+  roadmapItems,
+  epicEfforts,
+  effortUnit,
+  getTeamMembers,
+  holidays,
+}) => {
+  const [budgets, setBudgets] = useState<InitiativeBudget[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [assignments, setAssignments] = useState<ResourceAssignment[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, BudgetDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadCosts = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const [budgetData, rateCardData, assignmentData, memberData] = await Promise.all([
+          roadmapService.getBudgets(productId, year, quarter),
+          resourcePlanningService.getRateCards(productId),
+          resourcePlanningService.getAllAssignments(productId),
+          resourcePlanningService.getAllMembers(productId),
+        ]);
+        setBudgets(budgetData);
+        setRateCards(rateCardData);
+        setAssignments(assignmentData);
+        setMembers(memberData);
+        setDrafts({});
+      } catch (err) {
+        setError('Failed to load budgets and costs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCosts();
+  }, [productId, year, quarter]);
+
+  const initiatives = useMemo(() => {
+    const rows = new Map<string, InitiativeRow>();
+    roadmapItems.forEach(item => {
+      const initiativeId = item.initiativeId || UNASSIGNED_ID;
+      if (!rows.has(initiativeId)) {
+        rows.set(initiativeId, {
+          initiativeId,
+          initiativeName: item.initiativeName || (initiativeId ? initiativeId : 'No initiative'),
+          epicIds: new Set(),
+        });
+      }
+      rows.get(initiativeId)!.epicIds.add(item.epicId);
+    });
+    // Unassigned epics go last
+    return Array.from(rows.values()).sort((a, b) =>
+      a.initiativeId === UNASSIGNED_ID ? 1 : b.initiativeId === UNASSIGNED_ID ? -1 : a.initiativeName.localeCompare(b.initiativeName)
+    );
+  }, [roadmapItems]);
+
+  const { start, end } = getQuarterBounds(year, quarter);
+  const defaultCurrency = rateCards[0]?.currency || DEFAULT_CURRENCY;
+
+  const getBudget = (initiativeId: string) => budgets.find(budget => budget.initiativeId === initiativeId);
+
+  const getDraft = (initiativeId: string): BudgetDraft => {
+    const budget = getBudget(initiativeId);
+    return drafts[initiativeId] || {
+      amount: budget ? String(budget.amount) : '',
+      currency: budget?.currency || defaultCurrency,
+    };
+  };
+
+  const isDirty = (initiativeId: string) => {
+    const draft = drafts[initiativeId];
+    if (!draft) return false;
+    const budget = getBudget(initiativeId);
+    return (parseFloat(draft.amount) || 0) !== (budget?.amount || 0) || draft.currency !== (budget?.currency || defaultCurrency);
+  };
+
+  const updateDraft = (initiativeId: string, changes: Partial<BudgetDraft>) => {
+    setDrafts(prev => ({ ...prev, [initiativeId]: { ...getDraft(initiativeId), ...changes } }));
+  };
+
+  const saveBudget = async (row: InitiativeRow) => {
+    const draft = getDraft(row.initiativeId);
+    try {
+      setSavingId(row.initiativeId);
+      setError('');
+      const saved = await roadmapService.saveBudget(productId, {
+        initiativeId: row.initiativeId,
+        initiativeName: row.initiativeName,
+        year,
+        quarter,
+        amount: Math.max(parseFloat(draft.amount) || 0, 0),
+        currency: draft.currency.trim().toUpperCase() || defaultCurrency,
+      });
+      setBudgets(prev => [...prev.filter(budget => budget.initiativeId !== row.initiativeId), saved]);
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[row.initiativeId];
+        return next;
+      });
+    } catch (err) {
+      setError(`Failed to save the budget for ${row.initiativeName}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="budgets-loading">
+        <span className="material-icons">hourglass_empty</span>
+        Loading budgets...
+      </div>
+    );
+  }
+
+  if (initiatives.length === 0) {
+    return (
+      <div className="budgets-empty">
+        <span className="material-icons">savings</span>
+        <p>Add epics to {formatQuarter(year, quarter)} to track their cost against initiative budgets.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="initiative-budgets">
+      {error && (
+        <div className="budgets-error">
+          <span className="material-icons">error</span>
+          {error}
+        </div>
+      )}
+
+      <p className="budgets-explainer">
+        <strong>Planned</strong> is the estimated effort from capacity planning priced at each team's average
+        rate. <strong>Committed</strong> is the assigned working days in {formatQuarter(year, quarter)} priced at
+        each member's rate.
+        {rateCards.length === 0 && ' Add rate cards in resource planning to see costs.'}
+      </p>
+
+      <table className="budgets-table">
+        <thead>
+          <tr>
+            <th>Initiative</th>
+            <th>Budget</th>
+            <th>Planned</th>
+            <th>Committed</th>
+            <th className="budgets-col-bar">Spend vs budget</th>
+          </tr>
+        </thead>
+        <tbody>
+          {initiatives.map(row => {
+            const planned = rollUpEffortCosts(epicEfforts, effortUnit, getTeamMembers, rateCards, row.epicIds);
+            const committed = rollUpAssignmentCosts(members, assignments, rateCards, holidays, { start, end }, row.epicIds);
+            const budget = getBudget(row.initiativeId);
+            const currency = budget?.currency || defaultCurrency;
+            const plannedAmount = planned.totals[currency] || 0;
+            const committedAmount = committed.totals[currency] || 0;
+            const status = getBudgetStatus(budget?.amount, Math.max(plannedAmount, committedAmount));
+            const scale = Math.max(budget?.amount || 0, plannedAmount, committedAmount, 1);
+            const otherPlanned = getOtherCurrencies(planned, currency);
+            const otherCommitted = getOtherCurrencies(committed, currency);
+            const draft = getDraft(row.initiativeId);
+
+            return (
+              <tr key={row.initiativeId || 'unassigned'} className={`budget-row ${status}`}>
+                <td>
+                  <strong>{row.initiativeName}</strong>
+                  <span className="budgets-meta">{row.epicIds.size} epics</span>
+                </td>
+                <td>
+                  {row.initiativeId === UNASSIGNED_ID ? (
+                    <span className="budgets-meta">—</span>
+                  ) : (
+                    <div className="budget-input">
+                      <input
+                        type="number"
+                        min={0}
+                        value={draft.amount}
+                        onChange={(e) => updateDraft(row.initiativeId, { amount: e.target.value })}
+                        placeholder="No budget"
+                        aria-label={`${row.initiativeName} budget`}
+                      />
+                      <input
+                        type="text"
+                        value={draft.currency}
+                        onChange={(e) => updateDraft(row.initiativeId, { currency: e.target.value })}
+                        maxLength={3}
+                        aria-label={`${row.initiativeName} currency`}
+                      />
+                      {isDirty(row.initiativeId) && (
+                        <button
+                          className="budget-save-btn"
+                          onClick={() => saveBudget(row)}
+                          disabled={savingId === row.initiativeId}
+                        >
+                          {savingId === row.initiativeId ? 'Saving...' : 'Save'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </td>
+                <td>
+                  {formatCost(plannedAmount, currency)}
+                  {Object.keys(otherPlanned).length > 0 && (
+                    <span className="budgets-meta">+ {formatCostTotals(otherPlanned)}</span>
+                  )}
+                  {planned.unpricedCount > 0 && (
+                    <span className="budgets-meta">{planned.unpricedCount} estimates without rates</span>
+                  )}
+                </td>
+                <td>
+                  {formatCost(committedAmount, currency)}
+                  {Object.keys(otherCommitted).length > 0 && (
+                    <span className="budgets-meta">+ {formatCostTotals(otherCommitted)}</span>
+                  )}
+                  {committed.unpricedCount > 0 && (
+                    <span className="budgets-meta">{committed.unpricedCount} assignments without rates</span>
+                  )}
+                </td>
+                <td className="budgets-col-bar">
+                  <div className="budget-bar" title={`Planned ${formatCost(plannedAmount, currency)}, committed ${formatCost(committedAmount, currency)}`}>
+                    <div className="budget-bar-planned" style={{ width: `${(plannedAmount / scale) * 100}%` }} />
+                    <div className="budget-bar-committed" style={{ width: `${(committedAmount / scale) * 100}%` }} />
+                    {budget && budget.amount > 0 && (
+                      <span className="budget-bar-limit" style={{ left: `${(budget.amount / scale) * 100}%` }} />
+                    )}
+                  </div>
+                  {status === 'over' && (
+                    <span className="budget-status over">
+                      <span className="material-icons">warning</span>
+                      Over by {formatCost(Math.max(plannedAmount, committedAmount) - (budget?.amount || 0), currency)}
+                    </span>
+                  )}
+                  {status === 'near' && <span className="budget-status near">Close to budget</span>}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="budgets-legend">
+        <span><span className="budgets-swatch planned" />Planned</span>
+        <span><span className="budgets-swatch committed" />Committed</span>
+        <span><span className="budgets-swatch limit" />Budget</span>
+      </div>
+    </div>
+  );
+};
+
+export default InitiativeBudgets;
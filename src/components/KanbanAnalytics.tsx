@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { kanbanService } from '../services/kanbanService';
+import { KanbanColumnConfig, KanbanItemType, KanbanStatusTransition } from '../types/kanban';
+import {
+  average,
+  buildCumulativeFlow,
+  computeAgingWip,
+  computeItemMetrics,
+  computeWeeklyThroughput,
+  FlowItem,
+  percentile,
+} from '../utils/kanbanAnalytics';
+import './KanbanAnalytics.css';
+
+interface KanbanAnalyticsProps {
+  productId: number;
+  itemType: KanbanItemType;
+  items: FlowItem[];
+  columns: KanbanColumnConfig[];
+}
+
+const RANGE_OPTIONS = [30, 60, 90];
+const THROUGHPUT_WEEKS = 12;
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 240;
+
+const formatDays = (days?: number) => (days === undefined ? '-' : `${days.toFixed(1)}d`);
+
+const formatShortDate = (date?: Date) =>
+  date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '-';
+
+const KanbanAnalytics: React.FC<KanbanAnalyticsProps> = ({ productId, itemType, items, columns }) => {
+  const [transitions, setTransitions] = useState<KanbanStatusTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [rangeDays, setRangeDays] = useState(30);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        setTransitions(await kanbanService.getHistory(productId, itemType));
+      } catch (err) {
+        setError('Failed to load status history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [productId, itemType]);
+
+  const flow = useMemo(
+    () => buildCumulativeFlow(items, transitions, columns, rangeDays),
+    [items, transitions, columns, rangeDays]
+  );
+  const metrics = useMemo(() => computeItemMetrics(items, transitions, columns), [items, transitions, columns]);
+  const throughput = useMemo(() => computeWeeklyThroughput(metrics, THROUGHPUT_WEEKS), [metrics]);
+  const aging = useMemo(() => computeAgingWip(items, transitions, columns), [items, transitions, columns]);
+
+  const finished = metrics
+    .filter(metric => metric.finishedAt)
+    .sort((a, b) => b.finishedAt!.getTime() - a.finishedAt!.getTime());
+  const cycleTimes = finished.flatMap(metric => (metric.cycleTimeDays !== undefined ? [metric.cycleTimeDays] : []));
+  const leadTimes = finished.flatMap(metric => (metric.leadTimeDays !== undefined ? [metric.leadTimeDays] : []));
+  const cycleTime85 = percentile(cycleTimes, 85);
+  const maxThroughput = Math.max(...throughput.map(week => week.count), 1);
+  const recentThroughput = average(throughput.slice(-4).map(week => week.count));
+
+  const getColumn = (id: string) => columns.find(column => column.id === id);
+
+  // Later columns are stacked at the bottom so finished work forms the base of the diagram
+  const cfdPaths = useMemo(() => {
+    if (flow.length === 0) return [];
+    const stackOrder = [...columns].reverse();
+    const maxTotal = Math.max(...flow.map(point => Object.values(point.counts).reduce((sum, c) => sum + c, 0)), 1);
+    const x = (index: number) => (flow.length === 1 ? 0 : (index / (flow.length - 1)) * CHART_WIDTH);
+    const y = (value: number) => CHART_HEIGHT - (value / maxTotal) * CHART_HEIGHT;
+
+    const baseline = flow.map(() => 0);
+    return stackOrder.map(column => {
+      const lower = [...baseline];
+      flow.forEach((point, i) => {
+        baseline[i] += point.counts[column.id] || 0;
+      });
+      const top = baseline.map((value, i) => `${x(i)},${y(value)}`);
+      const bottom = lower.map((value, i) => `${x(i)},${y(value)}`).reverse();
+      return { column, points: [...top, ...bottom].join(' ') };
+    });
+  }, [flow, columns]);
+
+  if (loading) {
+    return (
+      <div className="loading-state">
+        <span className="material-icons">hourglass_empty</span>
+        Loading analytics...
+      </div>
+    );
+  }
+
+  return (
+    <div className="kanban-analytics">
+      {error && (
+        <div className="error-message">
+          <span className="material-icons">error</span>
+          {error}
+        </div>
+      )}
+
+      <div className="analytics-summary">
+        <div className="analytics-stat">
+          <span className="analytics-stat-value">{formatDays(cycleTimes.length ? average(cycleTimes) : undefined)}</span>
+          <span className="analytics-stat-label">Avg. cycle time</span>
+        </div>
+        <div className="analytics-stat">
+          <span className="analytics-stat-value">{formatDays(cycleTimes.length ? cycleTime85 : undefined)}</span>
+          <span className="analytics-stat-label">85th percentile cycle time</span>
+        </div>
+        <div className="analytics-stat">
+          <span className="analytics-stat-value">{formatDays(leadTimes.length ? average(leadTimes) : undefined)}</span>
+          <span className="analytics-stat-label">Avg. lead time</span>
+        </div>
+        <div className="analytics-stat">
+          <span className="analytics-stat-value">{recentThroughput.toFixed(1)}</span>
+          <span className="analytics-stat-label">Finished per week (last 4)</span>
+        </div>
+        <div className="analytics-stat">
+          <span className="analytics-stat-value">{aging.length}</span>
+          <span className="analytics-stat-label">Work in progress</span>
+        </div>
+      </div>
+
+      <div className="analytics-card">
+        <div className="analytics-card-header">
+          <h3>
+            <span className="material-icons">stacked_line_chart</span>
+            Cumulative Flow
+          </h3>
+          <select
+            className="analytics-range-select"
+            value={rangeDays}
+            onChange={(e) => setRangeDays(parseInt(e.target.value))}
+          >
+            {RANGE_OPTIONS.map(days => (
+              <option key={days} value={days}>Last {days} days</option>
+            ))}
+          </select>
+        </div>
+        <svg
+          className="cfd-chart"
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label="Cumulative flow diagram"
+        >
+          {cfdPaths.map(({ column, points }) => (
+            <polygon key={column.id} points={points} fill={column.color} fillOpacity={0.85}>
+              <title>{column.title}</title>
+            </polygon>
+          ))}
+        </svg>
+        <div className="cfd-axis">
+          <span>{formatShortDate(flow[0]?.date)}</span>
+          <span>{formatShortDate(flow[flow.length - 1]?.date)}</span>
+        </div>
+        <div className="cfd-legend">
+          {columns.map(column => (
+            <span key={column.id} className="cfd-legend-item">
+              <span className="cfd-legend-swatch" style={{ backgroundColor: column.color }} />
+              {column.title}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="analytics-card">
+        <div className="analytics-card-header">
+          <h3>
+            <span className="material-icons">bar_chart</span>
+            Weekly Throughput
+          </h3>
+        </div>
+        <div className="throughput-chart">
+          {throughput.map(week => (
+            <div key={week.weekStart.getTime()} className="throughput-week" title={`${week.count} finished`}>
+              <span className="throughput-count">{week.count}</span>
+              <div className="throughput-bar" style={{ height: `${(week.count / maxThroughput) * 100}%` }} />
+              <span className="throughput-label">{formatShortDate(week.weekStart)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="analytics-grid">
+        <div className="analytics-card">
+          <div className="analytics-card-header">
+            <h3>
+              <span className="material-icons">timer</span>
+              Cycle &amp; Lead Time
+            </h3>
+          </div>
+          {finished.length === 0 ? (
+            <p className="analytics-empty">No finished items with recorded history yet.</p>
+          ) : (
+            <table className="analytics-table">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Finished</th>
+                  <th>Cycle</th>
+                  <th>Lead</th>
+                </tr>
+              </thead>
+              <tbody>
+                {finished.map(metric => (
+                  <tr key={metric.id}>
+                    <td className="analytics-item-title">{metric.title}</td>
+                    <td>{formatShortDate(metric.finishedAt)}</td>
+                    <td>{formatDays(metric.cycleTimeDays)}</td>
+                    <td>{formatDays(metric.leadTimeDays)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="analytics-card">
+          <div className="analytics-card-header">
+            <h3>
+              <span className="material-icons">hourglass_bottom</span>
+              Aging Work in Progress
+            </h3>
+          </div>
+          {aging.length === 0 ? (
+            <p className="analytics-empty">Nothing is in progress.</p>
+          ) : (
+            <table className="analytics-table">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Column</th>
+                  <th>In column</th>
+                  <th>Age</th>
+                </tr>
+              </thead>
+              <tbody>
+                {aging.map(item => (
+                  <tr
+                    key={item.id}
+                    className={cycleTimes.length && item.ageDays > cycleTime85 ? 'aging-overdue' : ''}
+                  >
+                    <td className="analytics-item-title">{item.title}</td>
+                    <td>{getColumn(item.status)?.title || item.status}</td>
+                    <td>{formatDays(item.daysInColumn)}</td>
+                    <td>{formatDays(item.ageDays)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {cycleTimes.length > 0 && aging.length > 0 && (
+            <p className="analytics-footnote">
+              Highlighted items are older than the 85th percentile cycle time ({formatDays(cycleTime85)}).
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KanbanAnalytics;
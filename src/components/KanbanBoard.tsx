@@ -1,55 +1,43 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useProduct } from '../hooks/useProduct';
+import { kanbanService } from '../services/kanbanService';
+import { backlogService } from '../services/backlogService';
+import {
+  KanbanItem,
+  EpicKanbanItem,
+  KanbanColumns,
+  KanbanColumnConfig,
+  KanbanFilter,
+  KanbanFilterPreset,
+  KanbanItemType,
+  WipLimitPolicy
+} from '../types/kanban';
+import { DEFAULT_KANBAN_COLUMNS, groupByColumns, isOverWipLimit, sortColumns, wouldExceedWipLimit } from '../utils/kanbanColumns';
+import { FlowItem } from '../utils/kanbanAnalytics';
+import {
+  applyFilterToSearchParams,
+  filterColumns,
+  filterFromSearchParams,
+  getFilterOptions,
+  matchesEpicFilter,
+  matchesFilter
+} from '../utils/kanbanFilters';
+import { applyLaneKey, buildSwimlanes, getLaneKey, KanbanSwimlaneBy } from '../utils/kanbanSwimlanes';
+import { Epic } from '../types/backlog';
+import KanbanColumnSettings from './KanbanColumnSettings';
+import KanbanAnalytics from './KanbanAnalytics';
+import KanbanBurnCharts from './KanbanBurnCharts';
+import KanbanFilterBar from './KanbanFilterBar';
 import './KanbanBoard.css';
 
-interface KanbanItem {
-  id: number;
-  title: string;
-  description?: string;
-  status: string;
-  position: number;
-  priority?: string;
-  assignee?: string;
-  dueDate?: string;
-  labels?: string;
-  epicId?: string;
-  storyPoints?: number;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-interface EpicKanbanItem {
-  id: number;
-  epicName: string;
-  description?: string;
-  status: string;
-  position: number;
-  priority?: string;
-  targetQuarter?: string;
-  startDate?: string;
-  endDate?: string;
-  totalStoryPoints?: number;
-  completedStoryPoints?: number;
-  userStoriesCount?: number;
-}
-
 const KanbanBoard: React.FC = () => {
   const navigate = useNavigate();
   const { productSlug } = useParams<{ productSlug: string }>();
   const { product, loading: productLoading, error: productError } = useProduct(productSlug);
-  const [kanbanItems, setKanbanItems] = useState<{ [key: string]: KanbanItem[] }>({
-    COMMITTED: [],
-    TODO: [],
-    IN_PROGRESS: [],
-    DONE: []
-  });
-  const [epicKanbanItems, setEpicKanbanItems] = useState<{ [key: string]: EpicKanbanItem[] }>({
-    COMMITTED: [],
-    TODO: [],
-    IN_PROGRESS: [],
-    DONE: []
-  });
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [kanbanItems, setKanbanItems] = useState<KanbanColumns<KanbanItem>>({});
+  const [epicKanbanItems, setEpicKanbanItems] = useState<KanbanColumns<EpicKanbanItem>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
@@ -59,123 +47,221 @@ const KanbanBoard: React.FC = () => {
   const [draggedEpic, setDraggedEpic] = useState<EpicKanbanItem | null>(null);
   const [draggedOverColumn, setDraggedOverColumn] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'epic' | 'userstory'>('epic');
+  const [activeTab, setActiveTab] = useState<'board' | 'analytics' | 'burn'>('board');
+  const [swimlaneBy, setSwimlaneBy] = useState<KanbanSwimlaneBy>('none');
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const [epicNames, setEpicNames] = useState<Record<string, string>>({});
+  const [columns, setColumns] = useState<KanbanColumnConfig[]>(DEFAULT_KANBAN_COLUMNS);
+  const [wipPolicy, setWipPolicy] = useState<WipLimitPolicy>('WARN');
+  const [columnsLoaded, setColumnsLoaded] = useState(false);
+  const [showColumnSettings, setShowColumnSettings] = useState(false);
+  const [filterPresets, setFilterPresets] = useState<KanbanFilterPreset[]>([]);
+
+  // The URL is the source of truth for the active filter so filtered boards can be shared
+  const filter = useMemo(() => filterFromSearchParams(searchParams), [searchParams]);
+  const setFilter = (nextFilter: KanbanFilter) => {
+    setSearchParams(applyFilterToSearchParams(searchParams, nextFilter), { replace: true });
+  };
 
-  const columns = [
-    { id: 'COMMITTED', title: 'Committed', color: '#64748b' },
-    { id: 'TODO', title: 'To-Do', color: '#6366f1' },
-    { id: 'IN_PROGRESS', title: 'In-Progress', color: '#f59e0b' },
-    { id: 'DONE', title: 'Done', color: '#10b981' }
-  ];
-
+  const loadColumns = useCallback(async () => {
+    if (!product?.productId) return;
+    try {
+      const config = await kanbanService.getBoardConfig(product.productId);
+      if (config?.columns?.length) {
+        setColumns(sortColumns(config.columns));
+      }
+      if (config?.wipPolicy) {
+        setWipPolicy(config.wipPolicy);
+      }
+    } catch (err) {
+      // Fall back to the default columns
+    } finally {
+      setColumnsLoaded(true);
+    }
+  }, [product]);
 
   const loadKanbanItems = useCallback(async () => {
     if (!product?.productId) return;
     try {
       setLoading(true);
-      const endpoint = viewMode === 'epic'
-        ? `http://localhost:8080/api/v3/products/${product.productId}/kanban/epics`
-        : `http://localhost:8080/api/v3/products/${product.productId}/kanban`;
-
-      const response = await fetch(endpoint, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (viewMode === 'epic') {
-          setEpicKanbanItems({
-            COMMITTED: data.COMMITTED || [],
-            TODO: data.TODO || [],
-            IN_PROGRESS: data.IN_PROGRESS || [],
-            DONE: data.DONE || []
-          });
-        } else {
-          setKanbanItems({
-            COMMITTED: data.COMMITTED || [],
-            TODO: data.TODO || [],
-            IN_PROGRESS: data.IN_PROGRESS || [],
-            DONE: data.DONE || []
-          });
-        }
+      if (viewMode === 'epic') {
+        const data = await kanbanService.getEpicItems(product.productId);
+        setEpicKanbanItems(groupByColumns(data, columns));
       } else {
-        setError(`Failed to load ${viewMode === 'epic' ? 'epic' : 'user story'} kanban items`);
+        const data = await kanbanService.getItems(product.productId);
+        setKanbanItems(groupByColumns(data, columns));
       }
     } catch (err) {
       setError(`Failed to load ${viewMode === 'epic' ? 'epic' : 'user story'} kanban items`);
     } finally {
       setLoading(false);
     }
-  }, [product, viewMode]);
+  }, [product, viewMode, columns]);
 
   useEffect(() => {
-    if (!product?.productId) return;
+    loadColumns();
+  }, [loadColumns]);
+
+  useEffect(() => {
+    if (!product?.productId || !columnsLoaded) return;
 
     loadKanbanItems();
-  }, [product, loadKanbanItems]);
+  }, [product, columnsLoaded, loadKanbanItems]);
+
+  const handleSaveColumns = async (
+    updatedColumns: KanbanColumnConfig[],
+    statusMapping: Record<string, string>,
+    updatedWipPolicy: WipLimitPolicy
+  ) => {
+    if (!product) return;
+
+    const saved = await kanbanService.saveBoardConfig(product.productId, {
+      columns: updatedColumns,
+      wipPolicy: updatedWipPolicy,
+      statusMapping
+    });
+    setColumns(sortColumns(saved?.columns?.length ? saved.columns : updatedColumns));
+    setWipPolicy(saved?.wipPolicy || updatedWipPolicy);
+    setShowColumnSettings(false);
+    setSuccessMessage('Board columns updated successfully!');
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
 
 
   const handleUpdateItem = async () => {
-    if (!editingItem) return;
+    if (!editingItem || !product) return;
 
     try {
-      const response = await fetch(`http://localhost:8080/api/v3/products/${product?.productId}/kanban/${editingItem.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify(editingItem)
+      const updatedItem = await kanbanService.updateItem(product.productId, editingItem);
+      setKanbanItems(prev => {
+        const newItems = { ...prev };
+        newItems[editingItem.status] = newItems[editingItem.status].map(item =>
+          item.id === updatedItem.id ? updatedItem : item
+        );
+        return newItems;
       });
-
-      if (response.ok) {
-        const updatedItem = await response.json();
-        setKanbanItems(prev => {
-          const newItems = { ...prev };
-          newItems[editingItem.status] = newItems[editingItem.status].map(item =>
-            item.id === updatedItem.id ? updatedItem : item
-          );
-          return newItems;
-        });
-        setShowEditModal(false);
-        setEditingItem(null);
-        setSuccessMessage('Item updated successfully!');
-        setTimeout(() => setSuccessMessage(''), 3000);
-      } else {
-        setError('Failed to update item');
-      }
+      setShowEditModal(false);
+      setEditingItem(null);
+      setSuccessMessage('Item updated successfully!');
+      setTimeout(() => setSuccessMessage(''), 3000);
     } catch (err) {
       setError('Failed to update item');
     }
   };
 
   const handleDeleteItem = async (itemId: number, status: string) => {
-    if (!window.confirm('Are you sure you want to delete this item?')) return;
+    if (!product || !window.confirm('Are you sure you want to delete this item?')) return;
 
     try {
-      const response = await fetch(`http://localhost:8080/api/v3/products/${product?.productId}/kanban/${itemId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        setKanbanItems(prev => ({
-          ...prev,
-          [status]: prev[status].filter(item => item.id !== itemId)
-        }));
-        setSuccessMessage('Item deleted successfully!');
-        setTimeout(() => setSuccessMessage(''), 3000);
-      } else {
-        setError('Failed to delete item');
-      }
+      await kanbanService.deleteItem(product.productId, itemId);
+      setKanbanItems(prev => ({
+        ...prev,
+        [status]: prev[status].filter(item => item.id !== itemId)
+      }));
+      setSuccessMessage('Item deleted successfully!');
+      setTimeout(() => setSuccessMessage(''), 3000);
     } catch (err) {
       setError('Failed to delete item');
     }
   };
 
+  useEffect(() => {
+    if (!product?.productId) return;
+
+    kanbanService.getFilterPresets(product.productId)
+      .then(setFilterPresets)
+      .catch(() => setFilterPresets([]));
+  }, [product]);
+
+  const handleSavePreset = async (name: string) => {
+    if (!product) return;
+    try {
+      const preset = await kanbanService.createFilterPreset(product.productId, { name, filter });
+      setFilterPresets(prev => [...prev, preset]);
+      setSuccessMessage('Filter preset saved!');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      setError('Failed to save filter preset');
+    }
+  };
+
+  const handleDeletePreset = async (preset: KanbanFilterPreset) => {
+    if (!product || !window.confirm(`Delete the filter preset "${preset.name}"?`)) return;
+    try {
+      await kanbanService.deleteFilterPreset(product.productId, preset.id);
+      setFilterPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (err) {
+      setError('Failed to delete filter preset');
+    }
+  };
+
+  // Epic names label swimlanes and the epic filter
+  useEffect(() => {
+    if (viewMode !== 'userstory' || !product?.productId) return;
+
+    const loadEpicNames = async () => {
+      try {
+        const backlog = await backlogService.getBacklog(product.productId);
+        const epics: Epic[] = backlog?.epics ? JSON.parse(backlog.epics) : [];
+        setEpicNames(Object.fromEntries(epics.map(epic => [epic.id, epic.name])));
+      } catch (err) {
+        // Fall back to showing epic IDs
+      }
+    };
+
+    loadEpicNames();
+  }, [viewMode, product]);
+
+  const visibleKanbanItems = useMemo(
+    () => filterColumns(kanbanItems, item => matchesFilter(item, filter)),
+    [kanbanItems, filter]
+  );
+  const visibleEpicItems = useMemo(
+    () => filterColumns(epicKanbanItems, epic => matchesEpicFilter(epic, filter)),
+    [epicKanbanItems, filter]
+  );
+  const filterOptions = useMemo(() => getFilterOptions(kanbanItems), [kanbanItems]);
+  const countItems = (items: KanbanColumns<unknown>) =>
+    Object.values(items).reduce((sum, columnItems) => sum + columnItems.length, 0);
+
+  const swimlanes = useMemo(
+    () => buildSwimlanes(visibleKanbanItems, columns, swimlaneBy, epicNames),
+    [visibleKanbanItems, columns, swimlaneBy, epicNames]
+  );
+
+  const boardStyle = { '--kanban-column-count': columns.length } as React.CSSProperties;
+
+  const flowItems = useMemo<FlowItem[]>(() => (
+    viewMode === 'epic'
+      ? Object.values(epicKanbanItems).flat().map(epic => ({ id: epic.id, title: epic.epicName, status: epic.status }))
+      : Object.values(kanbanItems).flat().map(item => ({
+        id: item.id,
+        title: item.title,
+        status: item.status,
+        createdAt: item.createdAt
+      }))
+  ), [viewMode, epicKanbanItems, kanbanItems]);
+
+  // History is best-effort: a failure here must not undo a move the server already accepted
+  const recordTransition = (itemId: number, itemType: KanbanItemType, fromStatus: string, toStatus: string) => {
+    if (!product || fromStatus === toStatus) return;
+    kanbanService.recordTransition(product.productId, { itemId, itemType, fromStatus, toStatus }).catch(() => {});
+  };
+
+  // Returns false when the move should not go ahead because of the target column's WIP limit
+  const confirmWipLimit = (targetColumn: string, sourceColumn: string, targetCount: number) => {
+    const column = columns.find(c => c.id === targetColumn);
+    if (!column || sourceColumn === targetColumn || !wouldExceedWipLimit(column, targetCount)) return true;
+
+    const message = `"${column.title}" has a WIP limit of ${column.wipLimit}.`;
+    if (wipPolicy === 'BLOCK') {
+      setError(`${message} Finish or move out existing work before pulling in more.`);
+      setTimeout(() => setError(''), 5000);
+      return false;
+    }
+    return window.confirm(`${message} Moving this item will exceed it. Continue anyway?`);
+  };
+
   // Drag and Drop handlers
   const handleDragStart = (e: React.DragEvent, item: KanbanItem) => {
     setDraggedItem(item);
@@ -192,15 +278,32 @@ const KanbanBoard: React.FC = () => {
     setDraggedOverColumn(null);
   };
 
-  const handleDrop = async (e: React.DragEvent, targetColumn: string, targetPosition: number) => {
+  // targetLane is set when dropping into a swimlane; a different lane changes the grouping field
+  const handleDrop = async (e: React.DragEvent, targetColumn: string, targetPosition: number, targetLane?: string) => {
     e.preventDefault();
 
-    if (!draggedItem) return;
+    if (!draggedItem || !product) return;
 
     const sourceColumn = draggedItem.status;
+    const laneChanged = targetLane !== undefined && swimlaneBy !== 'none' && getLaneKey(draggedItem, swimlaneBy) !== targetLane;
+    const positionChanged = sourceColumn !== targetColumn || draggedItem.position !== targetPosition;
 
     // If dropping in the same position, do nothing
-    if (sourceColumn === targetColumn && draggedItem.position === targetPosition) {
+    if (!positionChanged && !laneChanged) {
+      setDraggedItem(null);
+      setDraggedOverColumn(null);
+      return;
+    }
+
+    if (laneChanged && draggedItem.id < 0) {
+      setError('Roadmap items cannot be moved between swimlanes');
+      setTimeout(() => setError(''), 5000);
+      setDraggedItem(null);
+      setDraggedOverColumn(null);
+      return;
+    }
+
+    if (!confirmWipLimit(targetColumn, sourceColumn, (kanbanItems[targetColumn] || []).length)) {
       setDraggedItem(null);
       setDraggedOverColumn(null);
       return;
@@ -221,7 +324,8 @@ const KanbanBoard: React.FC = () => {
       );
 
       // Add to target column at position
-      const updatedItem = { ...draggedItem, status: targetColumn, position: targetPosition };
+      const movedItem = laneChanged ? applyLaneKey(draggedItem, swimlaneBy, targetLane!) : draggedItem;
+      const updatedItem = { ...movedItem, status: targetColumn, position: targetPosition };
       newKanbanItems[targetColumn].splice(targetPosition, 0, updatedItem);
 
       // Update positions
@@ -235,27 +339,23 @@ const KanbanBoard: React.FC = () => {
 
     // Make API call to persist the change
     try {
-      const response = await fetch(`http://localhost:8080/api/v3/products/${product?.productId}/kanban/${draggedItem.id}/move`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
+      if (laneChanged) {
+        await kanbanService.updateItem(product.productId, applyLaneKey(draggedItem, swimlaneBy, targetLane!));
+      }
+      if (positionChanged) {
+        await kanbanService.moveItem(product.productId, draggedItem.id, {
           status: targetColumn,
           position: targetPosition
-        })
-      });
+        });
+        recordTransition(draggedItem.id, 'STORY', sourceColumn, targetColumn);
+      }
 
-      if (!response.ok) {
-        // Revert on failure
-        loadKanbanItems();
-        setError('Failed to move item');
-      } else if (isRoadmapItem || involvesSpecialColumn) {
+      if (isRoadmapItem || involvesSpecialColumn) {
         // For roadmap items or moves involving special columns, reload to get correct state
         await loadKanbanItems();
       }
     } catch (err) {
+      // Revert on failure
       loadKanbanItems();
       setError('Failed to move item');
     }
@@ -273,7 +373,7 @@ const KanbanBoard: React.FC = () => {
   const handleEpicDrop = async (e: React.DragEvent, targetColumn: string, targetPosition: number) => {
     e.preventDefault();
 
-    if (!draggedEpic) return;
+    if (!draggedEpic || !product) return;
 
     const sourceColumn = draggedEpic.status;
 
@@ -284,6 +384,12 @@ const KanbanBoard: React.FC = () => {
       return;
     }
 
+    if (!confirmWipLimit(targetColumn, sourceColumn, (epicKanbanItems[targetColumn] || []).length)) {
+      setDraggedEpic(null);
+      setDraggedOverColumn(null);
+      return;
+    }
+
     // Optimistically update UI
     const newEpicKanbanItems = { ...epicKanbanItems };
 
@@ -306,24 +412,13 @@ const KanbanBoard: React.FC = () => {
 
     // Make API call to persist the change - epics use roadmap item ID
     try {
-      const response = await fetch(`http://localhost:8080/api/v3/products/${product?.productId}/kanban/epics/${draggedEpic.id}/move`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
-          status: targetColumn,
-          position: targetPosition
-        })
+      await kanbanService.moveEpic(product.productId, draggedEpic.id, {
+        status: targetColumn,
+        position: targetPosition
       });
-
-      if (!response.ok) {
-        // Revert on failure
-        loadKanbanItems();
-        setError('Failed to move epic');
-      }
+      recordTransition(draggedEpic.id, 'EPIC', sourceColumn, targetColumn);
     } catch (err) {
+      // Revert on failure
       loadKanbanItems();
       setError('Failed to move epic');
     }
@@ -347,6 +442,98 @@ const KanbanBoard: React.FC = () => {
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  const toggleLane = (key: string) => {
+    setCollapsedLanes(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  const renderStoryCard = (item: KanbanItem, columnId: string, position: number, lane?: string) => (
+    <div
+      key={item.id}
+      className={`kanban-item ${item.id < 0 ? 'roadmap-item' : ''} ${item.blocked ? 'blocked' : ''} status-${item.status?.toLowerCase().replace('_', '-')}`}
+      draggable
+      onDragStart={(e) => handleDragStart(e, item)}
+      onDragOver={(e) => handleDragOver(e, lane === undefined ? columnId : `${lane}:${columnId}`)}
+      onDrop={(e) => handleDrop(e, columnId, position, lane)}
+    >
+      <div className="item-header">
+        <h4>
+          {item.id < 0 && <span className="material-icons roadmap-indicator">map</span>}
+          {item.title}
+        </h4>
+        <div className="item-actions">
+          {item.id > 0 && (
+            <>
+              <button 
+                className="btn-edit-item"
+                onClick={() => {
+                  setEditingItem(item);
+                  setShowEditModal(true);
+                }}
+              >
+                <span className="material-icons">edit</span>
+              </button>
+              <button 
+                className="btn-delete-item"
+                onClick={() => handleDeleteItem(item.id, item.status)}
+              >
+                <span className="material-icons">delete</span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {item.blocked && (
+        <div className="item-blocked" title={item.blockedReason || 'Blocked'}>
+          <span className="material-icons">block</span>
+          <span className="item-blocked-reason">{item.blockedReason || 'Blocked'}</span>
+        </div>
+      )}
+      {item.storyPoints && (
+        <div className="item-meta">
+          <div className="item-meta-left">
+            <span className="item-points">
+              <span className="material-icons">stars</span>
+              {item.storyPoints}
+            </span>
+          </div>
+        </div>
+      )}
+      {(item.priority || item.assignee || item.dueDate) && (
+        <div className="item-bottom-meta">
+          <div className="item-bottom-left">
+            {item.priority && (
+              <span 
+                className="item-priority"
+                style={{ backgroundColor: getPriorityColor(item.priority) }}
+              >
+                {item.priority}
+              </span>
+            )}
+            {item.assignee && (
+              <span className="item-assignee">
+                <span className="material-icons">person</span>
+                {item.assignee}
+              </span>
+            )}
+          </div>
+          {item.dueDate && (
+            <span className="item-due-date">
+              <span className="material-icons">event</span>
+              {formatDate(item.dueDate)}
+            </span>
+          )}
+        </div>
+      )}
+      {item.labels && item.labels !== 'roadmap-item' && (
+        <div className="item-labels">
+          {item.labels.split(',').filter(label => label.trim() !== 'roadmap-item').map((label, idx) => (
+            <span key={idx} className="item-label">{label.trim()}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="kanban-container">
       {/* Header */}
@@ -362,6 +549,27 @@ const KanbanBoard: React.FC = () => {
             </h1>
           </div>
           <div className="header-right">
+            {viewMode === 'userstory' && activeTab === 'board' && (
+              <select
+                className="swimlane-select"
+                value={swimlaneBy}
+                onChange={(e) => setSwimlaneBy(e.target.value as KanbanSwimlaneBy)}
+                aria-label="Swimlanes"
+              >
+                <option value="none">No swimlanes</option>
+                <option value="epic">Swimlanes by epic</option>
+                <option value="assignee">Swimlanes by assignee</option>
+                <option value="priority">Swimlanes by priority</option>
+              </select>
+            )}
+            <button
+              className="column-settings-btn"
+              onClick={() => setShowColumnSettings(true)}
+              title="Configure columns"
+              aria-label="Configure columns"
+            >
+              <span className="material-icons">view_column</span>
+            </button>
             <div className="view-mode-toggle">
               <button
                 className={`toggle-btn ${viewMode === 'epic' ? 'active' : ''}`}
@@ -380,6 +588,29 @@ const KanbanBoard: React.FC = () => {
             </div>
           </div>
         </div>
+        <div className="kanban-tabs">
+          <button
+            className={`kanban-tab ${activeTab === 'board' ? 'active' : ''}`}
+            onClick={() => setActiveTab('board')}
+          >
+            <span className="material-icons">view_kanban</span>
+            Board
+          </button>
+          <button
+            className={`kanban-tab ${activeTab === 'analytics' ? 'active' : ''}`}
+            onClick={() => setActiveTab('analytics')}
+          >
+            <span className="material-icons">insights</span>
+            Analytics
+          </button>
+          <button
+            className={`kanban-tab ${activeTab === 'burn' ? 'active' : ''}`}
+            onClick={() => setActiveTab('burn')}
+          >
+            <span className="material-icons">trending_down</span>
+            Burndown
+          </button>
+        </div>
       </div>
 
       {/* Messages */}
@@ -396,37 +627,68 @@ const KanbanBoard: React.FC = () => {
         </div>
       )}
 
+      {activeTab === 'board' && (
+        <KanbanFilterBar
+          filter={filter}
+          onChange={setFilter}
+          viewMode={viewMode}
+          assignees={filterOptions.assignees}
+          labels={filterOptions.labels}
+          epics={filterOptions.epicIds.map(id => ({ id, name: epicNames[id] || id }))}
+          presets={filterPresets}
+          onSavePreset={handleSavePreset}
+          onDeletePreset={handleDeletePreset}
+          visibleCount={countItems(viewMode === 'epic' ? visibleEpicItems : visibleKanbanItems)}
+          totalCount={countItems(viewMode === 'epic' ? epicKanbanItems : kanbanItems)}
+        />
+      )}
+
       {/* Kanban Board */}
       {(loading || productLoading) ? (
         <div className="loading-state">
           <span className="material-icons">hourglass_empty</span>
           Loading kanban board...
         </div>
+      ) : activeTab === 'analytics' && product ? (
+        <KanbanAnalytics
+          productId={product.productId}
+          itemType={viewMode === 'epic' ? 'EPIC' : 'STORY'}
+          items={flowItems}
+          columns={columns}
+        />
+      ) : activeTab === 'burn' && product ? (
+        <KanbanBurnCharts productId={product.productId} columns={columns} />
       ) : viewMode === 'epic' ? (
-        <div className="kanban-board">
+        <div className="kanban-board" style={boardStyle}>
           {columns.map(column => {
             const items = epicKanbanItems[column.id] || [];
+            const visibleItems = visibleEpicItems[column.id] || [];
             return (
               <div
                 key={column.id}
-                className={`kanban-column ${draggedOverColumn === column.id ? 'drag-over' : ''}`}
+                className={`kanban-column ${draggedOverColumn === column.id ? 'drag-over' : ''} ${isOverWipLimit(column, items.length) ? 'over-wip-limit' : ''}`}
                 onDragOver={(e) => handleDragOver(e, column.id)}
                 onDragLeave={handleDragLeave}
                 onDrop={(e) => handleEpicDrop(e, column.id, items.length)}
               >
                 <div className="column-header" style={{ borderTopColor: column.color }}>
                   <h3>{column.title}</h3>
-                  <span className="item-count">{items.length}</span>
+                  <span
+                    className="item-count"
+                    title={isOverWipLimit(column, items.length) ? 'Over WIP limit' : undefined}
+                  >
+                    {items.length}{column.wipLimit ? ` / ${column.wipLimit}` : ''}
+                  </span>
                 </div>
                 <div className="column-content">
-                  {items.map((epic, index) => (
+                  {visibleItems.map(epic => (
                     <div
                       key={epic.id}
                       className={`kanban-item status-${epic.status?.toLowerCase().replace('_', '-')}`}
                       draggable
                       onDragStart={(e) => handleEpicDragStart(e, epic)}
                       onDragOver={(e) => handleDragOver(e, column.id)}
-                      onDrop={(e) => handleEpicDrop(e, column.id, index)}
+                      onDrop={(e) => handleEpicDrop(e, column.id, items.indexOf(epic))}
                     >
                       <div className="item-header">
                         <h4>
@@ -481,7 +743,7 @@ const KanbanBoard: React.FC = () => {
                       </div>
                     </div>
                   ))}
-                  {items.length === 0 && (
+                  {visibleItems.length === 0 && (
                     <div className="empty-column">
                       <span className="material-icons">inbox</span>
                       <p>No epics</p>
@@ -492,115 +754,110 @@ const KanbanBoard: React.FC = () => {
             );
           })}
         </div>
-      ) : (
-        <div className="kanban-board">
-          {columns.map(column => (
-            <div
-              key={column.id}
-              className={`kanban-column ${draggedOverColumn === column.id ? 'drag-over' : ''}`}
-              onDragOver={(e) => handleDragOver(e, column.id)}
-              onDragLeave={handleDragLeave}
-              onDrop={(e) => handleDrop(e, column.id, kanbanItems[column.id].length)}
-            >
-              <div className="column-header" style={{ borderTopColor: column.color }}>
-                <h3>{column.title}</h3>
-                <span className="item-count">{kanbanItems[column.id].length}</span>
-              </div>
-              <div className="column-content">
-                {kanbanItems[column.id].map((item, index) => (
-                  <div
-                    key={item.id}
-                    className={`kanban-item ${item.id < 0 ? 'roadmap-item' : ''} status-${item.status?.toLowerCase().replace('_', '-')}`}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, item)}
-                    onDragOver={(e) => handleDragOver(e, column.id)}
-                    onDrop={(e) => handleDrop(e, column.id, index)}
-                  >
-                    <div className="item-header">
-                      <h4>
-                        {item.id < 0 && <span className="material-icons roadmap-indicator">map</span>}
-                        {item.title}
-                      </h4>
-                      <div className="item-actions">
-                        {item.id > 0 && (
-                          <>
-                            <button 
-                              className="btn-edit-item"
-                              onClick={() => {
-                                setEditingItem(item);
-                                setShowEditModal(true);
-                              }}
-                            >
-                              <span className="material-icons">edit</span>
-                            </button>
-                            <button 
-                              className="btn-delete-item"
-                              onClick={() => handleDeleteItem(item.id, item.status)}
-                            >
-                              <span className="material-icons">delete</span>
-                            </button>
-                          </>
-                        )}
-                      </div>
-                    </div>
-                    {item.storyPoints && (
-                      <div className="item-meta">
-                        <div className="item-meta-left">
-                          <span className="item-points">
-                            <span className="material-icons">stars</span>
-                            {item.storyPoints}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-                    {(item.priority || item.assignee || item.dueDate) && (
-                      <div className="item-bottom-meta">
-                        <div className="item-bottom-left">
-                          {item.priority && (
-                            <span 
-                              className="item-priority"
-                              style={{ backgroundColor: getPriorityColor(item.priority) }}
-                            >
-                              {item.priority}
-                            </span>
-                          )}
-                          {item.assignee && (
-                            <span className="item-assignee">
-                              <span className="material-icons">person</span>
-                              {item.assignee}
-                            </span>
+      ) : swimlaneBy !== 'none' ? (
+        <div className="kanban-swimlanes" style={boardStyle}>
+          <div className="swimlane-column-headers">
+            {columns.map(column => {
+              const count = (kanbanItems[column.id] || []).length;
+              return (
+                <div
+                  key={column.id}
+                  className={`column-header ${isOverWipLimit(column, count) ? 'over-wip-limit' : ''}`}
+                  style={{ borderTopColor: column.color }}
+                >
+                  <h3>{column.title}</h3>
+                  <span className="item-count">
+                    {count}{column.wipLimit ? ` / ${column.wipLimit}` : ''}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          {swimlanes.map(lane => {
+            const collapsed = collapsedLanes.includes(lane.key);
+            return (
+              <div key={lane.key || '__none'} className="kanban-swimlane">
+                <button className="swimlane-header" onClick={() => toggleLane(lane.key)} aria-expanded={!collapsed}>
+                  <span className="material-icons">{collapsed ? 'chevron_right' : 'expand_more'}</span>
+                  <span className="swimlane-title">{lane.label}</span>
+                  <span className="swimlane-count">{lane.count}</span>
+                </button>
+                {!collapsed && (
+                  <div className="swimlane-row">
+                    {columns.map(column => {
+                      const columnItems = kanbanItems[column.id] || [];
+                      const cellKey = `${lane.key}:${column.id}`;
+                      return (
+                        <div
+                          key={column.id}
+                          className={`swimlane-cell ${draggedOverColumn === cellKey ? 'drag-over' : ''}`}
+                          onDragOver={(e) => handleDragOver(e, cellKey)}
+                          onDragLeave={handleDragLeave}
+                          onDrop={(e) => handleDrop(e, column.id, columnItems.length, lane.key)}
+                        >
+                          {lane.items[column.id].map(item =>
+                            renderStoryCard(item, column.id, columnItems.indexOf(item), lane.key)
                           )}
                         </div>
-                        {item.dueDate && (
-                          <span className="item-due-date">
-                            <span className="material-icons">event</span>
-                            {formatDate(item.dueDate)}
-                          </span>
-                        )}
-                      </div>
-                    )}
-                    {item.labels && item.labels !== 'roadmap-item' && (
-                      <div className="item-labels">
-                        {item.labels.split(',').filter(label => label.trim() !== 'roadmap-item').map((label, idx) => (
-                          <span key={idx} className="item-label">{label.trim()}</span>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                ))}
-                {kanbanItems[column.id].length === 0 && (
-                  <div className="empty-column">
-                    <span className="material-icons">inbox</span>
-                    <p>No items</p>
+                      );
+                    })}
                   </div>
                 )}
               </div>
+            );
+          })}
+          {swimlanes.length === 0 && (
+            <div className="empty-column">
+              <span className="material-icons">inbox</span>
+              <p>No items</p>
             </div>
-          ))}
+          )}
+        </div>
+      ) : (
+        <div className="kanban-board" style={boardStyle}>
+          {columns.map(column => {
+            const items = kanbanItems[column.id] || [];
+            const visibleItems = visibleKanbanItems[column.id] || [];
+            const overLimit = isOverWipLimit(column, items.length);
+            return (
+              <div
+                key={column.id}
+                className={`kanban-column ${draggedOverColumn === column.id ? 'drag-over' : ''} ${overLimit ? 'over-wip-limit' : ''}`}
+                onDragOver={(e) => handleDragOver(e, column.id)}
+                onDragLeave={handleDragLeave}
+                onDrop={(e) => handleDrop(e, column.id, items.length)}
+              >
+                <div className="column-header" style={{ borderTopColor: column.color }}>
+                  <h3>{column.title}</h3>
+                  <span className="item-count" title={overLimit ? 'Over WIP limit' : undefined}>
+                    {items.length}{column.wipLimit ? ` / ${column.wipLimit}` : ''}
+                  </span>
+                </div>
+                <div className="column-content">
+                  {visibleItems.map(item => renderStoryCard(item, column.id, items.indexOf(item)))}
+                  {visibleItems.length === 0 && (
+                    <div className="empty-column">
+                      <span className="material-icons">inbox</span>
+                      <p>No items</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
         </div>
       )}
 
 
+      {showColumnSettings && (
+        <KanbanColumnSettings
+          columns={columns}
+          wipPolicy={wipPolicy}
+          onSave={handleSaveColumns}
+          onClose={() => setShowColumnSettings(false)}
+        />
+      )}
+
       {/* Edit Item Modal */}
       {showEditModal && editingItem && (
         <div className="kanban-modal-overlay" onClick={() => setShowEditModal(false)}>
@@ -712,6 +969,30 @@ const KanbanBoard: React.FC = () => {
                   Add multiple labels separated by commas
                 </div>
               </div>
+              <div className="form-group">
+                <label className="form-label blocked-toggle">
+                  <input
+                    type="checkbox"
+                    checked={!!editingItem.blocked}
+                    onChange={(e) => setEditingItem({
+                      ...editingItem,
+                      blocked: e.target.checked,
+                      blockedReason: e.target.checked ? editingItem.blockedReason : ''
+                    })}
+                  />
+                  <span className="material-icons">block</span>
+                  Blocked
+                </label>
+                {editingItem.blocked && (
+                  <input
+                    type="text"
+                    className="form-control"
+                    value={editingItem.blockedReason || ''}
+                    onChange={(e) => setEditingItem({ ...editingItem, blockedReason: e.target.value })}
+                    placeholder="What is blocking this item?"
+                  />
+                )}
+              </div>
             </div>
             <div className="kanban-modal-footer">
               <button className="btn-cancel" onClick={() => setShowEditModal(false)}>Cancel</button>
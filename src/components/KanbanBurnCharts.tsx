@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { kanbanService } from '../services/kanbanService';
+import { roadmapService } from '../services/roadmapService';
+import { KanbanColumnConfig, KanbanItem, KanbanStatusTransition } from '../types/kanban';
+import { RoadmapItem } from '../types/roadmap';
+import { BurnItem, buildBurnSeries, parseBurnDate } from '../utils/burnCharts';
+import { getDoneColumnIds, groupByColumns } from '../utils/kanbanColumns';
+import { addQuarters, formatQuarter, getCurrentQuarter, getQuarterBounds, QuarterInfo } from '../utils/quarterUtils';
+import './KanbanBurnCharts.css';
+
+interface KanbanBurnChartsProps {
+  productId: number;
+  columns: KanbanColumnConfig[];
+}
+
+interface ChartLine {
+  key: string;
+  label: string;
+  values: (number | undefined)[];
+  className: string;
+}
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 240;
+
+const formatShortDate = (date?: Date) =>
+  date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '-';
+
+const formatPoints = (points: number) => `${Math.round(points)} pts`;
+
+const KanbanBurnCharts: React.FC<KanbanBurnChartsProps> = ({ productId, columns }) => {
+  const [quarter, setQuarter] = useState<QuarterInfo>(getCurrentQuarter());
+  const [selectedEpicId, setSelectedEpicId] = useState('');
+  const [stories, setStories] = useState<KanbanItem[]>([]);
+  const [transitions, setTransitions] = useState<KanbanStatusTransition[]>([]);
+  const [roadmapItems, setRoadmapItems] = useState<RoadmapItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadStories = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const [items, history] = await Promise.all([
+          kanbanService.getItems(productId),
+          kanbanService.getHistory(productId, 'STORY'),
+        ]);
+        setStories(Object.values(groupByColumns(items, columns)).flat());
+        setTransitions(history);
+      } catch (err) {
+        setError('Failed to load story history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStories();
+  }, [productId, columns]);
+
+  useEffect(() => {
+    const loadRoadmap = async () => {
+      try {
+        const roadmap = await roadmapService.getRoadmap(productId, quarter.year, quarter.quarter, { publishedOnly: true });
+        setRoadmapItems(roadmap?.roadmapItems || []);
+      } catch (err) {
+        setRoadmapItems([]);
+        setError('Failed to load roadmap');
+      }
+    };
+
+    setSelectedEpicId('');
+    loadRoadmap();
+  }, [productId, quarter]);
+
+  const selectedEpic = roadmapItems.find(item => item.epicId === selectedEpicId);
+
+  // The ideal line follows the epic's planned dates; a quarter spans its earliest start to its latest end
+  const range = useMemo(() => {
+    const bounds = getQuarterBounds(quarter.year, quarter.quarter);
+    const epics = selectedEpic ? [selectedEpic] : roadmapItems;
+    const starts = epics.flatMap(epic => parseBurnDate(epic.startDate) || []);
+    const ends = epics.flatMap(epic => parseBurnDate(epic.endDate) || []);
+    const start = starts.length ? new Date(Math.min(...starts.map(date => date.getTime()))) : bounds.start;
+    const end = ends.length ? new Date(Math.max(...ends.map(date => date.getTime()))) : bounds.end;
+    return end < start ? { start, end: start } : { start, end };
+  }, [quarter, roadmapItems, selectedEpic]);
+
+  const burnItems = useMemo<BurnItem[]>(() => {
+    const epicIds = new Set(selectedEpic ? [selectedEpic.epicId] : roadmapItems.map(item => item.epicId));
+    return stories
+      .filter(story => story.epicId && epicIds.has(story.epicId))
+      .map(story => ({
+        id: story.id,
+        title: story.title,
+        status: story.status,
+        createdAt: story.createdAt,
+        storyPoints: story.storyPoints,
+      }));
+  }, [stories, roadmapItems, selectedEpic]);
+
+  const series = useMemo(
+    () => buildBurnSeries(burnItems, transitions, getDoneColumnIds(columns), range.start, range.end),
+    [burnItems, transitions, columns, range]
+  );
+
+  const lastActual = [...series.points].reverse().find(point => point.remaining !== undefined);
+  const remaining = series.totalPoints - series.completedPoints;
+  const behindBy = lastActual ? (lastActual.remaining || 0) - lastActual.idealRemaining : 0;
+  const maxValue = Math.max(series.totalPoints, ...series.points.map(point => point.scope || 0), 1);
+
+  const renderChart = (lines: ChartLine[], label: string) => {
+    const count = series.points.length;
+    const x = (index: number) => (count === 1 ? 0 : (index / (count - 1)) * CHART_WIDTH);
+    const y = (value: number) => CHART_HEIGHT - (value / maxValue) * CHART_HEIGHT;
+
+    return (
+      <>
+        <svg
+          className="burn-chart"
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={label}
+        >
+          {series.todayIndex >= 0 && (
+            <line
+              className="burn-today"
+              x1={x(series.todayIndex)}
+              x2={x(series.todayIndex)}
+              y1={0}
+              y2={CHART_HEIGHT}
+            />
+          )}
+          {lines.map(line => (
+            <polyline
+              key={line.key}
+              className={line.className}
+              points={line.values
+                .flatMap((value, i) => (value === undefined ? [] : [`${x(i)},${y(value)}`]))
+                .join(' ')}
+            >
+              <title>{line.label}</title>
+            </polyline>
+          ))}
+        </svg>
+        <div className="burn-axis">
+          <span>{formatShortDate(series.points[0]?.date)}</span>
+          <span>{formatShortDate(series.points[series.points.length - 1]?.date)}</span>
+        </div>
+        <div className="burn-legend">
+          {lines.map(line => (
+            <span key={line.key} className="burn-legend-item">
+              <span className={`burn-legend-swatch ${line.className}`} />
+              {line.label}
+            </span>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="loading-state">
+        <span className="material-icons">hourglass_empty</span>
+        Loading burn charts...
+      </div>
+    );
+  }
+
+  return (
+    <div className="kanban-burn-charts">
+      {error && (
+        <div className="error-message">
+          <span className="material-icons">error</span>
+          {error}
+        </div>
+      )}
+
+      <div className="burn-scope-bar">
+        <div className="burn-quarter-nav">
+          <button onClick={() => setQuarter(addQuarters(quarter, -1))} aria-label="Previous quarter">
+            <span className="material-icons">chevron_left</span>
+          </button>
+          <span className="burn-quarter-label">{formatQuarter(quarter.year, quarter.quarter)}</span>
+          <button onClick={() => setQuarter(addQuarters(quarter, 1))} aria-label="Next quarter">
+            <span className="material-icons">chevron_right</span>
+          </button>
+        </div>
+        <select value={selectedEpicId} onChange={(e) => setSelectedEpicId(e.target.value)} aria-label="Epic">
+          <option value="">Entire quarter ({roadmapItems.length} epics)</option>
+          {roadmapItems.map(item => (
+            <option key={item.epicId} value={item.epicId}>{item.epicName}</option>
+          ))}
+        </select>
+        <span className="burn-range">
+          {formatShortDate(range.start)} – {formatShortDate(range.end)}
+        </span>
+      </div>
+
+      {roadmapItems.length === 0 ? (
+        <p className="analytics-empty">
+          No published roadmap epics for {formatQuarter(quarter.year, quarter.quarter)}.
+        </p>
+      ) : (
+        <>
+          <div className="analytics-summary">
+            <div className="analytics-stat">
+              <span className="analytics-stat-value">{formatPoints(series.totalPoints)}</span>
+              <span className="analytics-stat-label">Scope</span>
+            </div>
+            <div className="analytics-stat">
+              <span className="analytics-stat-value">{formatPoints(series.completedPoints)}</span>
+              <span className="analytics-stat-label">Completed</span>
+            </div>
+            <div className="analytics-stat">
+              <span className="analytics-stat-value">{formatPoints(remaining)}</span>
+              <span className="analytics-stat-label">Remaining</span>
+            </div>
+            <div className="analytics-stat">
+              <span className={`analytics-stat-value ${behindBy > 0 ? 'burn-behind' : ''}`}>
+                {!lastActual ? 'Not started' : behindBy > 0 ? `${formatPoints(behindBy)} behind` : 'On track'}
+              </span>
+              <span className="analytics-stat-label">Against ideal</span>
+            </div>
+          </div>
+
+          {burnItems.length === 0 && (
+            <p className="analytics-empty">No user stories are linked to the selected epics yet.</p>
+          )}
+
+          <div className="analytics-card">
+            <div className="analytics-card-header">
+              <h3>
+                <span className="material-icons">trending_down</span>
+                Burndown
+              </h3>
+            </div>
+            {renderChart([
+              {
+                key: 'ideal',
+                label: 'Ideal remaining',
+                values: series.points.map(point => point.idealRemaining),
+                className: 'burn-line-ideal',
+              },
+              {
+                key: 'remaining',
+                label: 'Remaining',
+                values: series.points.map(point => point.remaining),
+                className: 'burn-line-remaining',
+              },
+            ], 'Burndown chart')}
+          </div>
+
+          <div className="analytics-card">
+            <div className="analytics-card-header">
+              <h3>
+                <span className="material-icons">trending_up</span>
+                Burnup
+              </h3>
+            </div>
+            {renderChart([
+              {
+                key: 'ideal',
+                label: 'Ideal completed',
+                values: series.points.map(point => series.totalPoints - point.idealRemaining),
+                className: 'burn-line-ideal',
+              },
+              {
+                key: 'scope',
+                label: 'Scope',
+                values: series.points.map(point => point.scope),
+                className: 'burn-line-scope',
+              },
+              {
+                key: 'completed',
+                label: 'Completed',
+                values: series.points.map(point => point.completed),
+                className: 'burn-line-completed',
+              },
+            ], 'Burnup chart')}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KanbanBurnCharts;
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { KanbanColumnConfig, WipLimitPolicy } from '../types/kanban';
+import { sortColumns, toColumnId } from '../utils/kanbanColumns';
+
+interface KanbanColumnSettingsProps {
+  columns: KanbanColumnConfig[];
+  wipPolicy: WipLimitPolicy;
+  onSave: (columns: KanbanColumnConfig[], statusMapping: Record<string, string>, wipPolicy: WipLimitPolicy) => Promise<void>;
+  onClose: () => void;
+}
+
+const KanbanColumnSettings: React.FC<KanbanColumnSettingsProps> = ({ columns, wipPolicy, onSave, onClose }) => {
+  const [draft, setDraft] = useState<KanbanColumnConfig[]>(() => sortColumns(columns));
+  const [policy, setPolicy] = useState<WipLimitPolicy>(wipPolicy);
+  // Removed column id -> column that takes over its items
+  const [removed, setRemoved] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const existingIds = columns.map(column => column.id);
+
+  const updateColumn = (id: string, changes: Partial<KanbanColumnConfig>) => {
+    setDraft(prev => prev.map(column => (column.id === id ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const addColumn = () => {
+    const title = 'New Column';
+    const id = toColumnId(title, [...existingIds, ...draft.map(column => column.id)]);
+    setDraft([...draft, { id, title, color: '#94a3b8', order: draft.length, wipLimit: null, isDone: false }]);
+  };
+
+  const removeColumn = (id: string) => {
+    const remaining = draft.filter(column => column.id !== id);
+    if (remaining.length === 0) return;
+    setDraft(remaining);
+    // Columns that were never saved have no items to move
+    if (existingIds.includes(id)) {
+      setRemoved(prev => ({ ...prev, [id]: remaining[0].id }));
+    }
+  };
+
+  const handleSave = async () => {
+    if (draft.some(column => !column.title.trim())) {
+      setError('Every column needs a title.');
+      return;
+    }
+    if (!draft.some(column => column.isDone)) {
+      setError('Mark at least one column as a "done" column.');
+      return;
+    }
+
+    const columnIds = draft.map(column => column.id);
+    // Resolve chains where a removed column's target was itself removed later
+    const statusMapping = Object.fromEntries(
+      Object.entries(removed).map(([from, to]) => [from, columnIds.includes(to) ? to : columnIds[0]])
+    );
+
+    try {
+      setSaving(true);
+      setError('');
+      await onSave(
+        draft.map((column, index) => ({ ...column, title: column.title.trim(), order: index })),
+        statusMapping,
+        policy
+      );
+    } catch (err: any) {
+      setError('Failed to save column settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="kanban-modal-overlay" onClick={onClose}>
+      <div className="kanban-modal-content kanban-column-settings" onClick={(e) => e.stopPropagation()}>
+        <div className="kanban-modal-header">
+          <h2 className="kanban-modal-title">
+            <span className="material-icons">view_column</span>
+            Board Columns
+          </h2>
+          <button className="kanban-modal-close-btn" onClick={onClose}>
+            <span className="material-icons">close</span>
+          </button>
+        </div>
+        <div className="kanban-modal-body">
+          {error && (
+            <div className="error-message">
+              <span className="material-icons">error</span>
+              {error}
+            </div>
+          )}
+
+          <div className="column-settings-list">
+            <div className="column-settings-row column-settings-heading">
+              <span>Order</span>
+              <span>Title</span>
+              <span>Color</span>
+              <span>WIP limit</span>
+              <span>Done</span>
+              <span></span>
+            </div>
+            {draft.map((column, index) => (
+              <div key={column.id} className="column-settings-row">
+                <div className="column-order-actions">
+                  <button onClick={() => moveColumn(index, -1)} disabled={index === 0} aria-label="Move earlier">
+                    <span className="material-icons">arrow_upward</span>
+                  </button>
+                  <button onClick={() => moveColumn(index, 1)} disabled={index === draft.length - 1} aria-label="Move later">
+                    <span className="material-icons">arrow_downward</span>
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  className="form-control"
+                  value={column.title}
+                  onChange={(e) => updateColumn(column.id, { title: e.target.value })}
+                  maxLength={40}
+                />
+                <input
+                  type="color"
+                  className="column-color-input"
+                  value={column.color}
+                  onChange={(e) => updateColumn(column.id, { color: e.target.value })}
+                />
+                <input
+                  type="number"
+                  className="form-control"
+                  value={column.wipLimit ?? ''}
+                  onChange={(e) => updateColumn(column.id, { wipLimit: e.target.value ? Math.max(parseInt(e.target.value) || 0, 1) : null })}
+                  placeholder="None"
+                  min="1"
+                />
+                <input
+                  type="checkbox"
+                  checked={column.isDone}
+                  onChange={(e) => updateColumn(column.id, { isDone: e.target.checked })}
+                  aria-label="Done column"
+                />
+                <button
+                  className="btn-delete-item"
+                  onClick={() => removeColumn(column.id)}
+                  disabled={draft.length === 1}
+                  aria-label="Remove column"
+                >
+                  <span className="material-icons">delete</span>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button className="add-column-btn" onClick={addColumn}>
+            <span className="material-icons">add</span>
+            Add Column
+          </button>
+
+          <div className="wip-policy-setting">
+            <label htmlFor="wip-policy">When a move exceeds a WIP limit</label>
+            <select
+              id="wip-policy"
+              className="form-control"
+              value={policy}
+              onChange={(e) => setPolicy(e.target.value as WipLimitPolicy)}
+            >
+              <option value="WARN">Warn and ask for confirmation</option>
+              <option value="BLOCK">Block the move</option>
+            </select>
+          </div>
+
+          {Object.keys(removed).length > 0 && (
+            <div className="removed-columns">
+              <h4>Items in removed columns</h4>
+              {Object.entries(removed).map(([id, target]) => (
+                <div key={id} className="removed-column-row">
+                  <span>{columns.find(column => column.id === id)?.title || id} →</span>
+                  <select
+                    className="form-control"
+                    value={target}
+                    onChange={(e) => setRemoved(prev => ({ ...prev, [id]: e.target.value }))}
+                  >
+                    {draft.map(column => (
+                      <option key={column.id} value={column.id}>{column.title}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="kanban-modal-footer">
+          <button className="btn-cancel" onClick={onClose}>Cancel</button>
+          <button className="btn-save" onClick={handleSave} disabled={saving}>
+            <span className="material-icons">save</span>
+            {saving ? 'Saving...' : 'Save Columns'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KanbanColumnSettings;
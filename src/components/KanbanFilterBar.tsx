@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { KanbanFilter, KanbanFilterPreset } from '../types/kanban';
+import { EMPTY_KANBAN_FILTER, isFilterActive } from '../utils/kanbanFilters';
+import './KanbanFilterBar.css';
+
+interface KanbanFilterBarProps {
+  filter: KanbanFilter;
+  onChange: (filter: KanbanFilter) => void;
+  viewMode: 'epic' | 'userstory';
+  assignees: string[];
+  labels: string[];
+  epics: { id: string; name: string }[];
+  presets: KanbanFilterPreset[];
+  onSavePreset: (name: string) => Promise<void>;
+  onDeletePreset: (preset: KanbanFilterPreset) => Promise<void>;
+  visibleCount: number;
+  totalCount: number;
+}
+
+const KanbanFilterBar: React.FC<KanbanFilterBarProps> = ({
+  filter,
+  onChange,
+  viewMode,
+  assignees,
+  labels,
+  epics,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+  visibleCount,
+  totalCount,
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const active = isFilterActive(filter);
+  const isStoryView = viewMode === 'userstory';
+
+  const update = (changes: Partial<KanbanFilter>) => onChange({ ...filter, ...changes });
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+    try {
+      setSaving(true);
+      await onSavePreset(presetName.trim());
+      setPresetName('');
+      setShowSaveForm(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isPresetApplied = (preset: KanbanFilterPreset) =>
+    (Object.keys(EMPTY_KANBAN_FILTER) as (keyof KanbanFilter)[])
+      .every(field => (preset.filter[field] || '') === filter[field]);
+
+  return (
+    <div className="kanban-filter-bar">
+      <div className="filter-controls">
+        <div className="filter-search">
+          <span className="material-icons">search</span>
+          <input
+            type="text"
+            value={filter.search}
+            onChange={(e) => update({ search: e.target.value })}
+            placeholder={isStoryView ? 'Search title, description, labels' : 'Search epics'}
+            aria-label="Search"
+          />
+        </div>
+
+        {isStoryView && (
+          <select value={filter.assignee} onChange={(e) => update({ assignee: e.target.value })} aria-label="Assignee">
+            <option value="">All assignees</option>
+            {assignees.map(assignee => (
+              <option key={assignee} value={assignee}>{assignee}</option>
+            ))}
+          </select>
+        )}
+
+        <select value={filter.priority} onChange={(e) => update({ priority: e.target.value })} aria-label="Priority">
+          <option value="">All priorities</option>
+          <option value="HIGH">High</option>
+          <option value="MEDIUM">Medium</option>
+          <option value="LOW">Low</option>
+        </select>
+
+        {isStoryView && (
+          <>
+            <select value={filter.label} onChange={(e) => update({ label: e.target.value })} aria-label="Label">
+              <option value="">All labels</option>
+              {labels.map(label => (
+                <option key={label} value={label}>{label}</option>
+              ))}
+            </select>
+            <select value={filter.epicId} onChange={(e) => update({ epicId: e.target.value })} aria-label="Epic">
+              <option value="">All epics</option>
+              {epics.map(epic => (
+                <option key={epic.id} value={epic.id}>{epic.name}</option>
+              ))}
+            </select>
+            <div className="filter-date-range">
+              <span>Due</span>
+              <input
+                type="date"
+                value={filter.dueFrom}
+                max={filter.dueTo || undefined}
+                onChange={(e) => update({ dueFrom: e.target.value })}
+                aria-label="Due from"
+              />
+              <span>–</span>
+              <input
+                type="date"
+                value={filter.dueTo}
+                min={filter.dueFrom || undefined}
+                onChange={(e) => update({ dueTo: e.target.value })}
+                aria-label="Due to"
+              />
+            </div>
+          </>
+        )}
+
+        {active && (
+          <button className="filter-clear-btn" onClick={() => onChange(EMPTY_KANBAN_FILTER)}>
+            <span className="material-icons">close</span>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="filter-presets">
+        {presets.map(preset => (
+          <span key={preset.id} className={`filter-preset ${isPresetApplied(preset) ? 'active' : ''}`}>
+            <button className="filter-preset-apply" onClick={() => onChange({ ...EMPTY_KANBAN_FILTER, ...preset.filter })}>
+              <span className="material-icons">bookmark</span>
+              {preset.name}
+            </button>
+            <button
+              className="filter-preset-delete"
+              onClick={() => onDeletePreset(preset)}
+              aria-label={`Delete preset ${preset.name}`}
+            >
+              <span className="material-icons">close</span>
+            </button>
+          </span>
+        ))}
+
+        {showSaveForm ? (
+          <span className="filter-preset-form">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              placeholder="Preset name"
+              maxLength={50}
+              autoFocus
+            />
+            <button onClick={handleSavePreset} disabled={saving || !presetName.trim()}>
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button onClick={() => setShowSaveForm(false)}>Cancel</button>
+          </span>
+        ) : (
+          <button className="filter-save-btn" onClick={() => setShowSaveForm(true)} disabled={!active}>
+            <span className="material-icons">bookmark_add</span>
+            Save filter
+          </button>
+        )}
+
+        {active && (
+          <span className="filter-result-count">
+            Showing {visibleCount} of {totalCount}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KanbanFilterBar;
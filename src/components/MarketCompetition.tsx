@@ -2,35 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useProduct } from '../hooks/useProduct';
+import { marketService } from '../services/marketService';
+import { MarketCompetitionData, Competitor, Trend } from '../types/market';
 import './MarketCompetition.css';
 
-interface MarketCompetitionData {
-  id?: number;
-  productId: number;
-  marketSize: string;
-  marketGrowth: string;
-  targetMarket: string;
-  competitors: string;
-  competitiveAdvantage: string;
-  marketTrends: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-interface Competitor {
-  id: string;
-  name: string;
-  strengths: string;
-  weaknesses: string;
-  marketShare: string;
-}
-
-interface Trend {
-  id: string;
-  description: string;
-  impact: string;
-}
-
 const MarketCompetition: React.FC = () => {
   const { productSlug } = useParams<{ productSlug: string }>();
   const navigate = useNavigate();
@@ -116,20 +91,8 @@ const MarketCompetition: React.FC = () => {
 
   const loadMarketCompetitionData = async (productId: number): Promise<MarketCompetitionData | null> => {
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${productId}/market-competition`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        return await response.json();
-      } else if (response.status === 404) {
-        // No data exists yet, return null
-        return null;
-      } else {
-        throw new Error('Failed to load market competition data');
-      }
+      // No data exists yet resolves to null
+      return await marketService.getMarketCompetition(productId);
     } catch (error) {
       return null;
     }
@@ -197,33 +160,23 @@ const MarketCompetition: React.FC = () => {
       setError('');
       setSuccessMessage('');
 
-      const response = await fetch(`http://localhost:8080/api/products/${product?.productId}/market-competition`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
-          marketSize: marketCompetition.marketSize,
-          marketGrowth: marketCompetition.marketGrowth,
-          targetMarket: marketCompetition.targetMarket,
-          competitors: JSON.stringify(competitors.filter(c => c.name.trim())),
-          competitiveAdvantage: marketCompetition.competitiveAdvantage,
-          marketTrends: JSON.stringify(trends.filter(t => t.description.trim()))
-        })
+      if (!product) return;
+
+      const savedData = await marketService.saveMarketCompetition(product.productId, {
+        marketSize: marketCompetition.marketSize,
+        marketGrowth: marketCompetition.marketGrowth,
+        targetMarket: marketCompetition.targetMarket,
+        competitors: JSON.stringify(competitors.filter(c => c.name.trim())),
+        competitiveAdvantage: marketCompetition.competitiveAdvantage,
+        marketTrends: JSON.stringify(trends.filter(t => t.description.trim()))
       });
 
-      if (response.ok) {
-        const savedData = await response.json();
-        setMarketCompetition(savedData);
-        setSuccessMessage('Market and competition analysis saved successfully!');
-        setIsEditMode(false); // Switch back to view mode after saving
-        
-        // Clear success message after 3 seconds
-        setTimeout(() => setSuccessMessage(''), 3000);
-      } else {
-        throw new Error('Failed to save market competition data');
-      }
+      setMarketCompetition(savedData);
+      setSuccessMessage('Market and competition analysis saved successfully!');
+      setIsEditMode(false); // Switch back to view mode after saving
+
+      // Clear success message after 3 seconds
+      setTimeout(() => setSuccessMessage(''), 3000);
     } catch (err: any) {
       setError('Failed to save market competition data. Please try again.');
     } finally {
@@ -2,41 +2,14 @@ import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useProduct } from '../hooks/useProduct';
-import { API_BASE_URL } from '../config';
+import { backlogService } from '../services/backlogService';
+import { hypothesisService } from '../services/hypothesisService';
+import { Epic, ProductBacklogData, UserStory } from '../types/backlog';
+import { getErrorStatus } from '../utils/errorHandler';
+import { findCycleForLink, getBlockedEpicIds, getBlockerIds } from '../utils/epicDependencies';
+import EpicDependencyGraph from './EpicDependencyGraph';
 import './ProductBacklog.css';
 
-interface ProductBacklogData {
-  id?: number;
-  productId: number;
-  epics: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-interface UserStory {
-  id?: number;
-  title: string;
-  description: string;
-  acceptanceCriteria?: string;
-  priority: 'High' | 'Medium' | 'Low';
-  storyPoints?: number;
-  status?: 'Draft' | 'Ready' | 'In Progress' | 'Done' | 'Blocked';
-  displayOrder?: number;
-}
-
-interface Epic {
-  id: string;
-  name: string;
-  description: string;
-  themeId: string;
-  themeName: string;
-  themeColor: string;
-  initiativeId: string;
-  initiativeName: string;
-  track: string;
-  userStories?: UserStory[];
-}
-
 interface Theme {
   id: string;
   name: string;
@@ -48,6 +21,17 @@ interface Initiative {
   title: string;
 }
 
+const getEpicSaveErrorMessage = (error: unknown, action: string): string => {
+  const status = getErrorStatus(error);
+  if (status === 401 || status === 403) {
+    return 'Authentication expired. Please refresh the page and log in again.';
+  }
+  if (status === 500) {
+    return 'Server error occurred. Please try again later.';
+  }
+  return `Failed to ${action}. Please try again.`;
+};
+
 const ProductBacklog: React.FC = () => {
   const { productSlug } = useParams<{ productSlug: string }>();
   const navigate = useNavigate();
@@ -125,6 +109,7 @@ const ProductBacklog: React.FC = () => {
   const [showDeleteConfirmModal, setShowDeleteConfirmModal] = useState(false);
   const [epicToDelete, setEpicToDelete] = useState<Epic | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [backlogView, setBacklogView] = useState<'list' | 'graph'>('list');
   const deleteRequestRef = useRef<Set<string>>(new Set());
 
   // Filtered epics based on search and filters
@@ -236,19 +221,7 @@ const ProductBacklog: React.FC = () => {
 
   const loadProductBacklogData = async (productId: number): Promise<ProductBacklogData | null> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/v3/products/${productId}/backlog`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        return await response.json();
-      } else if (response.status === 404) {
-        return null;
-      } else {
-        throw new Error('Failed to load product backlog data');
-      }
+      return await backlogService.getBacklog(productId);
     } catch (error) {
       return null;
     }
@@ -256,17 +229,7 @@ const ProductBacklog: React.FC = () => {
 
   const loadProductHypothesisData = async (productId: number) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/products/${productId}/hypothesis`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        return await response.json();
-      } else {
-        return null;
-      }
+      return await hypothesisService.getHypothesis(productId);
     } catch (error) {
       return null;
     }
@@ -345,21 +308,8 @@ const ProductBacklog: React.FC = () => {
   const openViewEpicModal = async (epic: Epic) => {
     // ALWAYS fetch user stories from backend for this epic (same as RoadmapPlanner)
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/v3/products/${product?.productId}/epics/${epic.id}/user-stories`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const stories = await response.json();
-        setViewingEpic({ ...epic, userStories: stories });
-      } else {
-        setViewingEpic({ ...epic, userStories: [] });
-      }
+      const stories = product ? await backlogService.getUserStories(product.productId, epic.id) : [];
+      setViewingEpic({ ...epic, userStories: stories });
     } catch (error) {
       console.warn('Failed to load user stories:', error);
       setViewingEpic({ ...epic, userStories: [] });
@@ -399,6 +349,29 @@ const ProductBacklog: React.FC = () => {
     setError('');
   };
 
+  const addBlocker = (blockerId: string) => {
+    if (!editingViewEpic || !blockerId) return;
+
+    const draftEpics = epics.map(epic => (epic.id === editingViewEpic.id ? editingViewEpic : epic));
+    const cycle = findCycleForLink(editingViewEpic.id, blockerId, draftEpics);
+    if (cycle) {
+      const names = cycle.map(id => draftEpics.find(epic => epic.id === id)?.name || id);
+      setError(`This dependency would create a cycle: ${names.join(' → ')}`);
+      return;
+    }
+
+    setError('');
+    setEditingViewEpic(prev => (prev ? { ...prev, blockedBy: [...(prev.blockedBy || []), blockerId] } : prev));
+  };
+
+  const removeBlocker = (blockerId: string) => {
+    setEditingViewEpic(prev =>
+      prev ? { ...prev, blockedBy: (prev.blockedBy || []).filter(id => id !== blockerId) } : prev
+    );
+  };
+
+  const getEpicName = (epicId: string) => epics.find(epic => epic.id === epicId)?.name || epicId;
+
   const updateEditingViewEpic = (field: keyof Epic, value: string) => {
     if (!editingViewEpic) return;
     
@@ -439,6 +412,7 @@ const ProductBacklog: React.FC = () => {
   };
 
   const saveEditedViewEpic = async () => {
+    if (!product) return;
     if (!editingViewEpic || !editingViewEpic.name.trim()) {
       setError('Please fill in all required fields.');
       return;
@@ -465,15 +439,7 @@ const ProductBacklog: React.FC = () => {
         try {
           for (const story of deletedStories) {
             if (story.id) {
-              await fetch(
-                `${API_BASE_URL}/v3/products/${product?.productId}/user-stories/${story.id}/delete`,
-                {
-                  method: 'POST',
-                  headers: {
-                    'Authorization': `Bearer ${localStorage.getItem('token')}`
-                  }
-                }
-              );
+              await backlogService.deleteUserStory(product.productId, story.id);
             }
           }
         } catch (deleteError) {
@@ -487,57 +453,27 @@ const ProductBacklog: React.FC = () => {
           if (!story.id) {
             // Create new story - no id means it needs to be created
             console.log('Creating new user story:', story.title);
-            const response = await fetch(
-              `${API_BASE_URL}/v3/products/${product?.productId}/epics/${editingViewEpic.id}/user-stories`,
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${localStorage.getItem('token')}`
-                },
-                body: JSON.stringify({
-                  title: story.title,
-                  description: story.description,
-                  acceptanceCriteria: story.acceptanceCriteria,
-                  priority: story.priority,
-                  storyPoints: story.storyPoints,
-                  status: story.status || 'Draft'
-                })
-              }
-            );
-
-            if (response.ok) {
-              console.log('Successfully created user story:', story.title);
-            } else {
-              console.error('Failed to create user story:', await response.text());
-            }
+            await backlogService.createUserStory(product.productId, editingViewEpic.id, {
+              title: story.title,
+              description: story.description,
+              acceptanceCriteria: story.acceptanceCriteria,
+              priority: story.priority,
+              storyPoints: story.storyPoints,
+              status: story.status || 'Draft'
+            });
+            console.log('Successfully created user story:', story.title);
           } else if (story.id && modifiedStoryIds.has(story.id)) {
             // Only update existing story if it was actually modified
             console.log('Updating modified user story:', story.id);
-            const response = await fetch(
-              `${API_BASE_URL}/v3/products/${product?.productId}/user-stories/${story.id}`,
-              {
-                method: 'PUT',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${localStorage.getItem('token')}`
-                },
-                body: JSON.stringify({
-                  title: story.title,
-                  description: story.description,
-                  acceptanceCriteria: story.acceptanceCriteria,
-                  priority: story.priority,
-                  storyPoints: story.storyPoints,
-                  status: story.status || 'Draft'
-                })
-              }
-            );
-
-            if (response.ok) {
-              console.log('Successfully updated user story:', story.id);
-            } else {
-              console.error('Failed to update user story:', await response.text());
-            }
+            await backlogService.updateUserStory(product.productId, story.id, {
+              title: story.title,
+              description: story.description,
+              acceptanceCriteria: story.acceptanceCriteria,
+              priority: story.priority,
+              storyPoints: story.storyPoints,
+              status: story.status || 'Draft'
+            });
+            console.log('Successfully updated user story:', story.id);
           }
         } catch (storyError) {
           console.warn('Error creating/updating user story:', storyError);
@@ -547,52 +483,32 @@ const ProductBacklog: React.FC = () => {
       // Update epic using PUT endpoint (safe for single epic updates)
       // Don't send userStories - they are managed separately via user story endpoints
       const { userStories, ...epicWithoutStories } = epicToSave;
-      const response = await fetch(`${API_BASE_URL}/v3/products/${product?.productId}/backlog/${epicToSave.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify(epicWithoutStories)
-      });
-
-      if (response.ok) {
-        const savedEpic = await response.json();
+      const savedEpic = await backlogService.updateEpic(product.productId, epicWithoutStories);
 
-        // Update the epic in the epics array
-        const updatedEpics = epics.map(epic =>
-          epic.id === savedEpic.id ? { ...epicToSave, ...savedEpic } : epic
-        );
-        setEpics(updatedEpics);
-        setViewingEpic(epicToSave);
-        setIsEditingInViewModal(false);
-        setEditingViewEpic(null);
-        setEditModeUserStories([]);
-        setShowEditStoryForm(false);
-        setModifiedStoryIds(new Set()); // Clear modified stories set
-
-        setSuccessMessage('Epic updated successfully!');
-        // Clear success message after 5 seconds
-        setTimeout(() => setSuccessMessage(''), 5000);
-      } else {
-        const errorText = await response.text();
+      // Update the epic in the epics array
+      const updatedEpics = epics.map(epic =>
+        epic.id === savedEpic.id ? { ...epicToSave, ...savedEpic } : epic
+      );
+      setEpics(updatedEpics);
+      setViewingEpic(epicToSave);
+      setIsEditingInViewModal(false);
+      setEditingViewEpic(null);
+      setEditModeUserStories([]);
+      setShowEditStoryForm(false);
+      setModifiedStoryIds(new Set()); // Clear modified stories set
 
-        if (response.status === 401 || response.status === 403) {
-          setError('Authentication expired. Please refresh the page and log in again.');
-        } else if (response.status === 500) {
-          setError('Server error occurred. Please try again later.');
-        } else {
-          setError('Failed to update epic. Please try again.');
-        }
-      }
+      setSuccessMessage('Epic updated successfully!');
+      // Clear success message after 5 seconds
+      setTimeout(() => setSuccessMessage(''), 5000);
     } catch (error: any) {
-      setError('Failed to update epic. Please try again.');
+      setError(getEpicSaveErrorMessage(error, 'update epic'));
     } finally {
       setSaving(false);
     }
   };
 
   const handleAddEpic = async () => {
+    if (!product) return;
     if (newEpic.name.trim() && newEpic.themeId && newEpic.initiativeId) {
       try {
         setSaving(true);
@@ -611,58 +527,24 @@ const ProductBacklog: React.FC = () => {
           userStories: tempUserStories
         };
 
-        // Check if token exists
-        const token = localStorage.getItem('token');
-        if (!token) {
-          throw new Error('No authentication token found. Please log in again.');
-        }
-
         // Save epic to backend using POST (create single epic)
-        const response = await fetch(`${API_BASE_URL}/v3/products/${product?.productId}/backlog/epic`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify(epicToSave)
-        });
-
-        if (response.ok) {
-          const savedEpic = await response.json();
-          // Add the saved epic to the local epics array
-          const updatedEpics = [...epics, { ...epicToSave, ...savedEpic }];
-          setEpics(updatedEpics);
+        const savedEpic = await backlogService.createEpic(product.productId, epicToSave);
+        // Add the saved epic to the local epics array
+        const updatedEpics = [...epics, { ...epicToSave, ...savedEpic }];
+        setEpics(updatedEpics);
 
-          setSuccessMessage('Epic added successfully!');
+        setSuccessMessage('Epic added successfully!');
 
-          // Close modal and clear any errors
-          setError('');
-          closeAddEpicModal();
+        // Close modal and clear any errors
+        setError('');
+        closeAddEpicModal();
 
-          // Clear success message after 5 seconds
-          setTimeout(() => setSuccessMessage(''), 5000);
-        } else {
-          // Roll back the optimistic update
-          setEpics(epics);
-          const errorText = await response.text();
-
-          if (response.status === 401 || response.status === 403) {
-            setError('Authentication expired. Please refresh the page and log in again.');
-          } else if (response.status === 500) {
-            setError('Server error occurred. Please try again later.');
-          } else {
-            setError('Failed to add epic. Please try again.');
-          }
-        }
+        // Clear success message after 5 seconds
+        setTimeout(() => setSuccessMessage(''), 5000);
       } catch (error: any) {
         // Roll back the optimistic update
         setEpics(epics);
-
-        if (error.message?.includes('authentication')) {
-          setError(error.message);
-        } else {
-          setError('Failed to add epic. Please try again.');
-        }
+        setError(getEpicSaveErrorMessage(error, 'add epic'));
       } finally {
         setSaving(false);
       }
@@ -996,26 +878,16 @@ const ProductBacklog: React.FC = () => {
       setError('');
       setSuccessMessage('');
 
-      const response = await fetch(`${API_BASE_URL}/v3/products/${product?.productId}/backlog`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
-          epics: JSON.stringify(epics.filter(e => e.name.trim() && e.themeId && e.initiativeId))
-        })
+      if (!product) return;
+
+      const savedData = await backlogService.saveBacklog(product.productId, {
+        epics: JSON.stringify(epics.filter(e => e.name.trim() && e.themeId && e.initiativeId))
       });
 
-      if (response.ok) {
-        const savedData = await response.json();
-        setProductBacklog(savedData);
-        setSuccessMessage('Product backlog saved successfully!');
-        
-        setTimeout(() => setSuccessMessage(''), 3000);
-      } else {
-        throw new Error('Failed to save product backlog data');
-      }
+      setProductBacklog(savedData);
+      setSuccessMessage('Product backlog saved successfully!');
+
+      setTimeout(() => setSuccessMessage(''), 3000);
     } catch (err: any) {
       setError('Failed to save product backlog data. Please try again.');
     } finally {
@@ -1210,44 +1082,32 @@ const ProductBacklog: React.FC = () => {
       setSuccessMessage('');
 
       // Call DELETE endpoint for the specific epic
-      const response = await fetch(`${API_BASE_URL}/v3/products/${product?.productId}/backlog/${epicId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          'X-Request-Id': requestId
-        }
-      });
+      if (!product) return;
 
-      if (response.ok) {
-        // Deletion successful - update UI immediately by removing the deleted epic
-        const updatedEpics = epics.filter(epic => epic.id !== epicId);
-        setEpics(updatedEpics);
-        setSuccessMessage('Epic deleted successfully!');
-        
-        // Try to parse response data if available
-        try {
-          const responseText = await response.text();
-          if (responseText.trim()) {
-            const savedData = JSON.parse(responseText);
-            setProductBacklog(savedData);
-            
-            if (savedData && savedData.epics) {
-              const parsedEpics = typeof savedData.epics === 'string' 
-                ? JSON.parse(savedData.epics) 
-                : savedData.epics;
-              setEpics(parsedEpics);
-            }
+      const savedData = await backlogService.deleteEpic(product.productId, epicId, requestId);
+
+      // Deletion successful - update UI immediately by removing the deleted epic
+      const updatedEpics = epics.filter(epic => epic.id !== epicId);
+      setEpics(updatedEpics);
+      setSuccessMessage('Epic deleted successfully!');
+
+      // Use the updated backlog if the backend sent one back
+      if (savedData) {
+        setProductBacklog(savedData);
+
+        if (savedData.epics) {
+          try {
+            const parsedEpics = typeof savedData.epics === 'string'
+              ? JSON.parse(savedData.epics)
+              : savedData.epics;
+            setEpics(parsedEpics);
+          } catch (parseError) {
+            // Response parsing failed but deletion succeeded, keep the optimistic update
           }
-        } catch (parseError) {
-          // Response parsing failed but deletion succeeded, keep the optimistic update
         }
-        
-        setTimeout(() => setSuccessMessage(''), 3000);
-      } else {
-        // Deletion failed
-        const errorText = await response.text();
-        setError('Failed to delete epic. Please try again.');
       }
+
+      setTimeout(() => setSuccessMessage(''), 3000);
     } catch (error: any) {
       setError('Failed to delete epic. Please try again.');
     } finally {
@@ -1260,6 +1120,14 @@ const ProductBacklog: React.FC = () => {
     }
   };
 
+  // Dependencies shown in the epic modal reflect unsaved edits while editing
+  const dependencyEpic = isEditingInViewModal && editingViewEpic ? editingViewEpic : viewingEpic;
+  const blockerIds = dependencyEpic ? getBlockerIds(dependencyEpic, epics) : [];
+  const blockerCandidates = dependencyEpic
+    ? epics.filter(epic => epic.id !== dependencyEpic.id && !blockerIds.includes(epic.id))
+    : [];
+  const blockedEpicIds = viewingEpic ? getBlockedEpicIds(viewingEpic.id, epics) : [];
+
   return (
     <div className="product-backlog-container">
       <div className="product-backlog-page-header">
@@ -1302,165 +1170,187 @@ const ProductBacklog: React.FC = () => {
                 Create and manage epics by selecting themes, initiatives and track.
               </p>
             </div>
-          </div>
-          
-          {/* Search and Filter Controls */}
-          <div className="search-filter-controls">
-            <div className="search-bar">
-              <div className="search-input-wrapper">
-                <span className="material-icons search-icon">search</span>
-                <input
-                  type="text"
-                  placeholder="Search epics by name or description..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="search-input"
-                />
-                {searchTerm && (
-                  <button
-                    onClick={() => setSearchTerm('')}
-                    className="clear-search-btn"
-                    title="Clear search"
-                  >
-                    <span className="material-icons">close</span>
-                  </button>
-                )}
-              </div>
+            <div className="backlog-view-toggle">
+              <button
+                className={backlogView === 'list' ? 'active' : ''}
+                onClick={() => setBacklogView('list')}
+              >
+                <span className="material-icons">list</span>
+                List
+              </button>
+              <button
+                className={backlogView === 'graph' ? 'active' : ''}
+                onClick={() => setBacklogView('graph')}
+              >
+                <span className="material-icons">account_tree</span>
+                Dependencies
+              </button>
             </div>
+          </div>
+
+          {backlogView === 'graph' ? (
+            <EpicDependencyGraph epics={epics} onSelectEpic={openViewEpicModal} />
+          ) : (
+            <>
+              {/* Search and Filter Controls */}
+              <div className="search-filter-controls">
+                <div className="search-bar">
+                  <div className="search-input-wrapper">
+                    <span className="material-icons search-icon">search</span>
+                    <input
+                      type="text"
+                      placeholder="Search epics by name or description..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="search-input"
+                    />
+                    {searchTerm && (
+                      <button
+                        onClick={() => setSearchTerm('')}
+                        className="clear-search-btn"
+                        title="Clear search"
+                      >
+                        <span className="material-icons">close</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
             
-            <div className="filter-row">
-              <div className="filter-group">
-                <label>Filter by Theme:</label>
-                <select
-                  value={selectedThemeFilter}
-                  onChange={(e) => setSelectedThemeFilter(e.target.value)}
-                  className="filter-select"
-                >
-                  <option value="">All Themes</option>
-                  {availableThemes.map((theme) => (
-                    <option key={theme.id} value={theme.id}>
-                      {theme.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
+                <div className="filter-row">
+                  <div className="filter-group">
+                    <label>Filter by Theme:</label>
+                    <select
+                      value={selectedThemeFilter}
+                      onChange={(e) => setSelectedThemeFilter(e.target.value)}
+                      className="filter-select"
+                    >
+                      <option value="">All Themes</option>
+                      {availableThemes.map((theme) => (
+                        <option key={theme.id} value={theme.id}>
+                          {theme.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
               
-              <div className="filter-group">
-                <label>Filter by Initiative:</label>
-                <select
-                  value={selectedInitiativeFilter}
-                  onChange={(e) => setSelectedInitiativeFilter(e.target.value)}
-                  className="filter-select"
-                >
-                  <option value="">All Initiatives</option>
-                  {availableInitiatives.map((initiative) => (
-                    <option key={initiative.id} value={initiative.id}>
-                      {initiative.title}
-                    </option>
-                  ))}
-                </select>
-              </div>
+                  <div className="filter-group">
+                    <label>Filter by Initiative:</label>
+                    <select
+                      value={selectedInitiativeFilter}
+                      onChange={(e) => setSelectedInitiativeFilter(e.target.value)}
+                      className="filter-select"
+                    >
+                      <option value="">All Initiatives</option>
+                      {availableInitiatives.map((initiative) => (
+                        <option key={initiative.id} value={initiative.id}>
+                          {initiative.title}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
               
-              <div className="filter-group">
-                <label>Filter by Track:</label>
-                <select
-                  value={selectedTrackFilter}
-                  onChange={(e) => setSelectedTrackFilter(e.target.value)}
-                  className="filter-select"
-                >
-                  <option value="">All Tracks</option>
-                  <option value="Customer Concerns">Customer Concerns</option>
-                  <option value="Innovation">Innovation</option>
-                  <option value="Scale">Scale</option>
-                </select>
-              </div>
+                  <div className="filter-group">
+                    <label>Filter by Track:</label>
+                    <select
+                      value={selectedTrackFilter}
+                      onChange={(e) => setSelectedTrackFilter(e.target.value)}
+                      className="filter-select"
+                    >
+                      <option value="">All Tracks</option>
+                      <option value="Customer Concerns">Customer Concerns</option>
+                      <option value="Innovation">Innovation</option>
+                      <option value="Scale">Scale</option>
+                    </select>
+                  </div>
               
-              {(searchTerm || selectedThemeFilter || selectedInitiativeFilter || selectedTrackFilter) && (
-                <button
-                  onClick={clearAllFilters}
-                  className="clear-filters-btn"
-                  title="Clear all filters"
-                >
-                  <span className="material-icons">refresh</span>
-                  Clear All
-                </button>
-              )}
-            </div>
-          </div>
+                  {(searchTerm || selectedThemeFilter || selectedInitiativeFilter || selectedTrackFilter) && (
+                    <button
+                      onClick={clearAllFilters}
+                      className="clear-filters-btn"
+                      title="Clear all filters"
+                    >
+                      <span className="material-icons">refresh</span>
+                      Clear All
+                    </button>
+                  )}
+                </div>
+              </div>
           
-          <div className="epics-container">
-            {epics.length > 0 ? (
-              filteredEpics.length > 0 ? (
-                <div className="epics-table-wrapper">
-                  <table className="epics-table">
-                    <thead>
-                      <tr>
-                        <th className="epic-name-col">Epic Name</th>
-                        <th className="epic-theme-col">Theme</th>
-                        <th className="epic-initiative-col">Initiative</th>
-                        <th className="epic-track-col">Track</th>
-                        <th className="epic-actions-col">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {filteredEpics.map((epic) => (
-                      <tr key={epic.id} className="epic-row">
-                        <td className="epic-name-cell">
+              <div className="epics-container">
+                {epics.length > 0 ? (
+                  filteredEpics.length > 0 ? (
+                    <div className="epics-table-wrapper">
+                      <table className="epics-table">
+                        <thead>
+                          <tr>
+                            <th className="epic-name-col">Epic Name</th>
+                            <th className="epic-theme-col">Theme</th>
+                            <th className="epic-initiative-col">Initiative</th>
+                            <th className="epic-track-col">Track</th>
+                            <th className="epic-actions-col">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {filteredEpics.map((epic) => (
+                          <tr key={epic.id} className="epic-row">
+                            <td className="epic-name-cell">
+                              <button 
+                                className="epic-name-btn"
+                                onClick={() => openViewEpicModal(epic)}
+                                title="View epic details"
+                              >
+                                {epic.name}
+                              </button>
+                            </td>
+                            <td className="epic-theme-cell">
+                              {epic.themeName || '—'}
+                            </td>
+                            <td className="epic-initiative-cell">
+                              {epic.initiativeName || '—'}
+                            </td>
+                            <td className="epic-track-cell">
+                              {epic.track}
+                            </td>
+                            <td className="epic-actions-cell">
+                              <button
+                                onClick={() => deleteEpic(epic.id)}
+                                disabled={deletingEpicId === epic.id}
+                                className="delete-epic-btn"
+                                title="Delete epic"
+                              >
+                                <span className="material-icons">
+                                  {deletingEpicId === epic.id ? 'hourglass_empty' : 'delete'}
+                                </span>
+                              </button>
+                            </td>
+                          </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <div className="empty-state-table">
+                      <span className="empty-text">
+                        No epics match the current search and filter criteria. 
+                        {(searchTerm || selectedThemeFilter || selectedInitiativeFilter || selectedTrackFilter) && (
                           <button 
-                            className="epic-name-btn"
-                            onClick={() => openViewEpicModal(epic)}
-                            title="View epic details"
-                          >
-                            {epic.name}
-                          </button>
-                        </td>
-                        <td className="epic-theme-cell">
-                          {epic.themeName || '—'}
-                        </td>
-                        <td className="epic-initiative-cell">
-                          {epic.initiativeName || '—'}
-                        </td>
-                        <td className="epic-track-cell">
-                          {epic.track}
-                        </td>
-                        <td className="epic-actions-cell">
-                          <button
-                            onClick={() => deleteEpic(epic.id)}
-                            disabled={deletingEpicId === epic.id}
-                            className="delete-epic-btn"
-                            title="Delete epic"
+                            onClick={clearAllFilters} 
+                            className="clear-filters-link"
                           >
-                            <span className="material-icons">
-                              {deletingEpicId === epic.id ? 'hourglass_empty' : 'delete'}
-                            </span>
+                            Clear all filters
                           </button>
-                        </td>
-                      </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              ) : (
-                <div className="empty-state-table">
-                  <span className="empty-text">
-                    No epics match the current search and filter criteria. 
-                    {(searchTerm || selectedThemeFilter || selectedInitiativeFilter || selectedTrackFilter) && (
-                      <button 
-                        onClick={clearAllFilters} 
-                        className="clear-filters-link"
-                      >
-                        Clear all filters
-                      </button>
-                    )}
-                  </span>
-                </div>
-              )
-            ) : (
-              <div className="empty-state-table">
-                <span className="empty-text">No epics defined yet</span>
+                        )}
+                      </span>
+                    </div>
+                  )
+                ) : (
+                  <div className="empty-state-table">
+                    <span className="empty-text">No epics defined yet</span>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            </>
+          )}
         </div>
 
       </div>
@@ -1922,6 +1812,52 @@ const ProductBacklog: React.FC = () => {
                   )}
                 </div>
 
+                <div className="epic-dependencies-row">
+                  <div className="form-group">
+                    <label>Blocked by</label>
+                    <div className="epic-dependency-list">
+                      {blockerIds.length === 0 && !isEditingInViewModal && (
+                        <span className="epic-dependency-empty">No blockers</span>
+                      )}
+                      {blockerIds.map(id => (
+                        <span key={id} className="epic-dependency-chip">
+                          {getEpicName(id)}
+                          {isEditingInViewModal && (
+                            <button onClick={() => removeBlocker(id)} aria-label={`Remove ${getEpicName(id)}`}>
+                              <span className="material-icons">close</span>
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                      {isEditingInViewModal && blockerCandidates.length > 0 && (
+                        <select
+                          value=""
+                          onChange={(e) => addBlocker(e.target.value)}
+                          className="epic-dependency-add"
+                          aria-label="Add blocker"
+                        >
+                          <option value="">+ Add blocker</option>
+                          {blockerCandidates.map(epic => (
+                            <option key={epic.id} value={epic.id}>{epic.name}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                  <div className="form-group">
+                    <label>Blocks</label>
+                    <div className="epic-dependency-list">
+                      {blockedEpicIds.length === 0 ? (
+                        <span className="epic-dependency-empty">Doesn't block other epics</span>
+                      ) : (
+                        blockedEpicIds.map(id => (
+                          <span key={id} className="epic-dependency-chip">{getEpicName(id)}</span>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                </div>
+
                 {/* User Stories Section */}
                 {isEditingInViewModal ? (
                   /* Edit Mode - Interactive User Stories */
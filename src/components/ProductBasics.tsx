@@ -2,29 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useProduct } from '../hooks/useProduct';
+import { basicsService } from '../services/basicsService';
+import { ProductBasicsData, Persona, Goal } from '../types/basics';
 import './ProductBasics.css';
 
-interface ProductBasicsData {
-  id?: number;
-  productId: number;
-  vision: string;
-  targetPersonas: string;
-  goals: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-interface Persona {
-  id: string;
-  name: string;
-  description: string;
-}
-
-interface Goal {
-  id: string;
-  description: string;
-}
-
 const ProductBasics: React.FC = () => {
   const { productSlug } = useParams<{ productSlug: string }>();
   const navigate = useNavigate();
@@ -107,20 +88,8 @@ const ProductBasics: React.FC = () => {
 
   const loadProductBasics = async (productId: number): Promise<ProductBasicsData | null> => {
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${productId}/basics`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        return await response.json();
-      } else if (response.status === 404) {
-        // No data exists yet, return null
-        return null;
-      } else {
-        throw new Error('Failed to load product basics');
-      }
+      // No data exists yet resolves to null
+      return await basicsService.getBasics(productId);
     } catch (error) {
       return null;
     }
@@ -185,30 +154,20 @@ const ProductBasics: React.FC = () => {
       setError('');
       setSuccessMessage('');
 
-      const response = await fetch(`http://localhost:8080/api/products/${product?.productId}/basics`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
-          vision: productBasics.vision,
-          targetPersonas: JSON.stringify(personas.filter(p => p.name.trim() || p.description.trim())),
-          goals: JSON.stringify(goals.filter(g => g.description.trim()))
-        })
+      if (!product) return;
+
+      const savedData = await basicsService.saveBasics(product.productId, {
+        vision: productBasics.vision,
+        targetPersonas: JSON.stringify(personas.filter(p => p.name.trim() || p.description.trim())),
+        goals: JSON.stringify(goals.filter(g => g.description.trim()))
       });
 
-      if (response.ok) {
-        const savedData = await response.json();
-        setProductBasics(savedData);
-        setSuccessMessage('Product basics saved successfully!');
-        setIsEditMode(false); // Switch back to view mode after saving
-        
-        // Clear success message after 3 seconds
-        setTimeout(() => setSuccessMessage(''), 3000);
-      } else {
-        throw new Error('Failed to save product basics');
-      }
+      setProductBasics(savedData);
+      setSuccessMessage('Product basics saved successfully!');
+      setIsEditMode(false); // Switch back to view mode after saving
+
+      // Clear success message after 3 seconds
+      setTimeout(() => setSuccessMessage(''), 3000);
     } catch (err: any) {
       setError('Failed to save product basics. Please try again.');
     } finally {
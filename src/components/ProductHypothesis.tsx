@@ -2,40 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useProduct } from '../hooks/useProduct';
+import { hypothesisService } from '../services/hypothesisService';
+import { ProductHypothesisData, Initiative, Theme, Assumption } from '../types/hypothesis';
 import './ProductHypothesis.css';
 
-interface ProductHypothesisData {
-  id?: number;
-  productId: number;
-  hypothesisStatement: string;
-  successMetrics: string;
-  assumptions: string;
-  initiatives: string;
-  themes: string;
-  createdAt?: string;
-  updatedAt?: string;
-  warnings?: string[];
-}
-
-interface Initiative {
-  id: string;
-  title: string;
-}
-
-interface Theme {
-  id: string;
-  name: string;
-  color: string;
-}
-
-interface Assumption {
-  id: string;
-  assumption: string;
-  confidence: string;
-  impact: string;
-}
-
-
 const ProductHypothesis: React.FC = () => {
   const { productSlug } = useParams<{ productSlug: string }>();
   const navigate = useNavigate();
@@ -120,19 +90,7 @@ const ProductHypothesis: React.FC = () => {
 
   const loadProductHypothesisData = async (productId: number): Promise<ProductHypothesisData | null> => {
     try {
-      const response = await fetch(`http://localhost:8080/api/products/${productId}/hypothesis`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        return await response.json();
-      } else if (response.status === 404) {
-        return null;
-      } else {
-        throw new Error('Failed to load product hypothesis data');
-      }
+      return await hypothesisService.getHypothesis(productId);
     } catch (error) {
       return null;
     }
@@ -220,80 +178,70 @@ const ProductHypothesis: React.FC = () => {
       setError('');
       setSuccessMessage('');
 
-      const response = await fetch(`http://localhost:8080/api/products/${product?.productId}/hypothesis`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify({
-          hypothesisStatement: productHypothesis.hypothesisStatement,
-          successMetrics: productHypothesis.successMetrics,
-          assumptions: JSON.stringify(assumptions.filter(a => a.assumption.trim())),
-          initiatives: JSON.stringify(initiatives.filter(i => i.title.trim())),
-          themes: JSON.stringify(themes.filter(t => t.name.trim()))
-        })
+      if (!product) return;
+
+      const savedData = await hypothesisService.saveHypothesis(product.productId, {
+        hypothesisStatement: productHypothesis.hypothesisStatement,
+        successMetrics: productHypothesis.successMetrics,
+        assumptions: JSON.stringify(assumptions.filter(a => a.assumption.trim())),
+        initiatives: JSON.stringify(initiatives.filter(i => i.title.trim())),
+        themes: JSON.stringify(themes.filter(t => t.name.trim()))
       });
 
-      if (response.ok) {
-        const savedData = await response.json();
-        setProductHypothesis(savedData);
+      setProductHypothesis(savedData);
 
-        // Parse and update the arrays from saved data
-        if (savedData.themes) {
-          try {
-            const parsedThemes = JSON.parse(savedData.themes);
-            if (Array.isArray(parsedThemes)) {
-              setThemes(parsedThemes);
-            }
-          } catch (e) {
-            console.error('Error parsing themes:', e);
+      // Parse and update the arrays from saved data
+      if (savedData.themes) {
+        try {
+          const parsedThemes = JSON.parse(savedData.themes);
+          if (Array.isArray(parsedThemes)) {
+            setThemes(parsedThemes);
           }
+        } catch (e) {
+          console.error('Error parsing themes:', e);
         }
+      }
 
-        if (savedData.initiatives) {
-          try {
-            const parsedInitiatives = JSON.parse(savedData.initiatives);
-            if (Array.isArray(parsedInitiatives)) {
-              setInitiatives(parsedInitiatives);
-            }
-          } catch (e) {
-            console.error('Error parsing initiatives:', e);
+      if (savedData.initiatives) {
+        try {
+          const parsedInitiatives = JSON.parse(savedData.initiatives);
+          if (Array.isArray(parsedInitiatives)) {
+            setInitiatives(parsedInitiatives);
           }
+        } catch (e) {
+          console.error('Error parsing initiatives:', e);
         }
+      }
 
-        if (savedData.assumptions) {
-          try {
-            const parsedAssumptions = JSON.parse(savedData.assumptions);
-            if (Array.isArray(parsedAssumptions)) {
-              setAssumptions(parsedAssumptions);
-            }
-          } catch (e) {
-            console.error('Error parsing assumptions:', e);
+      if (savedData.assumptions) {
+        try {
+          const parsedAssumptions = JSON.parse(savedData.assumptions);
+          if (Array.isArray(parsedAssumptions)) {
+            setAssumptions(parsedAssumptions);
           }
+        } catch (e) {
+          console.error('Error parsing assumptions:', e);
         }
+      }
 
-        // Check for warnings
-        console.log('Saved data warnings:', savedData.warnings);
-        if (savedData.warnings && savedData.warnings.length > 0) {
-          // Show warnings as error messages
-          console.log('Setting error with warnings:', savedData.warnings.join('\n'));
-          setError(savedData.warnings.join('\n'));
-          setSuccessMessage('');
-        } else {
-          setSuccessMessage('Product hypothesis saved successfully!');
-          setError('');
-        }
-
-        setIsEditMode(false);
-
-        setTimeout(() => {
-          setSuccessMessage('');
-          setError('');
-        }, 5000);
+      // Check for warnings
+      console.log('Saved data warnings:', savedData.warnings);
+      if (savedData.warnings && savedData.warnings.length > 0) {
+        // Show warnings as error messages
+        console.log('Setting error with warnings:', savedData.warnings.join('\n'));
+        setError(savedData.warnings.join('\n'));
+        setSuccessMessage('');
       } else {
-        throw new Error('Failed to save product hypothesis data');
+        setSuccessMessage('Product hypothesis saved successfully!');
+        setError('');
       }
+
+      setIsEditMode(false);
+
+      setTimeout(() => {
+        setSuccessMessage('');
+        setError('');
+      }, 5000);
     } catch (err: any) {
       setError('Failed to save product hypothesis data. Please try again.');
     } finally {
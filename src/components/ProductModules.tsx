@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ProductModule } from '../types/module';
 import { moduleService } from '../services/moduleService';
+import { adminService } from '../services/adminService';
 import { useAuth } from '../context/AuthContext';
 import { useProduct } from '../hooks/useProduct';
 import './ProductModules.css';
@@ -50,28 +51,20 @@ const ProductModules: React.FC = () => {
       }
 
       // Get user's role and allowed modules from backend
-      const response = await fetch(`http://localhost:8080/api/admin/users/${user.id}/role-modules`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        signal
-      });
+      const userRoleModules = await adminService.getUserRoleModules(user.id, signal);
 
-      if (response.ok && !signal?.aborted) {
-        const userRoleModules = await response.json();
-        const allowedProductModuleIds = userRoleModules.map((pm: any) => pm.id);
+      if (!signal?.aborted) {
+        const allowedProductModuleIds = userRoleModules.map(pm => pm.id);
         
         // Filter modules based on user's role permissions
         const accessible = modules.filter(productModule => 
           allowedProductModuleIds.includes(productModule.id)
         );
         setFilteredModules(accessible);
-      } else if (!signal?.aborted) {
-        // If no role or API error, show no modules
-        setFilteredModules([]);
       }
     } catch (err: any) {
       if (err.name !== 'AbortError' && !signal?.aborted) {
+        // If no role or API error, show no modules
         setFilteredModules([]);
       }
     }
@@ -132,6 +125,13 @@ const ProductModules: React.FC = () => {
             </button>
             <h1 className="product-modules-page-title">Product Modules</h1>
           </div>
+          <button
+            onClick={() => navigate(`/products/${productSlug}`)}
+            className="btn btn-secondary overview-link"
+          >
+            <span className="material-icons">insights</span>
+            Overview
+          </button>
         </div>
       </div>
 
@@ -160,6 +160,8 @@ const ProductModules: React.FC = () => {
                   window.location.replace(`/products/${productSlug}/modules/capacity-planning?t=${timestamp}`);
                 } else if (productModule.module.name === 'Kanban Board') {
                   window.location.replace(`/products/${productSlug}/modules/kanban?t=${timestamp}`);
+                } else if (productModule.module.name === 'Sprint Planning') {
+                  window.location.replace(`/products/${productSlug}/modules/sprints?t=${timestamp}`);
                 } else if (productModule.module.name === 'Resource Planning') {
                   window.location.replace(`/products/${productSlug}/modules/resource-planning?t=${timestamp}`);
                 }
@@ -173,6 +175,7 @@ const ProductModules: React.FC = () => {
                  productModule.module.name === 'Product Hypothesis' ? 'lightbulb' :
                  productModule.module.name === 'Product Backlog' ? 'list_alt' :
                  productModule.module.name === 'Kanban Board' ? 'view_kanban' :
+                 productModule.module.name === 'Sprint Planning' ? 'directions_run' :
                  productModule.module.name === 'Roadmap Planner' ? 'timeline' :
                  productModule.module.name === 'Roadmap' ? 'view_timeline' :
                  productModule.module.name === 'Capacity Planning' ? 'groups' :
@@ -0,0 +1,481 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useProduct } from '../hooks/useProduct';
+import { useTeamCapacity } from '../hooks/useTeamCapacity';
+import { basicsService } from '../services/basicsService';
+import { marketService } from '../services/marketService';
+import { hypothesisService } from '../services/hypothesisService';
+import { backlogService } from '../services/backlogService';
+import { roadmapService } from '../services/roadmapService';
+import { kanbanService } from '../services/kanbanService';
+import { capacityService } from '../services/capacityService';
+import { ProductBasicsData } from '../types/basics';
+import { MarketCompetitionData } from '../types/market';
+import { ProductHypothesisData, Assumption } from '../types/hypothesis';
+import { ProductBacklogData, Epic } from '../types/backlog';
+import { RoadmapItem, RoadmapPlannerData, ScoringConfig } from '../types/roadmap';
+import { KanbanColumnConfig, KanbanColumns, KanbanItem, KanbanStatusTransition } from '../types/kanban';
+import { CapacityPlan } from '../types/capacity';
+import { getCurrentQuarter, formatQuarter, DAY_MS } from '../utils/quarterUtils';
+import { DEFAULT_KANBAN_COLUMNS, getDoneColumnIds, isWorkInProgressColumn } from '../utils/kanbanColumns';
+import { computeItemMetrics } from '../utils/kanbanAnalytics';
+import { buildTeamLoads, getLoadStatus, LoadStatus } from '../utils/teamCapacity';
+import { calculateScore, DEFAULT_SCORING_CONFIG, formatScore, getFramework, MOSCOW_OPTIONS } from '../utils/prioritization';
+import './ProductOverview.css';
+
+interface OverviewData {
+  basics: ProductBasicsData | null;
+  market: MarketCompetitionData | null;
+  hypothesis: ProductHypothesisData | null;
+  backlog: ProductBacklogData | null;
+  roadmap: RoadmapPlannerData | null;
+  kanban: KanbanColumns<KanbanItem> | null;
+  kanbanColumns: KanbanColumnConfig[];
+  kanbanHistory: KanbanStatusTransition[] | null;
+  capacity: CapacityPlan | null;
+  scoringConfig: ScoringConfig;
+}
+
+interface ReadinessCheck {
+  label: string;
+  done: boolean;
+}
+
+const THROUGHPUT_WINDOW_DAYS = 30;
+
+const LOAD_COLORS: Record<LoadStatus, string> = {
+  under: 'var(--success)',
+  near: 'var(--warning)',
+  over: 'var(--error)',
+};
+
+// Each framework scores on its own range, so bands are thirds of the quarter's top score
+const SCORE_BANDS = ['Low', 'Medium', 'High'];
+
+const getScoreDistribution = (items: RoadmapItem[], config: ScoringConfig) => {
+  const scores = items.map(item => calculateScore(item, config));
+  const unscored = { label: 'Unscored', count: scores.filter(score => !score).length };
+
+  if (config.framework === 'MOSCOW') {
+    return [
+      unscored,
+      ...MOSCOW_OPTIONS.map(option => ({
+        label: option.label,
+        count: items.filter(item => formatScore(item, config) === option.label).length,
+      })),
+    ];
+  }
+
+  const top = Math.max(0, ...scores);
+  return [
+    unscored,
+    ...SCORE_BANDS.map((label, index) => ({
+      label,
+      count: scores.filter(score => {
+        if (!score) return false;
+        const band = Math.min(Math.floor((score / top) * SCORE_BANDS.length), SCORE_BANDS.length - 1);
+        return band === index;
+      }).length,
+    })),
+  ];
+};
+
+// Module data is stored as JSON strings; treat anything unparseable as empty
+const parseList = <T,>(value?: string): T[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// A failing module shouldn't blank the whole overview
+const orNull = <T,>(request: Promise<T | null>): Promise<T | null> => request.catch(() => null);
+
+const ProductOverview: React.FC = () => {
+  const { productSlug } = useParams<{ productSlug: string }>();
+  const navigate = useNavigate();
+  const { product, loading: productLoading, error: productError } = useProduct(productSlug);
+  const [data, setData] = useState<OverviewData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { year, quarter } = getCurrentQuarter();
+  const teamCapacity = useTeamCapacity(product?.productId, year, quarter);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, []);
+
+  useEffect(() => {
+    if (product) {
+      loadOverview();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product]);
+
+  const loadOverview = async () => {
+    if (!product) return;
+
+    setLoading(true);
+    const productId = product.productId;
+    const [
+      basics,
+      market,
+      hypothesis,
+      backlog,
+      roadmap,
+      kanban,
+      boardConfig,
+      kanbanHistory,
+      capacity,
+      scoringConfig,
+    ] = await Promise.all([
+      orNull(basicsService.getBasics(productId)),
+      orNull(marketService.getMarketCompetition(productId)),
+      orNull(hypothesisService.getHypothesis(productId)),
+      orNull(backlogService.getBacklog(productId, { backlogOnly: false })),
+      orNull(roadmapService.getRoadmap(productId, year, quarter)),
+      orNull(kanbanService.getItems(productId)),
+      orNull(kanbanService.getBoardConfig(productId)),
+      orNull(kanbanService.getHistory(productId, 'STORY')),
+      orNull(capacityService.getCapacityPlan(productId, year, quarter)),
+      orNull(roadmapService.getScoringConfig(productId)),
+    ]);
+    const kanbanColumns = boardConfig?.columns?.length ? boardConfig.columns : DEFAULT_KANBAN_COLUMNS;
+    setData({
+      basics,
+      market,
+      hypothesis,
+      backlog,
+      roadmap,
+      kanban,
+      kanbanColumns,
+      kanbanHistory,
+      capacity,
+      scoringConfig: scoringConfig || DEFAULT_SCORING_CONFIG,
+    });
+    setLoading(false);
+  };
+
+  const metrics = useMemo(() => {
+    if (!data) return null;
+
+    const personas = parseList(data.basics?.targetPersonas);
+    const goals = parseList(data.basics?.goals);
+    const competitors = parseList(data.market?.competitors);
+    const assumptions = parseList<Assumption>(data.hypothesis?.assumptions);
+    const epics = parseList<Epic>(data.backlog?.epics);
+    const roadmapItems = data.roadmap?.roadmapItems || [];
+    const epicEfforts = data.capacity?.epicEfforts || [];
+
+    const assumptionsByConfidence = ['High', 'Medium', 'Low'].map(level => ({
+      level,
+      count: assumptions.filter(a => a.confidence === level).length,
+    }));
+
+    const themeCounts = new Map<string, { name: string; color: string; count: number }>();
+    epics.forEach(epic => {
+      const key = epic.themeId || 'none';
+      const entry = themeCounts.get(key) || {
+        name: epic.themeName || 'No theme',
+        color: epic.themeColor || '#94a3b8',
+        count: 0,
+      };
+      entry.count += 1;
+      themeCounts.set(key, entry);
+    });
+    const epicsByTheme = Array.from(themeCounts.values()).sort((a, b) => b.count - a.count);
+
+    const scoreDistribution = getScoreDistribution(roadmapItems, data.scoringConfig);
+
+    const doneColumnIds = getDoneColumnIds(data.kanbanColumns);
+    const doneItems = doneColumnIds.flatMap(id => data.kanban?.[id] || []);
+    // Items count from their last move into a done column, so later edits don't count them again
+    const windowStart = Date.now() - THROUGHPUT_WINDOW_DAYS * DAY_MS;
+    const recentlyDone = data.kanbanHistory
+      ? computeItemMetrics(doneItems, data.kanbanHistory, data.kanbanColumns)
+        .filter(metric => metric.finishedAt && metric.finishedAt.getTime() >= windowStart).length
+      : null;
+    const inProgress = data.kanbanColumns
+      .filter(isWorkInProgressColumn)
+      .reduce((sum, column) => sum + (data.kanban?.[column.id]?.length || 0), 0);
+
+    const totalEffort = epicEfforts.reduce((sum, effort) => sum + (effort.effortDays || 0), 0);
+    const estimatedEpicIds = new Set(epicEfforts.filter(e => e.effortDays > 0).map(e => e.epicId));
+    const estimatedRoadmapItems = roadmapItems.filter(item => estimatedEpicIds.has(item.epicId)).length;
+
+    const checks: ReadinessCheck[] = [
+      { label: 'Vision defined', done: !!data.basics?.vision?.trim() },
+      { label: 'Personas identified', done: personas.length > 0 },
+      { label: 'Goals set', done: goals.length > 0 },
+      { label: 'Competitors analysed', done: competitors.length > 0 },
+      { label: 'Hypothesis stated', done: !!data.hypothesis?.hypothesisStatement?.trim() },
+      { label: 'Assumptions documented', done: assumptions.length > 0 },
+      { label: 'Backlog has epics', done: epics.length > 0 },
+      { label: `${formatQuarter(year, quarter)} roadmap planned`, done: roadmapItems.length > 0 },
+      { label: 'Roadmap epics estimated', done: roadmapItems.length > 0 && estimatedRoadmapItems === roadmapItems.length },
+    ];
+    const readiness = Math.round((checks.filter(c => c.done).length / checks.length) * 100);
+
+    return {
+      personas: personas.length,
+      goals: goals.length,
+      competitors: competitors.length,
+      assumptions: assumptions.length,
+      assumptionsByConfidence,
+      epics: epics.length,
+      epicsByTheme,
+      roadmapItems: roadmapItems.length,
+      scoreDistribution,
+      scoreLabel: getFramework(data.scoringConfig.framework).scoreLabel,
+      doneTotal: doneItems.length,
+      recentlyDone,
+      inProgress,
+      totalEffort,
+      effortUnit: data.capacity?.effortUnit === 'DAYS' ? 'days' : 'sprints',
+      estimatedRoadmapItems,
+      checks,
+      readiness,
+    };
+  }, [data, year, quarter]);
+
+  // Planned effort against each team's capacity, the same figures capacity planning shows
+  const teamLoads = useMemo(
+    () =>
+      buildTeamLoads(teamCapacity.teams, teamCapacity.epicEfforts, teamCapacity.getCapacity)
+        .filter(load => load.effort > 0 || load.capacity > 0)
+        .sort((a, b) => b.effort / (b.capacity || 1) - a.effort / (a.capacity || 1)),
+    [teamCapacity.teams, teamCapacity.epicEfforts, teamCapacity.getCapacity]
+  );
+
+  const goToModule = (path: string) => navigate(`/products/${productSlug}/modules/${path}`);
+
+  const renderBar = (value: number, max: number, color?: string) => (
+    <div className="overview-bar-track">
+      <div
+        className="overview-bar-fill"
+        style={{ width: `${max > 0 ? (value / max) * 100 : 0}%`, background: color }}
+      />
+    </div>
+  );
+
+  if (loading || productLoading) {
+    return (
+      <div className="product-overview-container">
+        <div className="loading-state">
+          <div className="spinner"></div>
+          <p>Loading product overview...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (productError || !product || !metrics) {
+    return (
+      <div className="product-overview-container">
+        <div className="error-state">
+          <h2>Error</h2>
+          <p>{productError || 'Product not found'}</p>
+          <button onClick={() => navigate('/dashboard')} className="btn btn-primary">
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const maxThemeCount = Math.max(0, ...metrics.epicsByTheme.map(t => t.count));
+  const maxScoreCount = Math.max(0, ...metrics.scoreDistribution.map(b => b.count));
+
+  return (
+    <div className="product-overview-container">
+      <div className="product-overview-header">
+        <div className="header-left">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="back-button"
+            aria-label="Back to dashboard"
+          >
+            <span className="material-icons">arrow_back</span>
+          </button>
+          <div>
+            <h1 className="product-overview-title">{product.productName}</h1>
+            <p className="product-overview-subtitle">Plan readiness for {formatQuarter(year, quarter)}</p>
+          </div>
+        </div>
+        <button onClick={() => navigate(`/products/${productSlug}/modules`)} className="btn btn-secondary">
+          <span className="material-icons">apps</span>
+          Modules
+        </button>
+      </div>
+
+      <div className="overview-readiness">
+        <div className="readiness-score">
+          <span className="readiness-value">{metrics.readiness}%</span>
+          <span className="readiness-label">Ready</span>
+        </div>
+        <ul className="readiness-checks">
+          {metrics.checks.map(check => (
+            <li key={check.label} className={check.done ? 'done' : 'pending'}>
+              <span className="material-icons">{check.done ? 'check_circle' : 'radio_button_unchecked'}</span>
+              {check.label}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="overview-grid">
+        <div className="overview-card clickable" onClick={() => goToModule('basics')}>
+          <h3 className="overview-card-title">
+            <span className="material-icons">assignment</span>
+            Product Basics
+          </h3>
+          <div className="overview-stats">
+            <div className="overview-stat">
+              <span className="stat-value">{metrics.personas}</span>
+              <span className="stat-label">Personas</span>
+            </div>
+            <div className="overview-stat">
+              <span className="stat-value">{metrics.goals}</span>
+              <span className="stat-label">Goals</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="overview-card clickable" onClick={() => goToModule('market-competition')}>
+          <h3 className="overview-card-title">
+            <span className="material-icons">analytics</span>
+            Market & Competition
+          </h3>
+          <div className="overview-stats">
+            <div className="overview-stat">
+              <span className="stat-value">{metrics.competitors}</span>
+              <span className="stat-label">Competitors</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="overview-card clickable" onClick={() => goToModule('hypothesis')}>
+          <h3 className="overview-card-title">
+            <span className="material-icons">lightbulb</span>
+            Hypothesis Assumptions
+          </h3>
+          {metrics.assumptions === 0 ? (
+            <p className="overview-empty">No assumptions documented yet</p>
+          ) : (
+            <div className="overview-bars">
+              {metrics.assumptionsByConfidence.map(({ level, count }) => (
+                <div key={level} className="overview-bar-row">
+                  <span className="bar-label">{level}</span>
+                  {renderBar(count, metrics.assumptions)}
+                  <span className="bar-value">{count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="overview-card clickable" onClick={() => goToModule('backlog')}>
+          <h3 className="overview-card-title">
+            <span className="material-icons">list_alt</span>
+            Epics per Theme
+          </h3>
+          {metrics.epics === 0 ? (
+            <p className="overview-empty">The backlog has no epics yet</p>
+          ) : (
+            <div className="overview-bars">
+              {metrics.epicsByTheme.map(theme => (
+                <div key={theme.name} className="overview-bar-row">
+                  <span className="bar-label" title={theme.name}>{theme.name}</span>
+                  {renderBar(theme.count, maxThemeCount, theme.color)}
+                  <span className="bar-value">{theme.count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="overview-card clickable" onClick={() => goToModule('roadmap')}>
+          <h3 className="overview-card-title">
+            <span className="material-icons">timeline</span>
+            {formatQuarter(year, quarter)} {metrics.scoreLabel} Distribution
+          </h3>
+          {metrics.roadmapItems === 0 ? (
+            <p className="overview-empty">Nothing planned for this quarter yet</p>
+          ) : (
+            <div className="overview-bars">
+              {metrics.scoreDistribution.map(bucket => (
+                <div key={bucket.label} className="overview-bar-row">
+                  <span className="bar-label">{bucket.label}</span>
+                  {renderBar(bucket.count, maxScoreCount)}
+                  <span className="bar-value">{bucket.count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="overview-card clickable" onClick={() => goToModule('kanban')}>
+          <h3 className="overview-card-title">
+            <span className="material-icons">view_kanban</span>
+            Kanban Throughput
+          </h3>
+          <div className="overview-stats">
+            <div className="overview-stat">
+              <span className="stat-value" title={metrics.recentlyDone === null ? 'Status history unavailable' : undefined}>
+                {metrics.recentlyDone ?? '-'}
+              </span>
+              <span className="stat-label">Done in last {THROUGHPUT_WINDOW_DAYS} days</span>
+            </div>
+            <div className="overview-stat">
+              <span className="stat-value">{metrics.inProgress}</span>
+              <span className="stat-label">In progress</span>
+            </div>
+            <div className="overview-stat">
+              <span className="stat-value">{metrics.doneTotal}</span>
+              <span className="stat-label">Done overall</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="overview-card clickable" onClick={() => goToModule('capacity-planning')}>
+          <h3 className="overview-card-title">
+            <span className="material-icons">groups</span>
+            Capacity Utilization
+          </h3>
+          {teamLoads.length === 0 ? (
+            <p className="overview-empty">No teams or effort planned for this quarter yet</p>
+          ) : (
+            <>
+              <p className="overview-note">
+                {metrics.totalEffort} {metrics.effortUnit} planned · {metrics.estimatedRoadmapItems}/{metrics.roadmapItems} roadmap epics estimated
+              </p>
+              <div className="overview-bars">
+                {teamLoads.map(load => {
+                  const utilization = load.capacity > 0 ? load.effort / load.capacity : load.effort > 0 ? 1 : 0;
+                  return (
+                    <div
+                      key={load.teamId}
+                      className="overview-bar-row"
+                      title={`${load.effort} of ${load.capacity} ${metrics.effortUnit} of capacity`}
+                    >
+                      <span className="bar-label">{load.teamName}</span>
+                      {renderBar(Math.min(utilization, 1), 1, LOAD_COLORS[getLoadStatus(load)])}
+                      <span className="bar-value">
+                        {load.capacity > 0 ? `${Math.round(utilization * 100)}%` : '—'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductOverview;
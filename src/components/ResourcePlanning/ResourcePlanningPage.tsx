@@ -2,7 +2,6 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useProduct } from '../../hooks/useProduct';
 import { resourcePlanningService } from '../../services/resourcePlanningService';
-import { getCurrentQuarter } from '../../utils/quarterUtils';
 import {
   ResourcePlanningState,
   Team,
@@ -31,6 +30,9 @@ const ResourcePlanningPage: React.FC = () => {
     assignments: [],
     availableMembers: [],
     allMembers: [],
+    holidays: [],
+    skills: [],
+    rateCards: [],
     loading: false,
     error: null,
   });
@@ -62,11 +64,13 @@ const ResourcePlanningPage: React.FC = () => {
     setState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
-      const { year, quarter } = getCurrentQuarter();
-      const [teams, epics, allMembers] = await Promise.all([
-        resourcePlanningService.getTeams(product.productId, year, quarter),
+      const [teams, epics, allMembers, holidays, skills, rateCards] = await Promise.all([
+        resourcePlanningService.getTeams(product.productId),
         resourcePlanningService.getPublishedEpics(product.productId),
         resourcePlanningService.getAllMembers(product.productId),
+        resourcePlanningService.getHolidays(product.productId),
+        resourcePlanningService.getSkills(product.productId),
+        resourcePlanningService.getRateCards(product.productId),
       ]);
 
       setState(prev => ({
@@ -74,6 +78,9 @@ const ResourcePlanningPage: React.FC = () => {
         teams,
         publishedEpics: epics,
         allMembers,
+        holidays,
+        skills,
+        rateCards,
         loading: false,
       }));
     } catch (error) {
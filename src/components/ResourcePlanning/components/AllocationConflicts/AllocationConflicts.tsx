@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { ResourceAssignment, TeamMember } from '../../../../types/resourcePlanning.types';
+import {
+  findFreeMembers,
+  findNextFreeDates,
+  findOverAllocations,
+  formatOverAllocation,
+  getAllocation,
+} from '../../../../utils/assignmentAllocation';
+import { AssignmentDates, toDateKey } from '../../../../utils/assignmentTimeline';
+import { parseLocalDate } from '../../../../utils/quarterUtils';
+import { AssignmentChange } from '../AssignmentTimeline/AssignmentTimeline';
+import './AllocationConflicts.css';
+
+interface AllocationConflictsProps {
+  members: TeamMember[];
+  assignments: ResourceAssignment[];
+  onResolve: (assignment: ResourceAssignment, change: AssignmentChange) => void;
+}
+
+interface Suggestions {
+  nextDates: AssignmentDates | null;
+  freeMembers: TeamMember[];
+}
+
+const formatShortDate = (value: string) =>
+  parseLocalDate(toDateKey(value)).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const AllocationConflicts: React.FC<AllocationConflictsProps> = ({ members, assignments, onResolve }) => {
+  const conflicts = useMemo(() => findOverAllocations(assignments), [assignments]);
+
+  // Worked out once per conflicting assignment, since an assignment can appear in several conflicts
+  const suggestions = useMemo(() => {
+    const byAssignment = new Map<number, Suggestions>();
+    conflicts.forEach(conflict => {
+      conflict.assignmentIds.forEach(id => {
+        const assignment = assignments.find(a => a.id === id);
+        if (!assignment || byAssignment.has(id)) return;
+        byAssignment.set(id, {
+          nextDates: findNextFreeDates(assignments, assignment),
+          freeMembers: findFreeMembers(assignments, assignment, members),
+        });
+      });
+    });
+    return byAssignment;
+  }, [conflicts, assignments, members]);
+
+  if (conflicts.length === 0) {
+    return (
+      <div className="allocation-conflicts-empty">
+        <span className="material-icons">check_circle</span>
+        Nobody is booked above 100%
+      </div>
+    );
+  }
+
+  return (
+    <div className="allocation-conflicts">
+      {conflicts.map(conflict => {
+        const member = members.find(m => m.id === conflict.memberId);
+        return (
+          <div key={`${conflict.memberId}-${conflict.startDate}`} className="allocation-conflict">
+            <div className="allocation-conflict-header">
+              <span className="material-icons">warning</span>
+              <strong>{member?.memberName || 'Unknown member'}</strong>
+              <span>{formatOverAllocation(conflict)}</span>
+            </div>
+            <ul>
+              {conflict.assignmentIds.map(id => {
+                const assignment = assignments.find(a => a.id === id);
+                const suggestion = suggestions.get(id);
+                if (!assignment || !suggestion) return null;
+                const { nextDates, freeMembers } = suggestion;
+                return (
+                  <li key={id}>
+                    <span className="allocation-conflict-story">
+                      {assignment.userStory?.title || assignment.userStory?.storyTitle || 'Assignment'}
+                      <span className="allocation-conflict-meta">
+                        {getAllocation(assignment)}% • {formatShortDate(assignment.startDate)} –{' '}
+                        {formatShortDate(assignment.endDate)}
+                      </span>
+                    </span>
+                    <span className="allocation-conflict-actions">
+                      {nextDates && (
+                        <button
+                          className="btn btn-sm btn-secondary"
+                          onClick={() => onResolve(assignment, { memberId: assignment.memberId, ...nextDates })}
+                          title="Move to the first dates that keep this member at or below 100%"
+                        >
+                          <span className="material-icons">east</span>
+                          Shift to {formatShortDate(nextDates.startDate)}
+                        </button>
+                      )}
+                      {freeMembers.length > 0 && (
+                        <select
+                          value=""
+                          onChange={(e) => onResolve(assignment, {
+                            memberId: parseInt(e.target.value),
+                            startDate: toDateKey(assignment.startDate),
+                            endDate: toDateKey(assignment.endDate),
+                          })}
+                          aria-label="Reassign to"
+                        >
+                          <option value="">Reassign to...</option>
+                          {freeMembers.map(free => (
+                            <option key={free.id} value={free.id}>{free.memberName}</option>
+                          ))}
+                        </select>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AllocationConflicts;
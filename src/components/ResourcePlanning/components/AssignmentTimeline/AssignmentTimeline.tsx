@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ResourceAssignment, TeamMember } from '../../../../types/resourcePlanning.types';
+import { findOverAllocations, getAllocation } from '../../../../utils/assignmentAllocation';
+import {
+  AssignmentDates,
+  assignLanes,
+  getAssignmentEpicId,
+  getEpicColor,
+  shiftDates,
+  toDateKey,
+  toLocalDate,
+} from '../../../../utils/assignmentTimeline';
+import { addDays, daysBetween, parseLocalDate } from '../../../../utils/quarterUtils';
+import './AssignmentTimeline.css';
+
+export interface AssignmentChange extends AssignmentDates {
+  memberId: number;
+}
+
+interface AssignmentTimelineProps {
+  members: TeamMember[];
+  assignments: ResourceAssignment[];
+  startDate: string;
+  endDate: string;
+  onReassign: (assignment: ResourceAssignment, change: AssignmentChange) => void;
+}
+
+interface DragState {
+  assignment: ResourceAssignment;
+  originX: number;
+  trackWidth: number;
+  preview: AssignmentChange;
+}
+
+const LANE_HEIGHT = 30;
+
+const formatShortDate = (value: string) =>
+  toLocalDate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const AssignmentTimeline: React.FC<AssignmentTimelineProps> = ({
+  members,
+  assignments,
+  startDate,
+  endDate,
+  onReassign,
+}) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Window listeners read the latest drag through a ref so they are only attached once per drag
+  const dragRef = useRef<DragState | null>(null);
+  dragRef.current = drag;
+  const isDragging = drag !== null;
+
+  const totalDays = Math.max(daysBetween(toLocalDate(startDate), toLocalDate(endDate)) + 1, 1);
+
+  // Assignments as they would be with the one being dragged moved to its preview position
+  const visibleAssignments = useMemo(
+    () =>
+      assignments
+        .map(assignment =>
+          drag?.assignment.id === assignment.id ? { ...assignment, ...drag.preview } : assignment
+        )
+        .filter(assignment => toDateKey(assignment.startDate) <= endDate && toDateKey(assignment.endDate) >= startDate),
+    [assignments, drag, startDate, endDate]
+  );
+
+  const overAllocatedIds = useMemo(
+    () => new Set(findOverAllocations(visibleAssignments).flatMap(conflict => conflict.assignmentIds)),
+    [visibleAssignments]
+  );
+
+  const epics = useMemo(() => {
+    const seen = new Map<string, string>();
+    assignments.forEach(assignment => {
+      const epicId = getAssignmentEpicId(assignment);
+      if (epicId && !seen.has(epicId)) {
+        seen.set(epicId, assignment.userStory?.epic?.epicName || epicId);
+      }
+    });
+    return Array.from(seen.entries()).map(([epicId, epicName]) => ({ epicId, epicName }));
+  }, [assignments]);
+  const epicIds = epics.map(epic => epic.epicId);
+
+  // Week columns start on the range's first day, then on every Monday after it
+  const weeks = useMemo(() => {
+    const start = parseLocalDate(startDate);
+    const result: { key: string; label: string; offset: number }[] = [];
+    for (let day = 0; day < totalDays; day++) {
+      const date = addDays(start, day);
+      if (day === 0 || date.getDay() === 1) {
+        result.push({
+          key: date.toISOString(),
+          label: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+          offset: day,
+        });
+      }
+    }
+    return result;
+  }, [startDate, totalDays]);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const deltaDays = Math.round(((e.clientX - current.originX) / current.trackWidth) * totalDays);
+      const row = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-member-id]');
+      const memberId = row ? Number(row.dataset.memberId) : current.preview.memberId;
+      setDrag({ ...current, preview: { memberId, ...shiftDates(current.assignment, deltaDays) } });
+    };
+
+    const handleUp = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (!current) return;
+      const { assignment, preview } = current;
+      if (
+        preview.memberId !== assignment.memberId ||
+        preview.startDate !== toDateKey(assignment.startDate) ||
+        preview.endDate !== toDateKey(assignment.endDate)
+      ) {
+        onReassign(assignment, preview);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [isDragging, totalDays]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const startDrag = (e: React.PointerEvent, assignment: ResourceAssignment) => {
+    const track = (e.currentTarget as HTMLElement).closest('.assignment-timeline-track');
+    if (!track) return;
+    e.preventDefault();
+    setDrag({
+      assignment,
+      originX: e.clientX,
+      trackWidth: track.getBoundingClientRect().width,
+      preview: {
+        memberId: assignment.memberId,
+        startDate: toDateKey(assignment.startDate),
+        endDate: toDateKey(assignment.endDate),
+      },
+    });
+  };
+
+  if (members.length === 0) {
+    return (
+      <div className="assignment-timeline-empty">
+        <span className="material-icons">view_timeline</span>
+        <p>Add team members to see their assignments on a timeline</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`assignment-timeline ${drag ? 'dragging' : ''}`}>
+      {epics.length > 0 && (
+        <div className="assignment-timeline-legend">
+          {epics.map(epic => (
+            <span key={epic.epicId} className="assignment-timeline-legend-item">
+              <span className="assignment-timeline-swatch" style={{ backgroundColor: getEpicColor(epic.epicId, epicIds) }} />
+              {epic.epicName}
+            </span>
+          ))}
+          <span className="assignment-timeline-legend-item">
+            <span className="assignment-timeline-swatch over-allocated" />
+            Over 100% allocated
+          </span>
+        </div>
+      )}
+
+      <div className="assignment-timeline-header">
+        <div className="assignment-timeline-label">Member</div>
+        <div className="assignment-timeline-weeks">
+          {weeks.map(week => (
+            <div
+              key={week.key}
+              className="assignment-timeline-week"
+              style={{ left: `${(week.offset / totalDays) * 100}%` }}
+            >
+              {week.label}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {members.map(member => {
+        const memberAssignments = visibleAssignments.filter(assignment =>
+          drag?.assignment.id === assignment.id ? drag.preview.memberId === member.id : assignment.memberId === member.id
+        );
+        const lanes = assignLanes(memberAssignments);
+        const laneCount = Math.max(...Array.from(lanes.values()).map(lane => lane + 1), 1);
+        const overAllocatedCount = memberAssignments.filter(assignment => overAllocatedIds.has(assignment.id)).length;
+
+        return (
+          <div
+            key={member.id}
+            data-member-id={member.id}
+            className={`assignment-timeline-row ${drag?.preview.memberId === member.id ? 'drop-target' : ''}`}
+          >
+            <div className="assignment-timeline-label">
+              <strong>{member.memberName}</strong>
+              <span>
+                {member.team?.name || member.role || ''}
+                {overAllocatedCount > 0 && (
+                  <span className="assignment-timeline-conflict">
+                    <span className="material-icons">warning</span>
+                    Over-allocated
+                  </span>
+                )}
+              </span>
+            </div>
+            <div className="assignment-timeline-track" style={{ height: laneCount * LANE_HEIGHT + 12 }}>
+              {weeks.map(week => (
+                <span
+                  key={week.key}
+                  className="assignment-timeline-gridline"
+                  style={{ left: `${(week.offset / totalDays) * 100}%` }}
+                />
+              ))}
+              {memberAssignments.map(assignment => {
+                const start = Math.max(daysBetween(toLocalDate(startDate), toLocalDate(assignment.startDate)), 0);
+                const end = Math.min(daysBetween(toLocalDate(startDate), toLocalDate(assignment.endDate)), totalDays - 1);
+                const title = assignment.userStory?.title || assignment.userStory?.storyTitle || 'Assignment';
+                return (
+                  <div
+                    key={assignment.id}
+                    className={`assignment-timeline-bar ${overAllocatedIds.has(assignment.id) ? 'over-allocated' : ''} ${
+                      drag?.assignment.id === assignment.id ? 'active' : ''
+                    }`}
+                    style={{
+                      left: `${(start / totalDays) * 100}%`,
+                      width: `${((end - start + 1) / totalDays) * 100}%`,
+                      top: 6 + (lanes.get(assignment.id) || 0) * LANE_HEIGHT,
+                      backgroundColor: getEpicColor(getAssignmentEpicId(assignment), epicIds),
+                    }}
+                    onPointerDown={(e) => startDrag(e, assignment)}
+                    title={`${title} (${getAllocation(assignment)}%): ${formatShortDate(assignment.startDate)} – ${formatShortDate(assignment.endDate)}. Drag to another member or date.`}
+                  >
+                    <span className="assignment-timeline-bar-label">
+                      {getAllocation(assignment) < 100 && `${getAllocation(assignment)}% · `}{title}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AssignmentTimeline;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { PublicHoliday, TeamMember } from '../../../../types/resourcePlanning.types';
+import { formatLocalDate } from '../../../../utils/quarterUtils';
+import { getAvailableDays, getDayStatus, getFtePercent, getMemberHolidays } from '../../../../utils/memberAvailability';
+import './AvailabilityCalendar.css';
+
+interface AvailabilityCalendarProps {
+  members: TeamMember[];
+  holidays: PublicHoliday[];
+}
+
+const STATUS_LABELS = {
+  working: 'Available',
+  weekend: 'Weekend',
+  holiday: 'Public holiday',
+  timeOff: 'Time off',
+};
+
+const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({ members, holidays }) => {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const days = Array.from({ length: monthEnd.getDate() }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1));
+
+  const changeMonth = (offset: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const describeDay = (member: TeamMember, date: Date) => {
+    const status = getDayStatus(member, holidays, date);
+    const key = formatLocalDate(date);
+    if (status === 'holiday') {
+      return getMemberHolidays(member, holidays).find(holiday => holiday.date === key)?.name || STATUS_LABELS.holiday;
+    }
+    if (status === 'timeOff') {
+      const timeOff = member.timeOff?.find(off => off.startDate <= key && key <= off.endDate);
+      return timeOff?.reason ? `${STATUS_LABELS.timeOff}: ${timeOff.reason}` : STATUS_LABELS.timeOff;
+    }
+    return STATUS_LABELS[status];
+  };
+
+  if (members.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="availability-calendar">
+      <div className="availability-calendar-header">
+        <button onClick={() => changeMonth(-1)} aria-label="Previous month">
+          <span className="material-icons">chevron_left</span>
+        </button>
+        <span className="availability-calendar-month">
+          {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </span>
+        <button onClick={() => changeMonth(1)} aria-label="Next month">
+          <span className="material-icons">chevron_right</span>
+        </button>
+        <div className="availability-calendar-legend">
+          <span className="availability-day holiday" /> {STATUS_LABELS.holiday}
+          <span className="availability-day timeOff" /> {STATUS_LABELS.timeOff}
+          <span className="availability-day weekend" /> {STATUS_LABELS.weekend}
+        </div>
+      </div>
+
+      <div className="availability-calendar-grid">
+        <table>
+          <thead>
+            <tr>
+              <th className="availability-calendar-member">Member</th>
+              {days.map(date => (
+                <th key={date.getDate()} className={date.getDay() === 0 || date.getDay() === 6 ? 'weekend' : ''}>
+                  {date.getDate()}
+                </th>
+              ))}
+              <th className="availability-calendar-total">Days</th>
+            </tr>
+          </thead>
+          <tbody>
+            {members.map(member => (
+              <tr key={member.id}>
+                <td className="availability-calendar-member">
+                  <strong>{member.memberName}</strong>
+                  <span>{getFtePercent(member)}% FTE{member.location ? ` • ${member.location}` : ''}</span>
+                </td>
+                {days.map(date => (
+                  <td key={date.getDate()}>
+                    <span
+                      className={`availability-day ${getDayStatus(member, holidays, date)}`}
+                      title={`${date.toLocaleDateString()}: ${describeDay(member, date)}`}
+                    />
+                  </td>
+                ))}
+                <td className="availability-calendar-total">
+                  {Math.round(getAvailableDays(member, holidays, month, monthEnd) * 10) / 10}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
@@ -1,8 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { ResourcePlanningState, BacklogEpic, UserStory, TeamMember, ResourceAssignmentRequest } from '../../../../types/resourcePlanning.types';
+import {
+  ResourcePlanningState,
+  BacklogEpic,
+  UserStory,
+  TeamMember,
+  ResourceAssignment,
+  ResourceAssignmentRequest,
+  RequiredSkill,
+} from '../../../../types/resourcePlanning.types';
 import { resourcePlanningService } from '../../../../services/resourcePlanningService';
+import {
+  DEFAULT_ALLOCATION_PERCENT,
+  findConflictsFor,
+  formatOverAllocation,
+  getAllocation,
+  NEW_ASSIGNMENT_ID,
+} from '../../../../utils/assignmentAllocation';
+import { getAvailabilityBetween } from '../../../../utils/memberAvailability';
+import { getRequiredSkills, rankMembers } from '../../../../utils/skillMatching';
 import Notification from '../Notification/Notification';
 import ConfirmDialog from '../ConfirmDialog/ConfirmDialog';
+import RequiredSkillsEditor from './RequiredSkillsEditor';
 
 interface PlanningCanvasProps {
   productId: number;
@@ -20,7 +38,8 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
     userStoryId: 0,
     memberId: 0,
     startDate: '',
-    endDate: ''
+    endDate: '',
+    allocationPercent: DEFAULT_ALLOCATION_PERCENT
   });
 
   const [notification, setNotification] = useState<{
@@ -34,6 +53,12 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
     assignmentId: number | null;
   }>({ isOpen: false, assignmentId: null });
 
+  // Set when the new assignment would book its member above 100%, until the user confirms or cancels
+  const [overAllocationWarning, setOverAllocationWarning] = useState<string | null>(null);
+
+  // Every epic's assignments, loaded when the assignment form opens, so conflicts on other epics count too
+  const [productAssignments, setProductAssignments] = useState<ResourceAssignment[] | null>(null);
+
   const showNotification = (message: string, type: 'success' | 'error' | 'warning' | 'info') => {
     setNotification({ message, type, isVisible: true });
   };
@@ -67,18 +92,27 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
     }
   };
 
-  const handleCreateAssignment = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    // Frontend validation
-    if (assignmentFormData.startDate > assignmentFormData.endDate) {
-      showNotification('Start date must be before or equal to end date', 'warning');
-      return;
+  const loadProductAssignments = async (): Promise<ResourceAssignment[] | null> => {
+    try {
+      const assignments = await resourcePlanningService.getAllAssignments(productId);
+      setProductAssignments(assignments);
+      return assignments;
+    } catch (error) {
+      console.error('Failed to load assignments:', error);
+      return null;
     }
+  };
 
+  const createAssignment = async () => {
     try {
       await resourcePlanningService.createAssignment(productId, assignmentFormData);
-      setAssignmentFormData({ userStoryId: 0, memberId: 0, startDate: '', endDate: '' });
+      setAssignmentFormData({
+        userStoryId: 0,
+        memberId: 0,
+        startDate: '',
+        endDate: '',
+        allocationPercent: DEFAULT_ALLOCATION_PERCENT
+      });
       setShowAssignmentForm(null);
 
       if (state.selectedEpic) {
@@ -100,6 +134,40 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
     }
   };
 
+  const handleCreateAssignment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Frontend validation
+    if (assignmentFormData.startDate > assignmentFormData.endDate) {
+      showNotification('Start date must be before or equal to end date', 'warning');
+      return;
+    }
+
+    const allAssignments = productAssignments || await loadProductAssignments();
+    if (!allAssignments) {
+      setOverAllocationWarning(
+        'Assignments on other epics could not be loaded, so this member may already be booked on these dates. Assign anyway?'
+      );
+      return;
+    }
+
+    const conflicts = findConflictsFor(allAssignments, { id: NEW_ASSIGNMENT_ID, ...assignmentFormData });
+    if (conflicts.length > 0) {
+      const member = state.allMembers.find(m => m.id === assignmentFormData.memberId);
+      setOverAllocationWarning(
+        `${member?.memberName || 'This member'} would be booked at ${conflicts.map(formatOverAllocation).join(', ')}. Assign anyway?`
+      );
+      return;
+    }
+
+    await createAssignment();
+  };
+
+  const confirmOverAllocation = async () => {
+    setOverAllocationWarning(null);
+    await createAssignment();
+  };
+
   const handleDeleteAssignment = (assignmentId: number) => {
     setConfirmDialog({ isOpen: true, assignmentId });
   };
@@ -134,33 +202,74 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
       .filter(Boolean);
   };
 
-  const startAssignment = (userStoryId: number) => {
+  const startAssignment = async (userStoryId: number) => {
     setAssignmentFormData({ ...assignmentFormData, userStoryId });
     setShowAssignmentForm(userStoryId);
+    setProductAssignments(null);
+    if (!(await loadProductAssignments())) {
+      showNotification('Could not load assignments on other epics, so suggestions may include booked members', 'warning');
+    }
   };
 
+  // Share of the selected dates a member can work, after time off, public holidays and FTE
+  const getMemberAvailability = (member: TeamMember) =>
+    getAvailabilityBetween(member, state.holidays, assignmentFormData.startDate, assignmentFormData.endDate);
+
   const getAvailableMembers = () => {
     if (!assignmentFormData.startDate || !assignmentFormData.endDate) {
       return state.allMembers;
     }
 
-    const selectedStart = new Date(assignmentFormData.startDate);
-    const selectedEnd = new Date(assignmentFormData.endDate);
-
     return state.allMembers.filter(member => {
-      // Check if member has any conflicting assignments
-      const hasConflict = state.assignments.some(assignment => {
-        if (assignment.memberId !== member.id) return false;
+      // Members stay available while this assignment keeps them at or below 100% on every day
+      // This epic's assignments stand in until the product's have loaded
+      const hasConflict = findConflictsFor(productAssignments || state.assignments, {
+        ...assignmentFormData,
+        id: NEW_ASSIGNMENT_ID,
+        memberId: member.id,
+      }).length > 0;
+
+      return !hasConflict && getMemberAvailability(member) > 0;
+    });
+  };
+
+  // Free members for the story, best skill fit first, then the most available
+  const getSuggestedMembers = (story: UserStory) => {
+    const hasDates = Boolean(assignmentFormData.startDate && assignmentFormData.endDate);
+    return rankMembers(
+      getAvailableMembers(),
+      getRequiredSkills(story, state.selectedEpic),
+      member => (hasDates ? getMemberAvailability(member) : 1)
+    );
+  };
 
-        const assignmentStart = new Date(assignment.startDate);
-        const assignmentEnd = new Date(assignment.endDate);
+  const getSkillName = (skillId: number) => state.skills.find(skill => skill.id === skillId)?.name || 'Unknown skill';
 
-        // Check for date overlap
-        return (selectedStart <= assignmentEnd && selectedEnd >= assignmentStart);
+  const handleEpicSkillsChange = async (skills: RequiredSkill[]) => {
+    if (!state.selectedEpic) return;
+    try {
+      await resourcePlanningService.updateEpicRequiredSkills(productId, state.selectedEpic.epicId, skills);
+      const selectedEpic = { ...state.selectedEpic, requiredSkills: skills };
+      updateState({
+        selectedEpic,
+        publishedEpics: state.publishedEpics.map(epic => (epic.id === selectedEpic.id ? selectedEpic : epic)),
       });
+    } catch (error) {
+      console.error('Failed to update epic skills:', error);
+      showNotification('Failed to save required skills. Please try again.', 'error');
+    }
+  };
 
-      return !hasConflict;
-    });
+  const handleStorySkillsChange = async (story: UserStory, skills: RequiredSkill[]) => {
+    try {
+      await resourcePlanningService.updateStoryRequiredSkills(productId, story.id, skills);
+      updateState({
+        userStories: state.userStories.map(s => (s.id === story.id ? { ...s, requiredSkills: skills } : s)),
+      });
+    } catch (error) {
+      console.error('Failed to update story skills:', error);
+      showNotification('Failed to save required skills. Please try again.', 'error');
+    }
   };
 
   return (
@@ -207,6 +316,11 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
             <div className="epic-info">
               <h2>{state.selectedEpic.epicName}</h2>
               <span className="epic-id">#{state.selectedEpic.epicId}</span>
+              <RequiredSkillsEditor
+                skills={state.skills}
+                value={state.selectedEpic.requiredSkills || []}
+                onChange={handleEpicSkillsChange}
+              />
             </div>
           </div>
 
@@ -246,6 +360,13 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
                       <p className="story-description">{story.description || story.storyDescription}</p>
                     )}
 
+                    <RequiredSkillsEditor
+                      skills={state.skills}
+                      value={story.requiredSkills || []}
+                      inherited={state.selectedEpic?.requiredSkills}
+                      onChange={(skills) => handleStorySkillsChange(story, skills)}
+                    />
+
                     <div className="story-assignments">
                       <div className="assignments-header">
                         <h5>Assigned Members ({assignedMembers.length})</h5>
@@ -272,6 +393,7 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
                                 </div>
                                 <div className="assignment-dates">
                                   {new Date(assignment.startDate).toLocaleDateString()} - {new Date(assignment.endDate).toLocaleDateString()}
+                                  <span className="assignment-allocation">{getAllocation(assignment)}%</span>
                                 </div>
                                 <button
                                   className="btn btn-sm btn-danger"
@@ -317,11 +439,28 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
                                   required
                                 />
                               </div>
+                              <div className="form-group">
+                                <label>Allocation %</label>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={100}
+                                  value={assignmentFormData.allocationPercent ?? DEFAULT_ALLOCATION_PERCENT}
+                                  onChange={(e) => setAssignmentFormData({
+                                    ...assignmentFormData,
+                                    allocationPercent: Math.min(Math.max(parseInt(e.target.value) || 1, 1), 100),
+                                    memberId: 0 // Availability depends on the allocation too
+                                  })}
+                                  required
+                                />
+                              </div>
                               <div className="form-group">
                                 <label>Team Member *</label>
                                 {(() => {
-                                  const availableMembers = getAvailableMembers();
+                                  const suggestions = getSuggestedMembers(story);
+                                  const availableMembers = suggestions.map(suggestion => suggestion.member);
                                   const unavailableCount = state.allMembers.length - availableMembers.length;
+                                  const hasRequirements = getRequiredSkills(story, state.selectedEpic).length > 0;
 
                                   return (
                                     <>
@@ -339,15 +478,38 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
                                             : 'Select dates first to see available members'
                                           }
                                         </option>
-                                        {availableMembers.map((member) => (
+                                        {suggestions.map(({ member, skillFit, availability }) => (
                                           <option key={member.id} value={member.id}>
                                             {member.memberName}{member.team?.name ? ` (${member.team.name})` : ''}
+                                            {hasRequirements ? ` — ${Math.round(skillFit * 100)}% skill fit` : ''}
+                                            {availability < 1 ? ` — ${Math.round(availability * 100)}% available` : ''}
                                           </option>
                                         ))}
                                       </select>
+                                      {hasRequirements && suggestions.length > 0 && (
+                                        <div className="assignee-suggestions">
+                                          <span className="assignee-suggestions-label">Suggested</span>
+                                          {suggestions.slice(0, 3).map(({ member, skillFit, missingSkillIds }) => (
+                                            <button
+                                              key={member.id}
+                                              type="button"
+                                              className={`assignee-suggestion ${assignmentFormData.memberId === member.id ? 'selected' : ''}`}
+                                              onClick={() => setAssignmentFormData({ ...assignmentFormData, memberId: member.id })}
+                                              title={missingSkillIds.length > 0
+                                                ? `Below the required level in ${missingSkillIds.map(getSkillName).join(', ')}`
+                                                : 'Meets every required skill'}
+                                            >
+                                              <strong>{member.memberName}</strong>
+                                              <span className={missingSkillIds.length > 0 ? 'partial-fit' : 'full-fit'}>
+                                                {Math.round(skillFit * 100)}% fit
+                                              </span>
+                                            </button>
+                                          ))}
+                                        </div>
+                                      )}
                                       {assignmentFormData.startDate && assignmentFormData.endDate && unavailableCount > 0 && (
                                         <small className="availability-note">
-                                          {unavailableCount} member{unavailableCount !== 1 ? 's' : ''} unavailable due to conflicting assignments
+                                          {unavailableCount} member{unavailableCount !== 1 ? 's' : ''} unavailable: they would go over 100% allocation or are on time off
                                         </small>
                                       )}
                                     </>
@@ -401,6 +563,17 @@ const PlanningCanvas: React.FC<PlanningCanvasProps> = ({
         onConfirm={confirmDeleteAssignment}
         onCancel={cancelDeleteAssignment}
       />
+
+      <ConfirmDialog
+        isOpen={overAllocationWarning !== null}
+        title="Over-allocation"
+        message={overAllocationWarning || ''}
+        confirmText="Assign Anyway"
+        cancelText="Cancel"
+        type="warning"
+        onConfirm={confirmOverAllocation}
+        onCancel={() => setOverAllocationWarning(null)}
+      />
     </div>
   );
 };
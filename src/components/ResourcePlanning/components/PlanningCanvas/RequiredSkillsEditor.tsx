@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ProficiencyLevel, RequiredSkill, Skill } from '../../../../types/resourcePlanning.types';
+import { getProficiencyLabel, PROFICIENCY_LEVELS, setSkillLevel } from '../../../../utils/skillMatching';
+
+interface RequiredSkillsEditorProps {
+  skills: Skill[];
+  value: RequiredSkill[];
+  inherited?: RequiredSkill[]; // Shown, greyed out, while `value` is empty
+  onChange: (skills: RequiredSkill[]) => Promise<void>;
+}
+
+const RequiredSkillsEditor: React.FC<RequiredSkillsEditorProps> = ({ skills, value, inherited = [], onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [newSkillId, setNewSkillId] = useState(0);
+  const [newLevel, setNewLevel] = useState<ProficiencyLevel>(2);
+  const [saving, setSaving] = useState(false);
+
+  const shown = value.length > 0 ? value : inherited;
+  const getSkillName = (skillId: number) => skills.find(skill => skill.id === skillId)?.name || 'Unknown skill';
+
+  const save = async (updated: RequiredSkill[]) => {
+    try {
+      setSaving(true);
+      await onChange(updated);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addSkill = async () => {
+    if (!newSkillId) return;
+    await save(setSkillLevel(value, newSkillId, newLevel));
+    setNewSkillId(0);
+  };
+
+  if (skills.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="required-skills">
+      <span className="required-skills-label">Skills:</span>
+      {shown.length === 0 && !isEditing && <span className="required-skills-none">Any</span>}
+      {shown.map(requirement => (
+        <span
+          key={requirement.skillId}
+          className={`required-skill-chip ${value.length === 0 ? 'inherited' : ''}`}
+          title={value.length === 0 ? 'From the epic' : undefined}
+        >
+          {getSkillName(requirement.skillId)} · {getProficiencyLabel(requirement.level)}+
+          {isEditing && value.length > 0 && (
+            <button
+              type="button"
+              onClick={() => save(value.filter(skill => skill.skillId !== requirement.skillId))}
+              disabled={saving}
+              aria-label={`Remove ${getSkillName(requirement.skillId)}`}
+            >
+              <span className="material-icons">close</span>
+            </button>
+          )}
+        </span>
+      ))}
+      {isEditing ? (
+        <span className="required-skills-add">
+          <select value={newSkillId} onChange={(e) => setNewSkillId(parseInt(e.target.value))}>
+            <option value={0}>Add skill...</option>
+            {skills
+              .filter(skill => !value.some(requirement => requirement.skillId === skill.id))
+              .map(skill => (
+                <option key={skill.id} value={skill.id}>{skill.name}</option>
+              ))}
+          </select>
+          <select value={newLevel} onChange={(e) => setNewLevel(parseInt(e.target.value) as ProficiencyLevel)}>
+            {PROFICIENCY_LEVELS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}+</option>
+            ))}
+          </select>
+          <button type="button" className="btn btn-sm btn-primary" onClick={addSkill} disabled={!newSkillId || saving}>
+            Add
+          </button>
+          <button type="button" className="btn btn-sm btn-secondary" onClick={() => setIsEditing(false)}>
+            Done
+          </button>
+        </span>
+      ) : (
+        <button
+          type="button"
+          className="required-skills-edit"
+          onClick={() => setIsEditing(true)}
+          aria-label="Edit required skills"
+        >
+          <span className="material-icons">edit</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RequiredSkillsEditor;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { MemberAvailabilityRequest, MemberTimeOff, TeamMember } from '../../../../types/resourcePlanning.types';
+import { DEFAULT_FTE_PERCENT } from '../../../../utils/memberAvailability';
+import { parseLocalDate } from '../../../../utils/quarterUtils';
+
+interface MemberAvailabilityFormProps {
+  member: TeamMember;
+  locations: string[];
+  onSave: (availability: MemberAvailabilityRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const MemberAvailabilityForm: React.FC<MemberAvailabilityFormProps> = ({ member, locations, onSave, onClose }) => {
+  const [ftePercent, setFtePercent] = useState(member.ftePercent ?? DEFAULT_FTE_PERCENT);
+  const [location, setLocation] = useState(member.location || '');
+  const [timeOff, setTimeOff] = useState<MemberTimeOff[]>(member.timeOff || []);
+  const [newTimeOff, setNewTimeOff] = useState<MemberTimeOff>({ startDate: '', endDate: '', reason: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const addTimeOff = () => {
+    if (!newTimeOff.startDate || !newTimeOff.endDate) return;
+    if (newTimeOff.startDate > newTimeOff.endDate) {
+      setError('Time off must end on or after its start date');
+      return;
+    }
+    setTimeOff(prev => [...prev, newTimeOff].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    setNewTimeOff({ startDate: '', endDate: '', reason: '' });
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onSave({ ftePercent, location: location.trim() || undefined, timeOff });
+    } catch (err) {
+      setError('Failed to save availability');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="resource-planning-modal-overlay">
+      <div className="resource-planning-modal">
+        <h3>{member.memberName} — Availability</h3>
+        <form onSubmit={handleSubmit}>
+          <div className="form-row">
+            <div className="form-group">
+              <label>FTE %</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={ftePercent}
+                onChange={(e) => setFtePercent(Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100))}
+              />
+            </div>
+            <div className="form-group">
+              <label>Location</label>
+              <input
+                type="text"
+                list="member-availability-locations"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Used to apply public holidays"
+              />
+              <datalist id="member-availability-locations">
+                {locations.map(name => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Planned Time Off</label>
+            {timeOff.length === 0 ? (
+              <p className="time-off-empty">No time off planned</p>
+            ) : (
+              <ul className="time-off-list">
+                {timeOff.map((off, index) => (
+                  <li key={`${off.startDate}-${off.endDate}-${index}`}>
+                    <span>
+                      {parseLocalDate(off.startDate).toLocaleDateString()} – {parseLocalDate(off.endDate).toLocaleDateString()}
+                      {off.reason && <em> {off.reason}</em>}
+                    </span>
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-danger"
+                      onClick={() => setTimeOff(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove time off"
+                    >
+                      <span className="material-icons">close</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="time-off-add">
+              <input
+                type="date"
+                value={newTimeOff.startDate}
+                onChange={(e) => setNewTimeOff({ ...newTimeOff, startDate: e.target.value })}
+                aria-label="Time off start"
+              />
+              <input
+                type="date"
+                value={newTimeOff.endDate}
+                onChange={(e) => setNewTimeOff({ ...newTimeOff, endDate: e.target.value })}
+                aria-label="Time off end"
+              />
+              <input
+                type="text"
+                value={newTimeOff.reason}
+                onChange={(e) => setNewTimeOff({ ...newTimeOff, reason: e.target.value })}
+                placeholder="Reason (optional)"
+              />
+              <button
+                type="button"
+                className="btn btn-sm btn-secondary"
+                onClick={addTimeOff}
+                disabled={!newTimeOff.startDate || !newTimeOff.endDate}
+              >
+                <span className="material-icons">add</span>
+                Add
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="form-error">{error}</p>}
+
+          <div className="modal-actions">
+            <button type="button" onClick={onClose}>Cancel</button>
+            <button type="submit" className="btn btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Availability'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MemberAvailabilityForm;
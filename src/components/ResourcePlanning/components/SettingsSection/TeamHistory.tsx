@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { TeamSnapshot, TeamSnapshotMember } from '../../../../types/resourcePlanning.types';
+import { resourcePlanningService } from '../../../../services/resourcePlanningService';
+import { formatQuarter } from '../../../../utils/quarterUtils';
+
+interface TeamHistoryProps {
+  productId: number;
+  teamId: number;
+}
+
+// Members in `members` that are not in `others`
+const missingFrom = (members: TeamSnapshotMember[], others: TeamSnapshotMember[]) =>
+  members.filter(member => !others.some(other => other.memberId === member.memberId));
+
+const TeamHistory: React.FC<TeamHistoryProps> = ({ productId, teamId }) => {
+  const [snapshots, setSnapshots] = useState<TeamSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        const data = await resourcePlanningService.getTeamHistory(productId, teamId);
+        setSnapshots([...data].sort((a, b) => b.year - a.year || b.quarter - a.quarter));
+      } catch (error) {
+        console.error('Failed to load team history:', error);
+        setSnapshots([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [productId, teamId]);
+
+  if (loading) {
+    return <p className="team-history-empty">Loading history...</p>;
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <p className="team-history-empty">
+        No quarterly snapshots yet. One is recorded whenever members are added or teams are copied into a quarter.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="team-history">
+      {snapshots.map((snapshot, index) => {
+        const previous = snapshots[index + 1];
+        const joined = previous ? missingFrom(snapshot.members, previous.members) : [];
+        const left = previous ? missingFrom(previous.members, snapshot.members) : [];
+        return (
+          <li key={`${snapshot.year}-${snapshot.quarter}`}>
+            <div className="team-history-quarter">
+              <strong>{formatQuarter(snapshot.year, snapshot.quarter)}</strong>
+              <span>{snapshot.members.length} members</span>
+            </div>
+            <div className="team-history-members">
+              {snapshot.members.length === 0
+                ? 'Nobody'
+                : snapshot.members.map(member => member.memberName).join(', ')}
+            </div>
+            {(joined.length > 0 || left.length > 0) && (
+              <div className="team-history-changes">
+                {joined.map(member => (
+                  <span key={`joined-${member.memberId}`} className="team-history-change joined">
+                    + {member.memberName}
+                  </span>
+                ))}
+                {left.map(member => (
+                  <span key={`left-${member.memberId}`} className="team-history-change left">
+                    − {member.memberName}
+                  </span>
+                ))}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default TeamHistory;
@@ -1,7 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { ResourcePlanningState, Team, TeamMember, TeamRequest, TeamMemberRequest } from '../../../../types/resourcePlanning.types';
+import {
+  ResourcePlanningState,
+  Team,
+  TeamMember,
+  TeamRequest,
+  TeamMemberRequest,
+  MemberAvailabilityRequest,
+  PublicHolidayRequest,
+  RateCardRequest,
+  ProficiencyLevel,
+} from '../../../../types/resourcePlanning.types';
+import { capacityService } from '../../../../services/capacityService';
 import { resourcePlanningService } from '../../../../services/resourcePlanningService';
-import { getCurrentQuarter } from '../../../../utils/quarterUtils';
+import { DEFAULT_CURRENCY, formatCost, getMemberRate } from '../../../../utils/costs';
+import { getFtePercent } from '../../../../utils/memberAvailability';
+import { getMemberLevel, PROFICIENCY_LEVELS, setSkillLevel } from '../../../../utils/skillMatching';
+import { formatLocalDate, getCurrentQuarter, parseLocalDate } from '../../../../utils/quarterUtils';
+import AvailabilityCalendar from '../AvailabilityCalendar/AvailabilityCalendar';
+import MemberAvailabilityForm from './MemberAvailabilityForm';
+import TeamHistory from './TeamHistory';
 
 interface TeamManagementProps {
   productId: number;
@@ -22,10 +39,31 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
   const [memberFormData, setMemberFormData] = useState<TeamMemberRequest>({
     memberName: ''
   });
+  const [editingMember, setEditingMember] = useState<TeamMember | null>(null);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [historyTeamId, setHistoryTeamId] = useState<number | null>(null);
+  const [holidayFormData, setHolidayFormData] = useState<PublicHolidayRequest>({ date: '', name: '', location: '' });
+  const [skillName, setSkillName] = useState('');
+  const [rateCardTarget, setRateCardTarget] = useState<'role' | 'member'>('role');
+  const [rateCardFormData, setRateCardFormData] = useState<RateCardRequest>({
+    role: '',
+    dailyRate: 0,
+    currency: DEFAULT_CURRENCY,
+  });
+
+  const today = formatLocalDate(new Date());
+  const locations = Array.from(
+    new Set([
+      ...state.holidays.map(holiday => holiday.location),
+      ...state.allMembers.map(member => member.location || ''),
+    ].filter(Boolean))
+  ).sort();
+  const roles = Array.from(new Set(state.allMembers.map(member => member.role?.trim() || '').filter(Boolean))).sort();
+  const unpricedMembers = state.allMembers.filter(member => !getMemberRate(member, state.rateCards));
 
   // Lock/unlock body scroll when modals are open
   useEffect(() => {
-    const isAnyModalOpen = showCreateTeam || showAddMember !== null;
+    const isAnyModalOpen = showCreateTeam || showAddMember !== null || editingMember !== null;
 
     if (isAnyModalOpen) {
       // Lock body scroll
@@ -42,13 +80,15 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
       document.body.style.overflow = '';
       document.body.style.paddingRight = '';
     };
-  }, [showCreateTeam, showAddMember]);
+  }, [showCreateTeam, showAddMember, editingMember]);
 
   const handleCreateTeam = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
+      const team = await resourcePlanningService.createTeam(productId, teamFormData);
+      // New teams join the current quarter's plan straight away
       const { year, quarter } = getCurrentQuarter();
-      await resourcePlanningService.createTeam(productId, year, quarter, teamFormData);
+      await capacityService.addTeam(productId, year, quarter, team.id);
       setTeamFormData({ name: '', description: '' });
       setShowCreateTeam(false);
       onRefresh();
@@ -60,7 +100,11 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
   const handleAddMember = async (e: React.FormEvent, teamId: number) => {
     e.preventDefault();
     try {
-      await resourcePlanningService.addMember(productId, teamId, memberFormData);
+      const member = await resourcePlanningService.addMember(productId, teamId, memberFormData);
+      await recordSnapshot(teamId, [
+        ...state.allMembers.filter(m => m.teamId === teamId).map(m => m.id),
+        member.id,
+      ]);
       setMemberFormData({ memberName: '' });
       setShowAddMember(null);
       onRefresh();
@@ -69,11 +113,124 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
     }
   };
 
+  // Keeps the current quarter's membership snapshot in step with the team
+  const recordSnapshot = async (teamId: number, memberIds: number[]) => {
+    try {
+      const { year, quarter } = getCurrentQuarter();
+      await resourcePlanningService.saveTeamSnapshot(productId, teamId, { year, quarter, memberIds });
+    } catch (error) {
+      console.error('Failed to record team snapshot:', error);
+    }
+  };
+
+  const handleSaveAvailability = async (availability: MemberAvailabilityRequest) => {
+    if (!editingMember) return;
+    await resourcePlanningService.updateMemberAvailability(productId, editingMember.id, availability);
+    setEditingMember(null);
+    onRefresh();
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const holiday = await resourcePlanningService.createHoliday(productId, {
+        ...holidayFormData,
+        location: holidayFormData.location.trim(),
+      });
+      updateState({ holidays: [...state.holidays, holiday].sort((a, b) => a.date.localeCompare(b.date)) });
+      setHolidayFormData({ date: '', name: '', location: holidayFormData.location });
+    } catch (error) {
+      console.error('Failed to add holiday:', error);
+    }
+  };
+
+  const handleDeleteHoliday = async (holidayId: number) => {
+    try {
+      await resourcePlanningService.deleteHoliday(productId, holidayId);
+      updateState({ holidays: state.holidays.filter(holiday => holiday.id !== holidayId) });
+    } catch (error) {
+      console.error('Failed to delete holiday:', error);
+    }
+  };
+
+  const handleAddSkill = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = skillName.trim();
+    if (!name || state.skills.some(skill => skill.name.toLowerCase() === name.toLowerCase())) return;
+    try {
+      const skill = await resourcePlanningService.createSkill(productId, { name });
+      updateState({ skills: [...state.skills, skill] });
+      setSkillName('');
+    } catch (error) {
+      console.error('Failed to add skill:', error);
+    }
+  };
+
+  const handleDeleteSkill = async (skillId: number) => {
+    if (!window.confirm('Remove this skill from every member and story?')) return;
+    try {
+      await resourcePlanningService.deleteSkill(productId, skillId);
+      updateState({
+        skills: state.skills.filter(skill => skill.id !== skillId),
+        allMembers: state.allMembers.map(member => ({
+          ...member,
+          skills: (member.skills || []).filter(skill => skill.skillId !== skillId),
+        })),
+      });
+    } catch (error) {
+      console.error('Failed to delete skill:', error);
+    }
+  };
+
+  const handleSkillLevelChange = async (member: TeamMember, skillId: number, level: ProficiencyLevel | 0) => {
+    try {
+      const updated = await resourcePlanningService.updateMemberSkills(
+        productId,
+        member.id,
+        setSkillLevel(member.skills || [], skillId, level)
+      );
+      updateState({
+        allMembers: state.allMembers.map(m => (m.id === member.id ? { ...m, skills: updated.skills } : m)),
+      });
+    } catch (error) {
+      console.error('Failed to update member skills:', error);
+    }
+  };
+
+  const handleAddRateCard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rateCard: RateCardRequest = rateCardTarget === 'role'
+      ? { role: rateCardFormData.role?.trim(), dailyRate: rateCardFormData.dailyRate, currency: rateCardFormData.currency }
+      : { memberId: rateCardFormData.memberId, dailyRate: rateCardFormData.dailyRate, currency: rateCardFormData.currency };
+    if (!rateCard.role && !rateCard.memberId) return;
+    try {
+      const created = await resourcePlanningService.createRateCard(productId, {
+        ...rateCard,
+        currency: rateCard.currency.trim().toUpperCase(),
+      });
+      updateState({ rateCards: [...state.rateCards, created] });
+      setRateCardFormData({ role: '', dailyRate: 0, currency: rateCard.currency });
+    } catch (error) {
+      console.error('Failed to add rate card:', error);
+    }
+  };
+
+  const handleDeleteRateCard = async (rateCardId: number) => {
+    try {
+      await resourcePlanningService.deleteRateCard(productId, rateCardId);
+      updateState({ rateCards: state.rateCards.filter(card => card.id !== rateCardId) });
+    } catch (error) {
+      console.error('Failed to delete rate card:', error);
+    }
+  };
+
+  const getUpcomingTimeOff = (member: TeamMember) =>
+    (member.timeOff || []).filter(off => off.endDate >= today);
+
   const handleDeleteTeam = async (teamId: number) => {
-    if (window.confirm('Are you sure you want to delete this team?')) {
+    if (window.confirm('Delete this team from every quarter, including its membership history?')) {
       try {
-        const { year, quarter } = getCurrentQuarter();
-        await resourcePlanningService.deleteTeam(productId, year, quarter, teamId);
+        await resourcePlanningService.deleteTeam(productId, teamId);
         onRefresh();
       } catch (error) {
         console.error('Failed to delete team:', error);
@@ -85,15 +242,44 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
     <div className="team-management">
       <div className="section-header">
         <h2>Team Management</h2>
-        <button
-          className="btn btn-primary"
-          onClick={() => setShowCreateTeam(true)}
-        >
-          <span className="material-icons">add</span>
-          Create Team
-        </button>
+        <div className="team-actions">
+          <button
+            className={`btn btn-secondary ${showCalendar ? 'active' : ''}`}
+            onClick={() => setShowCalendar(!showCalendar)}
+          >
+            <span className="material-icons">calendar_month</span>
+            {showCalendar ? 'Hide Calendar' : 'Availability Calendar'}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={() => setShowCreateTeam(true)}
+          >
+            <span className="material-icons">add</span>
+            Create Team
+          </button>
+        </div>
       </div>
 
+      <datalist id="team-member-locations">
+        {locations.map(name => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      <datalist id="team-member-roles">
+        {roles.map(name => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+
+      {editingMember && (
+        <MemberAvailabilityForm
+          member={editingMember}
+          locations={locations}
+          onSave={handleSaveAvailability}
+          onClose={() => setEditingMember(null)}
+        />
+      )}
+
       {/* Create Team Modal */}
       {showCreateTeam && (
         <div className="resource-planning-modal-overlay">
@@ -136,6 +322,14 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
                 {team.description && <p>{team.description}</p>}
               </div>
               <div className="team-actions">
+                <button
+                  className={`btn btn-secondary ${historyTeamId === team.id ? 'active' : ''}`}
+                  onClick={() => setHistoryTeamId(historyTeamId === team.id ? null : team.id)}
+                  title="Who was on this team in each quarter"
+                >
+                  <span className="material-icons">history</span>
+                  History
+                </button>
                 <button
                   className="btn btn-secondary"
                   onClick={() => setShowAddMember(team.id)}
@@ -167,6 +361,37 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
                         required
                       />
                     </div>
+                    <div className="form-group">
+                      <label>Role</label>
+                      <input
+                        type="text"
+                        list="team-member-roles"
+                        value={memberFormData.role || ''}
+                        onChange={(e) => setMemberFormData({ ...memberFormData, role: e.target.value })}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>FTE %</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={memberFormData.ftePercent ?? 100}
+                        onChange={(e) => setMemberFormData({
+                          ...memberFormData,
+                          ftePercent: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100),
+                        })}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Location</label>
+                      <input
+                        type="text"
+                        list="team-member-locations"
+                        value={memberFormData.location || ''}
+                        onChange={(e) => setMemberFormData({ ...memberFormData, location: e.target.value })}
+                      />
+                    </div>
                   </div>
                   <div className="form-actions">
                     <button type="button" className="btn btn-secondary" onClick={() => setShowAddMember(null)}>Cancel</button>
@@ -182,15 +407,51 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
               <div className="members-grid">
                 {state.allMembers
                   .filter(member => member.teamId === team.id)
-                  .map((member) => (
-                    <div key={member.id} className="member-card">
-                      <div className="member-info">
-                        <strong>{member.memberName}</strong>
+                  .map((member) => {
+                    const upcomingTimeOff = getUpcomingTimeOff(member);
+                    const rate = getMemberRate(member, state.rateCards);
+                    return (
+                      <div key={member.id} className="member-card">
+                        <div className="member-info">
+                          <strong>{member.memberName}</strong>
+                          <span className="member-role">
+                            {member.role ? `${member.role} • ` : ''}
+                            {getFtePercent(member)}% FTE{member.location ? ` • ${member.location}` : ''}
+                            {rate ? ` • ${formatCost(rate.dailyRate, rate.currency)}/day` : ''}
+                          </span>
+                          {upcomingTimeOff.length > 0 && (
+                            <span className="member-time-off">
+                              <span className="material-icons">event_busy</span>
+                              Off from {parseLocalDate(upcomingTimeOff[0].startDate).toLocaleDateString()}
+                              {upcomingTimeOff.length > 1 && ` (+${upcomingTimeOff.length - 1} more)`}
+                            </span>
+                          )}
+                        </div>
+                        <button
+                          className="btn btn-sm btn-secondary"
+                          onClick={() => setEditingMember(member)}
+                          title="Edit availability"
+                        >
+                          <span className="material-icons">event_available</span>
+                        </button>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
               </div>
+              {showCalendar && (
+                <AvailabilityCalendar
+                  members={state.allMembers.filter(member => member.teamId === team.id)}
+                  holidays={state.holidays}
+                />
+              )}
             </div>
+
+            {historyTeamId === team.id && (
+              <div className="team-history-section">
+                <h4>Membership History</h4>
+                <TeamHistory productId={productId} teamId={team.id} />
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -202,6 +463,236 @@ const TeamManagement: React.FC<TeamManagementProps> = ({
           <p>Create your first team to start managing resources</p>
         </div>
       )}
+
+      {/* Skill Matrix */}
+      <div className="team-card skill-matrix-card">
+        <div className="team-header">
+          <div>
+            <h3>Skill Matrix</h3>
+            <p>Proficiency per member, used to suggest assignees in the planning canvas</p>
+          </div>
+        </div>
+        <form className="skill-form" onSubmit={handleAddSkill}>
+          <input
+            type="text"
+            value={skillName}
+            onChange={(e) => setSkillName(e.target.value)}
+            placeholder="New skill, e.g. Backend, UX Design"
+          />
+          <button type="submit" className="btn btn-primary" disabled={!skillName.trim()}>
+            <span className="material-icons">add</span>
+            Add Skill
+          </button>
+        </form>
+        {state.skills.length === 0 || state.allMembers.length === 0 ? (
+          <p className="no-skills">
+            {state.skills.length === 0 ? 'No skills added yet' : 'Add team members to rate their skills'}
+          </p>
+        ) : (
+          <div className="skill-matrix">
+            <table>
+              <thead>
+                <tr>
+                  <th>Member</th>
+                  {state.skills.map(skill => (
+                    <th key={skill.id}>
+                      <span className="skill-matrix-skill">
+                        {skill.name}
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteSkill(skill.id)}
+                          aria-label={`Remove ${skill.name}`}
+                        >
+                          <span className="material-icons">close</span>
+                        </button>
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {state.allMembers.map(member => (
+                  <tr key={member.id}>
+                    <td>
+                      <strong>{member.memberName}</strong>
+                      {member.team?.name && <span className="member-role">{member.team.name}</span>}
+                    </td>
+                    {state.skills.map(skill => {
+                      const level = getMemberLevel(member, skill.id);
+                      return (
+                        <td key={skill.id}>
+                          <select
+                            value={level}
+                            onChange={(e) => handleSkillLevelChange(member, skill.id, parseInt(e.target.value) as ProficiencyLevel | 0)}
+                            className={`skill-level level-${level}`}
+                            aria-label={`${member.memberName} ${skill.name}`}
+                          >
+                            <option value={0}>—</option>
+                            {PROFICIENCY_LEVELS.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Rate Cards */}
+      <div className="team-card rate-cards-card">
+        <div className="team-header">
+          <div>
+            <h3>Rate Cards</h3>
+            <p>Daily cost per role or per member, used for cost roll-ups and budgets. A member's own rate wins over their role's.</p>
+          </div>
+        </div>
+        <form className="rate-card-form" onSubmit={handleAddRateCard}>
+          <select
+            value={rateCardTarget}
+            onChange={(e) => setRateCardTarget(e.target.value as 'role' | 'member')}
+            aria-label="Rate applies to"
+          >
+            <option value="role">Role</option>
+            <option value="member">Member</option>
+          </select>
+          {rateCardTarget === 'role' ? (
+            <input
+              type="text"
+              list="team-member-roles"
+              value={rateCardFormData.role || ''}
+              onChange={(e) => setRateCardFormData({ ...rateCardFormData, role: e.target.value })}
+              placeholder="Role, e.g. Developer"
+              required
+            />
+          ) : (
+            <select
+              value={rateCardFormData.memberId || ''}
+              onChange={(e) => setRateCardFormData({ ...rateCardFormData, memberId: parseInt(e.target.value) || undefined })}
+              aria-label="Member"
+              required
+            >
+              <option value="">Select member...</option>
+              {state.allMembers.map(member => (
+                <option key={member.id} value={member.id}>{member.memberName}</option>
+              ))}
+            </select>
+          )}
+          <input
+            type="number"
+            min={0}
+            value={rateCardFormData.dailyRate || ''}
+            onChange={(e) => setRateCardFormData({ ...rateCardFormData, dailyRate: Math.max(parseFloat(e.target.value) || 0, 0) })}
+            placeholder="Daily rate"
+            aria-label="Daily rate"
+            required
+          />
+          <input
+            type="text"
+            value={rateCardFormData.currency}
+            onChange={(e) => setRateCardFormData({ ...rateCardFormData, currency: e.target.value })}
+            placeholder="USD"
+            aria-label="Currency"
+            maxLength={3}
+            required
+          />
+          <button type="submit" className="btn btn-primary">
+            <span className="material-icons">add</span>
+            Add Rate
+          </button>
+        </form>
+        {state.rateCards.length === 0 ? (
+          <p className="no-rate-cards">No rate cards added</p>
+        ) : (
+          <ul className="rate-card-list">
+            {state.rateCards.map(card => {
+              const member = state.allMembers.find(m => m.id === card.memberId);
+              return (
+                <li key={card.id}>
+                  <span className="rate-card-kind">{card.memberId ? 'Member' : 'Role'}</span>
+                  <span className="rate-card-target">{card.memberId ? member?.memberName || 'Unknown member' : card.role}</span>
+                  <span className="rate-card-rate">{formatCost(card.dailyRate, card.currency)}/day</span>
+                  <button
+                    className="btn btn-sm btn-danger"
+                    onClick={() => handleDeleteRateCard(card.id)}
+                    aria-label="Remove rate card"
+                  >
+                    <span className="material-icons">close</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {state.rateCards.length > 0 && unpricedMembers.length > 0 && (
+          <p className="rate-card-warning">
+            <span className="material-icons">warning</span>
+            No rate for {unpricedMembers.map(member => member.memberName).join(', ')}. Their time is left out of costs.
+          </p>
+        )}
+      </div>
+
+      {/* Public Holidays */}
+      <div className="team-card holidays-card">
+        <div className="team-header">
+          <div>
+            <h3>Public Holidays</h3>
+            <p>Applied to members whose location matches</p>
+          </div>
+        </div>
+        <form className="holiday-form" onSubmit={handleAddHoliday}>
+          <input
+            type="date"
+            value={holidayFormData.date}
+            onChange={(e) => setHolidayFormData({ ...holidayFormData, date: e.target.value })}
+            aria-label="Holiday date"
+            required
+          />
+          <input
+            type="text"
+            value={holidayFormData.name}
+            onChange={(e) => setHolidayFormData({ ...holidayFormData, name: e.target.value })}
+            placeholder="Holiday name"
+            required
+          />
+          <input
+            type="text"
+            list="team-member-locations"
+            value={holidayFormData.location}
+            onChange={(e) => setHolidayFormData({ ...holidayFormData, location: e.target.value })}
+            placeholder="Location"
+            required
+          />
+          <button type="submit" className="btn btn-primary">
+            <span className="material-icons">add</span>
+            Add Holiday
+          </button>
+        </form>
+        {state.holidays.length === 0 ? (
+          <p className="no-holidays">No public holidays added</p>
+        ) : (
+          <ul className="holiday-list">
+            {state.holidays.map(holiday => (
+              <li key={holiday.id} className={holiday.date < today ? 'past' : ''}>
+                <span className="holiday-date">{parseLocalDate(holiday.date).toLocaleDateString()}</span>
+                <span className="holiday-name">{holiday.name}</span>
+                <span className="holiday-location">{holiday.location}</span>
+                <button
+                  className="btn btn-sm btn-danger"
+                  onClick={() => handleDeleteHoliday(holiday.id)}
+                  aria-label={`Remove ${holiday.name}`}
+                >
+                  <span className="material-icons">close</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 };
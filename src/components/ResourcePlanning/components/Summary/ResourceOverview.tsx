@@ -1,6 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import { ResourcePlanningState, TeamMember, ResourceAssignment } from '../../../../types/resourcePlanning.types';
 import { resourcePlanningService } from '../../../../services/resourcePlanningService';
+import AllocationConflicts from '../AllocationConflicts/AllocationConflicts';
+import AssignmentTimeline, { AssignmentChange } from '../AssignmentTimeline/AssignmentTimeline';
+import Notification from '../Notification/Notification';
+import UtilizationTrend from './UtilizationTrend';
+import { daysBetween, parseLocalDate } from '../../../../utils/quarterUtils';
+import {
+  formatUtilization,
+  getAssignmentContributions,
+  getMembersUtilization,
+  getUtilizationLevel,
+  getWeeklyUtilization,
+  UtilizationFigures,
+} from '../../../../utils/utilization';
+
+// The timeline and utilization figures walk every day of the period, so it is kept to a year
+const MAX_PERIOD_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date inputs report partial years while they are typed; those and reversed ranges are ignored
+const isValidPeriod = ({ startDate, endDate }: { startDate: string; endDate: string }) => {
+  if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) return false;
+  const days = daysBetween(parseLocalDate(startDate), parseLocalDate(endDate));
+  return days >= 0 && days < MAX_PERIOD_DAYS;
+};
 
 interface ResourceOverviewProps {
   productId: number;
@@ -17,6 +41,17 @@ const ResourceOverview: React.FC<ResourceOverviewProps> = ({
     startDate: new Date().toISOString().split('T')[0],
     endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
   });
+  // The last valid range, which everything below is worked out for
+  const [period, setPeriod] = useState(dateRange);
+
+  const [expandedTeamId, setExpandedTeamId] = useState<number | null>(null);
+  const [expandedMemberId, setExpandedMemberId] = useState<number | null>(null);
+
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error' | 'warning' | 'info';
+    isVisible: boolean;
+  }>({ message: '', type: 'info', isVisible: false });
 
   useEffect(() => {
     loadAllAssignments();
@@ -31,22 +66,85 @@ const ResourceOverview: React.FC<ResourceOverviewProps> = ({
     }
   };
 
+  const handleReassign = async (assignment: ResourceAssignment, change: AssignmentChange) => {
+    // Move the bar straight away; the reload below puts it back if the server rejects the change
+    updateState({
+      assignments: state.assignments.map(a => (a.id === assignment.id ? { ...a, ...change } : a)),
+    });
+
+    try {
+      await resourcePlanningService.updateAssignment(productId, assignment.id, {
+        userStoryId: assignment.userStoryId,
+        allocationPercent: assignment.allocationPercent,
+        ...change,
+      });
+      const member = state.allMembers.find(m => m.id === change.memberId);
+      setNotification({
+        message: change.memberId !== assignment.memberId && member
+          ? `Assignment moved to ${member.memberName}`
+          : 'Assignment rescheduled',
+        type: 'success',
+        isVisible: true,
+      });
+    } catch (error: any) {
+      console.error('Failed to update assignment:', error);
+      setNotification({
+        message: error.response?.data?.error || 'Failed to update assignment. Please try again.',
+        type: 'error',
+        isVisible: true,
+      });
+    }
+    loadAllAssignments();
+  };
+
+  const handleDateChange = (changes: Partial<typeof dateRange>) => {
+    const next = { ...dateRange, ...changes };
+    setDateRange(next);
+    if (isValidPeriod(next)) {
+      setPeriod(next);
+    }
+  };
+
+  const periodStart = parseLocalDate(period.startDate);
+  const periodEnd = parseLocalDate(period.endDate);
+
+  const getTeamMembers = (teamId: number) => state.allMembers.filter(member => member.teamId === teamId);
+
   const getTeamUtilization = () => {
     return state.teams.map(team => {
-      const teamMembers = state.allMembers.filter(member => member.teamId === team.id);
-      const teamAssignments = state.assignments.filter(assignment =>
-        teamMembers.some(member => member.id === assignment.memberId)
-      );
-
+      const teamMembers = getTeamMembers(team.id);
       return {
         team,
         memberCount: teamMembers.length,
-        activeAssignments: teamAssignments.length,
-        utilization: teamMembers.length > 0 ? (teamAssignments.length / teamMembers.length) * 100 : 0
+        ...getMembersUtilization(teamMembers, state.assignments, state.holidays, periodStart, periodEnd),
       };
     });
   };
 
+  // The trend follows the drill-down: a member, a team, or everyone
+  const getTrendScope = (): { label: string; members: TeamMember[] } => {
+    const member = state.allMembers.find(m => m.id === expandedMemberId);
+    if (member) return { label: member.memberName, members: [member] };
+    const team = state.teams.find(t => t.id === expandedTeamId);
+    if (team) return { label: team.name, members: getTeamMembers(team.id) };
+    return { label: 'All teams', members: state.allMembers };
+  };
+
+  const toggleTeam = (teamId: number) => {
+    setExpandedTeamId(expandedTeamId === teamId ? null : teamId);
+    setExpandedMemberId(null);
+  };
+
+  const renderUtilizationBar = ({ utilization }: UtilizationFigures) => (
+    <div className="utilization-bar">
+      <div
+        className={`utilization-fill ${getUtilizationLevel(utilization)}`}
+        style={{ width: `${Math.min(utilization * 100, 100)}%` }}
+      ></div>
+      <span className="utilization-text">{formatUtilization(utilization)}</span>
+    </div>
+  );
+
   const getMemberWorkload = () => {
     return state.allMembers.map(member => {
       const memberAssignments = state.assignments.filter(assignment => assignment.memberId === member.id);
@@ -83,6 +181,21 @@ const ResourceOverview: React.FC<ResourceOverviewProps> = ({
   };
 
   const teamUtilization = getTeamUtilization();
+  const trendScope = getTrendScope();
+  const overallUtilization = getMembersUtilization(
+    trendScope.members,
+    state.assignments,
+    state.holidays,
+    periodStart,
+    periodEnd
+  );
+  const weeklyUtilization = getWeeklyUtilization(
+    trendScope.members,
+    state.assignments,
+    state.holidays,
+    periodStart,
+    periodEnd
+  );
   const memberWorkload = getMemberWorkload();
   const upcomingDeadlines = getUpcomingDeadlines();
 
@@ -94,14 +207,19 @@ const ResourceOverview: React.FC<ResourceOverviewProps> = ({
           <input
             type="date"
             value={dateRange.startDate}
-            onChange={(e) => setDateRange({ ...dateRange, startDate: e.target.value })}
+            max={dateRange.endDate}
+            onChange={(e) => handleDateChange({ startDate: e.target.value })}
           />
           <span>to</span>
           <input
             type="date"
             value={dateRange.endDate}
-            onChange={(e) => setDateRange({ ...dateRange, endDate: e.target.value })}
+            min={dateRange.startDate}
+            onChange={(e) => handleDateChange({ endDate: e.target.value })}
           />
+          {!isValidPeriod(dateRange) && (
+            <span className="date-filter-hint">Pick a period of up to a year</span>
+          )}
         </div>
       </div>
 
@@ -151,23 +269,115 @@ const ResourceOverview: React.FC<ResourceOverviewProps> = ({
           </div>
         </div>
 
+        {/* Allocation Conflicts */}
+        <div className="allocation-conflicts-section">
+          <h3>Allocation Conflicts</h3>
+          <AllocationConflicts
+            members={state.allMembers}
+            assignments={state.assignments}
+            onResolve={handleReassign}
+          />
+        </div>
+
+        {/* Assignment Timeline */}
+        <div className="assignment-timeline-section">
+          <h3>Assignment Timeline</h3>
+          <AssignmentTimeline
+            members={state.allMembers}
+            assignments={state.assignments}
+            startDate={period.startDate}
+            endDate={period.endDate}
+            onReassign={handleReassign}
+          />
+        </div>
+
         {/* Team Utilization */}
         <div className="team-utilization-section">
           <h3>Team Utilization</h3>
+          <p className="utilization-explainer">
+            Allocated working days over available working days for the selected period. Weekends, public holidays
+            and time off are excluded, and part-time members count at their FTE.
+          </p>
+
+          <div className="utilization-trend-header">
+            <span>
+              <strong>{trendScope.label}</strong> • {formatUtilization(overallUtilization.utilization)} •{' '}
+              {overallUtilization.assignedDays} of {overallUtilization.availableDays} days
+            </span>
+            <span className="utilization-trend-caption">Weekly utilization</span>
+          </div>
+          <UtilizationTrend weeks={weeklyUtilization} />
+
           <div className="utilization-list">
-            {teamUtilization.map(({ team, memberCount, activeAssignments, utilization }) => (
-              <div key={team.id} className="utilization-item">
-                <div className="team-info">
-                  <h4>{team.name}</h4>
-                  <p>{memberCount} members • {activeAssignments} active assignments</p>
-                </div>
-                <div className="utilization-bar">
-                  <div
-                    className={`utilization-fill ${utilization > 80 ? 'high' : utilization > 50 ? 'medium' : 'low'}`}
-                    style={{ width: `${Math.min(utilization, 100)}%` }}
-                  ></div>
-                  <span className="utilization-text">{utilization.toFixed(0)}%</span>
-                </div>
+            {teamUtilization.map(({ team, memberCount, ...figures }) => (
+              <div key={team.id} className="utilization-group">
+                <button
+                  className={`utilization-item ${expandedTeamId === team.id ? 'expanded' : ''}`}
+                  onClick={() => toggleTeam(team.id)}
+                >
+                  <div className="team-info">
+                    <h4>
+                      <span className="material-icons">
+                        {expandedTeamId === team.id ? 'expand_less' : 'expand_more'}
+                      </span>
+                      {team.name}
+                    </h4>
+                    <p>{memberCount} members • {figures.assignedDays} of {figures.availableDays} days allocated</p>
+                  </div>
+                  {renderUtilizationBar(figures)}
+                </button>
+
+                {expandedTeamId === team.id && (
+                  <div className="utilization-members">
+                    {getTeamMembers(team.id).map(member => {
+                      const memberFigures = getMembersUtilization(
+                        [member],
+                        state.assignments,
+                        state.holidays,
+                        periodStart,
+                        periodEnd
+                      );
+                      const isExpanded = expandedMemberId === member.id;
+                      return (
+                        <div key={member.id}>
+                          <button
+                            className={`utilization-item member ${isExpanded ? 'expanded' : ''}`}
+                            onClick={() => setExpandedMemberId(isExpanded ? null : member.id)}
+                          >
+                            <div className="team-info">
+                              <h4>{member.memberName}</h4>
+                              <p>{memberFigures.assignedDays} of {memberFigures.availableDays} days allocated</p>
+                            </div>
+                            {renderUtilizationBar(memberFigures)}
+                          </button>
+
+                          {isExpanded && (
+                            <ul className="utilization-assignments">
+                              {getAssignmentContributions(
+                                member,
+                                state.assignments,
+                                state.holidays,
+                                periodStart,
+                                periodEnd
+                              ).map(({ assignment, assignedDays }) => (
+                                <li key={assignment.id}>
+                                  <span>{assignment.userStory?.title || assignment.userStory?.storyTitle || 'Assignment'}</span>
+                                  <span>
+                                    {new Date(assignment.startDate).toLocaleDateString()} – {new Date(assignment.endDate).toLocaleDateString()}
+                                  </span>
+                                  <strong>{Math.round(assignedDays * 10) / 10} days</strong>
+                                </li>
+                              ))}
+                              {memberFigures.assignedDays === 0 && (
+                                <li className="utilization-assignments-empty">No assignments in this period</li>
+                              )}
+                            </ul>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -229,6 +439,13 @@ const ResourceOverview: React.FC<ResourceOverviewProps> = ({
           </div>
         </div>
       </div>
+
+      <Notification
+        message={notification.message}
+        type={notification.type}
+        isVisible={notification.isVisible}
+        onClose={() => setNotification(prev => ({ ...prev, isVisible: false }))}
+      />
     </div>
   );
 };
@@ -0,0 +1,42 @@
+import React from 'react';
+import { formatUtilization, getUtilizationLevel, WeeklyUtilization } from '../../../../utils/utilization';
+
+interface UtilizationTrendProps {
+  weeks: WeeklyUtilization[];
+}
+
+// Bars are drawn on a 0–120% scale so over-allocation stays visible above the 100% line
+const SCALE_MAX = 1.2;
+
+const UtilizationTrend: React.FC<UtilizationTrendProps> = ({ weeks }) => {
+  if (weeks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="utilization-trend">
+      <div className="utilization-trend-chart">
+        <span className="utilization-trend-target" style={{ bottom: `${(1 / SCALE_MAX) * 100}%` }} />
+        {weeks.map(week => (
+          <div
+            key={week.weekStart}
+            className="utilization-trend-column"
+            title={`Week of ${week.label}: ${formatUtilization(week.utilization)} (${week.assignedDays} of ${week.availableDays} days)`}
+          >
+            <div
+              className={`utilization-trend-bar ${getUtilizationLevel(week.utilization)}`}
+              style={{ height: `${(Math.min(week.utilization, SCALE_MAX) / SCALE_MAX) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="utilization-trend-labels">
+        {weeks.map(week => (
+          <span key={week.weekStart}>{week.label}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UtilizationTrend;
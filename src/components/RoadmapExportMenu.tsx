@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RoadmapItem } from '../types/roadmap';
+import { exportRoadmap, RoadmapExportFormat, RoadmapExportOptions } from '../utils/roadmapExport';
+import './RoadmapExportMenu.css';
+
+interface RoadmapExportMenuProps extends RoadmapExportOptions {
+  items: RoadmapItem[];
+  onError?: (message: string) => void;
+}
+
+const EXPORT_OPTIONS: { format: RoadmapExportFormat; label: string; icon: string }[] = [
+  { format: 'csv', label: 'CSV spreadsheet', icon: 'table_view' },
+  { format: 'png', label: 'PNG image', icon: 'image' },
+  { format: 'pdf', label: 'PDF document', icon: 'picture_as_pdf' },
+];
+
+const RoadmapExportMenu: React.FC<RoadmapExportMenuProps> = ({ items, onError, ...options }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: RoadmapExportFormat) => {
+    setIsOpen(false);
+    try {
+      setExporting(true);
+      await exportRoadmap(format, items, options);
+    } catch (err: any) {
+      onError?.(`Failed to export roadmap: ${err.message || 'Unknown error'}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="roadmap-export-menu" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="roadmap-export-btn"
+        disabled={exporting || items.length === 0}
+        title={items.length === 0 ? 'Nothing to export' : 'Export roadmap'}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <span className="material-icons">{exporting ? 'hourglass_empty' : 'download'}</span>
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="roadmap-export-dropdown" role="menu">
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => handleExport(option.format)}
+              className="roadmap-export-option"
+              role="menuitem"
+            >
+              <span className="material-icons">{option.icon}</span>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoadmapExportMenu;
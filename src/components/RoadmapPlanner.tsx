@@ -1,66 +1,41 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useProduct } from '../hooks/useProduct';
-import { API_BASE_URL } from '../config';
+import { useTeamCapacity } from '../hooks/useTeamCapacity';
+import { backlogService } from '../services/backlogService';
+import { roadmapService } from '../services/roadmapService';
+import { Epic, UserStory } from '../types/backlog';
+import { RoadmapItem, RoadmapPlannerData, ScoringConfig, ScoringCriterion, ScoringFramework } from '../types/roadmap';
+import { findScheduleConflicts } from '../utils/epicDependencies';
+import { getErrorStatus, getResponseMessage } from '../utils/errorHandler';
+import {
+  DEFAULT_SCALE,
+  DEFAULT_SCORING_CONFIG,
+  FRAMEWORKS,
+  formatScore,
+  getFramework,
+  getRiceScore,
+  getScoreFields,
+  getScoreInput,
+  SCORE_SORT_KEY,
+  ScoreSort,
+  setScoreInput,
+  sortByScore,
+  toggleScoreSort,
+} from '../utils/prioritization';
+import { addQuarters, formatQuarter, parseLocalDate } from '../utils/quarterUtils';
+import { isWithinQuarter, ScheduleDates } from '../utils/roadmapSchedule';
+import { buildTeamLoads, getOverCommittedTeams } from '../utils/teamCapacity';
+import CapacityDemandBar from './CapacityDemandBar';
+import InitiativeBudgets from './InitiativeBudgets';
+import RoadmapExportMenu from './RoadmapExportMenu';
+import RoadmapScenarios from './RoadmapScenarios';
+import RoadmapScheduleTimeline from './RoadmapScheduleTimeline';
+import RoadmapVersionHistory from './RoadmapVersionHistory';
+import ScoringModelBuilder from './ScoringModelBuilder';
 import './RoadmapPlanner.css';
 import './ProductBacklog.css';
 
-interface UserStory {
-  id?: number;
-  title: string;
-  description: string;
-  acceptanceCriteria?: string;
-  priority: 'High' | 'Medium' | 'Low';
-  storyPoints?: number;
-  status?: 'Draft' | 'Ready' | 'In Progress' | 'Done' | 'Blocked';
-  displayOrder?: number;
-}
-
-interface RoadmapItem {
-  epicId: string;
-  epicName: string;
-  epicDescription: string;
-  priority: string;
-  status: string;
-  estimatedEffort: string;
-  assignedTeam: string;
-  reach: number;
-  impact: number;
-  confidence: number;
-  riceScore: number;
-  effortRating?: number; // Auto-filled from capacity planning
-  startDate?: string;
-  endDate?: string;
-  published?: boolean; // Track published status
-  initiativeId?: string;
-  initiativeName?: string;
-  themeId?: string;
-  themeName?: string;
-  themeColor?: string;
-  track?: string;
-}
-
-interface RoadmapPlannerData {
-  id?: number;
-  productId: number;
-  year: number;
-  quarter: number;
-  roadmapItems: RoadmapItem[];
-}
-
-interface Epic {
-  id: string;
-  name: string;
-  description: string;
-  themeId: string;
-  themeName: string;
-  themeColor: string;
-  initiativeId: string;
-  initiativeName: string;
-  track: string;
-  userStories?: UserStory[];
-}
-
 // Helper functions for quarter date calculations
 const getQuarterStartDate = (year: number, quarter: number): string => {
   const month = (quarter - 1) * 3; // Q1=0, Q2=3, Q3=6, Q4=9
@@ -78,6 +53,11 @@ const getQuarterEndDate = (year: number, quarter: number): string => {
          String(date.getDate()).padStart(2, '0');
 };
 
+// Quarters on either side of the selected one that are checked for blockers
+const DEPENDENCY_QUARTER_WINDOW = 2;
+
+const formatConflictDate = (value: string) => parseLocalDate(value.split('T')[0]).toLocaleDateString();
+
 const RoadmapPlanner: React.FC = () => {
   const { productSlug } = useParams<{ productSlug: string }>();
   const navigate = useNavigate();
@@ -102,6 +82,11 @@ const RoadmapPlanner: React.FC = () => {
   const [selectedInitiativeFilter, setSelectedInitiativeFilter] = useState('');
   const [selectedTrackFilter, setSelectedTrackFilter] = useState('');
   const [assignedEpicIds, setAssignedEpicIds] = useState<Set<string>>(new Set());
+  const [neighbouringItems, setNeighbouringItems] = useState<RoadmapItem[]>([]);
+  const [plannerView, setPlannerView] = useState<'table' | 'timeline' | 'scenarios' | 'history' | 'budget'>('table');
+  const [scoringConfig, setScoringConfig] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [scoreSort, setScoreSort] = useState<ScoreSort | null>(null);
+  const [showScoringBuilder, setShowScoringBuilder] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [viewingEpic, setViewingEpic] = useState<Epic | null>(null);
   const [showViewEpicModal, setShowViewEpicModal] = useState(false);
@@ -125,6 +110,7 @@ const RoadmapPlanner: React.FC = () => {
   const editModeStoryEditorRef = useRef<HTMLDivElement>(null);
   const [editModeExpandedStories, setEditModeExpandedStories] = useState<Set<number>>(new Set());
   const [modifiedStoryIds, setModifiedStoryIds] = useState<Set<number>>(new Set()); // Track which stories have been modified
+  const teamCapacity = useTeamCapacity(product?.productId, selectedYear, selectedQuarter);
 
   const loadRoadmapData = async () => {
     
@@ -135,36 +121,21 @@ const RoadmapPlanner: React.FC = () => {
     try {
       setLoading(true);
       
-      const token = localStorage.getItem('token');
-      if (!token) {
-        throw new Error('No authentication token found');
-      }
-      
-      const url = `${API_BASE_URL}/v2/products/${product.productId}/roadmap/${selectedYear}/${selectedQuarter}`;
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
+      const data = await roadmapService.getRoadmap(product.productId, selectedYear, selectedQuarter);
 
-      if (response.ok) {
-        const data = await response.json();
+      if (data) {
         // Ensure all items have dates (use quarter defaults if missing from backend)
         if (data.roadmapItems) {
-          data.roadmapItems = data.roadmapItems.map((item: RoadmapItem) => ({
+          data.roadmapItems = data.roadmapItems.map(item => ({
             ...item,
             startDate: item.startDate || getQuarterStartDate(selectedYear, selectedQuarter),
             endDate: item.endDate || getQuarterEndDate(selectedYear, selectedQuarter)
           }));
         }
         setRoadmapData(data);
-        const epicIds = data.roadmapItems?.map((item: RoadmapItem) => item.epicId) || [];
+        const epicIds = data.roadmapItems?.map(item => item.epicId) || [];
         setSelectedEpics(new Set(epicIds));
-      } else if (response.status === 404) {
+      } else {
         // No roadmap exists for this quarter yet
         setRoadmapData({
           productId: product.productId,
@@ -173,8 +144,6 @@ const RoadmapPlanner: React.FC = () => {
           roadmapItems: []
         });
         setSelectedEpics(new Set());
-      } else {
-        throw new Error('Failed to load roadmap data');
       }
     } catch (err: any) {
       setError('Failed to load roadmap data: ' + (err.message || 'Unknown error'));
@@ -190,22 +159,13 @@ const RoadmapPlanner: React.FC = () => {
 
     try {
       // Get all epics regardless of status for Roadmap Planner Add/Remove modal
-      const response = await fetch(`${API_BASE_URL}/v3/products/${product.productId}/backlog?backlogOnly=false`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-
-      if (response.ok) {
-        const backlogData = await response.json();
+      const backlogData = await backlogService.getBacklog(product.productId, { backlogOnly: false });
 
-        if (backlogData && backlogData.epics) {
-          const epicsArray = JSON.parse(backlogData.epics);
-          setAvailableEpics(epicsArray);
-        } else {
-          setAvailableEpics([]);
-        }
+      if (backlogData && backlogData.epics) {
+        const epicsArray = JSON.parse(backlogData.epics);
+        setAvailableEpics(epicsArray);
       } else {
+        setAvailableEpics([]);
       }
     } catch (err) {
     }
@@ -216,27 +176,77 @@ const RoadmapPlanner: React.FC = () => {
     
     try {
       // Fetch epic IDs that are already assigned to other quarters
-      const response = await fetch(
-        `${API_BASE_URL}/products/${product.productId}/roadmap/assigned-epics?excludeYear=${selectedYear}&excludeQuarter=${selectedQuarter}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const epicIds = await response.json();
-        setAssignedEpicIds(new Set(epicIds));
-      }
+      const epicIds = await roadmapService.getAssignedEpicIds(product.productId, selectedYear, selectedQuarter);
+      setAssignedEpicIds(new Set(epicIds));
     } catch (err) {
     }
   };
   
+  // Blockers are often planned in another quarter, so their dates are needed for the dependency check
+  const loadNeighbouringItems = async () => {
+    if (!product) return;
+
+    const offsets = Array.from({ length: DEPENDENCY_QUARTER_WINDOW * 2 + 1 }, (_, i) => i - DEPENDENCY_QUARTER_WINDOW)
+      .filter(offset => offset !== 0);
+    try {
+      const roadmaps = await Promise.all(offsets.map(async offset => {
+        const { year, quarter } = addQuarters({ year: selectedYear, quarter: selectedQuarter }, offset);
+        const data = await roadmapService.getRoadmap(product.productId, year, quarter);
+        return (data?.roadmapItems || []).map(item => ({
+          ...item,
+          startDate: item.startDate || getQuarterStartDate(year, quarter),
+          endDate: item.endDate || getQuarterEndDate(year, quarter)
+        }));
+      }));
+      setNeighbouringItems(roadmaps.flat());
+    } catch (err) {
+      setNeighbouringItems([]);
+    }
+  };
+
+  const loadScoringConfig = async () => {
+    if (!product) return;
+
+    try {
+      const config = await roadmapService.getScoringConfig(product.productId);
+      setScoringConfig(config || DEFAULT_SCORING_CONFIG);
+    } catch (err) {
+      setScoringConfig(DEFAULT_SCORING_CONFIG);
+    }
+  };
+
+  const changeScoringFramework = async (framework: ScoringFramework) => {
+    if (!product) return;
+    const previous = scoringConfig;
+    const updated = { ...scoringConfig, framework };
+    setScoringConfig(updated);
+    setScoreSort(null);
+
+    try {
+      await roadmapService.saveScoringConfig(product.productId, updated);
+    } catch (err) {
+      setScoringConfig(previous);
+      setInlineError('Failed to change the scoring framework');
+    }
+  };
+
+  // Errors are handled by the builder so it can stay open
+  const saveScoringModel = async (criteria: ScoringCriterion[]) => {
+    if (!product) return;
+    const saved = await roadmapService.saveScoringConfig(product.productId, { ...scoringConfig, criteria });
+    setScoringConfig(saved);
+    setScoreSort(null);
+    setShowScoringBuilder(false);
+  };
+
   useEffect(() => {
     window.scrollTo(0, 0);
   }, []);
 
+  useEffect(() => {
+    loadScoringConfig();
+  }, [product]); // eslint-disable-line react-hooks/exhaustive-deps
+
   useEffect(() => {
     if (product) {
       setInlineError(''); // Clear any previous error messages
@@ -247,6 +257,7 @@ const RoadmapPlanner: React.FC = () => {
       
       loadAvailableEpics();
       loadAssignedEpicIds();
+      loadNeighbouringItems();
     } else {
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -290,8 +301,8 @@ const RoadmapPlanner: React.FC = () => {
             const reach = 0;
             const impact = 0;
             const confidence = 0;
-            const effort = 1;
-            const riceScore = effort > 0 ? (impact * confidence * reach) / effort : 0;
+            const effortRating = 1;
+            const riceScore = getRiceScore({ reach, impact, confidence, effortRating });
             
             return {
               epicId,
@@ -305,7 +316,7 @@ const RoadmapPlanner: React.FC = () => {
               impact,
               confidence,
               riceScore,
-              effortRating: 1,
+              effortRating,
               startDate: getQuarterStartDate(selectedYear, selectedQuarter),
               endDate: getQuarterEndDate(selectedYear, selectedQuarter),
               published: false // New items start as unpublished
@@ -323,36 +334,28 @@ const RoadmapPlanner: React.FC = () => {
       };
 
 
-      const response = await fetch(`${API_BASE_URL}/v2/products/${product?.productId}/roadmap`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify(requestData)
-      });
+      if (!product) return;
 
-      if (response.ok) {
-        setInlineError(''); // Clear any error messages on successful save
-        setHasUnsavedChanges(false); // Clear unsaved changes flag
-        await Promise.all([
-          loadRoadmapData(),
-          loadAvailableEpics(), // Refresh backlog list after save
-          loadAssignedEpicIds() // Refresh assigned epic IDs after save
-        ]);
-        if (isEditMode) {
-          setIsEditMode(false);
-        }
-        setShowEpicModal(false);
-      } else if (response.status === 409) {
+      await roadmapService.saveRoadmap(product.productId, requestData);
+
+      setInlineError(''); // Clear any error messages on successful save
+      setHasUnsavedChanges(false); // Clear unsaved changes flag
+      await Promise.all([
+        loadRoadmapData(),
+        loadAvailableEpics(), // Refresh backlog list after save
+        loadAssignedEpicIds() // Refresh assigned epic IDs after save
+      ]);
+      if (isEditMode) {
+        setIsEditMode(false);
+      }
+      setShowEpicModal(false);
+    } catch (err) {
+      if (getErrorStatus(err) === 409) {
         // Handle epic conflict error
-        const errorText = await response.text();
-        setInlineError(errorText);
+        setInlineError(getResponseMessage(err) || '');
       } else {
-        throw new Error('Failed to save roadmap');
+        setError('Failed to save roadmap');
       }
-    } catch (err) {
-      setError('Failed to save roadmap');
     } finally {
       setLoading(false);
     }
@@ -391,35 +394,46 @@ const RoadmapPlanner: React.FC = () => {
       const epicIdsToPublish = (roadmapData?.roadmapItems || [])
         .map(item => item.epicId);
 
-      const response = await fetch(
-        `${API_BASE_URL}/v2/products/${product?.productId}/roadmap/${selectedYear}/${selectedQuarter}/publish`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          },
-          body: JSON.stringify({
-            epicIds: epicIdsToPublish
-          })
-        }
-      );
+      if (!product) return;
 
-      if (response.ok) {
+      await roadmapService.publishQuarter(product.productId, selectedYear, selectedQuarter, {
+        epicIds: epicIdsToPublish
+      });
+
+      // The quarter is published from here on, so a failed snapshot only costs its history entry.
+      // The snapshot is taken from what the server now has published, not from local state.
+      let version: number | null = null;
+      try {
+        const published = await roadmapService.getRoadmap(product.productId, selectedYear, selectedQuarter, {
+          publishedOnly: true,
+        });
+        const snapshot = await roadmapService.createSnapshot(product.productId, {
+          year: selectedYear,
+          quarter: selectedQuarter,
+          roadmapItems: published?.roadmapItems || [],
+        });
+        version = snapshot.version;
         setInlineError('');
-        // Reload roadmap data to reflect published state
-        await loadRoadmapData();
-        // Show success message
-        setSuccessMessage(`Successfully published Q${selectedQuarter} ${selectedYear} roadmap!`);
-        // Clear success message after 5 seconds
-        setTimeout(() => setSuccessMessage(''), 5000);
-      } else {
-        const errorText = await response.text();
-        setInlineError(errorText || 'Failed to publish roadmap');
+      } catch (snapshotError) {
+        setInlineError('The roadmap was published, but this version could not be added to the version history.');
       }
+
+      // Reload roadmap data to reflect published state
+      await loadRoadmapData();
+      // Show success message
+      setSuccessMessage(
+        version !== null
+          ? `Successfully published Q${selectedQuarter} ${selectedYear} roadmap as version ${version}!`
+          : `Successfully published Q${selectedQuarter} ${selectedYear} roadmap`
+      );
+      // Clear success message after 5 seconds
+      setTimeout(() => setSuccessMessage(''), 5000);
     } catch (error) {
-      // Handle publish error silently
-      setInlineError('Failed to publish roadmap. Please try again.');
+      if (getErrorStatus(error)) {
+        setInlineError(getResponseMessage(error) || 'Failed to publish roadmap');
+      } else {
+        setInlineError('Failed to publish roadmap. Please try again.');
+      }
     } finally {
       setIsPublishing(false);
       setTimeout(() => {
@@ -497,6 +511,8 @@ const RoadmapPlanner: React.FC = () => {
 
     const proposedCount = 0; // We're publishing everything, so no "proposed only" count
 
+    const overCommittedTeams = getOverCommittedTeams(teamLoads);
+
     return (
       <div className="modal-overlay" onClick={handleCancel}>
         <div className="epic-selection-modal publish-confirmation-modal" onClick={(e) => e.stopPropagation()}>
@@ -520,6 +536,16 @@ const RoadmapPlanner: React.FC = () => {
                   <span className="material-icons success">check_circle</span>
                   <span>{committedCount} items will be published to Roadmap Visualization</span>
                 </div>
+                {overCommittedTeams.length > 0 && (
+                  <div className="summary-item">
+                    <span className="material-icons warning">warning</span>
+                    <span>
+                      Over capacity: {overCommittedTeams
+                        .map(load => `${load.teamName} (${load.effort}/${load.capacity} ${teamCapacity.effortUnit.toLowerCase()})`)
+                        .join(', ')}
+                    </span>
+                  </div>
+                )}
                 {proposedCount > 0 && (
                   <div className="summary-item">
                     <span className="material-icons warning">info</span>
@@ -566,56 +592,48 @@ const RoadmapPlanner: React.FC = () => {
     // For effortRating, use the specific endpoint (only in view mode since it's auto-filled)
     if (field === 'effortRating' && !isEditMode) {
       try {
-        const response = await fetch(
-          `${API_BASE_URL}/v2/products/${product?.productId}/roadmap/${selectedYear}/${selectedQuarter}/epics/${epicId}/effort-rating`, 
-          {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${localStorage.getItem('token')}`
-            },
-            body: JSON.stringify({
-              effortRating: value
-            })
+        if (!product) return;
+
+        await roadmapService.updateEffortRating(product.productId, selectedYear, selectedQuarter, epicId, value as number);
+
+        // Update local state on successful backend update
+        const updatedItems = roadmapData.roadmapItems.map(item => {
+          if (item.epicId === epicId) {
+            return { ...item, effortRating: value as number };
           }
-        );
+          return item;
+        });
 
-        if (response.ok) {
-          // Update local state on successful backend update
-          const updatedItems = roadmapData.roadmapItems.map(item => {
-            if (item.epicId === epicId) {
-              return { ...item, effortRating: value as number };
-            }
-            return item;
-          });
-          
-          setRoadmapData({
-            ...roadmapData,
-            roadmapItems: updatedItems
-          });
-          
-        } else {
-          throw new Error('Failed to update effort rating');
-        }
+        setRoadmapData({
+          ...roadmapData,
+          roadmapItems: updatedItems
+        });
       } catch (err) {
       }
       return;
     }
     
+    if (field === 'startDate' || field === 'endDate') {
+      const item = roadmapData.roadmapItems.find(i => i.epicId === epicId);
+      const dates = {
+        startDate: item?.startDate || getQuarterStartDate(selectedYear, selectedQuarter),
+        endDate: item?.endDate || getQuarterEndDate(selectedYear, selectedQuarter),
+        [field]: value as string
+      };
+      if (!value || !isWithinQuarter(dates, selectedYear, selectedQuarter)) {
+        setInlineError(`Start and end dates must fall within ${formatQuarter(selectedYear, selectedQuarter)}, with the start before the end`);
+        return;
+      }
+    }
+
     const updatedItems = roadmapData.roadmapItems.map(item => {
       if (item.epicId === epicId) {
-        const updatedItem = { ...item, [field]: value };
-        
-        // Recalculate RICE score if any RICE component was updated
+        // Score inputs go through the scoring module so the stored RICE score stays current
         if (['reach', 'impact', 'confidence', 'effortRating'].includes(field)) {
-          const reach = field === 'reach' ? value as number : updatedItem.reach || 0;
-          const impact = field === 'impact' ? value as number : updatedItem.impact || 0;
-          const confidence = field === 'confidence' ? value as number : updatedItem.confidence || 0;
-          const effort = field === 'effortRating' ? value as number : updatedItem.effortRating || 1;
-          updatedItem.riceScore = effort > 0 ? (impact * confidence * reach) / effort : 0;
+          return setScoreInput(item, field, value as number);
         }
-        
-        return updatedItem;
+
+        return { ...item, [field]: value };
       }
       return item;
     });
@@ -626,55 +644,77 @@ const RoadmapPlanner: React.FC = () => {
     };
     
     setRoadmapData(updatedRoadmapData);
-    
-    // Auto-save only if NOT in edit mode
-    // In edit mode, changes should be saved explicitly to avoid issues with publishing
-    const shouldAutoSave = !isEditMode;
-    
-    if (shouldAutoSave) {
-      
-      try {
-        const response = await fetch(`${API_BASE_URL}/v2/products/${product?.productId}/roadmap`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          },
-          body: JSON.stringify({
-            year: selectedYear,
-            quarter: selectedQuarter,
-            roadmapItems: updatedItems.map(item => {
-              const { published, ...itemWithoutPublished } = item;
-              return {
-                ...itemWithoutPublished,
-                startDate: item.startDate || getQuarterStartDate(selectedYear, selectedQuarter),
-                endDate: item.endDate || getQuarterEndDate(selectedYear, selectedQuarter)
-                // DON'T send published field - let backend maintain it
-              };
-            })
-          })
-        });
+    await autoSaveRoadmapItems(updatedItems);
+  };
 
-        if (!response.ok) {
-          if (response.status === 409) {
-            // Handle epic conflict error in auto-save
-            const errorText = await response.text();
-            setInlineError(errorText);
-            // Revert the local change since it conflicts
-            await loadRoadmapData();
-          } else {
-            throw new Error('Failed to save roadmap item');
-          }
-        } else {
-          setInlineError(''); // Clear any error messages on successful auto-save
-        }
-      } catch (err) {
-        // Optionally show a toast notification or error message
+  // Inputs of the product's scoring framework, stored on the item or in its scoreInputs
+  const updateScoreInput = async (epicId: string, key: string, value: number) => {
+    if (!roadmapData) return;
+
+    if (isEditMode) {
+      setHasUnsavedChanges(true);
+    }
+
+    const updatedItems = roadmapData.roadmapItems.map(item =>
+      item.epicId === epicId ? setScoreInput(item, key, value) : item
+    );
+    setRoadmapData({ ...roadmapData, roadmapItems: updatedItems });
+    await autoSaveRoadmapItems(updatedItems);
+  };
+
+  // Auto-save only if NOT in edit mode
+  // In edit mode, changes should be saved explicitly to avoid issues with publishing
+  const autoSaveRoadmapItems = async (updatedItems: RoadmapItem[]) => {
+    if (isEditMode || !product) return;
+
+    try {
+      await roadmapService.saveRoadmap(product.productId, {
+        year: selectedYear,
+        quarter: selectedQuarter,
+        roadmapItems: updatedItems.map(item => {
+          const { published, ...itemWithoutPublished } = item;
+          return {
+            ...itemWithoutPublished,
+            startDate: item.startDate || getQuarterStartDate(selectedYear, selectedQuarter),
+            endDate: item.endDate || getQuarterEndDate(selectedYear, selectedQuarter)
+            // DON'T send published field - let backend maintain it
+          };
+        })
+      });
+
+      setInlineError(''); // Clear any error messages on successful auto-save
+    } catch (err) {
+      if (getErrorStatus(err) === 409) {
+        // Handle epic conflict error in auto-save
+        setInlineError(getResponseMessage(err) || '');
+        // Revert the local change since it conflicts
+        await loadRoadmapData();
+      } else {
+        setInlineError('Failed to save roadmap changes');
       }
-    } else {
     }
   };
 
+  // Moves or resizes an epic from the timeline; dates have to stay within the selected quarter
+  const rescheduleRoadmapItem = async (epicId: string, dates: ScheduleDates) => {
+    if (!roadmapData) return;
+
+    if (!isWithinQuarter(dates, selectedYear, selectedQuarter)) {
+      setInlineError(`Epics must start and end within ${formatQuarter(selectedYear, selectedQuarter)}`);
+      return;
+    }
+
+    if (isEditMode) {
+      setHasUnsavedChanges(true);
+    }
+
+    const updatedItems = roadmapData.roadmapItems.map(item =>
+      item.epicId === epicId ? { ...item, ...dates } : item
+    );
+    setRoadmapData({ ...roadmapData, roadmapItems: updatedItems });
+    await autoSaveRoadmapItems(updatedItems);
+  };
+
   const toggleEpicSelection = useCallback((epicId: string) => {
     const newSelection = new Set(selectedEpics);
     if (newSelection.has(epicId)) {
@@ -717,6 +757,57 @@ const RoadmapPlanner: React.FC = () => {
     return Array.from(new Set(availableEpics.map(epic => epic.track).filter(Boolean)));
   }, [availableEpics]);
 
+  // Conflicts involving this quarter, where an epic starts before one of its blockers ends
+  const dependencyConflicts = useMemo(() => {
+    const quarterItems = roadmapData?.roadmapItems || [];
+    const quarterEpicIds = new Set(quarterItems.map(item => item.epicId));
+    const scheduled = [...quarterItems, ...neighbouringItems.filter(item => !quarterEpicIds.has(item.epicId))];
+    return findScheduleConflicts(scheduled, availableEpics)
+      .filter(conflict => quarterEpicIds.has(conflict.epicId) || quarterEpicIds.has(conflict.blockerId));
+  }, [roadmapData, neighbouringItems, availableEpics]);
+
+  const roadmapEpicIds = useMemo(
+    () => new Set((roadmapData?.roadmapItems || []).map(item => item.epicId)),
+    [roadmapData]
+  );
+
+  const teamLoads = useMemo(
+    () => buildTeamLoads(teamCapacity.teams, teamCapacity.epicEfforts, teamCapacity.getCapacity, roadmapEpicIds),
+    [teamCapacity.teams, teamCapacity.epicEfforts, teamCapacity.getCapacity, roadmapEpicIds]
+  );
+
+  // Loads as they would be once the epics ticked in the add-epics modal are added
+  const projectedTeamLoads = useMemo(
+    () => buildTeamLoads(
+      teamCapacity.teams,
+      teamCapacity.epicEfforts,
+      teamCapacity.getCapacity,
+      new Set([...Array.from(roadmapEpicIds), ...Array.from(selectedEpics)])
+    ),
+    [teamCapacity.teams, teamCapacity.epicEfforts, teamCapacity.getCapacity, roadmapEpicIds, selectedEpics]
+  );
+
+  const unestimatedEpicCount = Array.from(roadmapEpicIds).filter(
+    epicId => !teamCapacity.epicEfforts.some(effort => effort.epicId === epicId && effort.effortDays > 0)
+  ).length;
+
+  const getConflictsForEpic = (epicId: string) =>
+    dependencyConflicts.filter(conflict => conflict.epicId === epicId);
+
+  const scoreFields = getScoreFields(scoringConfig);
+  const framework = getFramework(scoringConfig.framework);
+
+  const sortedRoadmapItems = useMemo(() => {
+    const items = roadmapData?.roadmapItems || [];
+    return scoreSort ? sortByScore(items, scoringConfig, scoreSort) : items;
+  }, [roadmapData, scoringConfig, scoreSort]);
+
+  const renderSortIcon = (key: string) => (
+    <span className="material-icons sort-icon">
+      {scoreSort?.key !== key ? 'unfold_more' : scoreSort.direction === 'desc' ? 'arrow_downward' : 'arrow_upward'}
+    </span>
+  );
+
   const clearEpicFilters = useCallback(() => {
     setEpicSearchTerm('');
     setSelectedThemeFilter('');
@@ -750,21 +841,8 @@ const RoadmapPlanner: React.FC = () => {
     if (epic) {
       // ALWAYS fetch user stories from backend for this epic
       try {
-        const response = await fetch(
-          `${API_BASE_URL}/v3/products/${product?.productId}/epics/${epicId}/user-stories`,
-          {
-            headers: {
-              'Authorization': `Bearer ${localStorage.getItem('token')}`
-            }
-          }
-        );
-
-        if (response.ok) {
-          const stories = await response.json();
-          epic = { ...epic, userStories: stories };
-        } else {
-          epic = { ...epic, userStories: [] };
-        }
+        const stories = product ? await backlogService.getUserStories(product.productId, epicId) : [];
+        epic = { ...epic, userStories: stories };
       } catch (error) {
         console.warn('Failed to load user stories:', error);
         epic = { ...epic, userStories: [] };
@@ -924,7 +1002,7 @@ const RoadmapPlanner: React.FC = () => {
   };
 
   const saveEditedEpic = async () => {
-    if (!editingEpic || !editingEpic.name.trim()) {
+    if (!product || !editingEpic || !editingEpic.name.trim()) {
       return;
     }
 
@@ -948,15 +1026,7 @@ const RoadmapPlanner: React.FC = () => {
         try {
           for (const story of deletedStories) {
             if (story.id) {
-              await fetch(
-                `${API_BASE_URL}/v3/products/${product?.productId}/user-stories/${story.id}/delete`,
-                {
-                  method: 'POST',
-                  headers: {
-                    'Authorization': `Bearer ${localStorage.getItem('token')}`
-                  }
-                }
-              );
+              await backlogService.deleteUserStory(product.productId, story.id);
             }
           }
         } catch (deleteError) {
@@ -971,59 +1041,28 @@ const RoadmapPlanner: React.FC = () => {
           if (!story.id) {
             // Create new story - no id means it needs to be created
             console.log('Creating new user story:', story.title);
-            const response = await fetch(
-              `${API_BASE_URL}/v3/products/${product?.productId}/epics/${editingEpic.id}/user-stories`,
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${localStorage.getItem('token')}`
-                },
-                body: JSON.stringify({
-                  title: story.title,
-                  description: story.description,
-                  acceptanceCriteria: story.acceptanceCriteria,
-                  priority: story.priority,
-                  storyPoints: story.storyPoints,
-                  status: story.status || 'Draft'
-                })
-              }
-            );
-
-            if (response.ok) {
-              const createdStory = await response.json();
-              createdStories.push(createdStory);
-              console.log('Successfully created user story:', createdStory);
-            } else {
-              console.error('Failed to create user story:', await response.text());
-            }
+            const createdStory = await backlogService.createUserStory(product.productId, editingEpic.id, {
+              title: story.title,
+              description: story.description,
+              acceptanceCriteria: story.acceptanceCriteria,
+              priority: story.priority,
+              storyPoints: story.storyPoints,
+              status: story.status || 'Draft'
+            });
+            createdStories.push(createdStory);
+            console.log('Successfully created user story:', createdStory);
           } else if (story.id && modifiedStoryIds.has(story.id)) {
             // Only update existing story if it was actually modified
             console.log('Updating modified user story:', story.id);
-            const response = await fetch(
-              `${API_BASE_URL}/v3/products/${product?.productId}/user-stories/${story.id}`,
-              {
-                method: 'PUT',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${localStorage.getItem('token')}`
-                },
-                body: JSON.stringify({
-                  title: story.title,
-                  description: story.description,
-                  acceptanceCriteria: story.acceptanceCriteria,
-                  priority: story.priority,
-                  storyPoints: story.storyPoints,
-                  status: story.status || 'Draft'
-                })
-              }
-            );
-
-            if (response.ok) {
-              console.log('Successfully updated user story:', story.id);
-            } else {
-              console.error('Failed to update user story:', await response.text());
-            }
+            await backlogService.updateUserStory(product.productId, story.id, {
+              title: story.title,
+              description: story.description,
+              acceptanceCriteria: story.acceptanceCriteria,
+              priority: story.priority,
+              storyPoints: story.storyPoints,
+              status: story.status || 'Draft'
+            });
+            console.log('Successfully updated user story:', story.id);
           }
         } catch (storyError) {
           console.warn('Error creating/updating user story:', storyError);
@@ -1033,28 +1072,15 @@ const RoadmapPlanner: React.FC = () => {
       // Update epic using PUT endpoint (safe for single epic updates)
       // Don't send userStories - they are managed separately via user story endpoints
       const { userStories, ...epicWithoutStories } = epicToSave;
-      const response = await fetch(`${API_BASE_URL}/v3/products/${product?.productId}/backlog/${epicToSave.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        },
-        body: JSON.stringify(epicWithoutStories)
-      });
+      const savedEpic = await backlogService.updateEpic(product.productId, epicWithoutStories);
 
-      if (response.ok) {
-        const savedEpic = await response.json();
-
-        // Update in availableEpics if it exists there
-        const epicInBacklog = availableEpics.find(e => e.id === editingEpic.id);
-        if (epicInBacklog) {
-          const updatedEpics = availableEpics.map(epic =>
-            epic.id === savedEpic.id ? { ...epicToSave, ...savedEpic } : epic
-          );
-          setAvailableEpics(updatedEpics);
-        }
-      } else {
-        throw new Error('Failed to update epic');
+      // Update in availableEpics if it exists there
+      const epicInBacklog = availableEpics.find(e => e.id === editingEpic.id);
+      if (epicInBacklog) {
+        const updatedEpics = availableEpics.map(epic =>
+          epic.id === savedEpic.id ? { ...epicToSave, ...savedEpic } : epic
+        );
+        setAvailableEpics(updatedEpics);
       }
 
       // Update roadmap item name
@@ -1066,33 +1092,22 @@ const RoadmapPlanner: React.FC = () => {
         );
 
         // Save updated roadmap
-        const response = await fetch(`${API_BASE_URL}/v2/products/${product?.productId}/roadmap`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          },
-          body: JSON.stringify({
-            year: selectedYear,
-            quarter: selectedQuarter,
-            roadmapItems: updatedRoadmapItems.map(item => {
-              const { published, ...itemWithoutPublished } = item;
-              return itemWithoutPublished;
-            })
+        await roadmapService.saveRoadmap(product.productId, {
+          year: selectedYear,
+          quarter: selectedQuarter,
+          roadmapItems: updatedRoadmapItems.map(item => {
+            const { published, ...itemWithoutPublished } = item;
+            return itemWithoutPublished;
           })
         });
 
-        if (response.ok) {
-          setRoadmapData({ ...roadmapData, roadmapItems: updatedRoadmapItems });
-          setViewingEpic(epicToSave);
-          setIsEditingEpic(false);
-          setEditingEpic(null);
-          setEditModeUserStories([]);
-          setShowEditStoryForm(false);
-          setModifiedStoryIds(new Set()); // Clear modified stories set
-        } else {
-          throw new Error('Failed to update roadmap');
-        }
+        setRoadmapData({ ...roadmapData, roadmapItems: updatedRoadmapItems });
+        setViewingEpic(epicToSave);
+        setIsEditingEpic(false);
+        setEditingEpic(null);
+        setEditModeUserStories([]);
+        setShowEditStoryForm(false);
+        setModifiedStoryIds(new Set()); // Clear modified stories set
       }
     } catch (error) {
       setError('Failed to update epic');
@@ -1105,8 +1120,10 @@ const RoadmapPlanner: React.FC = () => {
     value: number;
     onChange?: (value: number) => void;
     readOnly?: boolean;
-  }> = React.memo(({ value, onChange, readOnly = false }) => {
+    max?: number;
+  }> = React.memo(({ value, onChange, readOnly = false, max = DEFAULT_SCALE }) => {
     const [hoverValue, setHoverValue] = useState(0);
+    const stars = Array.from({ length: max }, (_, i) => i + 1);
 
     const handleClick = (rating: number) => {
       if (!readOnly && onChange) {
@@ -1129,7 +1146,7 @@ const RoadmapPlanner: React.FC = () => {
     if (readOnly) {
       return (
         <div className="star-rating-display">
-          {[1, 2, 3, 4, 5].map((star) => (
+          {stars.map((star) => (
             <span
               key={star}
               className={`material-icons star-display ${star <= value ? '' : 'empty'}`}
@@ -1143,7 +1160,7 @@ const RoadmapPlanner: React.FC = () => {
 
     return (
       <div className="star-rating" data-readonly={readOnly}>
-        {[1, 2, 3, 4, 5].map((star) => (
+        {stars.map((star) => (
           <span
             key={star}
             className={`material-icons star ${
@@ -1230,6 +1247,16 @@ const RoadmapPlanner: React.FC = () => {
           </div>
 
           <div className="header-actions">
+            {!isEditMode && (
+              <RoadmapExportMenu
+                items={roadmapData?.roadmapItems || []}
+                productName={product?.productName || 'Product'}
+                start={{ year: selectedYear, quarter: selectedQuarter }}
+                quarterCount={1}
+                scoringConfig={scoringConfig}
+                onError={setInlineError}
+              />
+            )}
             {!isEditMode ? (
               <button
                 onClick={() => setIsEditMode(true)}
@@ -1325,9 +1352,87 @@ const RoadmapPlanner: React.FC = () => {
               <h2>Q{selectedQuarter} {selectedYear} Roadmap</h2>
               <p>{roadmapData?.roadmapItems?.length || 0} items planned</p>
             </div>
+            <label className="scoring-framework-select" title={framework.formula}>
+              <span className="material-icons">leaderboard</span>
+              <select
+                value={scoringConfig.framework}
+                onChange={(e) => changeScoringFramework(e.target.value as ScoringFramework)}
+                aria-label="Scoring framework"
+              >
+                {FRAMEWORKS.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            </label>
+            {scoringConfig.framework === 'WEIGHTED' && (
+              <button
+                className="scoring-model-btn"
+                onClick={() => setShowScoringBuilder(true)}
+                title="Edit the weighted scoring criteria"
+              >
+                <span className="material-icons">tune</span>
+                Criteria
+              </button>
+            )}
+            <div className="planner-view-toggle">
+              <button
+                className={plannerView === 'table' ? 'active' : ''}
+                onClick={() => setPlannerView('table')}
+              >
+                <span className="material-icons">table_rows</span>
+                Table
+              </button>
+              <button
+                className={plannerView === 'timeline' ? 'active' : ''}
+                onClick={() => setPlannerView('timeline')}
+              >
+                <span className="material-icons">view_timeline</span>
+                Timeline
+              </button>
+              <button
+                className={plannerView === 'scenarios' ? 'active' : ''}
+                onClick={() => setPlannerView('scenarios')}
+              >
+                <span className="material-icons">alt_route</span>
+                Scenarios
+              </button>
+              <button
+                className={plannerView === 'history' ? 'active' : ''}
+                onClick={() => setPlannerView('history')}
+              >
+                <span className="material-icons">history</span>
+                History
+              </button>
+              <button
+                className={plannerView === 'budget' ? 'active' : ''}
+                onClick={() => setPlannerView('budget')}
+              >
+                <span className="material-icons">savings</span>
+                Budget
+              </button>
+            </div>
           </div>
         </div>
 
+        {dependencyConflicts.length > 0 && (
+          <div className="dependency-warning-banner">
+            <div className="dependency-warning-title">
+              <span className="material-icons">link_off</span>
+              {dependencyConflicts.length === 1
+                ? '1 epic is scheduled to start before its blocker ends'
+                : `${dependencyConflicts.length} dependency conflicts in the schedule`}
+            </div>
+            <ul>
+              {dependencyConflicts.map(conflict => (
+                <li key={`${conflict.epicId}-${conflict.blockerId}`}>
+                  <strong>{conflict.epicName}</strong> starts {formatConflictDate(conflict.startDate)} but
+                  is blocked by <strong>{conflict.blockerName}</strong>, which ends {formatConflictDate(conflict.blockerEndDate)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {isEditMode && (
           <div className="edit-mode-banner">
             <div className="edit-mode-info">
@@ -1346,13 +1451,59 @@ const RoadmapPlanner: React.FC = () => {
           </div>
         )}
 
+        {(plannerView === 'table' || plannerView === 'timeline') && (
+          <CapacityDemandBar
+            loads={teamLoads}
+            effortUnit={teamCapacity.effortUnit}
+            unestimatedCount={unestimatedEpicCount}
+          />
+        )}
+
         <div className="roadmap-items">
-          {roadmapData?.roadmapItems?.length === 0 ? (
+          {plannerView === 'scenarios' && product ? (
+            <RoadmapScenarios
+              productId={product.productId}
+              year={selectedYear}
+              quarter={selectedQuarter}
+              roadmapItems={roadmapData?.roadmapItems || []}
+              availableEpics={availableEpics.filter(epic => !assignedEpicIds.has(epic.id))}
+              scoringConfig={scoringConfig}
+              onPromoted={loadRoadmapData}
+            />
+          ) : plannerView === 'history' && product ? (
+            <RoadmapVersionHistory
+              productId={product.productId}
+              year={selectedYear}
+              quarter={selectedQuarter}
+              currentItems={roadmapData?.roadmapItems || []}
+              scoringConfig={scoringConfig}
+            />
+          ) : plannerView === 'budget' && product ? (
+            <InitiativeBudgets
+              productId={product.productId}
+              year={selectedYear}
+              quarter={selectedQuarter}
+              roadmapItems={roadmapData?.roadmapItems || []}
+              epicEfforts={teamCapacity.epicEfforts}
+              effortUnit={teamCapacity.effortUnit}
+              getTeamMembers={teamCapacity.getMembers}
+              holidays={teamCapacity.holidays}
+            />
+          ) : roadmapData?.roadmapItems?.length === 0 ? (
             <div className="empty-roadmap">
               <span className="material-icons">timeline</span>
               <h3>No items in roadmap</h3>
               <p>Enter edit mode to add epics from your backlog and start planning this quarter.</p>
             </div>
+          ) : plannerView === 'timeline' ? (
+            <RoadmapScheduleTimeline
+              items={roadmapData?.roadmapItems || []}
+              year={selectedYear}
+              quarter={selectedQuarter}
+              warningEpicIds={new Set(dependencyConflicts.map(conflict => conflict.epicId))}
+              onReschedule={rescheduleRoadmapItem}
+              onSelectEpic={openViewEpicModal}
+            />
           ) : (
             <div className="roadmap-table-container">
               <table className="roadmap-table">
@@ -1362,11 +1513,25 @@ const RoadmapPlanner: React.FC = () => {
                     <th className="col-initiative">Initiative</th>
                     <th className="col-theme">Theme</th>
                     <th className="col-track">Track</th>
-                    <th className="col-reach">Reach</th>
-                    <th className="col-impact">Impact</th>
-                    <th className="col-confidence">Confidence</th>
-                    <th className="col-effort-rating">Estimated Effort</th>
-                    <th className="col-rice-score">RICE Score</th>
+                    {scoreFields.map(field => (
+                      <th
+                        key={field.key}
+                        className={`col-score-input sortable-header ${scoreSort?.key === field.key ? 'sorted' : ''}`}
+                        onClick={() => setScoreSort(toggleScoreSort(scoreSort, field.key))}
+                        title={field.description}
+                      >
+                        {field.label}
+                        {renderSortIcon(field.key)}
+                      </th>
+                    ))}
+                    <th
+                      className={`col-rice-score sortable-header ${scoreSort?.key === SCORE_SORT_KEY ? 'sorted' : ''}`}
+                      onClick={() => setScoreSort(toggleScoreSort(scoreSort, SCORE_SORT_KEY))}
+                      title={framework.formula}
+                    >
+                      {framework.scoreLabel}
+                      {renderSortIcon(SCORE_SORT_KEY)}
+                    </th>
                     <th className="col-start-date">Start Date</th>
                     <th className="col-end-date">End Date</th>
                     <th className="col-status">Status</th>
@@ -1374,7 +1539,7 @@ const RoadmapPlanner: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody>
-                  {roadmapData?.roadmapItems?.map((item) => {
+                  {sortedRoadmapItems.map((item) => {
                     const epic = availableEpics.find(e => e.id === item.epicId);
                     return (
                     <tr key={item.epicId} className="roadmap-row">
@@ -1387,6 +1552,16 @@ const RoadmapPlanner: React.FC = () => {
                           >
                             {item.epicName}
                           </button>
+                          {getConflictsForEpic(item.epicId).length > 0 && (
+                            <span
+                              className="material-icons dependency-warning-icon"
+                              title={getConflictsForEpic(item.epicId)
+                                .map(conflict => `Blocked by ${conflict.blockerName} until ${formatConflictDate(conflict.blockerEndDate)}`)
+                                .join('\n')}
+                            >
+                              warning
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="col-initiative">
@@ -1398,46 +1573,64 @@ const RoadmapPlanner: React.FC = () => {
                       <td className="col-track">
                         <span className="track-display">{item.track || '-'}</span>
                       </td>
-                      <td className="col-reach">
-                        <StarRating
-                          value={item.reach || 0}
-                          onChange={isEditMode ? (value) => updateRoadmapItem(item.epicId, 'reach', value) : undefined}
-                          readOnly={!isEditMode}
-                        />
-                      </td>
-                      <td className="col-impact">
-                        <StarRating
-                          value={item.impact || 0}
-                          onChange={isEditMode ? (value) => updateRoadmapItem(item.epicId, 'impact', value) : undefined}
-                          readOnly={!isEditMode}
-                        />
-                      </td>
-                      <td className="col-confidence">
-                        <StarRating
-                          value={item.confidence || 0}
-                          onChange={isEditMode ? (value) => updateRoadmapItem(item.epicId, 'confidence', value) : undefined}
-                          readOnly={!isEditMode}
-                        />
-                      </td>
-                      <td className="col-effort-rating">
-                        <StarRating
-                          value={item.effortRating || 0}
-                          readOnly={true}
-                        />
-                      </td>
+                      {scoreFields.map(field => (
+                        <td key={field.key} className="col-score-input">
+                          {field.options ? (
+                            isEditMode ? (
+                              <select
+                                value={getScoreInput(item, field.key)}
+                                onChange={(e) => updateScoreInput(item.epicId, field.key, parseInt(e.target.value))}
+                                className="score-select-table"
+                              >
+                                <option value={0}>-</option>
+                                {field.options.map(option => (
+                                  <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="score-choice-display">
+                                {field.options.find(option => option.value === getScoreInput(item, field.key))?.label || '-'}
+                              </span>
+                            )
+                          ) : (field.scale || DEFAULT_SCALE) > DEFAULT_SCALE ? (
+                            isEditMode && !field.readOnly ? (
+                              <select
+                                value={getScoreInput(item, field.key)}
+                                onChange={(e) => updateScoreInput(item.epicId, field.key, parseInt(e.target.value))}
+                                className="score-select-table"
+                              >
+                                <option value={0}>-</option>
+                                {Array.from({ length: field.scale || DEFAULT_SCALE }, (_, i) => i + 1).map(rating => (
+                                  <option key={rating} value={rating}>{rating}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="score-choice-display">
+                                {getScoreInput(item, field.key) ? `${getScoreInput(item, field.key)} / ${field.scale}` : '-'}
+                              </span>
+                            )
+                          ) : (
+                            <StarRating
+                              value={getScoreInput(item, field.key)}
+                              onChange={isEditMode && !field.readOnly
+                                ? (value) => updateScoreInput(item.epicId, field.key, value)
+                                : undefined}
+                              readOnly={!isEditMode || field.readOnly}
+                              max={field.scale}
+                            />
+                          )}
+                        </td>
+                      ))}
                       <td className="col-rice-score">
-                        <span className="rice-score-display">
-                          {item.reach && item.impact && item.confidence && item.effortRating
-                            ? ((item.impact * item.confidence * item.reach) / item.effortRating).toFixed(1)
-                            : '-'
-                          }
-                        </span>
+                        <span className="rice-score-display">{formatScore(item, scoringConfig)}</span>
                       </td>
                       <td className="col-start-date">
                         {isEditMode ? (
                           <input
                             type="date"
                             value={item.startDate || getQuarterStartDate(selectedYear, selectedQuarter)}
+                            min={getQuarterStartDate(selectedYear, selectedQuarter)}
+                            max={item.endDate || getQuarterEndDate(selectedYear, selectedQuarter)}
                             onChange={(e) => updateRoadmapItem(item.epicId, 'startDate', e.target.value)}
                             className="date-input"
                           />
@@ -1455,6 +1648,8 @@ const RoadmapPlanner: React.FC = () => {
                           <input
                             type="date"
                             value={item.endDate || getQuarterEndDate(selectedYear, selectedQuarter)}
+                            min={item.startDate || getQuarterStartDate(selectedYear, selectedQuarter)}
+                            max={getQuarterEndDate(selectedYear, selectedQuarter)}
                             onChange={(e) => updateRoadmapItem(item.epicId, 'endDate', e.target.value)}
                             className="date-input"
                           />
@@ -1618,6 +1813,10 @@ const RoadmapPlanner: React.FC = () => {
                 <span className="epic-separator">•</span>
                 <span className="selected-count">{selectedEpics.size} selected</span>
               </div>
+
+              {selectedEpics.size > 0 && (
+                <CapacityDemandBar loads={projectedTeamLoads} effortUnit={teamCapacity.effortUnit} />
+              )}
               
               <div className="epic-selection-list">
                 {filteredAvailableEpics.length === 0 ? (
@@ -1673,6 +1872,14 @@ const RoadmapPlanner: React.FC = () => {
       {/* Publish Confirmation Modal */}
       {showPublishModal && <PublishConfirmationModal />}
 
+      {showScoringBuilder && (
+        <ScoringModelBuilder
+          criteria={scoringConfig.criteria}
+          onSave={saveScoringModel}
+          onClose={() => setShowScoringBuilder(false)}
+        />
+      )}
+
       {/* View/Edit Epic Modal */}
       {showViewEpicModal && viewingEpic && (
         <div className="product-backlog-modal-overlay" onClick={closeViewEpicModal}>
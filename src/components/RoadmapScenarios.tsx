@@ -0,0 +1,703 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTeamCapacity } from '../hooks/useTeamCapacity';
+import { capacityService } from '../services/capacityService';
+import { roadmapService } from '../services/roadmapService';
+import { Epic } from '../types/backlog';
+import { TeamCapacitySettings } from '../types/capacity';
+import { RoadmapItem, RoadmapScenario, RoadmapScenarioRequest, ScoringConfig } from '../types/roadmap';
+import { getErrorStatus, getResponseMessage } from '../utils/errorHandler';
+import { DEFAULT_SCALE, formatScore, getFramework, getScoreFields, getScoreInput, setScoreInput } from '../utils/prioritization';
+import { formatLocalDate, formatQuarter, getQuarterBounds } from '../utils/quarterUtils';
+import { diffScenarioEpics, ScenarioSummary, summarizeScenario } from '../utils/roadmapScenarios';
+import { calculateTeamCapacity, fitAllocationToCapacity, getDefaultCapacitySettings } from '../utils/teamCapacity';
+import './RoadmapScenarios.css';
+
+interface RoadmapScenariosProps {
+  productId: number;
+  year: number;
+  quarter: number;
+  roadmapItems: RoadmapItem[];
+  availableEpics: Epic[];
+  scoringConfig: ScoringConfig;
+  onPromoted: () => void;
+}
+
+const MAX_COMPARED = 3;
+
+const toRequest = (scenario: RoadmapScenario | RoadmapScenarioRequest): RoadmapScenarioRequest => ({
+  year: scenario.year,
+  quarter: scenario.quarter,
+  name: scenario.name,
+  description: scenario.description,
+  effortUnit: scenario.effortUnit,
+  roadmapItems: scenario.roadmapItems,
+  epicEfforts: scenario.epicEfforts,
+  teamCapacities: scenario.teamCapacities,
+  capacitySettings: scenario.capacitySettings,
+});
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const RoadmapScenarios: React.FC<RoadmapScenariosProps> = ({
+  productId,
+  year,
+  quarter,
+  roadmapItems,
+  availableEpics,
+  scoringConfig,
+  onPromoted,
+}) => {
+  const [scenarios, setScenarios] = useState<RoadmapScenario[]>([]);
+  const teamCapacity = useTeamCapacity(productId, year, quarter);
+  const {
+    teams,
+    epicEfforts: planEfforts,
+    effortUnit,
+    settings,
+    getCapacity,
+    getMembers,
+    getTeamDeliveryRate,
+    holidays,
+  } = teamCapacity;
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<RoadmapScenario | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [newScenario, setNewScenario] = useState({ name: '', description: '', sourceId: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    const loadScenarios = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const scenarioData = await roadmapService.getScenarios(productId, year, quarter);
+        setScenarios(scenarioData);
+        setSelectedId(scenarioData[0]?.id ?? null);
+        setCompareIds([]);
+      } catch (err) {
+        setError('Failed to load scenarios');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadScenarios();
+  }, [productId, year, quarter]);
+
+  useEffect(() => {
+    const scenario = scenarios.find(s => s.id === selectedId);
+    setDraft(scenario ? { ...scenario } : null);
+    setIsDirty(false);
+  }, [selectedId, scenarios]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  // The real plan, shaped like a scenario so it can be cloned and compared. Capacity is the same
+  // figure capacity planning shows, from the teams' members and the quarter's capacity settings.
+  const currentPlan = useMemo<RoadmapScenarioRequest>(() => ({
+    year,
+    quarter,
+    name: 'Current plan',
+    effortUnit,
+    roadmapItems,
+    epicEfforts: planEfforts,
+    teamCapacities: teams.map(team => ({
+      teamId: team.id,
+      teamName: team.name,
+      capacity: getCapacity(team.id),
+    })),
+    capacitySettings: settings,
+  }), [year, quarter, effortUnit, roadmapItems, planEfforts, teams, settings, getCapacity]);
+
+  const handleCreate = async () => {
+    if (!newScenario.name.trim()) return;
+    const source = scenarios.find(s => String(s.id) === newScenario.sourceId) || currentPlan;
+
+    try {
+      setSaving(true);
+      setError('');
+      const created = await roadmapService.createScenario(productId, {
+        ...toRequest(source),
+        name: newScenario.name.trim(),
+        description: newScenario.description.trim(),
+      });
+      setScenarios(prev => [...prev, created]);
+      setSelectedId(created.id);
+      setShowCreateModal(false);
+      setNewScenario({ name: '', description: '', sourceId: '' });
+      showSuccess(`Scenario "${created.name}" created`);
+    } catch (err) {
+      setError(getResponseMessage(err) || 'Failed to create scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateDraft = (changes: Partial<RoadmapScenario>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setIsDirty(true);
+  };
+
+  const updateItem = (epicId: string, key: string, value: number) => {
+    if (!draft) return;
+    updateDraft({
+      roadmapItems: draft.roadmapItems.map(item => (item.epicId === epicId ? setScoreInput(item, key, value) : item)),
+    });
+  };
+
+  const updateEffort = (epicId: string, epicName: string, teamId: number, effortDays: number) => {
+    if (!draft) return;
+    const exists = draft.epicEfforts.some(e => e.epicId === epicId && e.teamId === teamId);
+    updateDraft({
+      epicEfforts: exists
+        ? draft.epicEfforts.map(e => (e.epicId === epicId && e.teamId === teamId ? { ...e, effortDays } : e))
+        : [...draft.epicEfforts, { epicId, epicName, teamId, effortDays }],
+    });
+  };
+
+  const updateCapacity = (teamId: number, capacity: number) => {
+    if (!draft) return;
+    updateDraft({
+      teamCapacities: draft.teamCapacities.map(team => (team.teamId === teamId ? { ...team, capacity } : team)),
+    });
+  };
+
+  const addEpic = (epicId: string) => {
+    const epic = availableEpics.find(e => e.id === epicId);
+    if (!draft || !epic) return;
+    const { start, end } = getQuarterBounds(year, quarter);
+    updateDraft({
+      roadmapItems: [...draft.roadmapItems, {
+        epicId: epic.id,
+        epicName: epic.name,
+        epicDescription: epic.description,
+        priority: 'Medium',
+        status: 'Proposed',
+        estimatedEffort: '',
+        assignedTeam: '',
+        reach: 0,
+        impact: 0,
+        confidence: 0,
+        riceScore: 0,
+        effortRating: 1,
+        startDate: formatLocalDate(start),
+        endDate: formatLocalDate(end),
+        initiativeId: epic.initiativeId,
+        initiativeName: epic.initiativeName,
+        themeId: epic.themeId,
+        themeName: epic.themeName,
+        themeColor: epic.themeColor,
+        track: epic.track,
+      }],
+    });
+  };
+
+  const removeEpic = (epicId: string) => {
+    if (!draft) return;
+    updateDraft({
+      roadmapItems: draft.roadmapItems.filter(item => item.epicId !== epicId),
+      epicEfforts: draft.epicEfforts.filter(effort => effort.epicId !== epicId),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+    try {
+      setSaving(true);
+      setError('');
+      const saved = await roadmapService.updateScenario(productId, draft.id, toRequest(draft));
+      setScenarios(prev => prev.map(s => (s.id === saved.id ? saved : s)));
+      showSuccess('Scenario saved');
+    } catch (err) {
+      setError(getResponseMessage(err) || 'Failed to save scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft || !window.confirm(`Delete scenario "${draft.name}"?`)) return;
+    try {
+      await roadmapService.deleteScenario(productId, year, quarter, draft.id);
+      const remaining = scenarios.filter(s => s.id !== draft.id);
+      setScenarios(remaining);
+      setCompareIds(prev => prev.filter(id => id !== draft.id));
+      setSelectedId(remaining[0]?.id ?? null);
+    } catch (err) {
+      setError('Failed to delete scenario');
+    }
+  };
+
+  /**
+   * Capacity settings to save for the scenario. Edited team capacities become the allocation that
+   * gives the team that capacity; teams that can't reach it go in at full allocation.
+   */
+  const getPromotedSettings = (scenario: RoadmapScenario) => {
+    // Scenarios saved before settings were kept fall back to the quarter's, so promoting never clears them
+    const base = scenario.capacitySettings ?? settings;
+    const shortTeams: string[] = [];
+    const edited = scenario.teamCapacities.map((team): TeamCapacitySettings => {
+      const current = base.find(s => s.teamId === team.teamId) || getDefaultCapacitySettings(team.teamId);
+      const members = getMembers(team.teamId);
+      const deliveryRate = getTeamDeliveryRate(team.teamId);
+      const unit = scenario.effortUnit;
+      if (calculateTeamCapacity(members, holidays, current, unit, year, quarter, deliveryRate) === team.capacity) {
+        return current;
+      }
+      const fitted = fitAllocationToCapacity(
+        members,
+        holidays,
+        current,
+        unit,
+        year,
+        quarter,
+        team.capacity,
+        deliveryRate
+      );
+      if (!fitted) {
+        shortTeams.push(team.teamName);
+      }
+      return fitted || { ...current, allocationPercent: 100 };
+    });
+    const untouched = base.filter(s => !scenario.teamCapacities.some(team => team.teamId === s.teamId));
+    return { teamCapacities: [...untouched, ...edited], shortTeams };
+  };
+
+  // Replaces the quarter's roadmap items and capacity plan with the scenario's
+  const handlePromote = async () => {
+    if (!draft || isDirty) return;
+    const { teamCapacities, shortTeams } = getPromotedSettings(draft);
+    if (!window.confirm(
+      `Promote "${draft.name}" to the ${formatQuarter(year, quarter)} plan? ` +
+      'This replaces the current roadmap items and capacity plan for the quarter.' +
+      (shortTeams.length > 0
+        ? `\n\n${shortTeams.join(', ')} can't reach the scenario's capacity with their current members ` +
+          'and will be planned at full allocation.'
+        : '')
+    )) return;
+
+    const epicIds = new Set(draft.roadmapItems.map(item => item.epicId));
+    const saveItems = (items: RoadmapItem[]) =>
+      roadmapService.saveRoadmap(productId, {
+        year,
+        quarter,
+        roadmapItems: items.map(({ published, ...item }) => item),
+      });
+    let roadmapReplaced = false;
+    try {
+      setSaving(true);
+      setError('');
+      await saveItems(draft.roadmapItems);
+      roadmapReplaced = true;
+      await capacityService.saveCapacityPlan(productId, year, quarter, {
+        year,
+        quarter,
+        effortUnit: draft.effortUnit,
+        epicEfforts: draft.epicEfforts.filter(effort => epicIds.has(effort.epicId)),
+        teamCapacities,
+      });
+      teamCapacity.reload();
+      showSuccess(`"${draft.name}" is now the ${formatQuarter(year, quarter)} plan`);
+      onPromoted();
+    } catch (err) {
+      if (!roadmapReplaced) {
+        setError(
+          getErrorStatus(err) === 409
+            ? getResponseMessage(err) || 'An epic in this scenario is already planned in another quarter'
+            : 'Failed to promote scenario'
+        );
+        return;
+      }
+
+      // The roadmap and capacity plan are saved separately, so undo the roadmap rather than leave half a promotion
+      try {
+        await saveItems(roadmapItems);
+        setError('Failed to save the capacity plan, so the scenario was not promoted and the roadmap was left as it was');
+      } catch (rollbackErr) {
+        setError(
+          `The ${formatQuarter(year, quarter)} roadmap now has the scenario's epics, but its capacity plan could not ` +
+          'be saved and still has the old efforts and capacity. Promote the scenario again or update capacity planning.'
+        );
+        onPromoted();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleCompare = (scenarioId: number) => {
+    setCompareIds(prev => {
+      if (prev.includes(scenarioId)) return prev.filter(id => id !== scenarioId);
+      if (prev.length >= MAX_COMPARED) return prev;
+      return [...prev, scenarioId];
+    });
+  };
+
+  const compared = [
+    { key: 'current', scenario: currentPlan },
+    ...compareIds.flatMap(id => {
+      const scenario = scenarios.find(s => s.id === id);
+      return scenario ? [{ key: String(id), scenario: toRequest(scenario) }] : [];
+    }),
+  ].map(entry => ({ ...entry, summary: summarizeScenario(entry.scenario, scoringConfig) }));
+
+  const renderLoad = (effort: number, capacity: number) => (
+    <span className={effort > capacity ? 'scenario-over-capacity' : ''}>
+      {formatNumber(effort)} / {formatNumber(capacity)}
+    </span>
+  );
+
+  const getUtilization = (summary: ScenarioSummary) =>
+    summary.totalCapacity > 0 ? `${Math.round((summary.totalEffort / summary.totalCapacity) * 100)}%` : '-';
+
+  if (loading || teamCapacity.loading) {
+    return (
+      <div className="scenario-loading">
+        <span className="material-icons">hourglass_empty</span>
+        Loading scenarios...
+      </div>
+    );
+  }
+
+  const unit = effortUnit.toLowerCase();
+  const draftSummary = draft ? summarizeScenario(draft, scoringConfig) : null;
+  const scoreFields = getScoreFields(scoringConfig);
+  const { scoreLabel } = getFramework(scoringConfig.framework);
+  const addableEpics = draft
+    ? availableEpics.filter(epic => !draft.roadmapItems.some(item => item.epicId === epic.id))
+    : [];
+
+  return (
+    <div className="roadmap-scenarios">
+      {error && (
+        <div className="scenario-error">
+          <span className="material-icons">error</span>
+          {error}
+        </div>
+      )}
+      {successMessage && (
+        <div className="scenario-success">
+          <span className="material-icons">check_circle</span>
+          {successMessage}
+        </div>
+      )}
+
+      <div className="scenario-layout">
+        <aside className="scenario-list">
+          <button className="scenario-new-btn" onClick={() => setShowCreateModal(true)}>
+            <span className="material-icons">add</span>
+            New Scenario
+          </button>
+          {scenarios.length === 0 && (
+            <p className="scenario-muted">
+              No scenarios for {formatQuarter(year, quarter)} yet. Clone the current plan to start exploring.
+            </p>
+          )}
+          {scenarios.map(scenario => (
+            <div
+              key={scenario.id}
+              className={`scenario-list-item ${scenario.id === selectedId ? 'selected' : ''}`}
+              onClick={() => setSelectedId(scenario.id)}
+            >
+              <div className="scenario-list-name">{scenario.name}</div>
+              <div className="scenario-list-meta">
+                {scenario.roadmapItems.length} epics
+                {scenario.updatedAt && ` • ${new Date(scenario.updatedAt).toLocaleDateString()}`}
+              </div>
+              <label className="scenario-compare-toggle" onClick={(e) => e.stopPropagation()}>
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(scenario.id)}
+                  disabled={!compareIds.includes(scenario.id) && compareIds.length >= MAX_COMPARED}
+                  onChange={() => toggleCompare(scenario.id)}
+                />
+                Compare
+              </label>
+            </div>
+          ))}
+        </aside>
+
+        <section className="scenario-main">
+          {draft && draftSummary ? (
+            <div className="scenario-editor">
+              <div className="scenario-editor-header">
+                <div className="scenario-editor-fields">
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    className="scenario-name-input"
+                    aria-label="Scenario name"
+                  />
+                  <input
+                    type="text"
+                    value={draft.description || ''}
+                    onChange={(e) => updateDraft({ description: e.target.value })}
+                    placeholder="What does this scenario assume?"
+                    className="scenario-description-input"
+                    aria-label="Scenario description"
+                  />
+                </div>
+                <div className="scenario-editor-actions">
+                  <button className="scenario-secondary-btn danger" onClick={handleDelete} disabled={saving}>
+                    <span className="material-icons">delete</span>
+                  </button>
+                  <button
+                    className="scenario-secondary-btn"
+                    onClick={handlePromote}
+                    disabled={saving || isDirty}
+                    title={isDirty ? 'Save the scenario before promoting it' : 'Make this scenario the real plan'}
+                  >
+                    <span className="material-icons">upgrade</span>
+                    Promote
+                  </button>
+                  <button
+                    className="scenario-primary-btn"
+                    onClick={handleSave}
+                    disabled={saving || !isDirty || !draft.name.trim()}
+                  >
+                    <span className="material-icons">save</span>
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="scenario-stats">
+                <div><strong>{draftSummary.epicCount}</strong> epics</div>
+                <div><strong>{formatNumber(draftSummary.scoreTotal)}</strong> total {scoreLabel}</div>
+                <div>
+                  <strong>{renderLoad(draftSummary.totalEffort, draftSummary.totalCapacity)}</strong> {unit} effort vs. capacity
+                </div>
+              </div>
+
+              <div className="scenario-table-wrapper">
+                <table className="scenario-table">
+                  <thead>
+                    <tr>
+                      <th>Epic</th>
+                      {scoreFields.map(field => <th key={field.key}>{field.label}</th>)}
+                      <th>{scoreLabel}</th>
+                      {draft.teamCapacities.map(team => <th key={team.teamId}>{team.teamName}</th>)}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.roadmapItems.map(item => (
+                      <tr key={item.epicId}>
+                        <td className="scenario-epic-name">{item.epicName}</td>
+                        {scoreFields.map(field => (
+                          <td key={field.key}>
+                            {field.options ? (
+                              <select
+                                value={getScoreInput(item, field.key)}
+                                onChange={(e) => updateItem(item.epicId, field.key, parseInt(e.target.value))}
+                              >
+                                <option value={0}>-</option>
+                                {field.options.map(option => (
+                                  <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <input
+                                type="number"
+                                min={0}
+                                max={field.scale || DEFAULT_SCALE}
+                                value={getScoreInput(item, field.key)}
+                                onChange={(e) => updateItem(item.epicId, field.key, parseInt(e.target.value) || 0)}
+                              />
+                            )}
+                          </td>
+                        ))}
+                        <td className="scenario-score">{formatScore(item, scoringConfig)}</td>
+                        {draft.teamCapacities.map(team => (
+                          <td key={team.teamId}>
+                            <input
+                              type="number"
+                              min={0}
+                              value={draft.epicEfforts.find(e => e.epicId === item.epicId && e.teamId === team.teamId)?.effortDays || 0}
+                              onChange={(e) => updateEffort(item.epicId, item.epicName, team.teamId, parseInt(e.target.value) || 0)}
+                            />
+                          </td>
+                        ))}
+                        <td>
+                          <button
+                            className="scenario-icon-btn"
+                            onClick={() => removeEpic(item.epicId)}
+                            aria-label={`Remove ${item.epicName}`}
+                          >
+                            <span className="material-icons">close</span>
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="scenario-capacity-row">
+                      <td colSpan={scoreFields.length + 2}>Team capacity ({unit})</td>
+                      {draft.teamCapacities.map(team => (
+                        <td key={team.teamId}>
+                          <input
+                            type="number"
+                            min={0}
+                            value={team.capacity}
+                            onChange={(e) => updateCapacity(team.teamId, parseInt(e.target.value) || 0)}
+                          />
+                          <div className="scenario-team-load">
+                            {renderLoad(
+                              draftSummary.teams.find(t => t.teamId === team.teamId)?.effort || 0,
+                              team.capacity
+                            )}
+                          </div>
+                        </td>
+                      ))}
+                      <td />
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {addableEpics.length > 0 && (
+                <select className="scenario-add-epic" value="" onChange={(e) => addEpic(e.target.value)}>
+                  <option value="">+ Add epic to scenario</option>
+                  {addableEpics.map(epic => (
+                    <option key={epic.id} value={epic.id}>{epic.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ) : (
+            <div className="scenario-empty">
+              <span className="material-icons">alt_route</span>
+              <p>Select or create a scenario to edit it.</p>
+            </div>
+          )}
+
+          {compared.length > 1 && (
+            <div className="scenario-compare">
+              <h3>
+                <span className="material-icons">compare_arrows</span>
+                Comparison
+              </h3>
+              <div className="scenario-table-wrapper">
+                <table className="scenario-table scenario-compare-table">
+                  <thead>
+                    <tr>
+                      <th />
+                      {compared.map(({ key, scenario }) => <th key={key}>{scenario.name}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td>Epics</td>
+                      {compared.map(({ key, summary }) => <td key={key}>{summary.epicCount}</td>)}
+                    </tr>
+                    <tr>
+                      <td>Total {scoreLabel}</td>
+                      {compared.map(({ key, summary }) => <td key={key}>{formatNumber(summary.scoreTotal)}</td>)}
+                    </tr>
+                    <tr>
+                      <td>Effort vs. capacity ({unit})</td>
+                      {compared.map(({ key, summary }) => (
+                        <td key={key}>{renderLoad(summary.totalEffort, summary.totalCapacity)}</td>
+                      ))}
+                    </tr>
+                    <tr>
+                      <td>Utilization</td>
+                      {compared.map(({ key, summary }) => <td key={key}>{getUtilization(summary)}</td>)}
+                    </tr>
+                    {teams.map(team => (
+                      <tr key={team.id}>
+                        <td className="scenario-compare-team">{team.name}</td>
+                        {compared.map(({ key, summary }) => {
+                          const load = summary.teams.find(t => t.teamId === team.id);
+                          return <td key={key}>{load ? renderLoad(load.effort, load.capacity) : '-'}</td>;
+                        })}
+                      </tr>
+                    ))}
+                    <tr>
+                      <td>Epics in / out</td>
+                      {compared.map(({ key, scenario }) => {
+                        if (key === 'current') return <td key={key}>-</td>;
+                        const { added, removed } = diffScenarioEpics(currentPlan.roadmapItems, scenario.roadmapItems);
+                        return (
+                          <td key={key} className="scenario-diff">
+                            {added.map(item => <div key={item.epicId} className="added">+ {item.epicName}</div>)}
+                            {removed.map(item => <div key={item.epicId} className="removed">− {item.epicName}</div>)}
+                            {added.length === 0 && removed.length === 0 && 'Same epics'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+
+      {showCreateModal && (
+        <div className="scenario-modal-overlay" onClick={() => setShowCreateModal(false)}>
+          <div className="scenario-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="scenario-modal-header">
+              <h3>New Scenario</h3>
+              <button className="scenario-icon-btn" onClick={() => setShowCreateModal(false)}>
+                <span className="material-icons">close</span>
+              </button>
+            </div>
+            <div className="scenario-modal-body">
+              <label>
+                Name *
+                <input
+                  type="text"
+                  value={newScenario.name}
+                  onChange={(e) => setNewScenario({ ...newScenario, name: e.target.value })}
+                  placeholder="e.g. Hire 2 engineers"
+                  autoFocus
+                />
+              </label>
+              <label>
+                Description
+                <input
+                  type="text"
+                  value={newScenario.description}
+                  onChange={(e) => setNewScenario({ ...newScenario, description: e.target.value })}
+                />
+              </label>
+              <label>
+                Start from
+                <select
+                  value={newScenario.sourceId}
+                  onChange={(e) => setNewScenario({ ...newScenario, sourceId: e.target.value })}
+                >
+                  <option value="">Current {formatQuarter(year, quarter)} plan</option>
+                  {scenarios.map(scenario => (
+                    <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="scenario-modal-footer">
+              <button className="scenario-secondary-btn" onClick={() => setShowCreateModal(false)}>Cancel</button>
+              <button
+                className="scenario-primary-btn"
+                onClick={handleCreate}
+                disabled={saving || !newScenario.name.trim()}
+              >
+                {saving ? 'Creating...' : 'Create Scenario'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoadmapScenarios;
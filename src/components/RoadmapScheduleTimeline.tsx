@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RoadmapItem } from '../types/roadmap';
+import { addDays, daysBetween, getQuarterBounds, parseLocalDate } from '../utils/quarterUtils';
+import { getQuarterDays, rescheduleDates, RescheduleMode, ScheduleDates } from '../utils/roadmapSchedule';
+import './RoadmapScheduleTimeline.css';
+
+interface RoadmapScheduleTimelineProps {
+  items: RoadmapItem[];
+  year: number;
+  quarter: number;
+  warningEpicIds?: Set<string>;
+  onReschedule: (epicId: string, dates: ScheduleDates) => void;
+  onSelectEpic?: (epicId: string) => void;
+}
+
+interface DragState {
+  epicId: string;
+  mode: RescheduleMode;
+  originX: number;
+  trackWidth: number;
+  original: ScheduleDates;
+  preview: ScheduleDates;
+}
+
+const formatShortDate = (value: string) =>
+  parseLocalDate(value.split('T')[0]).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const RoadmapScheduleTimeline: React.FC<RoadmapScheduleTimelineProps> = ({
+  items,
+  year,
+  quarter,
+  warningEpicIds,
+  onReschedule,
+  onSelectEpic,
+}) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Window listeners read the latest drag through a ref so they are only attached once per drag
+  const dragRef = useRef<DragState | null>(null);
+  dragRef.current = drag;
+  const isDragging = drag !== null;
+
+  const quarterStart = getQuarterBounds(year, quarter).start;
+  const totalDays = getQuarterDays(year, quarter);
+
+  const dayOffset = (value: string) => daysBetween(quarterStart, parseLocalDate(value.split('T')[0]));
+
+  // Week columns start on the quarter's first day, then on every Monday after it
+  const weeks = useMemo(() => {
+    const start = getQuarterBounds(year, quarter).start;
+    const result: { key: string; label: string; offset: number }[] = [];
+    for (let day = 0; day < totalDays; day++) {
+      const date = addDays(start, day);
+      if (day === 0 || date.getDay() === 1) {
+        result.push({
+          key: date.toISOString(),
+          label: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+          offset: day,
+        });
+      }
+    }
+    return result;
+  }, [year, quarter, totalDays]);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const deltaDays = Math.round(((e.clientX - current.originX) / current.trackWidth) * totalDays);
+      setDrag({ ...current, preview: rescheduleDates(current.original, current.mode, deltaDays, year, quarter) });
+    };
+
+    const handleUp = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (!current) return;
+      const { preview, original } = current;
+      if (preview.startDate !== original.startDate || preview.endDate !== original.endDate) {
+        onReschedule(current.epicId, preview);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [isDragging, year, quarter, totalDays]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const startDrag = (e: React.PointerEvent, item: RoadmapItem, mode: RescheduleMode) => {
+    const track = (e.currentTarget as HTMLElement).closest('.schedule-track');
+    if (!track || !item.startDate || !item.endDate) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const original = { startDate: item.startDate, endDate: item.endDate };
+    setDrag({
+      epicId: item.epicId,
+      mode,
+      originX: e.clientX,
+      trackWidth: track.getBoundingClientRect().width,
+      original,
+      preview: original,
+    });
+  };
+
+  const sortedItems = [...items].sort((a, b) => (a.startDate || '').localeCompare(b.startDate || ''));
+
+  return (
+    <div className={`schedule-timeline ${drag ? 'dragging' : ''}`}>
+      <div className="schedule-header-row">
+        <div className="schedule-label-column">Epic</div>
+        <div className="schedule-weeks">
+          {weeks.map(week => (
+            <div key={week.key} className="schedule-week" style={{ left: `${(week.offset / totalDays) * 100}%` }}>
+              {week.label}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {sortedItems.map(item => {
+        const dates = drag?.epicId === item.epicId ? drag.preview : item;
+        if (!dates.startDate || !dates.endDate) return null;
+        const left = (dayOffset(dates.startDate) / totalDays) * 100;
+        const width = ((dayOffset(dates.endDate) - dayOffset(dates.startDate) + 1) / totalDays) * 100;
+        const hasWarning = warningEpicIds?.has(item.epicId);
+
+        return (
+          <div key={item.epicId} className="schedule-row">
+            <div className="schedule-label-column" title={item.epicName}>
+              <button className="schedule-epic-name" onClick={() => onSelectEpic?.(item.epicId)}>
+                {item.epicName}
+              </button>
+              <span className="schedule-epic-dates">
+                {formatShortDate(dates.startDate)} – {formatShortDate(dates.endDate)}
+              </span>
+            </div>
+            <div className="schedule-track">
+              {weeks.map(week => (
+                <span
+                  key={week.key}
+                  className="schedule-gridline"
+                  style={{ left: `${(week.offset / totalDays) * 100}%` }}
+                />
+              ))}
+              <div
+                className={`schedule-bar ${hasWarning ? 'has-warning' : ''} ${drag?.epicId === item.epicId ? 'active' : ''}`}
+                style={{ left: `${left}%`, width: `${width}%`, backgroundColor: item.themeColor || undefined }}
+                onPointerDown={(e) => startDrag(e, item, 'move')}
+                title="Drag to move, drag the edges to change the start or end date"
+              >
+                <span className="schedule-handle start" onPointerDown={(e) => startDrag(e, item, 'start')} />
+                {hasWarning && <span className="material-icons schedule-bar-warning">warning</span>}
+                <span className="schedule-handle end" onPointerDown={(e) => startDrag(e, item, 'end')} />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RoadmapScheduleTimeline;
@@ -0,0 +1,156 @@
+import React, { useMemo } from 'react';
+import { RoadmapTimelineItem } from '../types/roadmap';
+import { addQuarters, DAY_MS, formatQuarter, getQuarterBounds, parseLocalDate, QuarterInfo } from '../utils/quarterUtils';
+import './RoadmapTimeline.css';
+
+export type SwimlaneField = 'initiative' | 'theme' | 'track';
+
+interface RoadmapTimelineProps {
+  items: RoadmapTimelineItem[];
+  start: QuarterInfo;
+  quarterCount: number;
+  swimlaneBy: SwimlaneField;
+  getBarColor: (item: RoadmapTimelineItem) => string;
+}
+
+interface Swimlane {
+  name: string;
+  color?: string;
+  items: RoadmapTimelineItem[];
+}
+
+const getLaneName = (item: RoadmapTimelineItem, swimlaneBy: SwimlaneField): string => {
+  switch (swimlaneBy) {
+    case 'theme': return item.themeName || 'No theme';
+    case 'track': return item.track || 'No track';
+    default: return item.initiativeName || 'No initiative';
+  }
+};
+
+const formatShortDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const RoadmapTimeline: React.FC<RoadmapTimelineProps> = ({ items, start, quarterCount, swimlaneBy, getBarColor }) => {
+  const quarters = useMemo(
+    () => Array.from({ length: quarterCount }, (_, i) => addQuarters(start, i)),
+    [start, quarterCount]
+  );
+
+  const rangeStart = getQuarterBounds(quarters[0].year, quarters[0].quarter).start.getTime();
+  const last = quarters[quarters.length - 1];
+  const rangeEnd = getQuarterBounds(last.year, last.quarter).end.getTime();
+  const rangeDuration = rangeEnd - rangeStart;
+
+  const toPercent = (time: number) => ((time - rangeStart) / rangeDuration) * 100;
+
+  const months = useMemo(() => quarters.flatMap(({ year, quarter }) =>
+    [0, 1, 2].map(offset => {
+      const date = new Date(year, (quarter - 1) * 3 + offset, 1);
+      return {
+        key: `${year}-${date.getMonth()}`,
+        name: date.toLocaleDateString('en-US', { month: 'short' }),
+        days: new Date(year, date.getMonth() + 1, 0).getDate(),
+      };
+    })
+  ), [quarters]);
+  const totalDays = months.reduce((sum, month) => sum + month.days, 0);
+
+  const swimlanes = useMemo(() => {
+    const lanes = new Map<string, Swimlane>();
+    items.forEach(item => {
+      const name = getLaneName(item, swimlaneBy);
+      if (!lanes.has(name)) {
+        lanes.set(name, { name, color: swimlaneBy === 'theme' ? item.themeColor : undefined, items: [] });
+      }
+      lanes.get(name)!.items.push(item);
+    });
+    lanes.forEach(lane => lane.items.sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    return Array.from(lanes.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [items, swimlaneBy]);
+
+  const todayTime = Date.now();
+  const showToday = todayTime >= rangeStart && todayTime <= rangeEnd;
+
+  // Bars are clipped to the visible range; items without dates span their own quarter
+  const getBar = (item: RoadmapTimelineItem) => {
+    const quarterBounds = getQuarterBounds(item.year, item.quarter);
+    const itemStart = item.startDate ? parseLocalDate(item.startDate) : quarterBounds.start;
+    const itemEnd = item.endDate
+      ? new Date(parseLocalDate(item.endDate).getTime() + DAY_MS - 1)
+      : quarterBounds.end;
+    const left = Math.max(itemStart.getTime(), rangeStart);
+    const right = Math.min(itemEnd.getTime(), rangeEnd);
+    if (right < left) return null;
+    return {
+      style: { left: `${toPercent(left)}%`, width: `${Math.max(toPercent(right) - toPercent(left), 0.5)}%` },
+      label: `${formatShortDate(itemStart)} - ${formatShortDate(itemEnd)}`,
+    };
+  };
+
+  return (
+    <div className="roadmap-timeline">
+      <div className="timeline-header-row">
+        <div className="timeline-label-column">Epic</div>
+        <div className="timeline-scale">
+          <div className="timeline-quarters">
+            {quarters.map(({ year, quarter }) => (
+              <div key={`${year}-${quarter}`} className="timeline-quarter" style={{ flex: 1 }}>
+                {formatQuarter(year, quarter)}
+              </div>
+            ))}
+          </div>
+          <div className="timeline-months">
+            {months.map(month => (
+              <div key={month.key} className="timeline-month" style={{ width: `${(month.days / totalDays) * 100}%` }}>
+                {month.name}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="timeline-body">
+        {swimlanes.map(lane => (
+          <div key={lane.name} className="timeline-swimlane">
+            <div className="timeline-swimlane-header">
+              {lane.color && <span className="timeline-lane-color" style={{ backgroundColor: lane.color }} />}
+              <span className="timeline-lane-name">{lane.name}</span>
+              <span className="timeline-lane-count">{lane.items.length}</span>
+            </div>
+            {lane.items.map(item => {
+              const bar = getBar(item);
+              return (
+                <div key={item.id} className="timeline-row">
+                  <div className="timeline-label-column" title={item.epicName}>
+                    <span className="timeline-epic-name">{item.epicName}</span>
+                    <span className="timeline-epic-quarter">{formatQuarter(item.year, item.quarter)}</span>
+                  </div>
+                  <div className="timeline-track">
+                    {bar && (
+                      <div
+                        className="timeline-bar"
+                        style={{ ...bar.style, backgroundColor: getBarColor(item) }}
+                        title={`${item.epicName} (${bar.label})`}
+                      >
+                        <span className="timeline-bar-label">{bar.label}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+
+        {showToday && (
+          <div className="timeline-today-layer">
+            <div className="timeline-today-marker" style={{ left: `${toPercent(todayTime)}%` }}>
+              <span className="timeline-today-label">Today</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoadmapTimeline;
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { roadmapService } from '../services/roadmapService';
+import { RoadmapItem, RoadmapSnapshot, ScoringConfig } from '../types/roadmap';
+import { formatScore, getFramework, getScoreFields, getScoreInput } from '../utils/prioritization';
+import { formatQuarter, parseLocalDate } from '../utils/quarterUtils';
+import { countChanges, diffSnapshots, ItemChange } from '../utils/roadmapSnapshots';
+import './RoadmapVersionHistory.css';
+
+interface RoadmapVersionHistoryProps {
+  productId: number;
+  year: number;
+  quarter: number;
+  currentItems: RoadmapItem[];
+  scoringConfig: ScoringConfig;
+}
+
+const CURRENT_KEY = 'current';
+
+const formatDate = (value?: string) =>
+  value ? parseLocalDate(value.split('T')[0]).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '—';
+
+const formatDateRange = (item: RoadmapItem) => `${formatDate(item.startDate)} – ${formatDate(item.endDate)}`;
+
+const formatPublishedAt = (value: string) =>
+  new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const RoadmapVersionHistory: React.FC<RoadmapVersionHistoryProps> = ({
+  productId,
+  year,
+  quarter,
+  currentItems,
+  scoringConfig,
+}) => {
+  const [snapshots, setSnapshots] = useState<RoadmapSnapshot[]>([]);
+  const [fromKey, setFromKey] = useState('');
+  const [toKey, setToKey] = useState(CURRENT_KEY);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadSnapshots = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const data = await roadmapService.getSnapshots(productId, year, quarter);
+        const sorted = [...data].sort((a, b) => b.version - a.version);
+        setSnapshots(sorted);
+        // Default to "what changed since the last publish"
+        setFromKey(sorted[0] ? String(sorted[0].id) : '');
+        setToKey(CURRENT_KEY);
+      } catch (err) {
+        setError('Failed to load roadmap history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSnapshots();
+  }, [productId, year, quarter]);
+
+  const getItems = (key: string) =>
+    key === CURRENT_KEY ? currentItems : snapshots.find(s => String(s.id) === key)?.roadmapItems;
+
+  const getLabel = (key: string) => {
+    const snapshot = snapshots.find(s => String(s.id) === key);
+    return snapshot ? `v${snapshot.version}` : 'current plan';
+  };
+
+  const fromItems = getItems(fromKey);
+  const toItems = getItems(toKey);
+  const diff = useMemo(
+    () => (fromItems && toItems ? diffSnapshots(fromItems, toItems) : null),
+    [fromItems, toItems]
+  );
+
+  const compareWithPrevious = (index: number) => {
+    setFromKey(String(snapshots[index + 1].id));
+    setToKey(String(snapshots[index].id));
+  };
+
+  const renderChange = (change: ItemChange, kind: 'schedule' | 'score') => (
+    <li key={change.after.epicId}>
+      <span className="history-epic-name">{change.after.epicName}</span>
+      {kind === 'schedule' ? (
+        <span className="history-change-detail">
+          {formatDateRange(change.before)} → {formatDateRange(change.after)}
+        </span>
+      ) : (
+        <span className="history-change-detail">
+          {getFramework(scoringConfig.framework).scoreLabel}{' '}
+          {formatScore(change.before, scoringConfig)} → {formatScore(change.after, scoringConfig)}
+          <span className="history-score-parts">
+            {getScoreFields(scoringConfig)
+              .filter(field => getScoreInput(change.before, field.key) !== getScoreInput(change.after, field.key))
+              .map(field => `${field.label} ${getScoreInput(change.before, field.key)}→${getScoreInput(change.after, field.key)}`)
+              .join(', ')}
+          </span>
+        </span>
+      )}
+    </li>
+  );
+
+  if (loading) {
+    return (
+      <div className="history-loading">
+        <span className="material-icons">hourglass_empty</span>
+        Loading roadmap history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="roadmap-version-history">
+      {error && (
+        <div className="history-error">
+          <span className="material-icons">error</span>
+          {error}
+        </div>
+      )}
+
+      <div className="history-layout">
+        <aside className="history-list">
+          <h3>Published versions</h3>
+          {snapshots.length === 0 && (
+            <p className="history-muted">
+              {formatQuarter(year, quarter)} has not been published yet. Every publish adds a version here.
+            </p>
+          )}
+          {snapshots.map((snapshot, index) => (
+            <div key={snapshot.id} className="history-list-item">
+              <div className="history-version">
+                <span className="history-version-badge">v{snapshot.version}</span>
+                {index === 0 && <span className="history-latest">Latest</span>}
+              </div>
+              <div className="history-meta">
+                {formatPublishedAt(snapshot.publishedAt)}
+                {snapshot.publishedBy && ` by ${snapshot.publishedBy}`}
+              </div>
+              <div className="history-meta">{snapshot.roadmapItems.length} epics</div>
+              {index < snapshots.length - 1 && (
+                <button className="history-link-btn" onClick={() => compareWithPrevious(index)}>
+                  Compare with v{snapshots[index + 1].version}
+                </button>
+              )}
+            </div>
+          ))}
+        </aside>
+
+        <section className="history-diff">
+          <div className="history-diff-controls">
+            <label>
+              From
+              <select value={fromKey} onChange={(e) => setFromKey(e.target.value)}>
+                {snapshots.length === 0 && <option value="">No published version</option>}
+                {snapshots.map(snapshot => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    v{snapshot.version} — {formatPublishedAt(snapshot.publishedAt)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span className="material-icons">arrow_forward</span>
+            <label>
+              To
+              <select value={toKey} onChange={(e) => setToKey(e.target.value)}>
+                <option value={CURRENT_KEY}>Current plan</option>
+                {snapshots.map(snapshot => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    v{snapshot.version} — {formatPublishedAt(snapshot.publishedAt)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {!diff ? (
+            <div className="history-empty">
+              <span className="material-icons">history</span>
+              <p>Publish the roadmap to start tracking changes between versions.</p>
+            </div>
+          ) : countChanges(diff) === 0 ? (
+            <div className="history-empty">
+              <span className="material-icons">check_circle</span>
+              <p>No changes between {getLabel(fromKey)} and {getLabel(toKey)}.</p>
+            </div>
+          ) : (
+            <div className="history-sections">
+              <p className="history-summary">
+                {countChanges(diff)} epics changed between {getLabel(fromKey)} and {getLabel(toKey)}
+              </p>
+              {diff.added.length > 0 && (
+                <div className="history-section added">
+                  <h4><span className="material-icons">add_circle</span>Added ({diff.added.length})</h4>
+                  <ul>
+                    {diff.added.map(item => (
+                      <li key={item.epicId}>
+                        <span className="history-epic-name">{item.epicName}</span>
+                        <span className="history-change-detail">{formatDateRange(item)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff.removed.length > 0 && (
+                <div className="history-section removed">
+                  <h4><span className="material-icons">remove_circle</span>Removed ({diff.removed.length})</h4>
+                  <ul>
+                    {diff.removed.map(item => (
+                      <li key={item.epicId}>
+                        <span className="history-epic-name">{item.epicName}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff.rescheduled.length > 0 && (
+                <div className="history-section rescheduled">
+                  <h4><span className="material-icons">event</span>Rescheduled ({diff.rescheduled.length})</h4>
+                  <ul>{diff.rescheduled.map(change => renderChange(change, 'schedule'))}</ul>
+                </div>
+              )}
+              {diff.rescored.length > 0 && (
+                <div className="history-section rescored">
+                  <h4><span className="material-icons">leaderboard</span>Re-scored ({diff.rescored.length})</h4>
+                  <ul>{diff.rescored.map(change => renderChange(change, 'score'))}</ul>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default RoadmapVersionHistory;
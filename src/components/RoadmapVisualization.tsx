@@ -1,30 +1,22 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useProduct } from '../hooks/useProduct';
+import { roadmapService } from '../services/roadmapService';
+import { RoadmapTimelineItem as RoadmapItem, ScoringConfig } from '../types/roadmap';
+import {
+  DEFAULT_SCORING_CONFIG,
+  formatScore,
+  getFramework,
+  SCORE_SORT_KEY,
+  ScoreSort,
+  sortByScore,
+  toggleScoreSort,
+} from '../utils/prioritization';
+import { addQuarters, formatQuarter } from '../utils/quarterUtils';
+import RoadmapTimeline, { SwimlaneField } from './RoadmapTimeline';
+import RoadmapExportMenu from './RoadmapExportMenu';
 import './RoadmapVisualization.css';
 
-interface RoadmapItem {
-  id: string;
-  epicId: string;
-  epicName: string;
-  epicDescription: string;
-  priority: string;
-  status: string;
-  startDate: string;
-  endDate: string;
-  year: number;
-  quarter: number;
-  reach: number;
-  impact: number;
-  confidence: number;
-  riceScore: number;
-  effortRating?: number;
-  themeName?: string;
-  themeColor?: string;
-  initiativeName?: string;
-  track?: string;
-}
-
 interface GroupedData {
   [key: string]: {
     initiativeName: string;
@@ -45,61 +37,68 @@ const RoadmapVisualization: React.FC = () => {
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
   const [selectedQuarter, setSelectedQuarter] = useState<number>(Math.ceil((new Date().getMonth() + 1) / 3));
   const [selectedQuarterData, setSelectedQuarterData] = useState<RoadmapItem[]>([]);
+  const [viewMode, setViewMode] = useState<'quarter' | 'timeline'>('quarter');
+  const [timelineQuarterCount, setTimelineQuarterCount] = useState(4);
+  const [swimlaneBy, setSwimlaneBy] = useState<SwimlaneField>('initiative');
+  const [timelineData, setTimelineData] = useState<RoadmapItem[]>([]);
+  const [scoringConfig, setScoringConfig] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [scoreSort, setScoreSort] = useState<ScoreSort | null>(null);
 
   useEffect(() => {
     window.scrollTo(0, 0);
   }, []);
 
+  useEffect(() => {
+    if (!product) return;
+    roadmapService.getScoringConfig(product.productId)
+      .then(config => setScoringConfig(config || DEFAULT_SCORING_CONFIG))
+      .catch(() => setScoringConfig(DEFAULT_SCORING_CONFIG));
+  }, [product]);
+
 
   useEffect(() => {
-    if (product) {
+    if (product && viewMode === 'quarter') {
       loadSelectedQuarterData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [product, selectedYear, selectedQuarter]);
+  }, [product, selectedYear, selectedQuarter, viewMode]);
+
+  useEffect(() => {
+    if (product && viewMode === 'timeline') {
+      loadTimelineData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product, selectedYear, selectedQuarter, viewMode, timelineQuarterCount]);
 
+  const loadQuarterItems = async (year: number, quarter: number): Promise<RoadmapItem[]> => {
+    if (!product) return [];
 
-  const loadSelectedQuarterData = async () => {
-    if (!product) return;
-    
     try {
-      const response = await fetch(
-        `http://localhost:8080/api/v2/products/${product.productId}/roadmap/${selectedYear}/${selectedQuarter}?publishedOnly=true`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        }
-      );
-      
-      if (response.ok) {
-        try {
-          const data = await response.json();
-          const quarterItems = data.roadmapItems?.map((item: any) => {
-            return {
-              ...item,
-              id: `${selectedYear}-${selectedQuarter}-${item.epicId}`,
-              year: selectedYear,
-              quarter: selectedQuarter
-            };
-          }) || [];
-          
-          setSelectedQuarterData(quarterItems);
-        } catch (parseError) {
-          // JSON parse error - treat as empty
-          setSelectedQuarterData([]);
-        }
-      } else {
-        // 404 or other error - treat as empty (don't show error)
-        setSelectedQuarterData([]);
-      }
-      
+      const data = await roadmapService.getRoadmap(product.productId, year, quarter, { publishedOnly: true });
+      return data?.roadmapItems?.map(item => ({
+        ...item,
+        id: `${year}-${quarter}-${item.epicId}`,
+        startDate: item.startDate || '',
+        endDate: item.endDate || '',
+        year,
+        quarter
+      })) || [];
     } catch (err: any) {
-      // Network error - treat as empty (don't show error)
-      setSelectedQuarterData([]);
+      // Unreadable or failed response - treat as empty (don't show error)
+      return [];
     }
   };
 
+  const loadSelectedQuarterData = async () => {
+    setSelectedQuarterData(await loadQuarterItems(selectedYear, selectedQuarter));
+  };
+
+  const loadTimelineData = async () => {
+    const quarters = Array.from({ length: timelineQuarterCount }, (_, i) => addQuarters(timelineStart, i));
+    const results = await Promise.all(quarters.map(({ year, quarter }) => loadQuarterItems(year, quarter)));
+    setTimelineData(results.flat());
+  };
+
   const getStatusColor = useCallback((status: string): string => {
     switch (status.toLowerCase()) {
       case 'proposed': return '#7f8c8d';
@@ -164,6 +163,12 @@ const RoadmapVisualization: React.FC = () => {
     };
   }, [selectedYear, selectedQuarter]);
 
+  const timelineStart = useMemo(
+    () => ({ year: selectedYear, quarter: selectedQuarter }),
+    [selectedYear, selectedQuarter]
+  );
+  const timelineEnd = addQuarters(timelineStart, timelineQuarterCount - 1);
+
   if (productLoading) {
     return (
       <div className="roadmap-viz-container">
@@ -211,32 +216,115 @@ const RoadmapVisualization: React.FC = () => {
             <h1 className="roadmap-viz-page-title">Roadmap Visualization</h1>
           </div>
           
-          <div className="quarter-selectors">
-            <select
-              value={selectedYear}
-              onChange={(e) => setSelectedYear(parseInt(e.target.value))}
-              className="quarter-select"
-            >
-              {[selectedYear - 1, selectedYear, selectedYear + 1].map(year => (
-                <option key={year} value={year}>{year}</option>
-              ))}
-            </select>
+          <div className="header-controls">
+            <div className="view-mode-toggle">
+              <button
+                className={`mode-btn ${viewMode === 'quarter' ? 'active' : ''}`}
+                onClick={() => setViewMode('quarter')}
+              >
+                <span className="material-icons">view_week</span>
+                Quarter
+              </button>
+              <button
+                className={`mode-btn ${viewMode === 'timeline' ? 'active' : ''}`}
+                onClick={() => setViewMode('timeline')}
+              >
+                <span className="material-icons">view_timeline</span>
+                Timeline
+              </button>
+            </div>
+
+            <div className="quarter-selectors">
+              <select
+                value={selectedYear}
+                onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+                className="quarter-select"
+              >
+                {[selectedYear - 1, selectedYear, selectedYear + 1].map(year => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
             
-            <select
-              value={selectedQuarter}
-              onChange={(e) => setSelectedQuarter(parseInt(e.target.value))}
-              className="quarter-select"
-            >
-              <option value={1}>Q1</option>
-              <option value={2}>Q2</option>
-              <option value={3}>Q3</option>
-              <option value={4}>Q4</option>
-            </select>
+              <select
+                value={selectedQuarter}
+                onChange={(e) => setSelectedQuarter(parseInt(e.target.value))}
+                className="quarter-select"
+              >
+                <option value={1}>Q1</option>
+                <option value={2}>Q2</option>
+                <option value={3}>Q3</option>
+                <option value={4}>Q4</option>
+              </select>
+
+              {viewMode === 'timeline' && (
+                <>
+                  <select
+                    value={timelineQuarterCount}
+                    onChange={(e) => setTimelineQuarterCount(parseInt(e.target.value))}
+                    className="quarter-select"
+                    aria-label="Timeline span"
+                  >
+                    <option value={2}>2 quarters</option>
+                    <option value={4}>4 quarters</option>
+                    <option value={6}>6 quarters</option>
+                    <option value={8}>8 quarters</option>
+                  </select>
+
+                  <select
+                    value={swimlaneBy}
+                    onChange={(e) => setSwimlaneBy(e.target.value as SwimlaneField)}
+                    className="quarter-select"
+                    aria-label="Swimlanes"
+                  >
+                    <option value="initiative">By initiative</option>
+                    <option value="theme">By theme</option>
+                    <option value="track">By track</option>
+                  </select>
+                </>
+              )}
+            </div>
+
+            <RoadmapExportMenu
+              items={viewMode === 'timeline' ? timelineData : selectedQuarterData}
+              productName={product?.productName || 'Product'}
+              start={timelineStart}
+              quarterCount={viewMode === 'timeline' ? timelineQuarterCount : 1}
+              scoringConfig={scoringConfig}
+              onError={setError}
+            />
           </div>
         </div>
       </div>
 
       <div className="roadmap-content">
+        {viewMode === 'timeline' ? (
+        <div className="gantt-view">
+          <div className="gantt-header">
+            <div className="gantt-header-title">
+              <div className="gantt-header-bar"></div>
+              <h3>
+                {formatQuarter(selectedYear, selectedQuarter)} – {formatQuarter(timelineEnd.year, timelineEnd.quarter)} Timeline
+              </h3>
+            </div>
+            <span className="gantt-item-count">{timelineData.length} items</span>
+          </div>
+
+          {timelineData.length === 0 ? (
+            <div className="empty-gantt">
+              <span className="material-icons">event_busy</span>
+              <p>No published items in this period</p>
+            </div>
+          ) : (
+            <RoadmapTimeline
+              items={timelineData}
+              start={timelineStart}
+              quarterCount={timelineQuarterCount}
+              swimlaneBy={swimlaneBy}
+              getBarColor={(item) => item.themeColor || getStatusColor(item.status)}
+            />
+          )}
+        </div>
+        ) : (
         <div className="gantt-view">
           <div className="gantt-header">
             <div className="gantt-header-title">
@@ -310,6 +398,16 @@ const RoadmapVisualization: React.FC = () => {
                         <div className="gantt-header-initiative">Initiative</div>
                         <div className="gantt-header-theme">Theme</div>
                         <div className="gantt-header-task">Epic</div>
+                        <button
+                          className={`gantt-header-score ${scoreSort ? 'sorted' : ''}`}
+                          onClick={() => setScoreSort(toggleScoreSort(scoreSort, SCORE_SORT_KEY))}
+                          title={`${getFramework(scoringConfig.framework).formula}. Click to sort within each group.`}
+                        >
+                          {getFramework(scoringConfig.framework).scoreLabel}
+                          <span className="material-icons">
+                            {!scoreSort ? 'unfold_more' : scoreSort.direction === 'desc' ? 'arrow_downward' : 'arrow_upward'}
+                          </span>
+                        </button>
                         <div className="gantt-header-timeline">
                           {months.map((month, index) => (
                             <div 
@@ -329,12 +427,14 @@ const RoadmapVisualization: React.FC = () => {
                           const isFirstInitiativeGroup = groupIndex === 0 || 
                             sortedGroupEntries[groupIndex - 1][1].initiativeName !== group.initiativeName;
                           
+                          const groupItems = scoreSort ? sortByScore(group.items, scoringConfig, scoreSort) : group.items;
+
                           return (
                             <div key={groupKey} className={`gantt-group ${isFirstInitiativeGroup ? 'new-initiative' : ''}`}>
-                              {group.items.map((item: RoadmapItem, index: number) => {
+                              {groupItems.map((item: RoadmapItem, index: number) => {
                                 const barStyle = calculateGanttBar(item);
                                 const isFirstInGroup = index === 0;
-                                const isLastInGroup = index === group.items.length - 1;
+                                const isLastInGroup = index === groupItems.length - 1;
                                 
                                 return (
                                   <div key={item.id} className={`gantt-item-row ${isFirstInGroup ? 'first-in-group' : ''} ${isLastInGroup ? 'last-in-group' : ''}`}>
@@ -363,6 +463,8 @@ const RoadmapVisualization: React.FC = () => {
                                   <div className="gantt-item-task">
                                     <div className="gantt-item-name">{item.epicName}</div>
                                   </div>
+
+                                  <div className="gantt-item-score">{formatScore(item, scoringConfig)}</div>
                                   
                                   <div className="gantt-item-timeline">
                                     <div 
@@ -402,6 +504,7 @@ const RoadmapVisualization: React.FC = () => {
             </div>
           )}
         </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ScoringCriterion } from '../types/roadmap';
+import { createCriterionId, DEFAULT_SCALE, SCALE_OPTIONS, validateCriteria } from '../utils/prioritization';
+import './ScoringModelBuilder.css';
+
+interface ScoringModelBuilderProps {
+  criteria: ScoringCriterion[];
+  onSave: (criteria: ScoringCriterion[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const ScoringModelBuilder: React.FC<ScoringModelBuilderProps> = ({ criteria, onSave, onClose }) => {
+  // New rows have an empty id until the model is saved
+  const [draft, setDraft] = useState<ScoringCriterion[]>(criteria);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const totalWeight = draft.reduce((sum, criterion) => sum + (criterion.weight || 0), 0);
+  const validationError = validateCriteria(draft);
+
+  const updateCriterion = (index: number, changes: Partial<ScoringCriterion>) => {
+    setDraft(prev => prev.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const addCriterion = () => {
+    setDraft(prev => [...prev, { id: '', name: '', scale: DEFAULT_SCALE, weight: 10, direction: 'higher' }]);
+  };
+
+  const removeCriterion = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (validationError) return;
+
+    const saved: ScoringCriterion[] = [];
+    draft.forEach(criterion => {
+      const name = criterion.name.trim();
+      saved.push({ ...criterion, name, id: criterion.id || createCriterionId(name, [...draft, ...saved]) });
+    });
+
+    try {
+      setSaving(true);
+      setError('');
+      await onSave(saved);
+    } catch (err) {
+      setError('Failed to save the scoring model');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="scoring-builder-overlay" onClick={onClose}>
+      <div className="scoring-builder-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="scoring-builder-header">
+          <div>
+            <h3>Weighted Scoring Model</h3>
+            <p>Ratings are normalized per criterion and combined into a 0–100 score using the weights.</p>
+          </div>
+          <button className="scoring-builder-icon-btn" onClick={onClose} aria-label="Close">
+            <span className="material-icons">close</span>
+          </button>
+        </div>
+
+        <div className="scoring-builder-body">
+          <table className="scoring-builder-table">
+            <thead>
+              <tr>
+                <th>Criterion</th>
+                <th>Scale</th>
+                <th>Weight</th>
+                <th>Share</th>
+                <th>Direction</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((criterion, index) => (
+                <tr key={criterion.id || `new-${index}`}>
+                  <td>
+                    <input
+                      type="text"
+                      value={criterion.name}
+                      onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                      placeholder="e.g. Revenue Impact"
+                      className="scoring-builder-name"
+                    />
+                  </td>
+                  <td>
+                    <select
+                      value={criterion.scale}
+                      onChange={(e) => updateCriterion(index, { scale: parseInt(e.target.value) })}
+                    >
+                      {SCALE_OPTIONS.map(scale => (
+                        <option key={scale} value={scale}>1–{scale}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      value={criterion.weight}
+                      onChange={(e) => updateCriterion(index, { weight: parseFloat(e.target.value) || 0 })}
+                      className="scoring-builder-weight"
+                    />
+                  </td>
+                  <td className="scoring-builder-share">
+                    {totalWeight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : '-'}
+                  </td>
+                  <td>
+                    <select
+                      value={criterion.direction}
+                      onChange={(e) => updateCriterion(index, { direction: e.target.value as ScoringCriterion['direction'] })}
+                    >
+                      <option value="higher">Higher is better</option>
+                      <option value="lower">Lower is better</option>
+                    </select>
+                  </td>
+                  <td>
+                    <button
+                      className="scoring-builder-icon-btn"
+                      onClick={() => removeCriterion(index)}
+                      aria-label={`Remove ${criterion.name || 'criterion'}`}
+                    >
+                      <span className="material-icons">delete</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button className="scoring-builder-add" onClick={addCriterion}>
+            <span className="material-icons">add</span>
+            Add criterion
+          </button>
+
+          {(validationError || error) && (
+            <div className="scoring-builder-error">
+              <span className="material-icons">error</span>
+              {error || validationError}
+            </div>
+          )}
+          <p className="scoring-builder-note">
+            Removing a criterion drops it from every item's score. Renaming keeps the ratings already given.
+          </p>
+        </div>
+
+        <div className="scoring-builder-footer">
+          <button className="scoring-builder-cancel" onClick={onClose}>Cancel</button>
+          <button className="scoring-builder-save" onClick={handleSave} disabled={saving || validationError !== null}>
+            {saving ? 'Saving...' : 'Save Model'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringModelBuilder;
@@ -0,0 +1,718 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useProduct } from '../hooks/useProduct';
+import { sprintService } from '../services/sprintService';
+import { backlogService } from '../services/backlogService';
+import { roadmapService } from '../services/roadmapService';
+import { capacityService } from '../services/capacityService';
+import { Sprint, SprintRequest, SprintStory } from '../types/sprint';
+import { UserStory } from '../types/backlog';
+import { CapacityTeam } from '../types/capacity';
+import { getCurrentQuarter, getQuarterOfDate, parseLocalDate } from '../utils/quarterUtils';
+import {
+  getAverageVelocity,
+  getClosedSprints,
+  getCommittedPoints,
+  getCompletedPoints,
+  VELOCITY_SPRINT_COUNT,
+} from '../utils/sprintUtils';
+import { getResponseMessage } from '../utils/errorHandler';
+import './SprintPlanning.css';
+
+const STORY_STATUSES: NonNullable<UserStory['status']>[] = ['Draft', 'Ready', 'In Progress', 'Done', 'Blocked'];
+const VELOCITY_CHART_SPRINTS = 6;
+
+const EMPTY_SPRINT_FORM: SprintRequest = { name: '', goal: '', startDate: '', endDate: '', teamId: null };
+
+const formatDate = (value: string) =>
+  parseLocalDate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const SprintPlanning: React.FC = () => {
+  const { productSlug } = useParams<{ productSlug: string }>();
+  const navigate = useNavigate();
+  const { product, loading: productLoading, error: productError } = useProduct(productSlug);
+
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [teams, setTeams] = useState<CapacityTeam[]>([]);
+  const [selectedSprintId, setSelectedSprintId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const [showSprintModal, setShowSprintModal] = useState(false);
+  const [editingSprintId, setEditingSprintId] = useState<number | null>(null);
+  const [sprintForm, setSprintForm] = useState<SprintRequest>(EMPTY_SPRINT_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const [showAddStories, setShowAddStories] = useState(false);
+  const [candidateStories, setCandidateStories] = useState<SprintStory[]>([]);
+  const [selectedStoryIds, setSelectedStoryIds] = useState<number[]>([]);
+  const [loadingCandidates, setLoadingCandidates] = useState(false);
+
+  const [closingSprint, setClosingSprint] = useState<Sprint | null>(null);
+  const [carryOverSprintId, setCarryOverSprintId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (product) {
+      loadSprints();
+      loadTeams();
+    }
+  }, [product]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadSprints = async () => {
+    if (!product) return;
+
+    try {
+      setLoading(true);
+      const data = await sprintService.getSprints(product.productId);
+      const sorted = [...data].sort((a, b) => b.startDate.localeCompare(a.startDate));
+      setSprints(sorted);
+      setSelectedSprintId(prev => {
+        if (prev && sorted.some(sprint => sprint.id === prev)) return prev;
+        const active = sorted.find(sprint => sprint.status === 'ACTIVE');
+        return (active || sorted[0])?.id ?? null;
+      });
+    } catch (err) {
+      setError('Failed to load sprints');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadTeams = async () => {
+    if (!product) return;
+
+    try {
+      const { year, quarter } = getCurrentQuarter();
+      setTeams(await capacityService.getTeams(product.productId, year, quarter));
+    } catch (err) {
+      // Sprints can be planned without a team
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  const replaceSprint = (updated: Sprint) => {
+    setSprints(prev => prev.map(sprint => (sprint.id === updated.id ? updated : sprint)));
+  };
+
+  const selectedSprint = sprints.find(sprint => sprint.id === selectedSprintId) || null;
+  const closedSprints = getClosedSprints(sprints);
+  const averageVelocity = getAverageVelocity(sprints);
+
+  // Sprint create/edit
+  const openCreateModal = () => {
+    setEditingSprintId(null);
+    setSprintForm(EMPTY_SPRINT_FORM);
+    setShowSprintModal(true);
+  };
+
+  const openEditModal = (sprint: Sprint) => {
+    setEditingSprintId(sprint.id);
+    setSprintForm({
+      name: sprint.name,
+      goal: sprint.goal || '',
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      teamId: sprint.teamId ?? null,
+    });
+    setShowSprintModal(true);
+  };
+
+  const handleSaveSprint = async () => {
+    if (!product) return;
+    if (!sprintForm.name.trim() || !sprintForm.startDate || !sprintForm.endDate) {
+      setError('Sprint name, start date and end date are required');
+      return;
+    }
+    if (sprintForm.endDate < sprintForm.startDate) {
+      setError('Sprint end date must be after its start date');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const sprintData = { ...sprintForm, name: sprintForm.name.trim() };
+      if (editingSprintId) {
+        replaceSprint(await sprintService.updateSprint(product.productId, editingSprintId, sprintData));
+        showSuccess('Sprint updated successfully!');
+      } else {
+        const created = await sprintService.createSprint(product.productId, sprintData);
+        setSprints(prev => [created, ...prev].sort((a, b) => b.startDate.localeCompare(a.startDate)));
+        setSelectedSprintId(created.id);
+        showSuccess('Sprint created successfully!');
+      }
+      setShowSprintModal(false);
+    } catch (err) {
+      setError(getResponseMessage(err) || 'Failed to save sprint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSprint = async (sprint: Sprint) => {
+    if (!product || !window.confirm(`Delete ${sprint.name}? Its stories return to the backlog.`)) return;
+
+    try {
+      await sprintService.deleteSprint(product.productId, sprint.id);
+      setSprints(prev => prev.filter(s => s.id !== sprint.id));
+      setSelectedSprintId(null);
+      showSuccess('Sprint deleted successfully!');
+    } catch (err) {
+      setError('Failed to delete sprint');
+    }
+  };
+
+  const handleStartSprint = async (sprint: Sprint) => {
+    if (!product) return;
+    if (sprint.stories.length === 0 && !window.confirm('This sprint has no stories yet. Start it anyway?')) return;
+
+    try {
+      replaceSprint(await sprintService.startSprint(product.productId, sprint.id));
+      showSuccess(`${sprint.name} started`);
+    } catch (err) {
+      setError(getResponseMessage(err) || 'Failed to start sprint');
+    }
+  };
+
+  // Stories of epics published on the roadmap for the sprint's quarter that are not done or already planned
+  const openAddStories = async (sprint: Sprint) => {
+    if (!product) return;
+
+    setShowAddStories(true);
+    setSelectedStoryIds([]);
+    setCandidateStories([]);
+    try {
+      setLoadingCandidates(true);
+      const { year, quarter } = getQuarterOfDate(parseLocalDate(sprint.startDate));
+      const roadmap = await roadmapService.getRoadmap(product.productId, year, quarter, { publishedOnly: true });
+      const epics = roadmap?.roadmapItems || [];
+      const plannedIds = new Set(
+        sprints
+          .filter(s => s.status !== 'CLOSED')
+          .flatMap(s => s.stories.map(story => story.id))
+      );
+
+      const storiesByEpic = await Promise.all(
+        epics.map(async epic => {
+          const stories = await backlogService.getUserStories(product.productId, epic.epicId);
+          return stories
+            .filter(story => story.id !== undefined && story.status !== 'Done' && !plannedIds.has(story.id))
+            .map(story => ({ ...story, id: story.id!, epicId: epic.epicId, epicName: epic.epicName }));
+        })
+      );
+      setCandidateStories(storiesByEpic.flat());
+    } catch (err) {
+      setError('Failed to load stories from published epics');
+    } finally {
+      setLoadingCandidates(false);
+    }
+  };
+
+  const toggleStorySelection = (storyId: number) => {
+    setSelectedStoryIds(prev => (prev.includes(storyId) ? prev.filter(id => id !== storyId) : [...prev, storyId]));
+  };
+
+  const handleAddStories = async () => {
+    if (!product || !selectedSprint || selectedStoryIds.length === 0) return;
+
+    try {
+      setSaving(true);
+      replaceSprint(await sprintService.addStories(product.productId, selectedSprint.id, selectedStoryIds));
+      setShowAddStories(false);
+      showSuccess(`${selectedStoryIds.length} ${selectedStoryIds.length === 1 ? 'story' : 'stories'} added to the sprint`);
+    } catch (err) {
+      setError('Failed to add stories to the sprint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveStory = async (story: SprintStory) => {
+    if (!product || !selectedSprint) return;
+
+    try {
+      replaceSprint(await sprintService.removeStory(product.productId, selectedSprint.id, story.id));
+    } catch (err) {
+      setError('Failed to remove story from the sprint');
+    }
+  };
+
+  const handleStoryStatusChange = async (story: SprintStory, status: NonNullable<UserStory['status']>) => {
+    if (!product || !selectedSprint) return;
+
+    try {
+      await backlogService.updateUserStory(product.productId, story.id, {
+        title: story.title,
+        description: story.description,
+        acceptanceCriteria: story.acceptanceCriteria,
+        priority: story.priority,
+        storyPoints: story.storyPoints,
+        status,
+      });
+      replaceSprint({
+        ...selectedSprint,
+        stories: selectedSprint.stories.map(s => (s.id === story.id ? { ...s, status } : s)),
+      });
+    } catch (err) {
+      setError('Failed to update story status');
+    }
+  };
+
+  // Closing with carry-over of unfinished stories
+  const openCloseModal = (sprint: Sprint) => {
+    const nextPlanned = sprints
+      .filter(s => s.status === 'PLANNED' && s.id !== sprint.id)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+    setCarryOverSprintId(nextPlanned?.id ?? null);
+    setClosingSprint(sprint);
+  };
+
+  const handleCloseSprint = async () => {
+    if (!product || !closingSprint) return;
+
+    try {
+      setSaving(true);
+      await sprintService.closeSprint(product.productId, closingSprint.id, { carryOverSprintId });
+      setClosingSprint(null);
+      showSuccess(`${closingSprint.name} closed`);
+      await loadSprints();
+    } catch (err) {
+      setError(getResponseMessage(err) || 'Failed to close sprint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (productLoading || (loading && sprints.length === 0)) {
+    return (
+      <div className="sprint-planning-container">
+        <div className="sprint-loading">
+          <span className="material-icons">hourglass_empty</span>
+          Loading sprints...
+        </div>
+      </div>
+    );
+  }
+
+  const unfinishedStories = closingSprint?.stories.filter(story => story.status !== 'Done') || [];
+  const velocityHistory = closedSprints.slice(-VELOCITY_CHART_SPRINTS);
+  const maxVelocityPoints = Math.max(
+    ...velocityHistory.map(sprint => Math.max(getCommittedPoints(sprint), getCompletedPoints(sprint))),
+    1
+  );
+  const selectedCandidatePoints = candidateStories
+    .filter(story => selectedStoryIds.includes(story.id))
+    .reduce((sum, story) => sum + (story.storyPoints || 0), 0);
+
+  return (
+    <div className="sprint-planning-container">
+      <div className="sprint-page-header">
+        <div className="header-left">
+          <button
+            onClick={() => navigate(`/products/${productSlug}/modules`)}
+            className="back-button"
+            aria-label="Back to modules"
+          >
+            <span className="material-icons">arrow_back</span>
+          </button>
+          <h1 className="sprint-page-title">
+            <span className="material-icons">directions_run</span>
+            Sprint Planning {product && `- ${product.productName}`}
+          </h1>
+        </div>
+        <button className="sprint-primary-btn" onClick={openCreateModal}>
+          <span className="material-icons">add</span>
+          New Sprint
+        </button>
+      </div>
+
+      {(error || productError) && (
+        <div className="error-message">
+          <span className="material-icons">error</span>
+          {error || productError}
+        </div>
+      )}
+      {successMessage && (
+        <div className="success-message">
+          <span className="material-icons">check_circle</span>
+          {successMessage}
+        </div>
+      )}
+
+      <div className="sprint-velocity-card">
+        <div className="sprint-velocity-summary">
+          <span className="sprint-velocity-value">
+            {averageVelocity === null ? '–' : Math.round(averageVelocity)}
+          </span>
+          <span className="sprint-velocity-label">
+            Avg. velocity (points per sprint over the last {VELOCITY_SPRINT_COUNT} closed sprints)
+          </span>
+        </div>
+        {velocityHistory.length > 0 ? (
+          <div className="sprint-velocity-chart">
+            {velocityHistory.map(sprint => (
+              <div key={sprint.id} className="sprint-velocity-bar-group" title={sprint.name}>
+                <div className="sprint-velocity-bars">
+                  <div
+                    className="sprint-velocity-bar committed"
+                    style={{ height: `${(getCommittedPoints(sprint) / maxVelocityPoints) * 100}%` }}
+                    title={`Committed: ${getCommittedPoints(sprint)}`}
+                  />
+                  <div
+                    className="sprint-velocity-bar completed"
+                    style={{ height: `${(getCompletedPoints(sprint) / maxVelocityPoints) * 100}%` }}
+                    title={`Completed: ${getCompletedPoints(sprint)}`}
+                  />
+                </div>
+                <span className="sprint-velocity-name">{sprint.name}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="sprint-muted">Close a sprint to start tracking velocity.</p>
+        )}
+      </div>
+
+      <div className="sprint-layout">
+        <div className="sprint-list">
+          {sprints.length === 0 && (
+            <div className="sprint-empty">
+              <span className="material-icons">event_note</span>
+              <p>No sprints yet. Create one to start planning.</p>
+            </div>
+          )}
+          {sprints.map(sprint => {
+            const committed = getCommittedPoints(sprint);
+            const completed = getCompletedPoints(sprint);
+            return (
+              <button
+                key={sprint.id}
+                className={`sprint-list-item ${sprint.id === selectedSprintId ? 'selected' : ''}`}
+                onClick={() => setSelectedSprintId(sprint.id)}
+              >
+                <div className="sprint-list-item-header">
+                  <span className="sprint-list-item-name">{sprint.name}</span>
+                  <span className={`sprint-status-badge ${sprint.status.toLowerCase()}`}>{sprint.status}</span>
+                </div>
+                <span className="sprint-list-item-dates">
+                  {formatDate(sprint.startDate)} – {formatDate(sprint.endDate)}
+                </span>
+                <div className="sprint-progress">
+                  <div
+                    className="sprint-progress-fill"
+                    style={{ width: `${committed > 0 ? Math.min((completed / committed) * 100, 100) : 0}%` }}
+                  />
+                </div>
+                <span className="sprint-list-item-points">{completed} / {committed} points</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {selectedSprint && (
+          <div className="sprint-detail">
+            <div className="sprint-detail-header">
+              <div>
+                <h2>{selectedSprint.name}</h2>
+                <p className="sprint-muted">
+                  {formatDate(selectedSprint.startDate)} – {formatDate(selectedSprint.endDate)}
+                  {selectedSprint.teamName && ` • ${selectedSprint.teamName}`}
+                </p>
+              </div>
+              <div className="sprint-detail-actions">
+                {selectedSprint.status !== 'CLOSED' && (
+                  <button className="sprint-secondary-btn" onClick={() => openEditModal(selectedSprint)}>
+                    <span className="material-icons">edit</span>
+                    Edit
+                  </button>
+                )}
+                {selectedSprint.status === 'PLANNED' && (
+                  <>
+                    <button className="sprint-secondary-btn danger" onClick={() => handleDeleteSprint(selectedSprint)}>
+                      <span className="material-icons">delete</span>
+                      Delete
+                    </button>
+                    <button className="sprint-primary-btn" onClick={() => handleStartSprint(selectedSprint)}>
+                      <span className="material-icons">play_arrow</span>
+                      Start Sprint
+                    </button>
+                  </>
+                )}
+                {selectedSprint.status === 'ACTIVE' && (
+                  <button className="sprint-primary-btn" onClick={() => openCloseModal(selectedSprint)}>
+                    <span className="material-icons">flag</span>
+                    Close Sprint
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {selectedSprint.goal && (
+              <div className="sprint-goal">
+                <span className="material-icons">track_changes</span>
+                {selectedSprint.goal}
+              </div>
+            )}
+
+            <div className="sprint-stats">
+              <div className="sprint-stat">
+                <span className="sprint-stat-value">{getCommittedPoints(selectedSprint)}</span>
+                <span className="sprint-stat-label">
+                  {selectedSprint.status === 'PLANNED' ? 'Planned points' : 'Committed points'}
+                </span>
+              </div>
+              <div className="sprint-stat">
+                <span className="sprint-stat-value">{getCompletedPoints(selectedSprint)}</span>
+                <span className="sprint-stat-label">Completed points</span>
+              </div>
+              <div className="sprint-stat">
+                <span className="sprint-stat-value">{selectedSprint.stories.length}</span>
+                <span className="sprint-stat-label">Stories</span>
+              </div>
+            </div>
+
+            <div className="sprint-stories-header">
+              <h3>Stories</h3>
+              {selectedSprint.status !== 'CLOSED' && (
+                <button className="sprint-secondary-btn" onClick={() => openAddStories(selectedSprint)}>
+                  <span className="material-icons">playlist_add</span>
+                  Add Stories
+                </button>
+              )}
+            </div>
+
+            {selectedSprint.stories.length === 0 ? (
+              <p className="sprint-muted">No stories in this sprint yet.</p>
+            ) : (
+              <table className="sprint-stories-table">
+                <thead>
+                  <tr>
+                    <th>Story</th>
+                    <th>Epic</th>
+                    <th>Points</th>
+                    <th>Status</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedSprint.stories.map(story => (
+                    <tr key={story.id}>
+                      <td>
+                        {story.title}
+                        {story.carriedOverFromSprintId && (
+                          <span className="sprint-carried-over" title="Carried over from a previous sprint">
+                            <span className="material-icons">redo</span>
+                          </span>
+                        )}
+                      </td>
+                      <td className="sprint-muted">{story.epicName}</td>
+                      <td>{story.storyPoints || 0}</td>
+                      <td>
+                        {selectedSprint.status === 'CLOSED' ? (
+                          story.status
+                        ) : (
+                          <select
+                            value={story.status || 'Draft'}
+                            onChange={(e) => handleStoryStatusChange(story, e.target.value as NonNullable<UserStory['status']>)}
+                          >
+                            {STORY_STATUSES.map(status => (
+                              <option key={status} value={status}>{status}</option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                      <td>
+                        {selectedSprint.status !== 'CLOSED' && (
+                          <button
+                            className="sprint-icon-btn"
+                            onClick={() => handleRemoveStory(story)}
+                            aria-label="Remove from sprint"
+                          >
+                            <span className="material-icons">remove_circle_outline</span>
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Sprint Modal */}
+      {showSprintModal && (
+        <div className="sprint-modal-overlay" onClick={() => setShowSprintModal(false)}>
+          <div className="sprint-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="sprint-modal-header">
+              <h3>{editingSprintId ? 'Edit Sprint' : 'New Sprint'}</h3>
+              <button className="sprint-icon-btn" onClick={() => setShowSprintModal(false)}>
+                <span className="material-icons">close</span>
+              </button>
+            </div>
+            <div className="sprint-modal-body">
+              <label>
+                Name *
+                <input
+                  type="text"
+                  value={sprintForm.name}
+                  onChange={(e) => setSprintForm({ ...sprintForm, name: e.target.value })}
+                  placeholder="e.g. Sprint 14"
+                />
+              </label>
+              <label>
+                Goal
+                <textarea
+                  value={sprintForm.goal}
+                  onChange={(e) => setSprintForm({ ...sprintForm, goal: e.target.value })}
+                  placeholder="What should this sprint achieve?"
+                  rows={3}
+                />
+              </label>
+              <div className="sprint-form-row">
+                <label>
+                  Start date *
+                  <input
+                    type="date"
+                    value={sprintForm.startDate}
+                    onChange={(e) => setSprintForm({ ...sprintForm, startDate: e.target.value })}
+                  />
+                </label>
+                <label>
+                  End date *
+                  <input
+                    type="date"
+                    value={sprintForm.endDate}
+                    min={sprintForm.startDate || undefined}
+                    onChange={(e) => setSprintForm({ ...sprintForm, endDate: e.target.value })}
+                  />
+                </label>
+              </div>
+              <label>
+                Team
+                <select
+                  value={sprintForm.teamId ?? ''}
+                  onChange={(e) => setSprintForm({ ...sprintForm, teamId: e.target.value ? parseInt(e.target.value) : null })}
+                >
+                  <option value="">No team</option>
+                  {teams.map(team => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="sprint-modal-footer">
+              <button className="sprint-secondary-btn" onClick={() => setShowSprintModal(false)}>Cancel</button>
+              <button className="sprint-primary-btn" onClick={handleSaveSprint} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Sprint'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Add Stories Modal */}
+      {showAddStories && selectedSprint && (
+        <div className="sprint-modal-overlay" onClick={() => setShowAddStories(false)}>
+          <div className="sprint-modal wide" onClick={(e) => e.stopPropagation()}>
+            <div className="sprint-modal-header">
+              <h3>Add Stories to {selectedSprint.name}</h3>
+              <button className="sprint-icon-btn" onClick={() => setShowAddStories(false)}>
+                <span className="material-icons">close</span>
+              </button>
+            </div>
+            <div className="sprint-modal-body">
+              {loadingCandidates ? (
+                <p className="sprint-muted">Loading stories from published epics...</p>
+              ) : candidateStories.length === 0 ? (
+                <p className="sprint-muted">
+                  No open stories found in epics published on the roadmap for this sprint's quarter.
+                </p>
+              ) : (
+                <div className="sprint-candidate-list">
+                  {candidateStories.map(story => (
+                    <label key={story.id} className="sprint-candidate">
+                      <input
+                        type="checkbox"
+                        checked={selectedStoryIds.includes(story.id)}
+                        onChange={() => toggleStorySelection(story.id)}
+                      />
+                      <span className="sprint-candidate-title">{story.title}</span>
+                      <span className="sprint-muted">{story.epicName}</span>
+                      <span className="sprint-candidate-points">{story.storyPoints || 0} pts</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="sprint-modal-footer">
+              <span className="sprint-muted">
+                {selectedStoryIds.length} selected • {selectedCandidatePoints} points
+                {averageVelocity !== null && ` (velocity ${Math.round(averageVelocity)})`}
+              </span>
+              <button className="sprint-secondary-btn" onClick={() => setShowAddStories(false)}>Cancel</button>
+              <button
+                className="sprint-primary-btn"
+                onClick={handleAddStories}
+                disabled={saving || selectedStoryIds.length === 0}
+              >
+                Add to Sprint
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Close Sprint Modal */}
+      {closingSprint && (
+        <div className="sprint-modal-overlay" onClick={() => setClosingSprint(null)}>
+          <div className="sprint-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="sprint-modal-header">
+              <h3>Close {closingSprint.name}</h3>
+              <button className="sprint-icon-btn" onClick={() => setClosingSprint(null)}>
+                <span className="material-icons">close</span>
+              </button>
+            </div>
+            <div className="sprint-modal-body">
+              <p>
+                Completed {getCompletedPoints(closingSprint)} of {getCommittedPoints(closingSprint)} committed points.
+              </p>
+              {unfinishedStories.length > 0 ? (
+                <label>
+                  Move {unfinishedStories.length} unfinished {unfinishedStories.length === 1 ? 'story' : 'stories'} to
+                  <select
+                    value={carryOverSprintId ?? ''}
+                    onChange={(e) => setCarryOverSprintId(e.target.value ? parseInt(e.target.value) : null)}
+                  >
+                    <option value="">Backlog</option>
+                    {sprints
+                      .filter(s => s.status === 'PLANNED' && s.id !== closingSprint.id)
+                      .map(s => (
+                        <option key={s.id} value={s.id}>{s.name}</option>
+                      ))}
+                  </select>
+                </label>
+              ) : (
+                <p className="sprint-muted">All stories are done.</p>
+              )}
+            </div>
+            <div className="sprint-modal-footer">
+              <button className="sprint-secondary-btn" onClick={() => setClosingSprint(null)}>Cancel</button>
+              <button className="sprint-primary-btn" onClick={handleCloseSprint} disabled={saving}>
+                {saving ? 'Closing...' : 'Close Sprint'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SprintPlanning;
@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { Product } from '../types/product';
+import { productService } from '../services/productService';
+import { isNotFoundError } from '../utils/errorHandler';
 
 // Cache to store products and avoid duplicate requests
 const productCache = new Map<string, Product>();
@@ -58,24 +60,14 @@ export const useProduct = (productSlug: string | undefined) => {
     }
 
     const fetchProduct = async (): Promise<Product> => {
-      const response = await fetch(
-        `http://localhost:8080/api/products/by-slug/${productSlug}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        }
-      );
-
-      if (!response.ok) {
-        if (response.status === 404) {
+      try {
+        return await productService.getProductBySlug(productSlug);
+      } catch (err) {
+        if (isNotFoundError(err)) {
           throw new Error('Product not found');
         }
         throw new Error('Failed to fetch product');
       }
-
-      const data = await response.json();
-      return data;
     };
 
     // Start the request and store it
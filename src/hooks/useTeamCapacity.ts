@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { capacityService } from '../services/capacityService';
+import { resourcePlanningService } from '../services/resourcePlanningService';
+import { sprintService } from '../services/sprintService';
+import { CapacityTeam, EffortUnit, EpicEffort, TeamCapacitySettings } from '../types/capacity';
+import { PublicHoliday, TeamMember } from '../types/resourcePlanning.types';
+import { Sprint } from '../types/sprint';
+import { getDeliveryRate } from '../utils/sprintUtils';
+import { calculateTeamCapacity, getDefaultCapacitySettings } from '../utils/teamCapacity';
+
+// Teams, planned effort and capacity for one quarter, for views outside capacity planning
+export const useTeamCapacity = (productId: number | undefined, year: number, quarter: number) => {
+  const [teams, setTeams] = useState<CapacityTeam[]>([]);
+  const [epicEfforts, setEpicEfforts] = useState<EpicEffort[]>([]);
+  const [effortUnit, setEffortUnit] = useState<EffortUnit>('SPRINTS');
+  const [settings, setSettings] = useState<TeamCapacitySettings[]>([]);
+  const [teamMembers, setTeamMembers] = useState<Map<number, TeamMember[]>>(new Map());
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!productId) return;
+
+    try {
+      setLoading(true);
+      const [teamData, plan, holidayData, sprintData] = await Promise.all([
+        capacityService.getTeams(productId, year, quarter),
+        capacityService.getCapacityPlan(productId, year, quarter),
+        resourcePlanningService.getHolidays(productId),
+        // Without sprint history capacity is worked out from the members alone
+        sprintService.getSprints(productId).catch(() => [] as Sprint[]),
+      ]);
+      const members = await resourcePlanningService.getMembersByTeam(
+        productId,
+        teamData.map(team => team.id),
+        { year, quarter }
+      );
+      setTeams(teamData);
+      setEpicEfforts(plan?.epicEfforts || []);
+      setEffortUnit((plan?.effortUnit as EffortUnit) || 'SPRINTS');
+      setSettings(plan?.teamCapacities || []);
+      setTeamMembers(members);
+      setHolidays(holidayData);
+      setSprints(sprintData);
+    } catch (err) {
+      // Capacity is advisory in these views, so a failure just hides it
+      setTeams([]);
+      setEpicEfforts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, year, quarter]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Teams without sprint history use the product-wide rate, the same as in capacity planning
+  const getTeamDeliveryRate = useCallback(
+    (teamId: number) => getDeliveryRate(sprints, teamId) ?? getDeliveryRate(sprints) ?? 1,
+    [sprints]
+  );
+
+  const getCapacity = useCallback(
+    (teamId: number) =>
+      calculateTeamCapacity(
+        teamMembers.get(teamId) || [],
+        holidays,
+        settings.find(s => s.teamId === teamId) || getDefaultCapacitySettings(teamId),
+        effortUnit,
+        year,
+        quarter,
+        getTeamDeliveryRate(teamId)
+      ),
+    [teamMembers, holidays, settings, effortUnit, year, quarter, getTeamDeliveryRate]
+  );
+
+  const getMembers = useCallback((teamId: number) => teamMembers.get(teamId) || [], [teamMembers]);
+
+  return {
+    teams,
+    epicEfforts,
+    effortUnit,
+    settings,
+    getCapacity,
+    getMembers,
+    getTeamDeliveryRate,
+    holidays,
+    loading,
+    reload,
+  };
+};
@@ -59,6 +59,12 @@ export const adminService = {
     return response.data;
   },
 
+  // Product modules the user's role grants access to
+  getUserRoleModules: async (userId: number, signal?: AbortSignal): Promise<ProductModuleResponse[]> => {
+    const response = await api.get(`/admin/users/${userId}/role-modules`, { signal });
+    return response.data;
+  },
+
   // Product management
   getAllProducts: async (): Promise<any[]> => {
     const response = await api.get('/products');
@@ -0,0 +1,76 @@
+import api from './api';
+import {
+  Epic,
+  ProductBacklogData,
+  ProductBacklogRequest,
+  UserStory,
+  UserStoryRequest,
+} from '../types/backlog';
+import { isNotFoundError } from '../utils/errorHandler';
+
+const BASE_PATH = (productId: number) => `/v3/products/${productId}`;
+
+export const backlogService = {
+  // Backlog (epics are stored as a JSON string on the backlog record)
+  getBacklog: async (
+    productId: number,
+    options: { backlogOnly?: boolean } = {}
+  ): Promise<ProductBacklogData | null> => {
+    try {
+      const response = await api.get(`${BASE_PATH(productId)}/backlog`, {
+        params: options.backlogOnly === undefined ? undefined : { backlogOnly: options.backlogOnly },
+      });
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  saveBacklog: async (productId: number, backlogData: ProductBacklogRequest): Promise<ProductBacklogData> => {
+    const response = await api.post(`${BASE_PATH(productId)}/backlog`, backlogData);
+    return response.data;
+  },
+
+  // Epics
+  createEpic: async (productId: number, epic: Epic): Promise<Epic> => {
+    const response = await api.post(`${BASE_PATH(productId)}/backlog/epic`, epic);
+    return response.data;
+  },
+
+  updateEpic: async (productId: number, epic: Omit<Epic, 'userStories'>): Promise<Epic> => {
+    const response = await api.put(`${BASE_PATH(productId)}/backlog/${epic.id}`, epic);
+    return response.data;
+  },
+
+  // Returns the updated backlog when the backend sends one back
+  deleteEpic: async (productId: number, epicId: string, requestId?: string): Promise<ProductBacklogData | null> => {
+    const response = await api.delete(`${BASE_PATH(productId)}/backlog/${epicId}`, {
+      headers: requestId ? { 'X-Request-Id': requestId } : undefined,
+    });
+    return response.data || null;
+  },
+
+  // User stories
+  getUserStories: async (productId: number, epicId: string): Promise<UserStory[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/epics/${epicId}/user-stories`);
+    return response.data;
+  },
+
+  createUserStory: async (productId: number, epicId: string, storyData: UserStoryRequest): Promise<UserStory> => {
+    const response = await api.post(`${BASE_PATH(productId)}/epics/${epicId}/user-stories`, storyData);
+    return response.data;
+  },
+
+  updateUserStory: async (productId: number, storyId: number, storyData: UserStoryRequest): Promise<UserStory> => {
+    const response = await api.put(`${BASE_PATH(productId)}/user-stories/${storyId}`, storyData);
+    return response.data;
+  },
+
+  // Soft delete
+  deleteUserStory: async (productId: number, storyId: number): Promise<void> => {
+    await api.post(`${BASE_PATH(productId)}/user-stories/${storyId}/delete`);
+  },
+};
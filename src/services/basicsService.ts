@@ -0,0 +1,23 @@
+import api from './api';
+import { ProductBasicsData, ProductBasicsRequest } from '../types/basics';
+import { isNotFoundError } from '../utils/errorHandler';
+
+export const basicsService = {
+  // Resolves to null when the product has no basics saved yet
+  getBasics: async (productId: number): Promise<ProductBasicsData | null> => {
+    try {
+      const response = await api.get(`/products/${productId}/basics`);
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  saveBasics: async (productId: number, basicsData: ProductBasicsRequest): Promise<ProductBasicsData> => {
+    const response = await api.post(`/products/${productId}/basics`, basicsData);
+    return response.data;
+  },
+};
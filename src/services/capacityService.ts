@@ -0,0 +1,91 @@
+import api from './api';
+import {
+  CapacityPlan,
+  CapacityPlanRequest,
+  CapacityTeam,
+  CapacityTeamRequest,
+  EffortRatingConfig,
+  EffortRatingConfigRequest,
+} from '../types/capacity';
+import { isNotFoundError } from '../utils/errorHandler';
+import { QuarterInfo } from '../utils/quarterUtils';
+
+const BASE_PATH = (productId: number) => `/products/${productId}/capacity-planning`;
+const QUARTER_PATH = (productId: number, year: number, quarter: number) =>
+  `${BASE_PATH(productId)}/${year}/${quarter}`;
+
+export const capacityService = {
+  // Capacity plan (resolves to null when the quarter has no plan yet)
+  getCapacityPlan: async (productId: number, year: number, quarter: number): Promise<CapacityPlan | null> => {
+    try {
+      const response = await api.get(QUARTER_PATH(productId, year, quarter));
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  saveCapacityPlan: async (
+    productId: number,
+    year: number,
+    quarter: number,
+    planData: CapacityPlanRequest
+  ): Promise<CapacityPlan> => {
+    const response = await api.post(QUARTER_PATH(productId, year, quarter), planData);
+    return response.data;
+  },
+
+  // Teams taking part in the quarter
+  getTeams: async (productId: number, year: number, quarter: number): Promise<CapacityTeam[]> => {
+    const response = await api.get(`${QUARTER_PATH(productId, year, quarter)}/teams`);
+    return response.data;
+  },
+
+  // Creates a team and adds it to the quarter
+  createTeam: async (
+    productId: number,
+    year: number,
+    quarter: number,
+    teamData: CapacityTeamRequest
+  ): Promise<CapacityTeam> => {
+    const response = await api.post(`${QUARTER_PATH(productId, year, quarter)}/teams`, teamData);
+    return response.data;
+  },
+
+  // Adds an existing team to the quarter
+  addTeam: async (productId: number, year: number, quarter: number, teamId: number): Promise<CapacityTeam> => {
+    const response = await api.put(`${QUARTER_PATH(productId, year, quarter)}/teams/${teamId}`);
+    return response.data;
+  },
+
+  // Takes the team out of the quarter; the team itself and its membership history stay
+  deleteTeam: async (productId: number, year: number, quarter: number, teamId: number): Promise<void> => {
+    await api.delete(`${QUARTER_PATH(productId, year, quarter)}/teams/${teamId}`);
+  },
+
+  // Adds the other quarter's teams with their membership snapshots; teams already in the quarter are kept
+  copyTeams: async (productId: number, year: number, quarter: number, from: QuarterInfo): Promise<CapacityTeam[]> => {
+    const response = await api.post(`${QUARTER_PATH(productId, year, quarter)}/teams/copy`, {
+      fromYear: from.year,
+      fromQuarter: from.quarter,
+    });
+    return response.data;
+  },
+
+  // Effort rating configuration
+  getEffortRatingConfigs: async (productId: number): Promise<EffortRatingConfig[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/effort-rating-configs`);
+    return response.data;
+  },
+
+  updateEffortRatingConfig: async (
+    productId: number,
+    configData: EffortRatingConfigRequest
+  ): Promise<EffortRatingConfig> => {
+    const response = await api.put(`${BASE_PATH(productId)}/effort-rating-configs/${configData.unitType}`, configData);
+    return response.data;
+  },
+};
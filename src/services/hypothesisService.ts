@@ -0,0 +1,26 @@
+import api from './api';
+import { ProductHypothesisData, ProductHypothesisRequest } from '../types/hypothesis';
+import { isNotFoundError } from '../utils/errorHandler';
+
+export const hypothesisService = {
+  // Resolves to null when no hypothesis has been saved yet
+  getHypothesis: async (productId: number): Promise<ProductHypothesisData | null> => {
+    try {
+      const response = await api.get(`/products/${productId}/hypothesis`);
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  saveHypothesis: async (
+    productId: number,
+    hypothesisData: ProductHypothesisRequest
+  ): Promise<ProductHypothesisData> => {
+    const response = await api.post(`/products/${productId}/hypothesis`, hypothesisData);
+    return response.data;
+  },
+};
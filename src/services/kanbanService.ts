@@ -0,0 +1,94 @@
+import api from './api';
+import {
+  EpicKanbanItem,
+  KanbanBoardConfig,
+  KanbanBoardConfigRequest,
+  KanbanColumns,
+  KanbanFilterPreset,
+  KanbanFilterPresetRequest,
+  KanbanItem,
+  KanbanItemType,
+  KanbanMoveRequest,
+  KanbanStatusTransition,
+  KanbanTransitionRequest,
+} from '../types/kanban';
+import { isNotFoundError } from '../utils/errorHandler';
+
+const BASE_PATH = (productId: number) => `/v3/products/${productId}/kanban`;
+
+export const kanbanService = {
+  // User stories (negative IDs are roadmap items mirrored onto the board)
+  getItems: async (productId: number): Promise<KanbanColumns<KanbanItem>> => {
+    const response = await api.get(BASE_PATH(productId));
+    return response.data;
+  },
+
+  updateItem: async (productId: number, item: KanbanItem): Promise<KanbanItem> => {
+    const response = await api.put(`${BASE_PATH(productId)}/${item.id}`, item);
+    return response.data;
+  },
+
+  deleteItem: async (productId: number, itemId: number): Promise<void> => {
+    await api.delete(`${BASE_PATH(productId)}/${itemId}`);
+  },
+
+  moveItem: async (productId: number, itemId: number, moveData: KanbanMoveRequest): Promise<void> => {
+    await api.put(`${BASE_PATH(productId)}/${itemId}/move`, moveData);
+  },
+
+  // Epics (IDs are roadmap item IDs)
+  getEpicItems: async (productId: number): Promise<KanbanColumns<EpicKanbanItem>> => {
+    const response = await api.get(`${BASE_PATH(productId)}/epics`);
+    return response.data;
+  },
+
+  moveEpic: async (productId: number, epicId: number, moveData: KanbanMoveRequest): Promise<void> => {
+    await api.put(`${BASE_PATH(productId)}/epics/${epicId}/move`, moveData);
+  },
+
+  // Column definitions (resolves to null when the product still uses the default columns)
+  getBoardConfig: async (productId: number): Promise<KanbanBoardConfig | null> => {
+    try {
+      const response = await api.get(`${BASE_PATH(productId)}/columns`);
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  saveBoardConfig: async (productId: number, configData: KanbanBoardConfigRequest): Promise<KanbanBoardConfig> => {
+    const response = await api.put(`${BASE_PATH(productId)}/columns`, configData);
+    return response.data;
+  },
+
+  // Status-transition history, oldest first
+  getHistory: async (productId: number, itemType: KanbanItemType): Promise<KanbanStatusTransition[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/history`, {
+      params: { itemType },
+    });
+    return response.data;
+  },
+
+  recordTransition: async (productId: number, transition: KanbanTransitionRequest): Promise<KanbanStatusTransition> => {
+    const response = await api.post(`${BASE_PATH(productId)}/history`, transition);
+    return response.data;
+  },
+
+  // Saved filters for the current user
+  getFilterPresets: async (productId: number): Promise<KanbanFilterPreset[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/filter-presets`);
+    return response.data;
+  },
+
+  createFilterPreset: async (productId: number, presetData: KanbanFilterPresetRequest): Promise<KanbanFilterPreset> => {
+    const response = await api.post(`${BASE_PATH(productId)}/filter-presets`, presetData);
+    return response.data;
+  },
+
+  deleteFilterPreset: async (productId: number, presetId: number): Promise<void> => {
+    await api.delete(`${BASE_PATH(productId)}/filter-presets/${presetId}`);
+  },
+};
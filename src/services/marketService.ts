@@ -0,0 +1,26 @@
+import api from './api';
+import { MarketCompetitionData, MarketCompetitionRequest } from '../types/market';
+import { isNotFoundError } from '../utils/errorHandler';
+
+export const marketService = {
+  // Resolves to null when no analysis has been saved yet
+  getMarketCompetition: async (productId: number): Promise<MarketCompetitionData | null> => {
+    try {
+      const response = await api.get(`/products/${productId}/market-competition`);
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  saveMarketCompetition: async (
+    productId: number,
+    marketData: MarketCompetitionRequest
+  ): Promise<MarketCompetitionData> => {
+    const response = await api.post(`/products/${productId}/market-competition`, marketData);
+    return response.data;
+  },
+};
@@ -43,6 +43,11 @@ export const productService = {
     return response.data;
   },
 
+  async getProductBySlug(slug: string): Promise<Product> {
+    const response = await api.get(`/products/by-slug/${slug}`);
+    return response.data;
+  },
+
   // Method to clear cache (useful for refreshing data)
   clearCache(): void {
     productsCache = null;
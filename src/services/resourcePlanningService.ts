@@ -8,26 +8,51 @@ import {
   TeamRequest,
   TeamMemberRequest,
   ResourceAssignmentRequest,
+  MemberAvailabilityRequest,
+  PublicHoliday,
+  PublicHolidayRequest,
+  Skill,
+  SkillRequest,
+  MemberSkill,
+  RequiredSkill,
+  RateCard,
+  RateCardRequest,
+  TeamSnapshot,
+  TeamSnapshotRequest,
 } from '../types/resourcePlanning.types';
+import { QuarterInfo } from '../utils/quarterUtils';
 
 const BASE_PATH = (productId: number) => `/v3/products/${productId}/resource-planning`;
-const CAPACITY_PATH = (productId: number, year: number, quarter: number) =>
-  `/products/${productId}/capacity-planning/${year}/${quarter}`;
 
 export const resourcePlanningService = {
-  // Teams (now quarterly-scoped under capacity planning)
-  createTeam: async (productId: number, year: number, quarter: number, teamData: TeamRequest): Promise<Team> => {
-    const response = await api.post(`${CAPACITY_PATH(productId, year, quarter)}/teams`, teamData);
+  // Teams outlive quarters; capacityService decides which of them take part in each quarter's plan
+  createTeam: async (productId: number, teamData: TeamRequest): Promise<Team> => {
+    const response = await api.post(`${BASE_PATH(productId)}/teams`, teamData);
     return response.data;
   },
 
-  getTeams: async (productId: number, year: number, quarter: number): Promise<Team[]> => {
-    const response = await api.get(`${CAPACITY_PATH(productId, year, quarter)}/teams`);
+  getTeams: async (productId: number): Promise<Team[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/teams`);
     return response.data;
   },
 
-  deleteTeam: async (productId: number, year: number, quarter: number, teamId: number): Promise<void> => {
-    await api.delete(`${CAPACITY_PATH(productId, year, quarter)}/teams/${teamId}`);
+  deleteTeam: async (productId: number, teamId: number): Promise<void> => {
+    await api.delete(`${BASE_PATH(productId)}/teams/${teamId}`);
+  },
+
+  // Quarterly membership snapshots, newest first
+  getTeamHistory: async (productId: number, teamId: number): Promise<TeamSnapshot[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/teams/${teamId}/snapshots`);
+    return response.data;
+  },
+
+  // Creates or replaces the team's snapshot for the quarter
+  saveTeamSnapshot: async (productId: number, teamId: number, snapshot: TeamSnapshotRequest): Promise<TeamSnapshot> => {
+    const response = await api.put(
+      `${BASE_PATH(productId)}/teams/${teamId}/snapshots/${snapshot.year}/${snapshot.quarter}`,
+      snapshot
+    );
+    return response.data;
   },
 
   // Members
@@ -48,6 +73,24 @@ export const resourcePlanningService = {
     return response.data;
   },
 
+  // Members of several teams at once, keyed by team, for capacity calculations. With a quarter,
+  // each team's members are the ones in its snapshot for that quarter rather than today's.
+  getMembersByTeam: async (
+    productId: number,
+    teamIds: number[],
+    asOf?: QuarterInfo
+  ): Promise<Map<number, TeamMember[]>> => {
+    const members = await Promise.all(
+      teamIds.map(async teamId => {
+        const response = await api.get(`${BASE_PATH(productId)}/teams/${teamId}/members`, {
+          params: asOf ? { year: asOf.year, quarter: asOf.quarter } : undefined,
+        });
+        return [teamId, response.data as TeamMember[]] as const;
+      })
+    );
+    return new Map(members);
+  },
+
   getAllMembers: async (productId: number): Promise<TeamMember[]> => {
     const response = await api.get(`${BASE_PATH(productId)}/members`);
     return response.data;
@@ -68,6 +111,84 @@ export const resourcePlanningService = {
     await api.delete(`${BASE_PATH(productId)}/members/${memberId}`);
   },
 
+  // Availability: FTE, location and planned time off replace what was stored before
+  updateMemberAvailability: async (
+    productId: number,
+    memberId: number,
+    availability: MemberAvailabilityRequest
+  ): Promise<TeamMember> => {
+    const response = await api.put(`${BASE_PATH(productId)}/members/${memberId}/availability`, availability);
+    return response.data;
+  },
+
+  // Skills
+  getSkills: async (productId: number): Promise<Skill[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/skills`);
+    return response.data;
+  },
+
+  createSkill: async (productId: number, skill: SkillRequest): Promise<Skill> => {
+    const response = await api.post(`${BASE_PATH(productId)}/skills`, skill);
+    return response.data;
+  },
+
+  deleteSkill: async (productId: number, skillId: number): Promise<void> => {
+    await api.delete(`${BASE_PATH(productId)}/skills/${skillId}`);
+  },
+
+  updateMemberSkills: async (productId: number, memberId: number, skills: MemberSkill[]): Promise<TeamMember> => {
+    const response = await api.put(`${BASE_PATH(productId)}/members/${memberId}/skills`, skills);
+    return response.data;
+  },
+
+  updateEpicRequiredSkills: async (
+    productId: number,
+    epicId: string,
+    skills: RequiredSkill[]
+  ): Promise<BacklogEpic> => {
+    const response = await api.put(`${BASE_PATH(productId)}/epics/${epicId}/required-skills`, skills);
+    return response.data;
+  },
+
+  updateStoryRequiredSkills: async (
+    productId: number,
+    userStoryId: number,
+    skills: RequiredSkill[]
+  ): Promise<UserStory> => {
+    const response = await api.put(`${BASE_PATH(productId)}/user-stories/${userStoryId}/required-skills`, skills);
+    return response.data;
+  },
+
+  // Public holidays
+  getHolidays: async (productId: number): Promise<PublicHoliday[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/holidays`);
+    return response.data;
+  },
+
+  createHoliday: async (productId: number, holiday: PublicHolidayRequest): Promise<PublicHoliday> => {
+    const response = await api.post(`${BASE_PATH(productId)}/holidays`, holiday);
+    return response.data;
+  },
+
+  deleteHoliday: async (productId: number, holidayId: number): Promise<void> => {
+    await api.delete(`${BASE_PATH(productId)}/holidays/${holidayId}`);
+  },
+
+  // Rate cards
+  getRateCards: async (productId: number): Promise<RateCard[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/rate-cards`);
+    return response.data;
+  },
+
+  createRateCard: async (productId: number, rateCard: RateCardRequest): Promise<RateCard> => {
+    const response = await api.post(`${BASE_PATH(productId)}/rate-cards`, rateCard);
+    return response.data;
+  },
+
+  deleteRateCard: async (productId: number, rateCardId: number): Promise<void> => {
+    await api.delete(`${BASE_PATH(productId)}/rate-cards/${rateCardId}`);
+  },
+
   // Integration with existing system
   getPublishedEpics: async (productId: number): Promise<BacklogEpic[]> => {
     const response = await api.get(`${BASE_PATH(productId)}/epics`);
@@ -98,6 +219,15 @@ export const resourcePlanningService = {
     return response.data;
   },
 
+  updateAssignment: async (
+    productId: number,
+    assignmentId: number,
+    assignmentData: ResourceAssignmentRequest
+  ): Promise<ResourceAssignment> => {
+    const response = await api.put(`${BASE_PATH(productId)}/assignments/${assignmentId}`, assignmentData);
+    return response.data;
+  },
+
   deleteAssignment: async (productId: number, assignmentId: number): Promise<void> => {
     await api.delete(`${BASE_PATH(productId)}/assignments/${assignmentId}`);
   },
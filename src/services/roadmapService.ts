@@ -0,0 +1,146 @@
+import api from './api';
+import {
+  InitiativeBudget,
+  InitiativeBudgetRequest,
+  PublishRoadmapRequest,
+  RoadmapPlannerData,
+  RoadmapRequest,
+  RoadmapScenario,
+  RoadmapScenarioRequest,
+  RoadmapSnapshot,
+  RoadmapSnapshotRequest,
+  ScoringConfig,
+} from '../types/roadmap';
+import { isNotFoundError } from '../utils/errorHandler';
+
+const BASE_PATH = (productId: number) => `/v2/products/${productId}/roadmap`;
+const SCENARIO_PATH = (productId: number, year: number, quarter: number) =>
+  `${BASE_PATH(productId)}/${year}/${quarter}/scenarios`;
+
+export const roadmapService = {
+  // Resolves to null when nothing has been planned for the quarter yet
+  getRoadmap: async (
+    productId: number,
+    year: number,
+    quarter: number,
+    options: { publishedOnly?: boolean } = {}
+  ): Promise<RoadmapPlannerData | null> => {
+    try {
+      const response = await api.get(`${BASE_PATH(productId)}/${year}/${quarter}`, {
+        params: options.publishedOnly ? { publishedOnly: true } : undefined,
+      });
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  // Replaces the quarter's items; rejects with 409 when an epic is planned in another quarter
+  saveRoadmap: async (productId: number, roadmapData: RoadmapRequest): Promise<RoadmapPlannerData> => {
+    const response = await api.post(BASE_PATH(productId), roadmapData);
+    return response.data;
+  },
+
+  publishQuarter: async (
+    productId: number,
+    year: number,
+    quarter: number,
+    publishData: PublishRoadmapRequest
+  ): Promise<void> => {
+    await api.post(`${BASE_PATH(productId)}/${year}/${quarter}/publish`, publishData);
+  },
+
+  // Snapshots are append-only; the newest one is first
+  getSnapshots: async (productId: number, year: number, quarter: number): Promise<RoadmapSnapshot[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/${year}/${quarter}/snapshots`);
+    return response.data;
+  },
+
+  createSnapshot: async (productId: number, snapshotData: RoadmapSnapshotRequest): Promise<RoadmapSnapshot> => {
+    const response = await api.post(
+      `${BASE_PATH(productId)}/${snapshotData.year}/${snapshotData.quarter}/snapshots`,
+      snapshotData
+    );
+    return response.data;
+  },
+
+  // Resolves to null when the product still uses the default framework
+  getScoringConfig: async (productId: number): Promise<ScoringConfig | null> => {
+    try {
+      const response = await api.get(`${BASE_PATH(productId)}/scoring-config`);
+      return response.data;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  saveScoringConfig: async (productId: number, config: ScoringConfig): Promise<ScoringConfig> => {
+    const response = await api.put(`${BASE_PATH(productId)}/scoring-config`, config);
+    return response.data;
+  },
+
+  updateEffortRating: async (
+    productId: number,
+    year: number,
+    quarter: number,
+    epicId: string,
+    effortRating: number
+  ): Promise<void> => {
+    await api.put(`${BASE_PATH(productId)}/${year}/${quarter}/epics/${epicId}/effort-rating`, { effortRating });
+  },
+
+  getBudgets: async (productId: number, year: number, quarter: number): Promise<InitiativeBudget[]> => {
+    const response = await api.get(`${BASE_PATH(productId)}/${year}/${quarter}/budgets`);
+    return response.data;
+  },
+
+  // Creates or replaces the initiative's budget for the quarter
+  saveBudget: async (productId: number, budget: InitiativeBudgetRequest): Promise<InitiativeBudget> => {
+    const response = await api.put(
+      `${BASE_PATH(productId)}/${budget.year}/${budget.quarter}/budgets/${budget.initiativeId}`,
+      budget
+    );
+    return response.data;
+  },
+
+  // Epic IDs already planned in any quarter other than the excluded one
+  getAssignedEpicIds: async (productId: number, excludeYear: number, excludeQuarter: number): Promise<string[]> => {
+    const response = await api.get(`/products/${productId}/roadmap/assigned-epics`, {
+      params: { excludeYear, excludeQuarter },
+    });
+    return response.data;
+  },
+
+  // What-if scenarios, stored separately from the quarter's real roadmap
+  getScenarios: async (productId: number, year: number, quarter: number): Promise<RoadmapScenario[]> => {
+    const response = await api.get(SCENARIO_PATH(productId, year, quarter));
+    return response.data;
+  },
+
+  createScenario: async (productId: number, scenarioData: RoadmapScenarioRequest): Promise<RoadmapScenario> => {
+    const response = await api.post(SCENARIO_PATH(productId, scenarioData.year, scenarioData.quarter), scenarioData);
+    return response.data;
+  },
+
+  updateScenario: async (
+    productId: number,
+    scenarioId: number,
+    scenarioData: RoadmapScenarioRequest
+  ): Promise<RoadmapScenario> => {
+    const response = await api.put(
+      `${SCENARIO_PATH(productId, scenarioData.year, scenarioData.quarter)}/${scenarioId}`,
+      scenarioData
+    );
+    return response.data;
+  },
+
+  deleteScenario: async (productId: number, year: number, quarter: number, scenarioId: number): Promise<void> => {
+    await api.delete(`${SCENARIO_PATH(productId, year, quarter)}/${scenarioId}`);
+  },
+};
@@ -0,0 +1,46 @@
+import api from './api';
+import { Sprint, SprintCloseRequest, SprintRequest } from '../types/sprint';
+
+const BASE_PATH = (productId: number) => `/v3/products/${productId}/sprints`;
+
+export const sprintService = {
+  getSprints: async (productId: number): Promise<Sprint[]> => {
+    const response = await api.get(BASE_PATH(productId));
+    return response.data;
+  },
+
+  createSprint: async (productId: number, sprintData: SprintRequest): Promise<Sprint> => {
+    const response = await api.post(BASE_PATH(productId), sprintData);
+    return response.data;
+  },
+
+  updateSprint: async (productId: number, sprintId: number, sprintData: SprintRequest): Promise<Sprint> => {
+    const response = await api.put(`${BASE_PATH(productId)}/${sprintId}`, sprintData);
+    return response.data;
+  },
+
+  deleteSprint: async (productId: number, sprintId: number): Promise<void> => {
+    await api.delete(`${BASE_PATH(productId)}/${sprintId}`);
+  },
+
+  // Freezes the committed points
+  startSprint: async (productId: number, sprintId: number): Promise<Sprint> => {
+    const response = await api.post(`${BASE_PATH(productId)}/${sprintId}/start`);
+    return response.data;
+  },
+
+  closeSprint: async (productId: number, sprintId: number, closeData: SprintCloseRequest): Promise<Sprint> => {
+    const response = await api.post(`${BASE_PATH(productId)}/${sprintId}/close`, closeData);
+    return response.data;
+  },
+
+  addStories: async (productId: number, sprintId: number, storyIds: number[]): Promise<Sprint> => {
+    const response = await api.post(`${BASE_PATH(productId)}/${sprintId}/stories`, { storyIds });
+    return response.data;
+  },
+
+  removeStory: async (productId: number, sprintId: number, storyId: number): Promise<Sprint> => {
+    const response = await api.delete(`${BASE_PATH(productId)}/${sprintId}/stories/${storyId}`);
+    return response.data;
+  },
+};
@@ -0,0 +1,46 @@
+export interface ProductBacklogData {
+  id?: number;
+  productId: number;
+  epics: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface UserStory {
+  id?: number;
+  title: string;
+  description: string;
+  acceptanceCriteria?: string;
+  priority: 'High' | 'Medium' | 'Low';
+  storyPoints?: number;
+  status?: 'Draft' | 'Ready' | 'In Progress' | 'Done' | 'Blocked';
+  displayOrder?: number;
+}
+
+export interface Epic {
+  id: string;
+  name: string;
+  description: string;
+  themeId: string;
+  themeName: string;
+  themeColor: string;
+  initiativeId: string;
+  initiativeName: string;
+  track: string;
+  // IDs of epics that have to finish before this one can start
+  blockedBy?: string[];
+  userStories?: UserStory[];
+}
+
+export interface ProductBacklogRequest {
+  epics: string;
+}
+
+export interface UserStoryRequest {
+  title: string;
+  description: string;
+  acceptanceCriteria?: string;
+  priority: UserStory['priority'];
+  storyPoints?: number;
+  status: NonNullable<UserStory['status']>;
+}
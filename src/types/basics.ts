@@ -0,0 +1,26 @@
+export interface ProductBasicsData {
+  id?: number;
+  productId: number;
+  vision: string;
+  targetPersonas: string;
+  goals: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface Goal {
+  id: string;
+  description: string;
+}
+
+export interface ProductBasicsRequest {
+  vision: string;
+  targetPersonas: string;
+  goals: string;
+}
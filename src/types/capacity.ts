@@ -0,0 +1,68 @@
+export interface CapacityTeam {
+  id: number;
+  name: string;
+  description: string;
+  productId: number;
+  isActive: boolean;
+}
+
+export interface EpicEffort {
+  id?: number;
+  capacityPlanId?: number;
+  epicId: string;
+  epicName: string;
+  teamId: number;
+  teamName?: string;
+  effortDays: number;
+  notes?: string;
+}
+
+export interface EffortRatingConfig {
+  id?: number;
+  productId: number;
+  unitType: string;
+  star1Max: number;
+  star2Min: number;
+  star2Max: number;
+  star3Min: number;
+  star3Max: number;
+  star4Min: number;
+  star4Max: number;
+  star5Min: number;
+}
+
+export type EffortUnit = 'SPRINTS' | 'DAYS';
+
+// Per-quarter inputs that turn a team's members into available capacity
+export interface TeamCapacitySettings {
+  teamId: number;
+  holidayDays: number; // Working days in the quarter nobody on the team is available
+  allocationPercent: number; // Share of time left for roadmap work
+}
+
+export interface CapacityPlan {
+  id?: number;
+  productId: number;
+  year: number;
+  quarter: number;
+  effortUnit?: string;
+  teams: CapacityTeam[];
+  epicEfforts: EpicEffort[];
+  teamCapacities?: TeamCapacitySettings[];
+}
+
+export interface CapacityPlanRequest {
+  year: number;
+  quarter: number;
+  effortUnit: EffortUnit;
+  epicEfforts: EpicEffort[];
+  teamCapacities?: TeamCapacitySettings[];
+}
+
+export interface CapacityTeamRequest {
+  name: string;
+  description: string;
+  isActive: boolean;
+}
+
+export type EffortRatingConfigRequest = Omit<EffortRatingConfig, 'id' | 'productId'>;
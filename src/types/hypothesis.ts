@@ -0,0 +1,38 @@
+export interface ProductHypothesisData {
+  id?: number;
+  productId: number;
+  hypothesisStatement: string;
+  successMetrics: string;
+  assumptions: string;
+  initiatives: string;
+  themes: string;
+  createdAt?: string;
+  updatedAt?: string;
+  warnings?: string[];
+}
+
+export interface Initiative {
+  id: string;
+  title: string;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface Assumption {
+  id: string;
+  assumption: string;
+  confidence: string;
+  impact: string;
+}
+
+export interface ProductHypothesisRequest {
+  hypothesisStatement: string;
+  successMetrics: string;
+  assumptions: string;
+  initiatives: string;
+  themes: string;
+}
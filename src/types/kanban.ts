@@ -0,0 +1,108 @@
+export interface KanbanItem {
+  id: number;
+  title: string;
+  description?: string;
+  status: string;
+  position: number;
+  priority?: string | null; // null clears the field on update; undefined is left out of the request
+  assignee?: string | null;
+  dueDate?: string;
+  labels?: string;
+  epicId?: string | null;
+  storyPoints?: number;
+  blocked?: boolean;
+  blockedReason?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface EpicKanbanItem {
+  id: number;
+  epicName: string;
+  description?: string;
+  status: string;
+  position: number;
+  priority?: string;
+  targetQuarter?: string;
+  startDate?: string;
+  endDate?: string;
+  totalStoryPoints?: number;
+  completedStoryPoints?: number;
+  userStoriesCount?: number;
+}
+
+export interface KanbanColumns<T> {
+  [status: string]: T[];
+}
+
+export interface KanbanMoveRequest {
+  status: string;
+  position: number;
+}
+
+export interface KanbanColumnConfig {
+  id: string; // Status key stored on items
+  title: string;
+  color: string;
+  order: number;
+  wipLimit?: number | null;
+  isDone: boolean; // Items here count as finished work
+}
+
+// What happens when a move would push a column past its WIP limit
+export type WipLimitPolicy = 'WARN' | 'BLOCK';
+
+export interface KanbanBoardConfig {
+  productId: number;
+  columns: KanbanColumnConfig[];
+  wipPolicy?: WipLimitPolicy;
+}
+
+export interface KanbanBoardConfigRequest {
+  columns: KanbanColumnConfig[];
+  wipPolicy: WipLimitPolicy;
+  // Old status -> new status, applied to stored items when columns are removed
+  statusMapping: Record<string, string>;
+}
+
+export type KanbanItemType = 'STORY' | 'EPIC';
+
+export interface KanbanStatusTransition {
+  id: number;
+  itemId: number;
+  itemType: KanbanItemType;
+  fromStatus: string | null; // null when the item entered the board
+  toStatus: string;
+  changedAt: string;
+}
+
+export interface KanbanTransitionRequest {
+  itemId: number;
+  itemType: KanbanItemType;
+  fromStatus: string | null;
+  toStatus: string;
+}
+
+// Empty strings mean "no restriction"
+export interface KanbanFilter {
+  search: string;
+  assignee: string;
+  priority: string;
+  label: string;
+  epicId: string;
+  dueFrom: string;
+  dueTo: string;
+}
+
+// Presets belong to the signed-in user
+export interface KanbanFilterPreset {
+  id: number;
+  name: string;
+  filter: KanbanFilter;
+  createdAt?: string;
+}
+
+export interface KanbanFilterPresetRequest {
+  name: string;
+  filter: KanbanFilter;
+}
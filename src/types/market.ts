@@ -0,0 +1,35 @@
+export interface MarketCompetitionData {
+  id?: number;
+  productId: number;
+  marketSize: string;
+  marketGrowth: string;
+  targetMarket: string;
+  competitors: string;
+  competitiveAdvantage: string;
+  marketTrends: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Competitor {
+  id: string;
+  name: string;
+  strengths: string;
+  weaknesses: string;
+  marketShare: string;
+}
+
+export interface Trend {
+  id: string;
+  description: string;
+  impact: string;
+}
+
+export interface MarketCompetitionRequest {
+  marketSize: string;
+  marketGrowth: string;
+  targetMarket: string;
+  competitors: string;
+  competitiveAdvantage: string;
+  marketTrends: string;
+}
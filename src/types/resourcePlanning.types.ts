@@ -14,11 +14,74 @@ export interface TeamMember {
   memberName: string;
   role?: string;
   email?: string;
+  ftePercent?: number; // Share of a full-time week, 100 when not set
+  location?: string; // Matches PublicHoliday.location
+  timeOff?: MemberTimeOff[];
+  skills?: MemberSkill[];
   createdAt: string;
   updatedAt: string;
   team?: Team;
 }
 
+// Who was on a team in one quarter, so past quarters keep their own membership
+export interface TeamSnapshot {
+  id?: number;
+  teamId: number;
+  year: number;
+  quarter: number;
+  members: TeamSnapshotMember[];
+  createdAt?: string;
+}
+
+// Names are copied in so the history still reads right after a member moves or leaves
+export interface TeamSnapshotMember {
+  memberId: number;
+  memberName: string;
+  role?: string;
+}
+
+export interface MemberTimeOff {
+  id?: number;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+export interface Skill {
+  id: number;
+  name: string;
+}
+
+// 1 = beginner up to 4 = expert
+export type ProficiencyLevel = 1 | 2 | 3 | 4;
+
+export interface MemberSkill {
+  skillId: number;
+  level: ProficiencyLevel;
+}
+
+// Lowest proficiency a story needs in a skill
+export interface RequiredSkill {
+  skillId: number;
+  level: ProficiencyLevel;
+}
+
+export interface PublicHoliday {
+  id: number;
+  date: string;
+  name: string;
+  location: string;
+}
+
+// Daily cost of a member's time. A card for a member overrides the card for their role
+export interface RateCard {
+  id: number;
+  role?: string;
+  memberId?: number;
+  dailyRate: number;
+  currency: string; // ISO 4217 code, e.g. USD
+}
+
 export interface UserStory {
   id: number;
   title: string;
@@ -29,6 +92,7 @@ export interface UserStory {
   storyPoints?: number;
   priority?: string;
   status?: string;
+  requiredSkills?: RequiredSkill[]; // Falls back to the epic's when empty
   epic?: BacklogEpic;
 }
 
@@ -40,6 +104,7 @@ export interface BacklogEpic {
   priority?: string;
   status?: string;
   published: boolean;
+  requiredSkills?: RequiredSkill[];
 }
 
 export interface ResourceAssignment {
@@ -48,6 +113,7 @@ export interface ResourceAssignment {
   memberId: number;
   startDate: string;
   endDate: string;
+  allocationPercent?: number; // Share of the member's time on each day of the range, 100 when not set
   productId: number;
   createdAt: string;
   updatedAt: string;
@@ -60,17 +126,44 @@ export interface TeamRequest {
   description?: string;
 }
 
+export interface TeamSnapshotRequest {
+  year: number;
+  quarter: number;
+  memberIds: number[];
+}
+
 export interface TeamMemberRequest {
   memberName: string;
   role?: string;
   email?: string;
+  ftePercent?: number;
+  location?: string;
+}
+
+export interface MemberAvailabilityRequest {
+  ftePercent: number;
+  location?: string;
+  timeOff: MemberTimeOff[];
+}
+
+export interface SkillRequest {
+  name: string;
 }
 
+export interface PublicHolidayRequest {
+  date: string;
+  name: string;
+  location: string;
+}
+
+export type RateCardRequest = Omit<RateCard, 'id'>;
+
 export interface ResourceAssignmentRequest {
   userStoryId: number;
   memberId: number;
   startDate: string;
   endDate: string;
+  allocationPercent?: number;
 }
 
 export interface ResourcePlanningState {
@@ -83,6 +176,9 @@ export interface ResourcePlanningState {
   assignments: ResourceAssignment[];
   availableMembers: TeamMember[];
   allMembers: TeamMember[];
+  holidays: PublicHoliday[];
+  skills: Skill[];
+  rateCards: RateCard[];
   loading: boolean;
   error: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { EffortUnit, EpicEffort, TeamCapacitySettings } from './capacity';
+
+export interface RoadmapItem {
+  epicId: string;
+  epicName: string;
+  epicDescription: string;
+  priority: string;
+  status: string;
+  estimatedEffort: string;
+  assignedTeam: string;
+  reach: number;
+  impact: number;
+  confidence: number;
+  riceScore: number;
+  effortRating?: number; // Auto-filled from capacity planning
+  startDate?: string;
+  endDate?: string;
+  published?: boolean; // Track published status
+  initiativeId?: string;
+  initiativeName?: string;
+  themeId?: string;
+  themeName?: string;
+  themeColor?: string;
+  track?: string;
+  scoreInputs?: Record<string, number>; // Inputs for scoring frameworks other than RICE
+}
+
+export interface RoadmapPlannerData {
+  id?: number;
+  productId: number;
+  year: number;
+  quarter: number;
+  roadmapItems: RoadmapItem[];
+}
+
+// Published item as shown in the visualization, keyed by year and quarter
+export interface RoadmapTimelineItem extends RoadmapItem {
+  id: string;
+  startDate: string;
+  endDate: string;
+  year: number;
+  quarter: number;
+}
+
+export interface RoadmapRequest {
+  year: number;
+  quarter: number;
+  roadmapItems: Omit<RoadmapItem, 'published'>[];
+}
+
+export interface PublishRoadmapRequest {
+  epicIds: string[];
+}
+
+export interface ScenarioTeamCapacity {
+  teamId: number;
+  teamName: string;
+  capacity: number; // In the scenario's effort unit
+}
+
+// A what-if copy of a quarter's roadmap and capacity plan
+export interface RoadmapScenario {
+  id: number;
+  productId: number;
+  year: number;
+  quarter: number;
+  name: string;
+  description?: string;
+  effortUnit: EffortUnit;
+  roadmapItems: RoadmapItem[];
+  epicEfforts: EpicEffort[];
+  teamCapacities: ScenarioTeamCapacity[];
+  capacitySettings?: TeamCapacitySettings[]; // The plan's holiday and allocation settings, saved back on promotion
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type RoadmapScenarioRequest = Omit<RoadmapScenario, 'id' | 'productId' | 'createdAt' | 'updatedAt'>;
+
+// Immutable copy of a quarter's roadmap as it was published
+export interface RoadmapSnapshot {
+  id: number;
+  productId: number;
+  year: number;
+  quarter: number;
+  version: number;
+  roadmapItems: RoadmapItem[];
+  publishedAt: string;
+  publishedBy?: string;
+}
+
+export type RoadmapSnapshotRequest = Pick<RoadmapSnapshot, 'year' | 'quarter' | 'roadmapItems'>;
+
+// Spend allowed for one initiative in one quarter
+export interface InitiativeBudget {
+  id?: number;
+  initiativeId: string;
+  initiativeName?: string;
+  year: number;
+  quarter: number;
+  amount: number;
+  currency: string;
+}
+
+export type InitiativeBudgetRequest = Omit<InitiativeBudget, 'id'>;
+
+export type ScoringFramework = 'RICE' | 'ICE' | 'WSJF' | 'MOSCOW' | 'WEIGHTED';
+
+export type CriterionDirection = 'higher' | 'lower';
+
+export interface ScoringCriterion {
+  id: string;
+  name: string;
+  scale: number; // Highest rating, e.g. 5 for one to five stars
+  weight: number;
+  direction: CriterionDirection; // 'lower' for criteria like cost or risk
+}
+
+// Per-product choice of how roadmap items are prioritized
+export interface ScoringConfig {
+  framework: ScoringFramework;
+  criteria: ScoringCriterion[]; // Only used by the weighted framework
+}
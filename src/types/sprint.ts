@@ -0,0 +1,41 @@
+import { UserStory } from './backlog';
+
+export type SprintStatus = 'PLANNED' | 'ACTIVE' | 'CLOSED';
+
+export interface SprintStory extends UserStory {
+  id: number;
+  epicId: string;
+  epicName: string;
+  carriedOverFromSprintId?: number | null;
+}
+
+export interface Sprint {
+  id: number;
+  productId: number;
+  name: string;
+  goal: string;
+  startDate: string;
+  endDate: string;
+  status: SprintStatus;
+  teamId?: number | null;
+  teamName?: string;
+  stories: SprintStory[];
+  // Snapshot of the story points in the sprint when it was started
+  committedPoints?: number;
+  // Story points finished when the sprint was closed
+  completedPoints?: number;
+  closedAt?: string;
+}
+
+export interface SprintRequest {
+  name: string;
+  goal: string;
+  startDate: string;
+  endDate: string;
+  teamId?: number | null;
+}
+
+export interface SprintCloseRequest {
+  // Unfinished stories move to this sprint, or back to the backlog when null
+  carryOverSprintId: number | null;
+}
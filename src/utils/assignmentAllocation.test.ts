@@ -0,0 +1,120 @@
+import { ResourceAssignment, TeamMember } from '../types/resourcePlanning.types';
+import {
+  findConflictsFor,
+  findFreeMembers,
+  findNextFreeDates,
+  findOverAllocations,
+  formatOverAllocation,
+} from './assignmentAllocation';
+
+const member = (id: number): TeamMember => ({
+  id,
+  teamId: 1,
+  memberName: `Member ${id}`,
+  createdAt: '',
+  updatedAt: '',
+});
+
+const assignment = (overrides: Partial<ResourceAssignment>): ResourceAssignment => ({
+  id: 1,
+  userStoryId: 1,
+  memberId: 1,
+  startDate: '2025-06-02',
+  endDate: '2025-06-06',
+  productId: 1,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+});
+
+describe('findOverAllocations', () => {
+  test('merges consecutive over-allocated days into one period', () => {
+    const conflicts = findOverAllocations([
+      assignment({ id: 1, allocationPercent: 60 }),
+      assignment({ id: 2, startDate: '2025-06-04', endDate: '2025-06-10', allocationPercent: 60 }),
+    ]);
+
+    expect(conflicts).toEqual([
+      { memberId: 1, startDate: '2025-06-04', endDate: '2025-06-06', peakPercent: 120, assignmentIds: [1, 2] },
+    ]);
+  });
+
+  test('treats a missing allocation as 100%', () => {
+    const conflicts = findOverAllocations([
+      assignment({ id: 1 }),
+      assignment({ id: 2, startDate: '2025-06-06T00:00:00', endDate: '2025-06-06', allocationPercent: 10 }),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].peakPercent).toBe(110);
+    expect(conflicts[0].startDate).toBe('2025-06-06');
+  });
+
+  test('allows exactly 100% and ignores overlaps between different members', () => {
+    expect(findOverAllocations([
+      assignment({ id: 1, allocationPercent: 50 }),
+      assignment({ id: 2, allocationPercent: 50 }),
+      assignment({ id: 3, memberId: 2 }),
+    ])).toEqual([]);
+  });
+});
+
+describe('findConflictsFor', () => {
+  const existing = [
+    assignment({ id: 1 }),
+    assignment({ id: 2, memberId: 2, allocationPercent: 80 }),
+    assignment({ id: 3, memberId: 2, allocationPercent: 80 }),
+  ];
+
+  test('reports only conflicts the assignment is part of', () => {
+    const conflicts = findConflictsFor(existing, assignment({ id: 4, startDate: '2025-06-05', allocationPercent: 50 }));
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ memberId: 1, startDate: '2025-06-05', endDate: '2025-06-06', peakPercent: 150 });
+  });
+
+  test('leaves out the saved version of an assignment being edited', () => {
+    expect(findConflictsFor(existing, assignment({ id: 1, allocationPercent: 90 }))).toEqual([]);
+  });
+});
+
+describe('findNextFreeDates', () => {
+  test('shifts the assignment past the clash, keeping its duration', () => {
+    const existing = [assignment({ id: 1 })];
+
+    expect(findNextFreeDates(existing, assignment({ id: 2, startDate: '2025-06-05', endDate: '2025-06-08' })))
+      .toEqual({ startDate: '2025-06-07', endDate: '2025-06-10' });
+  });
+
+  test('gives up when no free slot is found within the search window', () => {
+    const existing = [assignment({ id: 1, endDate: '2025-12-31' })];
+
+    expect(findNextFreeDates(existing, assignment({ id: 2 }))).toBeNull();
+  });
+});
+
+describe('findFreeMembers', () => {
+  test('suggests other members who stay at or below 100%', () => {
+    const existing = [
+      assignment({ id: 1 }),
+      assignment({ id: 2, memberId: 2, allocationPercent: 50 }),
+      assignment({ id: 3, memberId: 3, allocationPercent: 60 }),
+    ];
+    const conflicting = assignment({ id: 4, allocationPercent: 50 });
+
+    expect(findFreeMembers(existing, conflicting, [member(1), member(2), member(3), member(4)]).map(m => m.id))
+      .toEqual([2, 4]);
+  });
+});
+
+describe('formatOverAllocation', () => {
+  test('shows a single day without a range', () => {
+    expect(formatOverAllocation({
+      memberId: 1,
+      startDate: '2025-06-04',
+      endDate: '2025-06-04',
+      peakPercent: 120,
+      assignmentIds: [1, 2],
+    })).toBe('120% on Jun 4');
+  });
+});
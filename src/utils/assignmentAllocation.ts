@@ -0,0 +1,121 @@
+/**
+ * Allocation percentages on assignments and detection of members booked above 100% on any day
+ */
+
+import { ResourceAssignment, TeamMember } from '../types/resourcePlanning.types';
+import { AssignmentDates, shiftDates, toDateKey } from './assignmentTimeline';
+import { addDays, formatLocalDate, parseLocalDate } from './quarterUtils';
+
+export const DEFAULT_ALLOCATION_PERCENT = 100;
+
+// Id given to an assignment that has not been created yet, when checking it against existing ones
+export const NEW_ASSIGNMENT_ID = 0;
+
+// How far ahead a conflicting assignment is searched for a free slot
+const MAX_SHIFT_DAYS = 90;
+
+type AllocatedAssignment = Pick<ResourceAssignment, 'id' | 'memberId' | 'startDate' | 'endDate' | 'allocationPercent'>;
+
+export interface OverAllocation {
+  memberId: number;
+  startDate: string;
+  endDate: string;
+  peakPercent: number;
+  assignmentIds: number[];
+}
+
+export const getAllocation = (assignment: Pick<ResourceAssignment, 'allocationPercent'>): number =>
+  assignment.allocationPercent ?? DEFAULT_ALLOCATION_PERCENT;
+
+const nextDateKey = (key: string) => formatLocalDate(addDays(parseLocalDate(key), 1));
+
+const eachDateKey = (dates: AssignmentDates): string[] => {
+  const keys: string[] = [];
+  const end = toDateKey(dates.endDate);
+  for (let key = toDateKey(dates.startDate); key <= end; key = nextDateKey(key)) {
+    keys.push(key);
+  }
+  return keys;
+};
+
+/**
+ * Periods where a member's allocations add up to more than 100%. Consecutive over-allocated days
+ * are merged into one period, reporting the highest daily total and every assignment involved.
+ */
+export const findOverAllocations = (assignments: AllocatedAssignment[]): OverAllocation[] => {
+  const memberIds = Array.from(new Set(assignments.map(assignment => assignment.memberId)));
+
+  return memberIds.flatMap(memberId => {
+    const days = new Map<string, { percent: number; ids: number[] }>();
+    assignments
+      .filter(assignment => assignment.memberId === memberId)
+      .forEach(assignment => {
+        eachDateKey(assignment).forEach(key => {
+          const day = days.get(key) || { percent: 0, ids: [] };
+          days.set(key, { percent: day.percent + getAllocation(assignment), ids: [...day.ids, assignment.id] });
+        });
+      });
+
+    const periods: OverAllocation[] = [];
+    Array.from(days.keys())
+      .filter(key => days.get(key)!.percent > 100)
+      .sort()
+      .forEach(key => {
+        const day = days.get(key)!;
+        const last = periods[periods.length - 1];
+        if (last && nextDateKey(last.endDate) === key) {
+          last.endDate = key;
+          last.peakPercent = Math.max(last.peakPercent, day.percent);
+          last.assignmentIds = Array.from(new Set([...last.assignmentIds, ...day.ids]));
+        } else {
+          periods.push({ memberId, startDate: key, endDate: key, peakPercent: day.percent, assignmentIds: day.ids });
+        }
+      });
+    return periods;
+  });
+};
+
+// Over-allocations the given assignment would cause or be part of, with any older version of it left out.
+// Only the assignment's own member is checked, since nobody else's days can change.
+export const findConflictsFor = (
+  assignments: AllocatedAssignment[],
+  assignment: AllocatedAssignment
+): OverAllocation[] =>
+  findOverAllocations([
+    ...assignments.filter(a => a.memberId === assignment.memberId && a.id !== assignment.id),
+    assignment,
+  ]).filter(conflict => conflict.assignmentIds.includes(assignment.id));
+
+// Earliest later dates, keeping the duration, at which the assignment no longer over-allocates its member
+export const findNextFreeDates = (
+  assignments: AllocatedAssignment[],
+  assignment: AllocatedAssignment
+): AssignmentDates | null => {
+  for (let offset = 1; offset <= MAX_SHIFT_DAYS; offset++) {
+    const dates = shiftDates(assignment, offset);
+    if (findConflictsFor(assignments, { ...assignment, ...dates }).length === 0) {
+      return dates;
+    }
+  }
+  return null;
+};
+
+// Other members who could take the assignment on the same dates without going over 100%
+export const findFreeMembers = (
+  assignments: AllocatedAssignment[],
+  assignment: AllocatedAssignment,
+  members: TeamMember[]
+): TeamMember[] =>
+  members.filter(
+    member =>
+      member.id !== assignment.memberId &&
+      findConflictsFor(assignments, { ...assignment, memberId: member.id }).length === 0
+  );
+
+export const formatOverAllocation = (conflict: OverAllocation): string => {
+  const format = (key: string) => parseLocalDate(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const period = conflict.startDate === conflict.endDate
+    ? format(conflict.startDate)
+    : `${format(conflict.startDate)} – ${format(conflict.endDate)}`;
+  return `${conflict.peakPercent}% on ${period}`;
+};
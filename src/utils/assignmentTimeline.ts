@@ -0,0 +1,47 @@
+/**
+ * Layout and colouring for the per-member assignment timeline
+ */
+
+import { ResourceAssignment } from '../types/resourcePlanning.types';
+import { addDays, formatLocalDate, parseLocalDate } from './quarterUtils';
+
+export interface AssignmentDates {
+  startDate: string;
+  endDate: string;
+}
+
+const EPIC_COLORS = ['#5A9B97', '#6366F1', '#F59E0B', '#EC4899', '#10B981', '#8B5CF6', '#EF4444', '#0EA5E9'];
+
+export const toDateKey = (value: string) => value.split('T')[0];
+
+export const toLocalDate = (value: string) => parseLocalDate(toDateKey(value));
+
+export const getAssignmentEpicId = (assignment: ResourceAssignment): string =>
+  assignment.userStory?.epic?.epicId || '';
+
+// Colours follow the order epics are listed in, so each epic keeps its colour while the range changes
+export const getEpicColor = (epicId: string, epicIds: string[]): string => {
+  const index = epicIds.indexOf(epicId);
+  return index >= 0 ? EPIC_COLORS[index % EPIC_COLORS.length] : 'var(--gray-light)';
+};
+
+export const shiftDates = (dates: AssignmentDates, deltaDays: number): AssignmentDates => {
+  const shift = (value: string) => formatLocalDate(addDays(toLocalDate(value), deltaDays));
+  return { startDate: shift(dates.startDate), endDate: shift(dates.endDate) };
+};
+
+// Stacks a member's bars so overlapping assignments sit in separate lanes instead of on top of each other
+export const assignLanes = (assignments: ResourceAssignment[]): Map<number, number> => {
+  const lanes = new Map<number, number>();
+  const laneEnds: string[] = [];
+  [...assignments]
+    .sort((a, b) => toDateKey(a.startDate).localeCompare(toDateKey(b.startDate)))
+    .forEach(assignment => {
+      const start = toDateKey(assignment.startDate);
+      const lane = laneEnds.findIndex(end => end < start);
+      const index = lane === -1 ? laneEnds.length : lane;
+      laneEnds[index] = toDateKey(assignment.endDate);
+      lanes.set(assignment.id, index);
+    });
+  return lanes;
+};
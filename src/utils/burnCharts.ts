@@ -0,0 +1,95 @@
+/**
+ * Burndown and burnup series derived from Kanban status-transition history
+ */
+
+import { KanbanStatusTransition } from '../types/kanban';
+import { FlowItem, getStatusAt, groupByItem, startOfDay } from './kanbanAnalytics';
+import { addDays, DAY_MS, daysBetween, parseLocalDate } from './quarterUtils';
+
+export interface BurnItem extends FlowItem {
+  storyPoints?: number;
+}
+
+export interface BurnPoint {
+  date: Date;
+  // Actual values are only set up to today
+  scope?: number;
+  completed?: number;
+  remaining?: number;
+  idealRemaining: number;
+}
+
+export interface BurnSeries {
+  points: BurnPoint[];
+  totalPoints: number;
+  completedPoints: number;
+  // Index of today in points, or -1 when today is outside the range
+  todayIndex: number;
+}
+
+// Accepts plain dates as well as ISO timestamps
+export const parseBurnDate = (value?: string): Date | null =>
+  value ? parseLocalDate(value.split('T')[0]) : null;
+
+/**
+ * Daily scope and completed points between two dates. An item counts towards scope once it is
+ * on the board and towards completed while it sits in one of the done columns. The ideal line
+ * burns the current scope down to zero in a straight line over the whole range.
+ */
+export const buildBurnSeries = (
+  items: BurnItem[],
+  transitions: KanbanStatusTransition[],
+  doneStatuses: string[],
+  start: Date,
+  end: Date
+): BurnSeries => {
+  const byItem = groupByItem(transitions);
+  const done = new Set(doneStatuses);
+  const firstDay = startOfDay(start);
+  const lastDay = startOfDay(end);
+  const today = startOfDay(new Date()).getTime();
+  const dayCount = Math.max(daysBetween(firstDay, lastDay) + 1, 1);
+
+  const days = Array.from({ length: dayCount }, (_, i) => addDays(firstDay, i));
+
+  const actuals = days.map(date => {
+    if (date.getTime() > today) return null;
+    const endOfDay = date.getTime() + DAY_MS - 1;
+    let scope = 0;
+    let completed = 0;
+    items.forEach(item => {
+      const status = getStatusAt(item, byItem.get(item.id) || [], endOfDay);
+      if (!status) return;
+      const points = item.storyPoints || 0;
+      scope += points;
+      if (done.has(status)) {
+        completed += points;
+      }
+    });
+    return { scope, completed };
+  });
+
+  const totalPoints = items.reduce((sum, item) => sum + (item.storyPoints || 0), 0);
+  const completedPoints = items
+    .filter(item => done.has(item.status))
+    .reduce((sum, item) => sum + (item.storyPoints || 0), 0);
+
+  const points = days.map((date, i) => {
+    const actual = actuals[i];
+    const progress = dayCount === 1 ? 1 : i / (dayCount - 1);
+    return {
+      date,
+      scope: actual?.scope,
+      completed: actual?.completed,
+      remaining: actual ? actual.scope - actual.completed : undefined,
+      idealRemaining: totalPoints * (1 - progress),
+    };
+  });
+
+  return {
+    points,
+    totalPoints,
+    completedPoints,
+    todayIndex: days.findIndex(date => date.getTime() === today),
+  };
+};
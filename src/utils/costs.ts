@@ -0,0 +1,159 @@
+/**
+ * Costs from rate cards: what assignments and planned epic effort cost, totalled per currency
+ */
+
+import { EffortUnit, EpicEffort } from '../types/capacity';
+import { PublicHoliday, RateCard, ResourceAssignment, TeamMember } from '../types/resourcePlanning.types';
+import { getAssignmentEpicId, toDateKey } from './assignmentTimeline';
+import { getFtePercent } from './memberAvailability';
+import { formatLocalDate, parseLocalDate } from './quarterUtils';
+import { SPRINT_LENGTH_DAYS } from './teamCapacity';
+import { getAssignedDays } from './utilization';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface Cost {
+  amount: number;
+  currency: string;
+}
+
+// Amounts keyed by currency code; rates are never converted between currencies
+export type CostTotals = Record<string, number>;
+
+export interface CostRollup {
+  totals: CostTotals;
+  unpricedCount: number; // Assignments or efforts with no rate card to price them
+}
+
+const emptyRollup = (): CostRollup => ({ totals: {}, unpricedCount: 0 });
+
+const addCost = (rollup: CostRollup, cost: Cost | null): CostRollup => {
+  if (!cost) return { ...rollup, unpricedCount: rollup.unpricedCount + 1 };
+  return {
+    ...rollup,
+    totals: { ...rollup.totals, [cost.currency]: (rollup.totals[cost.currency] || 0) + cost.amount },
+  };
+};
+
+// The member's own card wins over the card for their role; roles match ignoring case
+export const getMemberRate = (member: TeamMember, rateCards: RateCard[]): RateCard | undefined => {
+  const own = rateCards.find(card => card.memberId === member.id);
+  if (own) return own;
+  const role = member.role?.trim().toLowerCase();
+  return role ? rateCards.find(card => !card.memberId && card.role?.trim().toLowerCase() === role) : undefined;
+};
+
+/**
+ * Cost of the assignment's days that fall within the period, or of the whole assignment when no
+ * period is given. Days are the member's worked days weighted by allocation and FTE.
+ */
+export const getAssignmentCost = (
+  member: TeamMember,
+  assignment: ResourceAssignment,
+  rateCards: RateCard[],
+  holidays: PublicHoliday[],
+  period?: { start: Date; end: Date }
+): Cost | null => {
+  const rate = getMemberRate(member, rateCards);
+  if (!rate) return null;
+  const start = period?.start || parseLocalDate(toDateKey(assignment.startDate));
+  const end = period?.end || parseLocalDate(toDateKey(assignment.endDate));
+  return { amount: getAssignedDays(member, assignment, holidays, start, end) * rate.dailyRate, currency: rate.currency };
+};
+
+// Pass `epicIds` to only count assignments on stories of those epics
+export const rollUpAssignmentCosts = (
+  members: TeamMember[],
+  assignments: ResourceAssignment[],
+  rateCards: RateCard[],
+  holidays: PublicHoliday[],
+  period?: { start: Date; end: Date },
+  epicIds?: Set<string>
+): CostRollup =>
+  assignments
+    .filter(assignment => !epicIds || epicIds.has(getAssignmentEpicId(assignment)))
+    .filter(assignment =>
+      !period ||
+      (toDateKey(assignment.startDate) <= formatLocalDate(period.end) &&
+        toDateKey(assignment.endDate) >= formatLocalDate(period.start))
+    )
+    .reduce((rollup, assignment) => {
+      const member = members.find(m => m.id === assignment.memberId);
+      return addCost(rollup, member ? getAssignmentCost(member, assignment, rateCards, holidays, period) : null);
+    }, emptyRollup());
+
+/**
+ * FTE-weighted average daily rate of the team's priced members. Members priced in another
+ * currency than most of the team are left out rather than converted.
+ */
+export const getTeamDailyRate = (members: TeamMember[], rateCards: RateCard[]): Cost | null => {
+  const priced = members
+    .map(member => ({ member, rate: getMemberRate(member, rateCards) }))
+    .filter((entry): entry is { member: TeamMember; rate: RateCard } => !!entry.rate);
+  if (priced.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  priced.forEach(({ rate }) => counts.set(rate.currency, (counts.get(rate.currency) || 0) + 1));
+  const currency = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+  const inCurrency = priced.filter(({ rate }) => rate.currency === currency);
+  const weight = inCurrency.reduce((sum, { member }) => sum + getFtePercent(member), 0);
+  if (weight === 0) return null;
+  const amount = inCurrency.reduce((sum, { member, rate }) => sum + rate.dailyRate * getFtePercent(member), 0) / weight;
+  return { amount, currency };
+};
+
+// Sprints are team sprints, so each one takes every member for a full sprint
+export const getEffortPersonDays = (effort: number, effortUnit: EffortUnit, memberCount: number): number =>
+  effortUnit === 'SPRINTS' ? effort * SPRINT_LENGTH_DAYS * memberCount : effort;
+
+export const getEpicEffortCost = (
+  effort: EpicEffort,
+  effortUnit: EffortUnit,
+  members: TeamMember[],
+  rateCards: RateCard[]
+): Cost | null => {
+  const rate = getTeamDailyRate(members, rateCards);
+  if (!rate) return null;
+  return { amount: getEffortPersonDays(effort.effortDays || 0, effortUnit, members.length) * rate.amount, currency: rate.currency };
+};
+
+// Efforts of zero are skipped so unestimated cells don't count as unpriced
+export const rollUpEffortCosts = (
+  efforts: EpicEffort[],
+  effortUnit: EffortUnit,
+  getMembers: (teamId: number) => TeamMember[],
+  rateCards: RateCard[],
+  epicIds?: Set<string>
+): CostRollup =>
+  efforts
+    .filter(effort => (effort.effortDays || 0) > 0 && (!epicIds || epicIds.has(effort.epicId)))
+    .reduce(
+      (rollup, effort) => addCost(rollup, getEpicEffortCost(effort, effortUnit, getMembers(effort.teamId), rateCards)),
+      emptyRollup()
+    );
+
+export type BudgetStatus = 'none' | 'within' | 'near' | 'over';
+
+// Spend above this share of the budget is flagged before it actually runs over
+export const NEAR_BUDGET_RATIO = 0.9;
+
+export const getBudgetStatus = (budget: number | undefined, spend: number): BudgetStatus => {
+  if (!budget) return 'none';
+  if (spend > budget) return 'over';
+  return spend / budget >= NEAR_BUDGET_RATIO ? 'near' : 'within';
+};
+
+export const formatCost = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch (err) {
+    // Not a currency code Intl knows about
+    return `${currency} ${Math.round(amount).toLocaleString('en-US')}`;
+  }
+};
+
+export const formatCostTotals = (totals: CostTotals): string => {
+  const entries = Object.entries(totals);
+  return entries.length === 0 ? '—' : entries.map(([currency, amount]) => formatCost(amount, currency)).join(' + ');
+};
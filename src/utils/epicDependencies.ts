@@ -0,0 +1,120 @@
+/**
+ * Blocks / blocked-by links between epics, cycle detection and schedule checks
+ */
+
+import { Epic } from '../types/backlog';
+import { RoadmapItem } from '../types/roadmap';
+import { parseLocalDate } from './quarterUtils';
+
+type DependencyEpic = Pick<Epic, 'id' | 'name' | 'blockedBy'>;
+
+export interface DependencyConflict {
+  epicId: string;
+  epicName: string;
+  blockerId: string;
+  blockerName: string;
+  startDate: string;
+  blockerEndDate: string;
+}
+
+// Links to epics that no longer exist are ignored
+export const getBlockerIds = (epic: DependencyEpic, epics: DependencyEpic[]): string[] => {
+  const known = new Set(epics.map(e => e.id));
+  return (epic.blockedBy || []).filter(id => id !== epic.id && known.has(id));
+};
+
+export const getBlockedEpicIds = (epicId: string, epics: DependencyEpic[]): string[] =>
+  epics.filter(epic => epic.id !== epicId && (epic.blockedBy || []).includes(epicId)).map(epic => epic.id);
+
+/**
+ * Chain of blocked-by links leading from one epic to another, including both ends,
+ * or null when the first epic does not (transitively) depend on the second.
+ */
+export const findDependencyPath = (fromId: string, toId: string, epics: DependencyEpic[]): string[] | null => {
+  const byId = new Map(epics.map(epic => [epic.id, epic]));
+  const visited = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    if (id === toId) return [id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    const epic = byId.get(id);
+    for (const blockerId of epic ? getBlockerIds(epic, epics) : []) {
+      const path = visit(blockerId);
+      if (path) return [id, ...path];
+    }
+    return null;
+  };
+
+  return visit(fromId);
+};
+
+/**
+ * The cycle that making `epicId` blocked by `blockerId` would close, as a list of epic IDs
+ * starting and ending with `epicId`, or null when the link is safe to add.
+ */
+export const findCycleForLink = (epicId: string, blockerId: string, epics: DependencyEpic[]): string[] | null => {
+  if (epicId === blockerId) return [epicId, epicId];
+  const path = findDependencyPath(blockerId, epicId, epics);
+  return path ? [epicId, ...path] : null;
+};
+
+// Epics that sit on a dependency cycle, e.g. after concurrent edits
+export const getCyclicEpicIds = (epics: DependencyEpic[]): Set<string> =>
+  new Set(
+    epics
+      .filter(epic => getBlockerIds(epic, epics).some(blockerId => findDependencyPath(blockerId, epic.id, epics)))
+      .map(epic => epic.id)
+  );
+
+/**
+ * Column for each epic in a left-to-right graph: epics without blockers start at 0 and every
+ * other epic sits one column after its latest blocker. Epics on a cycle are placed by their
+ * non-cyclic blockers only.
+ */
+export const getDependencyLevels = (epics: DependencyEpic[]): Map<string, number> => {
+  const byId = new Map(epics.map(epic => [epic.id, epic]));
+  const cyclic = getCyclicEpicIds(epics);
+  const levels = new Map<string, number>();
+
+  const levelOf = (id: string): number => {
+    const cached = levels.get(id);
+    if (cached !== undefined) return cached;
+    const epic = byId.get(id);
+    const blockers = epic ? getBlockerIds(epic, epics).filter(blockerId => !cyclic.has(blockerId)) : [];
+    const level = blockers.length ? Math.max(...blockers.map(levelOf)) + 1 : 0;
+    levels.set(id, level);
+    return level;
+  };
+
+  epics.forEach(epic => levelOf(epic.id));
+  return levels;
+};
+
+const toDate = (value: string) => parseLocalDate(value.split('T')[0]);
+
+/**
+ * Scheduled epics that start before one of their blockers ends. `scheduled` can span several
+ * quarters so blockers planned elsewhere on the roadmap are taken into account.
+ */
+export const findScheduleConflicts = (scheduled: RoadmapItem[], epics: DependencyEpic[]): DependencyConflict[] => {
+  const itemsById = new Map(scheduled.map(item => [item.epicId, item]));
+
+  return scheduled.flatMap(item => {
+    const epic = epics.find(e => e.id === item.epicId);
+    if (!epic || !item.startDate) return [];
+
+    return getBlockerIds(epic, epics).flatMap(blockerId => {
+      const blocker = itemsById.get(blockerId);
+      if (!blocker?.endDate || toDate(item.startDate!) > toDate(blocker.endDate)) return [];
+      return [{
+        epicId: item.epicId,
+        epicName: item.epicName,
+        blockerId,
+        blockerName: blocker.epicName,
+        startDate: item.startDate!,
+        blockerEndDate: blocker.endDate,
+      }];
+    });
+  });
+};
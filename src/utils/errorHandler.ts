@@ -171,4 +171,20 @@ export const withErrorHandling = async <T>(
     }
     throw handleApiError(error);
   }
-};
\ No newline at end of file
+};
+export const getErrorStatus = (error: unknown): number | undefined => {
+  return (error as AxiosError)?.response?.status;
+};
+
+export const isNotFoundError = (error: unknown): boolean => {
+  return getErrorStatus(error) === 404;
+};
+
+// Backend endpoints answer with either a plain-text body or a `{ message }` payload
+export const getResponseMessage = (error: unknown): string | undefined => {
+  const data = (error as AxiosError)?.response?.data as any;
+  if (typeof data === 'string') {
+    return data || undefined;
+  }
+  return data?.message;
+};
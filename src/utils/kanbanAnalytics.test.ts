@@ -0,0 +1,136 @@
+import { KanbanStatusTransition } from '../types/kanban';
+import {
+  average,
+  buildCumulativeFlow,
+  computeAgingWip,
+  computeItemMetrics,
+  computeWeeklyThroughput,
+  FlowItem,
+  getStatusAt,
+  groupByItem,
+  percentile,
+  startOfWeek,
+} from './kanbanAnalytics';
+import { DEFAULT_KANBAN_COLUMNS } from './kanbanColumns';
+
+let nextId = 1;
+const transition = (itemId: number, fromStatus: string | null, toStatus: string, changedAt: string): KanbanStatusTransition => ({
+  id: nextId++,
+  itemId,
+  itemType: 'STORY',
+  fromStatus,
+  toStatus,
+  changedAt,
+});
+
+// Finished, in progress and not started yet
+const items: FlowItem[] = [
+  { id: 1, title: 'Shipped', status: 'DONE', createdAt: '2025-06-01T09:00:00' },
+  { id: 2, title: 'Ongoing', status: 'IN_PROGRESS', createdAt: '2025-06-02T09:00:00' },
+  { id: 3, title: 'Waiting', status: 'TODO', createdAt: '2025-06-10T09:00:00' },
+];
+
+const transitions = [
+  transition(1, 'IN_PROGRESS', 'DONE', '2025-06-05T09:00:00'),
+  transition(1, 'TODO', 'IN_PROGRESS', '2025-06-03T09:00:00'),
+  transition(2, 'TODO', 'IN_PROGRESS', '2025-06-09T09:00:00'),
+];
+
+beforeEach(() => {
+  // Wednesday 11 June 2025, midday
+  jest.useFakeTimers().setSystemTime(new Date(2025, 5, 11, 12));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('groupByItem', () => {
+  test('groups transitions per item in time order', () => {
+    const byItem = groupByItem(transitions);
+
+    expect(byItem.get(1)!.map(t => t.toStatus)).toEqual(['IN_PROGRESS', 'DONE']);
+    expect(byItem.get(3)).toBeUndefined();
+  });
+});
+
+describe('getStatusAt', () => {
+  const history = groupByItem(transitions).get(1)!;
+
+  test('replays the history up to the given moment', () => {
+    expect(getStatusAt(items[0], history, new Date(2025, 5, 2).getTime())).toBe('TODO');
+    expect(getStatusAt(items[0], history, new Date(2025, 5, 4).getTime())).toBe('IN_PROGRESS');
+    expect(getStatusAt(items[0], history, new Date(2025, 5, 6).getTime())).toBe('DONE');
+  });
+
+  test('is null before the item was created', () => {
+    expect(getStatusAt(items[0], history, new Date(2025, 4, 31).getTime())).toBeNull();
+  });
+
+  test('uses the current status of an item that never moved', () => {
+    expect(getStatusAt(items[2], [], new Date(2025, 5, 11).getTime())).toBe('TODO');
+  });
+});
+
+describe('buildCumulativeFlow', () => {
+  test('counts items per column at the end of each day up to today', () => {
+    const flow = buildCumulativeFlow(items, transitions, DEFAULT_KANBAN_COLUMNS, 3);
+
+    expect(flow.map(point => point.date)).toEqual([new Date(2025, 5, 9), new Date(2025, 5, 10), new Date(2025, 5, 11)]);
+    expect(flow[0].counts).toEqual({ COMMITTED: 0, TODO: 0, IN_PROGRESS: 1, DONE: 1 });
+    expect(flow[2].counts).toEqual({ COMMITTED: 0, TODO: 1, IN_PROGRESS: 1, DONE: 1 });
+  });
+});
+
+describe('computeItemMetrics', () => {
+  test('measures cycle time from start of work and lead time from creation', () => {
+    const [shipped, ongoing, waiting] = computeItemMetrics(items, transitions, DEFAULT_KANBAN_COLUMNS);
+
+    expect(shipped).toMatchObject({ cycleTimeDays: 2, leadTimeDays: 4 });
+    expect(ongoing.startedAt).toEqual(new Date(2025, 5, 9, 9));
+    expect(ongoing.cycleTimeDays).toBeUndefined();
+    expect(waiting.startedAt).toBeUndefined();
+  });
+
+  test('uses the last move into done for reopened items', () => {
+    const reopened = [
+      ...transitions,
+      transition(1, 'DONE', 'IN_PROGRESS', '2025-06-06T09:00:00'),
+      transition(1, 'IN_PROGRESS', 'DONE', '2025-06-08T09:00:00'),
+    ];
+
+    expect(computeItemMetrics([items[0]], reopened, DEFAULT_KANBAN_COLUMNS)[0].cycleTimeDays).toBe(5);
+    expect(computeItemMetrics([{ ...items[0], status: 'IN_PROGRESS' }], reopened, DEFAULT_KANBAN_COLUMNS)[0].finishedAt)
+      .toBeUndefined();
+  });
+});
+
+describe('computeWeeklyThroughput', () => {
+  test('counts finished items per Monday-start week', () => {
+    const metrics = computeItemMetrics(items, transitions, DEFAULT_KANBAN_COLUMNS);
+
+    expect(startOfWeek(new Date(2025, 5, 8))).toEqual(new Date(2025, 5, 2));
+    expect(computeWeeklyThroughput(metrics, 2)).toEqual([
+      { weekStart: new Date(2025, 5, 2), count: 1 },
+      { weekStart: new Date(2025, 5, 9), count: 0 },
+    ]);
+  });
+});
+
+describe('computeAgingWip', () => {
+  test('lists work in progress with its age and time in the current column', () => {
+    const aging = computeAgingWip(items, transitions, DEFAULT_KANBAN_COLUMNS);
+
+    expect(aging).toEqual([{ id: 2, title: 'Ongoing', status: 'IN_PROGRESS', ageDays: 2.125, daysInColumn: 2.125 }]);
+  });
+});
+
+describe('average and percentile', () => {
+  test('summarise a list of durations', () => {
+    expect(average([1, 2, 6])).toBe(3);
+    expect(average([])).toBe(0);
+    expect(percentile([5, 1, 4, 2, 3], 85)).toBe(5);
+    expect(percentile([5, 1, 4, 2, 3], 50)).toBe(3);
+    expect(percentile([], 85)).toBe(0);
+  });
+});
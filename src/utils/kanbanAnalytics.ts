@@ -0,0 +1,209 @@
+/**
+ * Flow metrics derived from Kanban status-transition history
+ */
+
+import { KanbanColumnConfig, KanbanStatusTransition } from '../types/kanban';
+import { isWorkInProgressColumn } from './kanbanColumns';
+import { DAY_MS } from './quarterUtils';
+
+export interface FlowItem {
+  id: number;
+  title: string;
+  status: string;
+  createdAt?: string;
+}
+
+export interface CumulativeFlowPoint {
+  date: Date;
+  counts: Record<string, number>;
+}
+
+export interface ItemFlowMetrics {
+  id: number;
+  title: string;
+  status: string;
+  createdAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  cycleTimeDays?: number;
+  leadTimeDays?: number;
+}
+
+export interface WeeklyThroughput {
+  weekStart: Date;
+  count: number;
+}
+
+export interface AgingItem {
+  id: number;
+  title: string;
+  status: string;
+  ageDays: number;
+  daysInColumn: number;
+}
+
+const toTime = (value: string) => new Date(value).getTime();
+
+// Fractional, unlike daysBetween in quarterUtils, so short cycle times still show
+const elapsedDays = (from: Date, to: Date) => (to.getTime() - from.getTime()) / DAY_MS;
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date): Date => {
+  const day = startOfDay(date);
+  const offset = (day.getDay() + 6) % 7;
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - offset);
+};
+
+export const groupByItem = (transitions: KanbanStatusTransition[]): Map<number, KanbanStatusTransition[]> => {
+  const byItem = new Map<number, KanbanStatusTransition[]>();
+  transitions.forEach(transition => {
+    if (!byItem.has(transition.itemId)) {
+      byItem.set(transition.itemId, []);
+    }
+    byItem.get(transition.itemId)!.push(transition);
+  });
+  byItem.forEach(list => list.sort((a, b) => toTime(a.changedAt) - toTime(b.changedAt)));
+  return byItem;
+};
+
+// Status an item had at a given moment, or null if it was not on the board yet
+export const getStatusAt = (item: FlowItem, history: KanbanStatusTransition[], time: number): string | null => {
+  let status: string | null = null;
+  for (const transition of history) {
+    if (toTime(transition.changedAt) > time) break;
+    status = transition.toStatus;
+  }
+  if (status) return status;
+
+  const enteredAt = item.createdAt ? toTime(item.createdAt) : history.length ? toTime(history[0].changedAt) : -Infinity;
+  if (enteredAt > time) return null;
+  if (history.length === 0) return item.status;
+  return history[0].fromStatus;
+};
+
+export const buildCumulativeFlow = (
+  items: FlowItem[],
+  transitions: KanbanStatusTransition[],
+  columns: KanbanColumnConfig[],
+  days: number
+): CumulativeFlowPoint[] => {
+  const byItem = groupByItem(transitions);
+  const today = startOfDay(new Date());
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - i));
+    const endOfDay = date.getTime() + DAY_MS - 1;
+    const counts: Record<string, number> = {};
+    columns.forEach(column => {
+      counts[column.id] = 0;
+    });
+
+    items.forEach(item => {
+      const status = getStatusAt(item, byItem.get(item.id) || [], endOfDay);
+      if (status && counts[status] !== undefined) {
+        counts[status] += 1;
+      }
+    });
+
+    return { date, counts };
+  });
+};
+
+/**
+ * Cycle time runs from the first move into a work-in-progress or done column until the item
+ * last reached a done column; lead time runs from creation to that same point.
+ */
+export const computeItemMetrics = (
+  items: FlowItem[],
+  transitions: KanbanStatusTransition[],
+  columns: KanbanColumnConfig[]
+): ItemFlowMetrics[] => {
+  const byItem = groupByItem(transitions);
+  const startedIds = new Set(columns.filter(column => column.isDone || isWorkInProgressColumn(column)).map(c => c.id));
+  const doneIds = new Set(columns.filter(column => column.isDone).map(c => c.id));
+
+  return items.map(item => {
+    const history = byItem.get(item.id) || [];
+    const started = history.find(transition => startedIds.has(transition.toStatus));
+    const finished = doneIds.has(item.status)
+      ? [...history].reverse().find(transition => doneIds.has(transition.toStatus))
+      : undefined;
+
+    const createdAt = item.createdAt
+      ? new Date(item.createdAt)
+      : history.length ? new Date(history[0].changedAt) : undefined;
+    const startedAt = started ? new Date(started.changedAt) : undefined;
+    const finishedAt = finished ? new Date(finished.changedAt) : undefined;
+
+    return {
+      id: item.id,
+      title: item.title,
+      status: item.status,
+      createdAt,
+      startedAt,
+      finishedAt,
+      cycleTimeDays: startedAt && finishedAt ? elapsedDays(startedAt, finishedAt) : undefined,
+      leadTimeDays: createdAt && finishedAt ? elapsedDays(createdAt, finishedAt) : undefined,
+    };
+  });
+};
+
+export const computeWeeklyThroughput = (metrics: ItemFlowMetrics[], weeks: number): WeeklyThroughput[] => {
+  const currentWeek = startOfWeek(new Date());
+  const buckets = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - 7 * (weeks - 1 - i)),
+    count: 0,
+  }));
+
+  metrics.forEach(metric => {
+    if (!metric.finishedAt) return;
+    const week = startOfWeek(metric.finishedAt).getTime();
+    const bucket = buckets.find(b => b.weekStart.getTime() === week);
+    if (bucket) {
+      bucket.count += 1;
+    }
+  });
+
+  return buckets;
+};
+
+export const computeAgingWip = (
+  items: FlowItem[],
+  transitions: KanbanStatusTransition[],
+  columns: KanbanColumnConfig[]
+): AgingItem[] => {
+  const byItem = groupByItem(transitions);
+  const metrics = computeItemMetrics(items, transitions, columns);
+  const wipIds = new Set(columns.filter(isWorkInProgressColumn).map(column => column.id));
+  const now = new Date();
+
+  return metrics
+    .filter(metric => wipIds.has(metric.status))
+    .map(metric => {
+      const history = byItem.get(metric.id) || [];
+      const enteredColumn = [...history].reverse().find(transition => transition.toStatus === metric.status);
+      const since = metric.startedAt || metric.createdAt;
+      const columnSince = enteredColumn ? new Date(enteredColumn.changedAt) : since;
+      return {
+        id: metric.id,
+        title: metric.title,
+        status: metric.status,
+        ageDays: since ? elapsedDays(since, now) : 0,
+        daysInColumn: columnSince ? elapsedDays(columnSince, now) : 0,
+      };
+    })
+    .sort((a, b) => b.ageDays - a.ageDays);
+};
+
+export const average = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Nearest-rank percentile, e.g. percentile(values, 85)
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
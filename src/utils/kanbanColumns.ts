@@ -0,0 +1,78 @@
+/**
+ * Helpers for per-product Kanban column definitions
+ */
+
+import { KanbanColumnConfig, KanbanColumns } from '../types/kanban';
+
+export const DEFAULT_KANBAN_COLUMNS: KanbanColumnConfig[] = [
+  { id: 'COMMITTED', title: 'Committed', color: '#64748b', order: 0, wipLimit: null, isDone: false },
+  { id: 'TODO', title: 'To-Do', color: '#6366f1', order: 1, wipLimit: null, isDone: false },
+  { id: 'IN_PROGRESS', title: 'In-Progress', color: '#f59e0b', order: 2, wipLimit: null, isDone: false },
+  { id: 'DONE', title: 'Done', color: '#10b981', order: 3, wipLimit: null, isDone: true },
+];
+
+export const sortColumns = (columns: KanbanColumnConfig[]): KanbanColumnConfig[] =>
+  [...columns].sort((a, b) => a.order - b.order);
+
+/**
+ * Derive a status key from a column title, e.g. "Code Review" -> "CODE_REVIEW"
+ */
+export const toColumnId = (title: string, existingIds: string[] = []): string => {
+  const base = title.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '') || 'COLUMN';
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}_${suffix++}`;
+  }
+  return id;
+};
+
+/**
+ * Column that receives items whose status no longer matches any column
+ */
+export const getFallbackColumn = (columns: KanbanColumnConfig[]): KanbanColumnConfig | undefined => {
+  const sorted = sortColumns(columns);
+  return sorted.find(column => !column.isDone) || sorted[0];
+};
+
+// Columns where work is queued but not yet started
+export const INTAKE_COLUMN_IDS = ['COMMITTED', 'TODO'];
+
+export const isWorkInProgressColumn = (column: KanbanColumnConfig): boolean =>
+  !column.isDone && !INTAKE_COLUMN_IDS.includes(column.id);
+
+export const isOverWipLimit = (column: KanbanColumnConfig, count: number): boolean =>
+  !!column.wipLimit && count > column.wipLimit;
+
+/**
+ * True when adding one more item to a column holding `count` items would exceed its limit
+ */
+export const wouldExceedWipLimit = (column: KanbanColumnConfig, count: number): boolean =>
+  isOverWipLimit(column, count + 1);
+
+export const getDoneColumnIds = (columns: KanbanColumnConfig[]): string[] =>
+  columns.filter(column => column.isDone).map(column => column.id);
+
+/**
+ * Bucket items into the configured columns. Items with an unknown status
+ * (e.g. from a removed column) are shown in the fallback column rather than hidden.
+ */
+export const groupByColumns = <T extends { status: string }>(
+  data: KanbanColumns<T>,
+  columns: KanbanColumnConfig[]
+): KanbanColumns<T> => {
+  const grouped: KanbanColumns<T> = {};
+  columns.forEach(column => {
+    grouped[column.id] = [];
+  });
+
+  const fallback = getFallbackColumn(columns);
+  Object.entries(data).forEach(([status, items]) => {
+    const target = grouped[status] ? status : fallback?.id;
+    if (target) {
+      grouped[target].push(...(items || []).map(item => (item.status === target ? item : { ...item, status: target })));
+    }
+  });
+
+  return grouped;
+};
@@ -0,0 +1,97 @@
+/**
+ * Kanban board filtering and its URL query-string representation
+ */
+
+import { EpicKanbanItem, KanbanColumns, KanbanFilter, KanbanItem } from '../types/kanban';
+
+export const EMPTY_KANBAN_FILTER: KanbanFilter = {
+  search: '',
+  assignee: '',
+  priority: '',
+  label: '',
+  epicId: '',
+  dueFrom: '',
+  dueTo: '',
+};
+
+// Short query keys keep shared links readable
+const QUERY_KEYS: Record<keyof KanbanFilter, string> = {
+  search: 'q',
+  assignee: 'assignee',
+  priority: 'priority',
+  label: 'label',
+  epicId: 'epic',
+  dueFrom: 'dueFrom',
+  dueTo: 'dueTo',
+};
+
+const FILTER_FIELDS = Object.keys(QUERY_KEYS) as (keyof KanbanFilter)[];
+
+export const isFilterActive = (filter: KanbanFilter): boolean =>
+  FILTER_FIELDS.some(field => filter[field] !== '');
+
+export const filterFromSearchParams = (params: URLSearchParams): KanbanFilter =>
+  FILTER_FIELDS.reduce(
+    (filter, field) => ({ ...filter, [field]: params.get(QUERY_KEYS[field]) || '' }),
+    { ...EMPTY_KANBAN_FILTER }
+  );
+
+// Non-filter parameters already in the URL are kept
+export const applyFilterToSearchParams = (params: URLSearchParams, filter: KanbanFilter): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  FILTER_FIELDS.forEach(field => {
+    if (filter[field]) {
+      next.set(QUERY_KEYS[field], filter[field]);
+    } else {
+      next.delete(QUERY_KEYS[field]);
+    }
+  });
+  return next;
+};
+
+export const parseLabels = (labels?: string): string[] =>
+  (labels || '')
+    .split(',')
+    .map(label => label.trim())
+    .filter(label => label && label !== 'roadmap-item');
+
+const includesText = (values: (string | undefined)[], search: string) => {
+  const needle = search.trim().toLowerCase();
+  return !needle || values.some(value => value?.toLowerCase().includes(needle));
+};
+
+export const matchesFilter = (item: KanbanItem, filter: KanbanFilter): boolean => {
+  if (!includesText([item.title, item.description, item.labels], filter.search)) return false;
+  if (filter.assignee && (item.assignee || '').trim() !== filter.assignee) return false;
+  if (filter.priority && item.priority !== filter.priority) return false;
+  if (filter.label && !parseLabels(item.labels).includes(filter.label)) return false;
+  if (filter.epicId && item.epicId !== filter.epicId) return false;
+  if (filter.dueFrom || filter.dueTo) {
+    const due = item.dueDate?.split('T')[0];
+    if (!due) return false;
+    if (filter.dueFrom && due < filter.dueFrom) return false;
+    if (filter.dueTo && due > filter.dueTo) return false;
+  }
+  return true;
+};
+
+// Epics only carry a name, description and priority, so the story-specific filters are ignored
+export const matchesEpicFilter = (epic: EpicKanbanItem, filter: KanbanFilter): boolean =>
+  includesText([epic.epicName, epic.description], filter.search) &&
+  (!filter.priority || epic.priority === filter.priority);
+
+export const filterColumns = <T>(
+  items: KanbanColumns<T>,
+  predicate: (item: T) => boolean
+): KanbanColumns<T> =>
+  Object.fromEntries(Object.entries(items).map(([status, columnItems]) => [status, columnItems.filter(predicate)]));
+
+export const getFilterOptions = (items: KanbanColumns<KanbanItem>) => {
+  const all = Object.values(items).flat();
+  const unique = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+  return {
+    assignees: unique(all.map(item => item.assignee?.trim() || '').filter(Boolean)),
+    labels: unique(all.flatMap(item => parseLabels(item.labels))),
+    epicIds: unique(all.map(item => item.epicId || '').filter(Boolean)),
+  };
+};
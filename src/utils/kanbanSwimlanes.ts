@@ -0,0 +1,94 @@
+/**
+ * Grouping of user story cards into horizontal swimlanes
+ */
+
+import { KanbanColumnConfig, KanbanColumns, KanbanItem } from '../types/kanban';
+
+export type KanbanSwimlaneBy = 'none' | 'epic' | 'assignee' | 'priority';
+
+export interface KanbanSwimlane {
+  key: string; // Empty string collects items without a value
+  label: string;
+  count: number;
+  items: KanbanColumns<KanbanItem>;
+}
+
+const PRIORITY_ORDER = ['HIGH', 'MEDIUM', 'LOW'];
+
+const EMPTY_LABELS: Record<Exclude<KanbanSwimlaneBy, 'none'>, string> = {
+  epic: 'No epic',
+  assignee: 'Unassigned',
+  priority: 'No priority',
+};
+
+export const getLaneKey = (item: KanbanItem, swimlaneBy: KanbanSwimlaneBy): string => {
+  switch (swimlaneBy) {
+    case 'epic': return item.epicId || '';
+    case 'assignee': return item.assignee?.trim() || '';
+    case 'priority': return item.priority || '';
+    default: return '';
+  }
+};
+
+// Copy of the item with its grouping field set to the lane it was dropped into; the empty lane
+// sends null so the server clears the field
+export const applyLaneKey = (item: KanbanItem, swimlaneBy: KanbanSwimlaneBy, key: string): KanbanItem => {
+  switch (swimlaneBy) {
+    case 'epic': return { ...item, epicId: key || null };
+    case 'assignee': return { ...item, assignee: key || null };
+    case 'priority': return { ...item, priority: key || null };
+    default: return item;
+  }
+};
+
+const compareLaneKeys = (swimlaneBy: KanbanSwimlaneBy, labels: Map<string, string>) => (a: string, b: string) => {
+  if (a === '' || b === '') return a === '' ? 1 : -1;
+  if (swimlaneBy === 'priority') {
+    const rank = (key: string) => (PRIORITY_ORDER.includes(key) ? PRIORITY_ORDER.indexOf(key) : PRIORITY_ORDER.length);
+    return rank(a) - rank(b);
+  }
+  return (labels.get(a) || a).localeCompare(labels.get(b) || b);
+};
+
+export const buildSwimlanes = (
+  items: KanbanColumns<KanbanItem>,
+  columns: KanbanColumnConfig[],
+  swimlaneBy: KanbanSwimlaneBy,
+  epicNames: Record<string, string> = {}
+): KanbanSwimlane[] => {
+  if (swimlaneBy === 'none') return [];
+
+  const lanes = new Map<string, KanbanSwimlane>();
+  const labels = new Map<string, string>();
+  const getLane = (key: string) => {
+    if (!lanes.has(key)) {
+      const label = key === ''
+        ? EMPTY_LABELS[swimlaneBy]
+        : swimlaneBy === 'epic' ? epicNames[key] || key : key;
+      labels.set(key, label);
+      const laneItems: KanbanColumns<KanbanItem> = {};
+      columns.forEach(column => {
+        laneItems[column.id] = [];
+      });
+      lanes.set(key, { key, label, count: 0, items: laneItems });
+    }
+    return lanes.get(key)!;
+  };
+
+  // Priority lanes are always shown so cards can be dragged into an empty one
+  if (swimlaneBy === 'priority') {
+    PRIORITY_ORDER.forEach(getLane);
+  }
+
+  columns.forEach(column => {
+    (items[column.id] || []).forEach(item => {
+      const lane = getLane(getLaneKey(item, swimlaneBy));
+      lane.items[column.id].push(item);
+      lane.count += 1;
+    });
+  });
+
+  return Array.from(lanes.keys())
+    .sort(compareLaneKeys(swimlaneBy, labels))
+    .map(key => lanes.get(key)!);
+};
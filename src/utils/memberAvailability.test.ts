@@ -0,0 +1,67 @@
+import { PublicHoliday, TeamMember } from '../types/resourcePlanning.types';
+import {
+  countWorkingDays,
+  getAvailabilityBetween,
+  getAvailabilityRatio,
+  getAvailableDays,
+  getDayStatus,
+  getFtePercent,
+} from './memberAvailability';
+import { parseLocalDate } from './quarterUtils';
+
+const member = (overrides: Partial<TeamMember> = {}): TeamMember => ({
+  id: 1,
+  teamId: 1,
+  memberName: 'Member',
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+});
+
+const holidays: PublicHoliday[] = [{ id: 1, date: '2025-06-03', name: 'Holiday', location: 'Berlin' }];
+
+// 2 June 2025 is a Monday
+const week = { start: parseLocalDate('2025-06-02'), end: parseLocalDate('2025-06-08') };
+
+describe('countWorkingDays', () => {
+  test('counts weekdays only', () => {
+    expect(countWorkingDays(week.start, week.end)).toBe(5);
+    expect(countWorkingDays(parseLocalDate('2025-06-01'), parseLocalDate('2025-06-30'))).toBe(21);
+  });
+});
+
+describe('getDayStatus', () => {
+  const berlin = member({ location: ' berlin ', timeOff: [{ startDate: '2025-06-05', endDate: '2025-06-06' }] });
+
+  test('tells weekends, holidays at the member location and time off apart', () => {
+    expect(getDayStatus(berlin, holidays, parseLocalDate('2025-06-07'))).toBe('weekend');
+    expect(getDayStatus(berlin, holidays, parseLocalDate('2025-06-03'))).toBe('holiday');
+    expect(getDayStatus(berlin, holidays, parseLocalDate('2025-06-06'))).toBe('timeOff');
+    expect(getDayStatus(berlin, holidays, parseLocalDate('2025-06-04'))).toBe('working');
+  });
+
+  test('ignores holidays elsewhere', () => {
+    expect(getDayStatus(member({ location: 'Paris' }), holidays, parseLocalDate('2025-06-03'))).toBe('working');
+    expect(getDayStatus(member(), holidays, parseLocalDate('2025-06-03'))).toBe('working');
+  });
+});
+
+describe('getAvailableDays', () => {
+  test('scales available days by FTE, clamped to full time', () => {
+    expect(getFtePercent(member())).toBe(100);
+    expect(getAvailableDays(member({ ftePercent: 50 }), [], week.start, week.end)).toBe(2.5);
+    expect(getAvailableDays(member({ ftePercent: 150 }), [], week.start, week.end)).toBe(5);
+  });
+
+  test('takes out time off and holidays at the member location', () => {
+    const berlin = member({ location: 'Berlin', timeOff: [{ startDate: '2025-06-05', endDate: '2025-06-06' }] });
+
+    expect(getAvailableDays(berlin, holidays, week.start, week.end)).toBe(2);
+    expect(getAvailabilityRatio(berlin, holidays, week.start, week.end)).toBe(0.4);
+    expect(getAvailabilityBetween(berlin, holidays, '2025-06-02', '2025-06-08')).toBe(0.4);
+  });
+
+  test('is zero over a weekend', () => {
+    expect(getAvailabilityRatio(member(), [], parseLocalDate('2025-06-07'), parseLocalDate('2025-06-08'))).toBe(0);
+  });
+});
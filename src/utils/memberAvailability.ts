@@ -0,0 +1,76 @@
+/**
+ * Member availability: working days left after weekends, public holidays, time off and part-time FTE
+ */
+
+import { PublicHoliday, TeamMember } from '../types/resourcePlanning.types';
+import { formatLocalDate, parseLocalDate } from './quarterUtils';
+
+export const DEFAULT_FTE_PERCENT = 100;
+
+export type DayStatus = 'working' | 'weekend' | 'holiday' | 'timeOff';
+
+type AvailabilityMember = Pick<TeamMember, 'ftePercent' | 'location' | 'timeOff'>;
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+// Each calendar day from start to end inclusive, ignoring the time of day
+export const eachDay = (start: Date, end: Date): Date[] => {
+  const days: Date[] = [];
+  const last = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  for (let date = new Date(start.getFullYear(), start.getMonth(), start.getDate()); date <= last; date.setDate(date.getDate() + 1)) {
+    days.push(new Date(date));
+  }
+  return days;
+};
+
+export const getFtePercent = (member: AvailabilityMember): number =>
+  Math.min(Math.max(member.ftePercent ?? DEFAULT_FTE_PERCENT, 0), 100);
+
+export const countWorkingDays = (start: Date, end: Date): number =>
+  eachDay(start, end).filter(date => !isWeekend(date)).length;
+
+// Holidays apply to members whose location matches, ignoring case and surrounding spaces
+export const getMemberHolidays = (member: AvailabilityMember, holidays: PublicHoliday[]): PublicHoliday[] => {
+  const location = member.location?.trim().toLowerCase();
+  return location ? holidays.filter(holiday => holiday.location.trim().toLowerCase() === location) : [];
+};
+
+export const getDayStatus = (member: AvailabilityMember, holidays: PublicHoliday[], date: Date): DayStatus => {
+  if (isWeekend(date)) return 'weekend';
+  const key = formatLocalDate(date);
+  if (getMemberHolidays(member, holidays).some(holiday => holiday.date === key)) return 'holiday';
+  if ((member.timeOff || []).some(off => off.startDate <= key && key <= off.endDate)) return 'timeOff';
+  return 'working';
+};
+
+/**
+ * Days the member can actually work between two dates, scaled by FTE, so a half-time member
+ * with no time off has half the working days
+ */
+export const getAvailableDays = (
+  member: AvailabilityMember,
+  holidays: PublicHoliday[],
+  start: Date,
+  end: Date
+): number => {
+  const freeDays = eachDay(start, end).filter(date => getDayStatus(member, holidays, date) === 'working').length;
+  return (freeDays * getFtePercent(member)) / 100;
+};
+
+// Share of the working days in a range the member is available for, from 0 to 1
+export const getAvailabilityRatio = (
+  member: AvailabilityMember,
+  holidays: PublicHoliday[],
+  start: Date,
+  end: Date
+): number => {
+  const workingDays = countWorkingDays(start, end);
+  return workingDays > 0 ? getAvailableDays(member, holidays, start, end) / workingDays : 0;
+};
+
+export const getAvailabilityBetween = (
+  member: AvailabilityMember,
+  holidays: PublicHoliday[],
+  startDate: string,
+  endDate: string
+): number => getAvailabilityRatio(member, holidays, parseLocalDate(startDate), parseLocalDate(endDate));
@@ -0,0 +1,217 @@
+/**
+ * Prioritization frameworks: input fields, formulas and display for roadmap item scores
+ */
+
+import { RoadmapItem, ScoringConfig, ScoringCriterion, ScoringFramework } from '../types/roadmap';
+
+export interface ScoreField {
+  key: string;
+  label: string;
+  description?: string;
+  readOnly?: boolean; // Filled in from elsewhere, e.g. effort from capacity planning
+  scale?: number; // Highest rating of a numeric field, 5 when not set
+  options?: { value: number; label: string }[]; // Choice fields; star ratings otherwise
+}
+
+export interface FrameworkDefinition {
+  id: ScoringFramework;
+  name: string;
+  scoreLabel: string;
+  formula: string;
+}
+
+type ScoredItem = Pick<RoadmapItem, 'reach' | 'impact' | 'confidence' | 'effortRating' | 'scoreInputs'>;
+
+// Inputs stored as columns on the roadmap item; everything else lives in `scoreInputs`
+const ITEM_FIELDS = ['reach', 'impact', 'confidence', 'effortRating'] as const;
+type ItemField = typeof ITEM_FIELDS[number];
+
+export const FRAMEWORKS: FrameworkDefinition[] = [
+  { id: 'RICE', name: 'RICE', scoreLabel: 'RICE Score', formula: 'Reach × Impact × Confidence ÷ Effort' },
+  { id: 'ICE', name: 'ICE', scoreLabel: 'ICE Score', formula: 'Impact × Confidence × Ease' },
+  {
+    id: 'WSJF',
+    name: 'WSJF',
+    scoreLabel: 'WSJF',
+    formula: '(Business Value + Time Criticality + Risk Reduction) ÷ Job Size',
+  },
+  { id: 'MOSCOW', name: 'MoSCoW', scoreLabel: 'MoSCoW', formula: 'Must > Should > Could > Won\'t' },
+  {
+    id: 'WEIGHTED',
+    name: 'Weighted scoring',
+    scoreLabel: 'Weighted Score',
+    formula: 'Weighted average of the custom criteria, normalized to 0–100',
+  },
+];
+
+export const MOSCOW_OPTIONS = [
+  { value: 4, label: 'Must have' },
+  { value: 3, label: 'Should have' },
+  { value: 2, label: 'Could have' },
+  { value: 1, label: 'Won\'t have' },
+];
+
+export const DEFAULT_SCALE = 5;
+
+export const SCALE_OPTIONS = [3, 5, 10];
+
+export const DEFAULT_CRITERIA: ScoringCriterion[] = [
+  { id: 'business-value', name: 'Business Value', scale: DEFAULT_SCALE, weight: 40, direction: 'higher' },
+  { id: 'customer-impact', name: 'Customer Impact', scale: DEFAULT_SCALE, weight: 30, direction: 'higher' },
+  { id: 'strategic-fit', name: 'Strategic Fit', scale: DEFAULT_SCALE, weight: 30, direction: 'higher' },
+];
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = { framework: 'RICE', criteria: DEFAULT_CRITERIA };
+
+const EFFORT_FIELD: ScoreField = {
+  key: 'effortRating',
+  label: 'Estimated Effort',
+  description: 'Filled in from capacity planning',
+  readOnly: true,
+};
+
+export const getFramework = (framework: ScoringFramework): FrameworkDefinition =>
+  FRAMEWORKS.find(f => f.id === framework) || FRAMEWORKS[0];
+
+export const getScoreFields = (config: ScoringConfig): ScoreField[] => {
+  switch (config.framework) {
+    case 'ICE':
+      return [
+        { key: 'impact', label: 'Impact' },
+        { key: 'confidence', label: 'Confidence' },
+        { key: 'ease', label: 'Ease' },
+      ];
+    case 'WSJF':
+      return [
+        { key: 'businessValue', label: 'Business Value' },
+        { key: 'timeCriticality', label: 'Time Criticality' },
+        { key: 'riskReduction', label: 'Risk Reduction' },
+        { ...EFFORT_FIELD, label: 'Job Size' },
+      ];
+    case 'MOSCOW':
+      return [{ key: 'moscow', label: 'Category', options: MOSCOW_OPTIONS }];
+    case 'WEIGHTED':
+      return config.criteria.map(criterion => ({
+        key: criterion.id,
+        label: criterion.name,
+        scale: criterion.scale,
+        description: `Weight ${criterion.weight}${criterion.direction === 'lower' ? ', lower is better' : ''}`,
+      }));
+    default:
+      return [
+        { key: 'reach', label: 'Reach' },
+        { key: 'impact', label: 'Impact' },
+        { key: 'confidence', label: 'Confidence' },
+        EFFORT_FIELD,
+      ];
+  }
+};
+
+/**
+ * Rating on a criterion's own scale mapped to (0, 1], flipped for criteria where a low
+ * rating is better so that a higher result always means a higher priority
+ */
+export const normalizeRating = (rating: number, criterion: Pick<ScoringCriterion, 'scale' | 'direction'>): number => {
+  const scale = criterion.scale || DEFAULT_SCALE;
+  const clamped = Math.min(Math.max(rating, 1), scale);
+  return criterion.direction === 'lower' ? (scale - clamped + 1) / scale : clamped / scale;
+};
+
+// Problem with a custom model that would make its scores meaningless, or null when it is usable
+export const validateCriteria = (criteria: ScoringCriterion[]): string | null => {
+  if (criteria.length === 0) return 'Add at least one criterion';
+  if (criteria.some(criterion => !criterion.name.trim())) return 'Every criterion needs a name';
+  const names = criteria.map(criterion => criterion.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return 'Criterion names must be unique';
+  if (criteria.some(criterion => criterion.weight < 0)) return 'Weights cannot be negative';
+  if (criteria.every(criterion => criterion.weight === 0)) return 'At least one criterion needs a weight above 0';
+  return null;
+};
+
+// IDs key the ratings stored on roadmap items, so they never change once created
+export const createCriterionId = (name: string, existing: ScoringCriterion[]): string => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'criterion';
+  const taken = new Set(existing.map(criterion => criterion.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+};
+
+const isItemField = (key: string): key is ItemField => (ITEM_FIELDS as readonly string[]).includes(key);
+
+export const getScoreInput = (item: ScoredItem, key: string): number =>
+  (isItemField(key) ? item[key] : item.scoreInputs?.[key]) || 0;
+
+// Effort comes from capacity planning; until it has been estimated it counts as 1
+export const getRiceScore = (item: ScoredItem): number =>
+  item.reach && item.impact && item.confidence
+    ? (item.reach * item.impact * item.confidence) / (item.effortRating || 1)
+    : 0;
+
+/**
+ * Score of an item under the product's framework. Items missing an input score 0 so they
+ * sort below everything that has been scored.
+ */
+export const calculateScore = (item: ScoredItem, config: ScoringConfig): number => {
+  const input = (key: string) => getScoreInput(item, key);
+
+  switch (config.framework) {
+    case 'ICE':
+      return input('impact') * input('confidence') * input('ease');
+    case 'WSJF': {
+      const jobSize = input('effortRating');
+      return jobSize > 0 ? (input('businessValue') + input('timeCriticality') + input('riskReduction')) / jobSize : 0;
+    }
+    case 'MOSCOW':
+      return input('moscow');
+    case 'WEIGHTED': {
+      const totalWeight = config.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+      if (totalWeight <= 0 || config.criteria.some(criterion => !input(criterion.id))) return 0;
+      const weighted = config.criteria.reduce(
+        (sum, criterion) => sum + criterion.weight * normalizeRating(input(criterion.id), criterion),
+        0
+      );
+      return Math.round((weighted / totalWeight) * 1000) / 10;
+    }
+    default:
+      return getRiceScore(item);
+  }
+};
+
+export const formatScore = (item: ScoredItem, config: ScoringConfig): string => {
+  const score = calculateScore(item, config);
+  if (!score) return '-';
+  if (config.framework === 'MOSCOW') {
+    return MOSCOW_OPTIONS.find(option => option.value === score)?.label || '-';
+  }
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+};
+
+// Returns the updated item; riceScore is kept current because other modules still read it
+export const setScoreInput = <T extends RoadmapItem>(item: T, key: string, value: number): T => {
+  const updated = isItemField(key)
+    ? { ...item, [key]: value }
+    : { ...item, scoreInputs: { ...item.scoreInputs, [key]: value } };
+  return { ...updated, riceScore: getRiceScore(updated) };
+};
+
+export const SCORE_SORT_KEY = 'score';
+
+export interface ScoreSort {
+  key: string; // SCORE_SORT_KEY or a score field key
+  direction: 'asc' | 'desc';
+}
+
+export const sortByScore = <T extends ScoredItem>(items: T[], config: ScoringConfig, sort: ScoreSort): T[] => {
+  const valueOf = (item: T) =>
+    sort.key === SCORE_SORT_KEY ? calculateScore(item, config) : getScoreInput(item, sort.key);
+  return [...items].sort((a, b) => (sort.direction === 'asc' ? valueOf(a) - valueOf(b) : valueOf(b) - valueOf(a)));
+};
+
+// Column header clicks: highest first, then lowest first, then back to the original order
+export const toggleScoreSort = (current: ScoreSort | null, key: string): ScoreSort | null => {
+  if (current?.key !== key) return { key, direction: 'desc' };
+  return current.direction === 'desc' ? { key, direction: 'asc' } : null;
+};
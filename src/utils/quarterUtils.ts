@@ -35,3 +35,57 @@ export const getCurrentQuarter = (): QuarterInfo => {
 export const formatQuarter = (year: number, quarter: number): string => {
   return `Q${quarter} ${year}`;
 };
+
+/**
+ * Move forward (or backward, for negative offsets) by a number of quarters
+ */
+export const addQuarters = ({ year, quarter }: QuarterInfo, offset: number): QuarterInfo => {
+  const index = year * 4 + (quarter - 1) + offset;
+  return { year: Math.floor(index / 4), quarter: (index % 4) + 1 };
+};
+
+/**
+ * First day and last moment of a quarter in local time
+ */
+export const getQuarterBounds = (year: number, quarter: number): { start: Date; end: Date } => {
+  const startMonth = (quarter - 1) * 3;
+  return {
+    start: new Date(year, startMonth, 1),
+    end: new Date(year, startMonth + 3, 0, 23, 59, 59, 999),
+  };
+};
+
+/**
+ * Parse a `YYYY-MM-DD` string as a local date (Date.parse would treat it as UTC)
+ */
+export const parseLocalDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Year and quarter a date falls in
+ */
+export const getQuarterOfDate = (date: Date): QuarterInfo => ({
+  year: date.getFullYear(),
+  quarter: Math.floor(date.getMonth() / 3) + 1,
+});
+
+/**
+ * Format a date as a local `YYYY-MM-DD` string, the inverse of parseLocalDate
+ */
+export const formatLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The same local time a number of calendar days later (or earlier), across daylight saving changes
+ */
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Whole calendar days from one local date to another, negative when `to` comes first
+ */
+export const daysBetween = (from: Date, to: Date): number => Math.round((to.getTime() - from.getTime()) / DAY_MS);
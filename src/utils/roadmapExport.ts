@@ -0,0 +1,371 @@
+/**
+ * Client-side roadmap exports (CSV, PNG and PDF) with no third-party dependencies
+ */
+
+import { RoadmapItem, ScoringConfig } from '../types/roadmap';
+import { calculateScore, formatScore, getFramework, getScoreFields, getScoreInput } from './prioritization';
+import { addQuarters, DAY_MS, formatQuarter, getQuarterBounds, parseLocalDate, QuarterInfo } from './quarterUtils';
+
+export type RoadmapExportFormat = 'csv' | 'png' | 'pdf';
+
+export interface RoadmapExportOptions {
+  productName: string;
+  start: QuarterInfo;
+  quarterCount: number;
+  scoringConfig: ScoringConfig;
+}
+
+interface CsvColumn {
+  header: string;
+  value: (item: RoadmapItem) => string | number | undefined;
+}
+
+const RICE_FIELD_KEYS = ['reach', 'impact', 'confidence', 'effortRating'];
+
+// The RICE inputs are always exported; other frameworks add their own inputs and the score after them
+const RICE_COLUMNS: CsvColumn[] = [
+  { header: 'Reach', value: item => item.reach },
+  { header: 'Impact', value: item => item.impact },
+  { header: 'Confidence', value: item => item.confidence },
+  { header: 'Effort Rating', value: item => item.effortRating },
+];
+
+const getCsvColumns = (config: ScoringConfig): CsvColumn[] => [
+  { header: 'Epic ID', value: item => item.epicId },
+  { header: 'Epic', value: item => item.epicName },
+  { header: 'Description', value: item => stripHtml(item.epicDescription) },
+  { header: 'Priority', value: item => item.priority },
+  { header: 'Status', value: item => item.status },
+  ...RICE_COLUMNS,
+  ...getScoreFields(config)
+    .filter(field => !RICE_FIELD_KEYS.includes(field.key))
+    .map((field): CsvColumn => ({
+      header: field.label,
+      value: item => {
+        const input = getScoreInput(item, field.key);
+        if (!input) return undefined;
+        return field.options?.find(option => option.value === input)?.label ?? input;
+      },
+    })),
+  { header: getFramework(config.framework).scoreLabel, value: item => (calculateScore(item, config) ? formatScore(item, config) : undefined) },
+  { header: 'Theme', value: item => item.themeName },
+  { header: 'Initiative', value: item => item.initiativeName },
+  { header: 'Track', value: item => item.track },
+  { header: 'Start Date', value: item => item.startDate },
+  { header: 'End Date', value: item => item.endDate },
+];
+
+const PAGE_WIDTH = 842; // A4 landscape, in points
+const PAGE_HEIGHT = 595;
+const CANVAS_SCALE = 2;
+const PDF_ROWS_PER_PAGE = 20;
+const FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+// Epic descriptions are stored as rich text from the editor
+const stripHtml = (html?: string): string => {
+  if (!html) return '';
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').trim();
+};
+
+const escapeCsv = (value: string | number | undefined): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildRoadmapCsv = (items: RoadmapItem[], config: ScoringConfig): string => {
+  const columns = getCsvColumns(config);
+  const rows = [
+    columns.map(column => escapeCsv(column.header)).join(','),
+    ...items.map(item => columns.map(column => escapeCsv(column.value(item))).join(',')),
+  ];
+  return rows.join('\r\n');
+};
+
+const getPeriodLabel = ({ start, quarterCount }: RoadmapExportOptions): string => {
+  if (quarterCount <= 1) return formatQuarter(start.year, start.quarter);
+  const end = addQuarters(start, quarterCount - 1);
+  return `${formatQuarter(start.year, start.quarter)} – ${formatQuarter(end.year, end.quarter)}`;
+};
+
+const getFileName = (options: RoadmapExportOptions, extension: string): string => {
+  const slug = `${options.productName}-roadmap-${getPeriodLabel(options)}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug}.${extension}`;
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width * CANVAS_SCALE;
+  canvas.height = height * CANVAS_SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  ctx.scale(CANVAS_SCALE, CANVAS_SCALE);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  return [canvas, ctx];
+};
+
+const truncate = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let result = text;
+  while (result.length > 0 && ctx.measureText(`${result}…`).width > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}…`;
+};
+
+/**
+ * Draw the roadmap as a Gantt chart grouped by initiative
+ */
+export const renderRoadmapCanvas = (items: RoadmapItem[], options: RoadmapExportOptions): HTMLCanvasElement => {
+  const labelWidth = 260;
+  const chartWidth = 900;
+  const rowHeight = 28;
+  const headerHeight = 96;
+  const padding = 24;
+
+  const groups = new Map<string, RoadmapItem[]>();
+  [...items]
+    .sort((a, b) => (a.startDate || '').localeCompare(b.startDate || ''))
+    .forEach(item => {
+      const key = item.initiativeName || 'Other';
+      groups.set(key, [...(groups.get(key) || []), item]);
+    });
+  const sortedGroups = Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  const rowCount = items.length + sortedGroups.length;
+  const width = padding * 2 + labelWidth + chartWidth;
+  const height = headerHeight + Math.max(rowCount, 1) * rowHeight + padding;
+  const [canvas, ctx] = createCanvas(width, height);
+
+  const first = getQuarterBounds(options.start.year, options.start.quarter).start.getTime();
+  const lastQuarter = addQuarters(options.start, options.quarterCount - 1);
+  const last = getQuarterBounds(lastQuarter.year, lastQuarter.quarter).end.getTime();
+  const chartLeft = padding + labelWidth;
+  const toX = (time: number) => chartLeft + ((time - first) / (last - first)) * chartWidth;
+
+  ctx.fillStyle = '#1a1a1a';
+  ctx.font = `600 20px ${FONT}`;
+  ctx.fillText(`${options.productName} Roadmap`, padding, padding + 16);
+  ctx.fillStyle = '#737373';
+  ctx.font = `13px ${FONT}`;
+  ctx.fillText(`${getPeriodLabel(options)} · ${items.length} items`, padding, padding + 38);
+
+  // Quarter and month scale
+  const scaleTop = headerHeight - 24;
+  for (let i = 0; i < options.quarterCount; i++) {
+    const { year, quarter } = addQuarters(options.start, i);
+    const bounds = getQuarterBounds(year, quarter);
+    const x = toX(bounds.start.getTime());
+    ctx.fillStyle = '#404040';
+    ctx.font = `600 12px ${FONT}`;
+    ctx.fillText(formatQuarter(year, quarter), x + 6, scaleTop - 6);
+    for (let m = 0; m < 3; m++) {
+      const monthStart = new Date(year, (quarter - 1) * 3 + m, 1);
+      const mx = toX(monthStart.getTime());
+      ctx.strokeStyle = m === 0 ? '#d4d4d4' : '#eeeeee';
+      ctx.beginPath();
+      ctx.moveTo(mx, scaleTop);
+      ctx.lineTo(mx, height - padding);
+      ctx.stroke();
+      ctx.fillStyle = '#737373';
+      ctx.font = `11px ${FONT}`;
+      ctx.fillText(monthStart.toLocaleDateString('en-US', { month: 'short' }), mx + 6, scaleTop + 16);
+    }
+  }
+
+  let y = headerHeight;
+  sortedGroups.forEach(([initiative, groupItems]) => {
+    ctx.fillStyle = 'rgba(90, 155, 151, 0.12)';
+    ctx.fillRect(padding, y, labelWidth + chartWidth, rowHeight);
+    ctx.fillStyle = '#1a1a1a';
+    ctx.font = `600 12px ${FONT}`;
+    ctx.fillText(truncate(ctx, initiative, labelWidth - 16), padding + 8, y + 18);
+    y += rowHeight;
+
+    groupItems.forEach(item => {
+      ctx.fillStyle = '#404040';
+      ctx.font = `12px ${FONT}`;
+      ctx.fillText(truncate(ctx, item.epicName, labelWidth - 24), padding + 16, y + 18);
+
+      if (item.startDate && item.endDate) {
+        const startX = Math.max(toX(parseLocalDate(item.startDate).getTime()), chartLeft);
+        const endX = Math.min(toX(parseLocalDate(item.endDate).getTime() + DAY_MS), chartLeft + chartWidth);
+        if (endX > startX) {
+          ctx.fillStyle = item.themeColor || '#5A9B97';
+          ctx.fillRect(startX, y + 6, Math.max(endX - startX, 4), rowHeight - 12);
+        }
+      }
+
+      ctx.strokeStyle = '#f0f0f0';
+      ctx.beginPath();
+      ctx.moveTo(padding, y + rowHeight);
+      ctx.lineTo(padding + labelWidth + chartWidth, y + rowHeight);
+      ctx.stroke();
+      y += rowHeight;
+    });
+  });
+
+  // Today marker
+  const now = Date.now();
+  if (now >= first && now <= last) {
+    ctx.strokeStyle = '#EF4444';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(toX(now), scaleTop);
+    ctx.lineTo(toX(now), height - padding);
+    ctx.stroke();
+  }
+
+  return canvas;
+};
+
+const renderCoverCanvas = (items: RoadmapItem[], options: RoadmapExportOptions): HTMLCanvasElement => {
+  const [canvas, ctx] = createCanvas(PAGE_WIDTH, PAGE_HEIGHT);
+  ctx.fillStyle = '#5A9B97';
+  ctx.fillRect(0, 0, 12, PAGE_HEIGHT);
+
+  ctx.fillStyle = '#1a1a1a';
+  ctx.font = `700 36px ${FONT}`;
+  ctx.fillText(options.productName, 64, 200);
+  ctx.font = `400 24px ${FONT}`;
+  ctx.fillStyle = '#404040';
+  ctx.fillText(`Roadmap · ${getPeriodLabel(options)}`, 64, 240);
+
+  const initiatives = new Set(items.map(item => item.initiativeName).filter(Boolean)).size;
+  const themes = new Set(items.map(item => item.themeName).filter(Boolean)).size;
+  ctx.font = `14px ${FONT}`;
+  ctx.fillStyle = '#737373';
+  ctx.fillText(`${items.length} epics · ${initiatives} initiatives · ${themes} themes`, 64, 290);
+  ctx.fillText(
+    `Generated ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+    64,
+    PAGE_HEIGHT - 64
+  );
+  return canvas;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Uint8Array => {
+  const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Minimal PDF writer: one JPEG image per page, scaled to fit an A4 landscape page
+ */
+const buildPdf = (pages: HTMLCanvasElement[]): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? Uint8Array.from(data, c => c.charCodeAt(0)) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+  write('%PDF-1.4\n');
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((canvas, i) => {
+    const pageId = pageIds[i];
+    const jpeg = canvasToJpeg(canvas);
+    const margin = 24;
+    const scale = Math.min((PAGE_WIDTH - margin * 2) / canvas.width, (PAGE_HEIGHT - margin * 2) / canvas.height);
+    const drawWidth = canvas.width * scale;
+    const drawHeight = canvas.height * scale;
+    const x = (PAGE_WIDTH - drawWidth) / 2;
+    const y = PAGE_HEIGHT - margin - drawHeight;
+    const content = `q ${drawWidth.toFixed(2)} 0 0 ${drawHeight.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`;
+
+    startObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`
+    );
+    startObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    startObject(pageId + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+    );
+    write(jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render image'))), 'image/png');
+  });
+
+export const exportRoadmap = async (
+  format: RoadmapExportFormat,
+  items: RoadmapItem[],
+  options: RoadmapExportOptions
+): Promise<void> => {
+  switch (format) {
+    case 'csv': {
+      // Prefix a BOM so spreadsheet apps pick up UTF-8
+      const blob = new Blob(['\uFEFF', buildRoadmapCsv(items, options.scoringConfig)], { type: 'text/csv;charset=utf-8' });
+      downloadBlob(blob, getFileName(options, 'csv'));
+      break;
+    }
+    case 'png': {
+      const blob = await canvasToBlob(renderRoadmapCanvas(items, options));
+      downloadBlob(blob, getFileName(options, 'png'));
+      break;
+    }
+    case 'pdf': {
+      // Keep each chart page readable by splitting long roadmaps across pages
+      const sorted = [...items].sort((a, b) => (a.initiativeName || '').localeCompare(b.initiativeName || ''));
+      const chartPages: HTMLCanvasElement[] = [];
+      for (let i = 0; i < Math.max(sorted.length, 1); i += PDF_ROWS_PER_PAGE) {
+        chartPages.push(renderRoadmapCanvas(sorted.slice(i, i + PDF_ROWS_PER_PAGE), options));
+      }
+      const blob = buildPdf([renderCoverCanvas(items, options), ...chartPages]);
+      downloadBlob(blob, getFileName(options, 'pdf'));
+      break;
+    }
+  }
+};
@@ -0,0 +1,47 @@
+/**
+ * Summaries and comparisons for roadmap what-if scenarios
+ */
+
+import { RoadmapItem, RoadmapScenarioRequest, ScoringConfig } from '../types/roadmap';
+import { calculateScore } from './prioritization';
+import { TeamLoad } from './teamCapacity';
+
+export interface ScenarioSummary {
+  epicCount: number;
+  scoreTotal: number;
+  totalEffort: number;
+  totalCapacity: number;
+  teams: TeamLoad[];
+}
+
+export const summarizeScenario = (scenario: RoadmapScenarioRequest, scoring: ScoringConfig): ScenarioSummary => {
+  const epicIds = new Set(scenario.roadmapItems.map(item => item.epicId));
+  const efforts = scenario.epicEfforts.filter(effort => epicIds.has(effort.epicId));
+
+  const teams = scenario.teamCapacities.map(team => ({
+    teamId: team.teamId,
+    teamName: team.teamName,
+    capacity: team.capacity,
+    effort: efforts
+      .filter(effort => effort.teamId === team.teamId)
+      .reduce((sum, effort) => sum + (effort.effortDays || 0), 0),
+  }));
+
+  return {
+    epicCount: scenario.roadmapItems.length,
+    scoreTotal: scenario.roadmapItems.reduce((sum, item) => sum + calculateScore(item, scoring), 0),
+    totalEffort: efforts.reduce((sum, effort) => sum + (effort.effortDays || 0), 0),
+    totalCapacity: teams.reduce((sum, team) => sum + team.capacity, 0),
+    teams,
+  };
+};
+
+// Epics a scenario adds to or drops from the base plan
+export const diffScenarioEpics = (base: RoadmapItem[], scenario: RoadmapItem[]) => {
+  const baseIds = new Set(base.map(item => item.epicId));
+  const scenarioIds = new Set(scenario.map(item => item.epicId));
+  return {
+    added: scenario.filter(item => !baseIds.has(item.epicId)),
+    removed: base.filter(item => !scenarioIds.has(item.epicId)),
+  };
+};
@@ -0,0 +1,71 @@
+/**
+ * Week-snapped rescheduling of roadmap items within their quarter
+ */
+
+import { addDays, daysBetween, formatLocalDate, getQuarterBounds, parseLocalDate } from './quarterUtils';
+
+export type RescheduleMode = 'move' | 'start' | 'end';
+
+export interface ScheduleDates {
+  startDate: string;
+  endDate: string;
+}
+
+const toDate = (value: string) => parseLocalDate(value.split('T')[0]);
+
+// Nearest Monday, since weeks start on Monday
+export const snapToWeekStart = (date: Date): Date => {
+  const offset = (date.getDay() + 6) % 7;
+  return addDays(date, offset <= 3 ? -offset : 7 - offset);
+};
+
+// Nearest Sunday
+export const snapToWeekEnd = (date: Date): Date => addDays(snapToWeekStart(addDays(date, 1)), -1);
+
+export const getQuarterDays = (year: number, quarter: number): number => {
+  const { start, end } = getQuarterBounds(year, quarter);
+  return daysBetween(start, end) + 1;
+};
+
+/**
+ * Dates after dragging a bar (`move`) or one of its edges by a number of days. The dragged edge
+ * snaps to the nearest week boundary and the result is clamped to the quarter; resizing never
+ * shrinks an item below one week unless the quarter edge forces it.
+ */
+export const rescheduleDates = (
+  dates: ScheduleDates,
+  mode: RescheduleMode,
+  deltaDays: number,
+  year: number,
+  quarter: number
+): ScheduleDates => {
+  const bounds = getQuarterBounds(year, quarter);
+  const quarterStart = bounds.start;
+  const quarterEnd = new Date(bounds.end.getFullYear(), bounds.end.getMonth(), bounds.end.getDate());
+  const clamp = (date: Date, min: Date, max: Date) => new Date(Math.min(Math.max(date.getTime(), min.getTime()), max.getTime()));
+
+  let start = clamp(toDate(dates.startDate), quarterStart, quarterEnd);
+  let end = clamp(toDate(dates.endDate), start, quarterEnd);
+
+  if (mode === 'move') {
+    const duration = daysBetween(start, end);
+    start = snapToWeekStart(addDays(start, deltaDays));
+    start = clamp(start, quarterStart, addDays(quarterEnd, -duration));
+    end = clamp(addDays(start, duration), start, quarterEnd);
+  } else if (mode === 'start') {
+    const latest = addDays(end, -6) < quarterStart ? quarterStart : addDays(end, -6);
+    start = clamp(snapToWeekStart(addDays(start, deltaDays)), quarterStart, latest);
+  } else {
+    const earliest = addDays(start, 6) > quarterEnd ? quarterEnd : addDays(start, 6);
+    end = clamp(snapToWeekEnd(addDays(end, deltaDays)), earliest, quarterEnd);
+  }
+
+  return { startDate: formatLocalDate(start), endDate: formatLocalDate(end) };
+};
+
+export const isWithinQuarter = (dates: ScheduleDates, year: number, quarter: number): boolean => {
+  const { start, end } = getQuarterBounds(year, quarter);
+  const itemStart = toDate(dates.startDate);
+  const itemEnd = toDate(dates.endDate);
+  return itemStart >= start && itemEnd <= end && itemStart <= itemEnd;
+};
@@ -0,0 +1,65 @@
+import { RoadmapItem } from '../types/roadmap';
+import { countChanges, diffSnapshots } from './roadmapSnapshots';
+
+const item = (epicId: string, overrides: Partial<RoadmapItem> = {}): RoadmapItem => ({
+  epicId,
+  epicName: epicId,
+  epicDescription: '',
+  priority: 'Medium',
+  status: 'Planned',
+  estimatedEffort: '',
+  assignedTeam: '',
+  reach: 3,
+  impact: 3,
+  confidence: 3,
+  riceScore: 9,
+  effortRating: 3,
+  startDate: '2025-04-01',
+  endDate: '2025-05-31',
+  ...overrides,
+});
+
+describe('diffSnapshots', () => {
+  test('finds added and removed epics', () => {
+    const diff = diffSnapshots([item('EPIC-1'), item('EPIC-2')], [item('EPIC-2'), item('EPIC-3')]);
+
+    expect(diff.added.map(i => i.epicId)).toEqual(['EPIC-3']);
+    expect(diff.removed.map(i => i.epicId)).toEqual(['EPIC-1']);
+    expect(diff.rescheduled).toEqual([]);
+    expect(diff.rescored).toEqual([]);
+  });
+
+  test('finds rescheduled epics, ignoring the time of day', () => {
+    const diff = diffSnapshots(
+      [item('EPIC-1'), item('EPIC-2')],
+      [item('EPIC-1', { endDate: '2025-06-30' }), item('EPIC-2', { startDate: '2025-04-01T00:00:00' })]
+    );
+
+    expect(diff.rescheduled.map(change => change.after.epicId)).toEqual(['EPIC-1']);
+    expect(diff.rescheduled[0].before.endDate).toBe('2025-05-31');
+  });
+
+  test('finds rescored epics from item fields and framework inputs', () => {
+    const diff = diffSnapshots(
+      [item('EPIC-1'), item('EPIC-2', { scoreInputs: { ease: 2 } }), item('EPIC-3')],
+      [item('EPIC-1', { reach: 5 }), item('EPIC-2', { scoreInputs: { ease: 4 } }), item('EPIC-3', { riceScore: 20 })]
+    );
+
+    expect(diff.rescored.map(change => change.after.epicId)).toEqual(['EPIC-1', 'EPIC-2']);
+  });
+});
+
+describe('countChanges', () => {
+  test('counts each affected epic once', () => {
+    const diff = diffSnapshots(
+      [item('EPIC-1'), item('EPIC-2')],
+      [item('EPIC-1', { reach: 5, endDate: '2025-06-30' }), item('EPIC-3')]
+    );
+
+    expect(countChanges(diff)).toBe(3);
+  });
+
+  test('is zero for identical versions', () => {
+    expect(countChanges(diffSnapshots([item('EPIC-1')], [item('EPIC-1')]))).toBe(0);
+  });
+});
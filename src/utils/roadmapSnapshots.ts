@@ -0,0 +1,62 @@
+/**
+ * Differences between two published versions of a quarter's roadmap
+ */
+
+import { RoadmapItem } from '../types/roadmap';
+import { getScoreInput } from './prioritization';
+
+export interface ItemChange {
+  before: RoadmapItem;
+  after: RoadmapItem;
+}
+
+export interface SnapshotDiff {
+  added: RoadmapItem[];
+  removed: RoadmapItem[];
+  rescheduled: ItemChange[];
+  rescored: ItemChange[];
+}
+
+const ITEM_SCORE_FIELDS = ['reach', 'impact', 'confidence', 'effortRating'];
+
+const toDay = (value?: string) => (value ? value.split('T')[0] : '');
+
+export const isRescheduled = ({ before, after }: ItemChange): boolean =>
+  toDay(before.startDate) !== toDay(after.startDate) || toDay(before.endDate) !== toDay(after.endDate);
+
+// Any scoring input changed, whichever framework it belongs to
+export const isRescored = ({ before, after }: ItemChange): boolean => {
+  const keys = new Set([
+    ...ITEM_SCORE_FIELDS,
+    ...Object.keys(before.scoreInputs || {}),
+    ...Object.keys(after.scoreInputs || {}),
+  ]);
+  return Array.from(keys).some(key => getScoreInput(before, key) !== getScoreInput(after, key));
+};
+
+// An epic that moved and was re-scored shows up in both lists
+export const diffSnapshots = (from: RoadmapItem[], to: RoadmapItem[]): SnapshotDiff => {
+  const fromById = new Map(from.map(item => [item.epicId, item]));
+  const toIds = new Set(to.map(item => item.epicId));
+
+  const changes = to.flatMap(after => {
+    const before = fromById.get(after.epicId);
+    return before ? [{ before, after }] : [];
+  });
+
+  return {
+    added: to.filter(item => !fromById.has(item.epicId)),
+    removed: from.filter(item => !toIds.has(item.epicId)),
+    rescheduled: changes.filter(isRescheduled),
+    rescored: changes.filter(isRescored),
+  };
+};
+
+// Number of distinct epics affected by the diff
+export const countChanges = (diff: SnapshotDiff): number => {
+  const epicIds = [
+    ...[...diff.added, ...diff.removed].map(item => item.epicId),
+    ...[...diff.rescheduled, ...diff.rescored].map(change => change.after.epicId),
+  ];
+  return new Set(epicIds).size;
+};
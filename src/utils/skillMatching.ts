@@ -0,0 +1,88 @@
+/**
+ * Skill fit between members and the skills a user story needs, and assignee suggestions built on it
+ */
+
+import {
+  BacklogEpic,
+  MemberSkill,
+  ProficiencyLevel,
+  RequiredSkill,
+  TeamMember,
+  UserStory,
+} from '../types/resourcePlanning.types';
+
+export const PROFICIENCY_LEVELS: { value: ProficiencyLevel; label: string }[] = [
+  { value: 1, label: 'Beginner' },
+  { value: 2, label: 'Intermediate' },
+  { value: 3, label: 'Advanced' },
+  { value: 4, label: 'Expert' },
+];
+
+// Skill fit outweighs availability: a free designer should not outrank a busier backend developer
+const SKILL_WEIGHT = 0.7;
+
+export interface MemberSuggestion {
+  member: TeamMember;
+  skillFit: number; // 0 to 1
+  availability: number; // 0 to 1
+  score: number;
+  missingSkillIds: number[];
+}
+
+export const getProficiencyLabel = (level: number): string =>
+  PROFICIENCY_LEVELS.find(option => option.value === level)?.label || '';
+
+export const getMemberLevel = (member: Pick<TeamMember, 'skills'>, skillId: number): number =>
+  member.skills?.find(skill => skill.skillId === skillId)?.level || 0;
+
+// A story's own requirements win; stories without any inherit their epic's
+export const getRequiredSkills = (story: UserStory, epic?: BacklogEpic | null): RequiredSkill[] =>
+  story.requiredSkills && story.requiredSkills.length > 0 ? story.requiredSkills : epic?.requiredSkills || [];
+
+/**
+ * How well a member covers the required skills: each skill counts as met up to the required level,
+ * so an advanced member on an intermediate requirement scores no higher than an intermediate one.
+ * Stories with no requirements fit everyone equally.
+ */
+export const getSkillFit = (member: Pick<TeamMember, 'skills'>, required: RequiredSkill[]): number => {
+  if (required.length === 0) return 1;
+  const total = required.reduce(
+    (sum, requirement) => sum + Math.min(getMemberLevel(member, requirement.skillId) / requirement.level, 1),
+    0
+  );
+  return total / required.length;
+};
+
+export const getMissingSkillIds = (member: Pick<TeamMember, 'skills'>, required: RequiredSkill[]): number[] =>
+  required
+    .filter(requirement => getMemberLevel(member, requirement.skillId) < requirement.level)
+    .map(requirement => requirement.skillId);
+
+export const rankMembers = (
+  members: TeamMember[],
+  required: RequiredSkill[],
+  getAvailability: (member: TeamMember) => number
+): MemberSuggestion[] =>
+  members
+    .map(member => {
+      const skillFit = getSkillFit(member, required);
+      const availability = getAvailability(member);
+      return {
+        member,
+        skillFit,
+        availability,
+        score: skillFit * SKILL_WEIGHT + availability * (1 - SKILL_WEIGHT),
+        missingSkillIds: getMissingSkillIds(member, required),
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.member.memberName.localeCompare(b.member.memberName));
+
+// Replaces or removes (level 0) one skill in a member's or story's list
+export const setSkillLevel = (
+  skills: (MemberSkill | RequiredSkill)[],
+  skillId: number,
+  level: ProficiencyLevel | 0
+): (MemberSkill | RequiredSkill)[] => {
+  const others = skills.filter(skill => skill.skillId !== skillId);
+  return level === 0 ? others : [...others, { skillId, level }];
+};
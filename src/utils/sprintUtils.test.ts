@@ -0,0 +1,47 @@
+import { Sprint } from '../types/sprint';
+import { getAverageVelocity, getDeliveryRate } from './sprintUtils';
+
+let nextId = 1;
+const sprint = (overrides: Partial<Sprint> = {}): Sprint => ({
+  id: nextId++,
+  productId: 1,
+  name: 'Sprint',
+  goal: '',
+  startDate: '2025-06-02',
+  endDate: '2025-06-13',
+  status: 'CLOSED',
+  teamId: 1,
+  stories: [],
+  committedPoints: 20,
+  completedPoints: 20,
+  ...overrides,
+});
+
+const sprints = [
+  sprint({ endDate: '2025-05-02', completedPoints: 2 }),
+  sprint({ endDate: '2025-05-16', completedPoints: 10 }),
+  sprint({ endDate: '2025-05-30', completedPoints: 16 }),
+  sprint({ endDate: '2025-06-13', completedPoints: 24 }),
+  sprint({ teamId: 2, committedPoints: 10, completedPoints: 5 }),
+  sprint({ status: 'ACTIVE', completedPoints: undefined }),
+];
+
+describe('getAverageVelocity', () => {
+  test('averages the most recent closed sprints of the team', () => {
+    expect(getAverageVelocity(sprints, 1)).toBe(50 / 3);
+    expect(getAverageVelocity(sprints, 3)).toBeNull();
+  });
+});
+
+describe('getDeliveryRate', () => {
+  test('compares completed with committed points, capped at 1', () => {
+    expect(getDeliveryRate(sprints, 1)).toBe(50 / 60);
+    expect(getDeliveryRate(sprints, 2)).toBe(0.5);
+    expect(getDeliveryRate([sprint({ completedPoints: 30 })], 1)).toBe(1);
+  });
+
+  test('is null without committed points', () => {
+    expect(getDeliveryRate(sprints, 3)).toBeNull();
+    expect(getDeliveryRate([sprint({ committedPoints: 0 })], 1)).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Sprint point totals and velocity
+ */
+
+import { Sprint, SprintStory } from '../types/sprint';
+
+// Number of recent closed sprints averaged into the velocity
+export const VELOCITY_SPRINT_COUNT = 3;
+
+const sumPoints = (stories: SprintStory[]) =>
+  stories.reduce((sum, story) => sum + (story.storyPoints || 0), 0);
+
+export const getCommittedPoints = (sprint: Sprint): number =>
+  sprint.status === 'PLANNED' || sprint.committedPoints == null
+    ? sumPoints(sprint.stories)
+    : sprint.committedPoints;
+
+export const getCompletedPoints = (sprint: Sprint): number =>
+  sprint.status === 'CLOSED' && sprint.completedPoints != null
+    ? sprint.completedPoints
+    : sumPoints(sprint.stories.filter(story => story.status === 'Done'));
+
+export const getClosedSprints = (sprints: Sprint[], teamId?: number | null): Sprint[] =>
+  sprints
+    .filter(sprint => sprint.status === 'CLOSED' && (teamId === undefined || sprint.teamId === teamId))
+    .sort((a, b) => a.endDate.localeCompare(b.endDate));
+
+/**
+ * Average completed points over the most recent closed sprints, or null without history.
+ * Pass a team ID to only consider that team's sprints.
+ */
+export const getAverageVelocity = (
+  sprints: Sprint[],
+  teamId?: number | null,
+  count = VELOCITY_SPRINT_COUNT
+): number | null => {
+  const recent = getClosedSprints(sprints, teamId).slice(-count);
+  if (recent.length === 0) return null;
+  return recent.reduce((sum, sprint) => sum + getCompletedPoints(sprint), 0) / recent.length;
+};
+
+/**
+ * Share of the committed points the team completed over the most recent closed sprints, capped at
+ * 1, or null without history. Sprint capacity is scaled by it so a sprint counts for what the team
+ * actually delivers in one.
+ */
+export const getDeliveryRate = (
+  sprints: Sprint[],
+  teamId?: number | null,
+  count = VELOCITY_SPRINT_COUNT
+): number | null => {
+  const recent = getClosedSprints(sprints, teamId).slice(-count);
+  const committed = recent.reduce((sum, sprint) => sum + getCommittedPoints(sprint), 0);
+  if (committed <= 0) return null;
+  const completed = recent.reduce((sum, sprint) => sum + getCompletedPoints(sprint), 0);
+  return Math.min(completed / committed, 1);
+};
@@ -0,0 +1,115 @@
+import { EpicEffort } from '../types/capacity';
+import { TeamMember } from '../types/resourcePlanning.types';
+import {
+  buildTeamLoads,
+  calculateTeamCapacity,
+  fitAllocationToCapacity,
+  getDefaultCapacitySettings,
+  getLoadStatus,
+  getOverCommittedTeams,
+  getWorkingDays,
+} from './teamCapacity';
+
+const member = (overrides: Partial<TeamMember> = {}): TeamMember => ({
+  id: 1,
+  teamId: 1,
+  memberName: 'Member',
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+});
+
+const effort = (teamId: number, epicId: string, effortDays: number): EpicEffort => ({
+  epicId,
+  epicName: epicId,
+  teamId,
+  effortDays,
+});
+
+// Q2 2025 has 65 working days
+const Q2_WORKING_DAYS = 65;
+
+describe('getWorkingDays', () => {
+  test('counts the weekdays in the quarter', () => {
+    expect(getWorkingDays(2025, 2)).toBe(Q2_WORKING_DAYS);
+  });
+});
+
+describe('calculateTeamCapacity', () => {
+  const settings = getDefaultCapacitySettings(1);
+
+  test('adds up person-days of every member', () => {
+    expect(calculateTeamCapacity([member(), member({ id: 2, ftePercent: 50 })], [], settings, 'DAYS', 2025, 2))
+      .toBe(Q2_WORKING_DAYS * 1.5);
+  });
+
+  test('takes out team holiday days and applies the allocation', () => {
+    const capacity = calculateTeamCapacity(
+      [member(), member({ id: 2 })],
+      [],
+      { teamId: 1, holidayDays: 5, allocationPercent: 50 },
+      'DAYS',
+      2025,
+      2
+    );
+
+    expect(capacity).toBe((Q2_WORKING_DAYS - 5) * 2 * 0.5);
+  });
+
+  test('counts sprints for the whole team, scaled by average availability', () => {
+    expect(calculateTeamCapacity([member(), member({ id: 2 })], [], settings, 'SPRINTS', 2025, 2)).toBe(6.5);
+    expect(calculateTeamCapacity([member(), member({ id: 2, ftePercent: 0 })], [], settings, 'SPRINTS', 2025, 2))
+      .toBe(3.3);
+  });
+
+  test('scales sprints by the delivery rate', () => {
+    expect(calculateTeamCapacity([member(), member({ id: 2 })], [], settings, 'SPRINTS', 2025, 2, 0.8)).toBe(5.2);
+    expect(calculateTeamCapacity([member()], [], settings, 'DAYS', 2025, 2, 0.8)).toBe(Q2_WORKING_DAYS);
+  });
+
+  test('is zero for a team without members', () => {
+    expect(calculateTeamCapacity([], [], settings, 'DAYS', 2025, 2)).toBe(0);
+  });
+});
+
+describe('fitAllocationToCapacity', () => {
+  const settings = { teamId: 1, holidayDays: 5, allocationPercent: 80 };
+
+  test('sets the allocation that gives the target capacity', () => {
+    const fitted = fitAllocationToCapacity([member(), member({ id: 2 })], [], settings, 'DAYS', 2025, 2, 30);
+
+    expect(fitted).toEqual({ teamId: 1, holidayDays: 5, allocationPercent: 25 });
+    expect(calculateTeamCapacity([member(), member({ id: 2 })], [], fitted!, 'DAYS', 2025, 2)).toBe(30);
+  });
+
+  test('is null when the members cannot cover the target', () => {
+    expect(fitAllocationToCapacity([member()], [], settings, 'DAYS', 2025, 2, Q2_WORKING_DAYS)).toBeNull();
+  });
+});
+
+describe('team loads', () => {
+  const teams = [{ id: 1, name: 'Platform' }, { id: 2, name: 'Mobile' }];
+  const efforts = [effort(1, 'EPIC-1', 20), effort(1, 'EPIC-2', 15), effort(2, 'EPIC-1', 9)];
+  const capacities: Record<number, number> = { 1: 30, 2: 10 };
+
+  test('sums planned effort per team', () => {
+    expect(buildTeamLoads(teams, efforts, teamId => capacities[teamId])).toEqual([
+      { teamId: 1, teamName: 'Platform', capacity: 30, effort: 35 },
+      { teamId: 2, teamName: 'Mobile', capacity: 10, effort: 9 },
+    ]);
+  });
+
+  test('only counts the given epics', () => {
+    const loads = buildTeamLoads(teams, efforts, teamId => capacities[teamId], new Set(['EPIC-2']));
+
+    expect(loads.map(load => load.effort)).toEqual([15, 0]);
+  });
+
+  test('flags teams near and over capacity', () => {
+    const loads = buildTeamLoads(teams, efforts, teamId => capacities[teamId]);
+
+    expect(loads.map(getLoadStatus)).toEqual(['over', 'near']);
+    expect(getLoadStatus({ effort: 0, capacity: 0 })).toBe('under');
+    expect(getOverCommittedTeams(loads).map(load => load.teamId)).toEqual([1]);
+  });
+});
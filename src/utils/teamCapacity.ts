@@ -0,0 +1,116 @@
+/**
+ * Team capacity per quarter and how it compares to the effort planned for each team
+ */
+
+import { EffortUnit, EpicEffort, TeamCapacitySettings } from '../types/capacity';
+import { PublicHoliday, TeamMember } from '../types/resourcePlanning.types';
+import { countWorkingDays, getAvailableDays, getFtePercent } from './memberAvailability';
+import { getQuarterBounds } from './quarterUtils';
+
+export const SPRINT_LENGTH_DAYS = 10;
+
+// Teams above this share of their capacity are flagged before they are actually over
+export const NEAR_CAPACITY_RATIO = 0.9;
+
+export interface TeamLoad {
+  teamId: number;
+  teamName: string;
+  effort: number;
+  capacity: number;
+}
+
+export type LoadStatus = 'under' | 'near' | 'over';
+
+export const getWorkingDays = (year: number, quarter: number): number => {
+  const { start, end } = getQuarterBounds(year, quarter);
+  return countWorkingDays(start, end);
+};
+
+export const getDefaultCapacitySettings = (teamId: number): TeamCapacitySettings => ({
+  teamId,
+  holidayDays: 0,
+  allocationPercent: 100,
+});
+
+/**
+ * Capacity in the plan's effort unit. Days are person-days: each member's available days (after
+ * public holidays, time off and FTE) less the team's holiday days, times the allocation.
+ * Sprints are the team's sprints, scaled down by how available its members are on average and by
+ * its delivery rate (see getDeliveryRate).
+ */
+export const calculateTeamCapacity = (
+  members: TeamMember[],
+  holidays: PublicHoliday[],
+  settings: TeamCapacitySettings,
+  effortUnit: EffortUnit,
+  year: number,
+  quarter: number,
+  deliveryRate = 1
+): number => {
+  if (members.length === 0) return 0;
+  const { start, end } = getQuarterBounds(year, quarter);
+  const personDays = members.reduce(
+    (sum, member) =>
+      sum + Math.max(getAvailableDays(member, holidays, start, end) - (settings.holidayDays * getFtePercent(member)) / 100, 0),
+    0
+  );
+  const allocation = Math.min(Math.max(settings.allocationPercent, 0), 100) / 100;
+  const capacity = effortUnit === 'SPRINTS'
+    ? (personDays / members.length / SPRINT_LENGTH_DAYS) * allocation * deliveryRate
+    : personDays * allocation;
+  return Math.round(capacity * 10) / 10;
+};
+
+/**
+ * Settings that give the team the target capacity by changing its allocation, for capacity that
+ * was set directly rather than worked out. Null when the target is more than its members cover.
+ */
+export const fitAllocationToCapacity = (
+  members: TeamMember[],
+  holidays: PublicHoliday[],
+  settings: TeamCapacitySettings,
+  effortUnit: EffortUnit,
+  year: number,
+  quarter: number,
+  capacity: number,
+  deliveryRate = 1
+): TeamCapacitySettings | null => {
+  const fullCapacity = calculateTeamCapacity(
+    members,
+    holidays,
+    { ...settings, allocationPercent: 100 },
+    effortUnit,
+    year,
+    quarter,
+    deliveryRate
+  );
+  if (capacity > fullCapacity) return null;
+  return { ...settings, allocationPercent: fullCapacity > 0 ? Math.round((capacity / fullCapacity) * 1000) / 10 : 0 };
+};
+
+/**
+ * Planned effort against capacity for every team. Pass `epicIds` to only count epics that are
+ * actually on the quarter's roadmap.
+ */
+export const buildTeamLoads = (
+  teams: { id: number; name: string }[],
+  epicEfforts: EpicEffort[],
+  getCapacity: (teamId: number) => number,
+  epicIds?: Set<string>
+): TeamLoad[] =>
+  teams.map(team => ({
+    teamId: team.id,
+    teamName: team.name,
+    capacity: getCapacity(team.id),
+    effort: epicEfforts
+      .filter(effort => effort.teamId === team.id && (!epicIds || epicIds.has(effort.epicId)))
+      .reduce((sum, effort) => sum + (effort.effortDays || 0), 0),
+  }));
+
+export const getLoadStatus = (load: Pick<TeamLoad, 'effort' | 'capacity'>): LoadStatus => {
+  if (load.effort > load.capacity) return 'over';
+  return load.capacity > 0 && load.effort / load.capacity >= NEAR_CAPACITY_RATIO ? 'near' : 'under';
+};
+
+export const getOverCommittedTeams = (loads: TeamLoad[]): TeamLoad[] =>
+  loads.filter(load => getLoadStatus(load) === 'over');
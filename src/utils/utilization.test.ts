@@ -0,0 +1,116 @@
+import { PublicHoliday, ResourceAssignment, TeamMember } from '../types/resourcePlanning.types';
+import { parseLocalDate } from './quarterUtils';
+import {
+  formatUtilization,
+  getAssignedDays,
+  getAssignmentContributions,
+  getMembersUtilization,
+  getUtilizationLevel,
+  getWeeklyUtilization,
+} from './utilization';
+
+const member = (overrides: Partial<TeamMember> = {}): TeamMember => ({
+  id: 1,
+  teamId: 1,
+  memberName: 'Member',
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+});
+
+const assignment = (overrides: Partial<ResourceAssignment> = {}): ResourceAssignment => ({
+  id: 1,
+  userStoryId: 1,
+  memberId: 1,
+  startDate: '2025-06-02',
+  endDate: '2025-06-08',
+  productId: 1,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+});
+
+const holidays: PublicHoliday[] = [{ id: 1, date: '2025-06-04', name: 'Holiday', location: 'Berlin' }];
+
+// 2 June 2025 is a Monday
+const june = { start: parseLocalDate('2025-06-01'), end: parseLocalDate('2025-06-30') };
+
+describe('getAssignedDays', () => {
+  test('counts working days weighted by allocation and FTE', () => {
+    expect(getAssignedDays(member(), assignment(), [], june.start, june.end)).toBe(5);
+    expect(getAssignedDays(member({ ftePercent: 50 }), assignment({ allocationPercent: 50 }), [], june.start, june.end))
+      .toBe(1.25);
+  });
+
+  test('skips holidays at the member location and time off', () => {
+    const berlin = member({ location: ' berlin ', timeOff: [{ startDate: '2025-06-06', endDate: '2025-06-06' }] });
+
+    expect(getAssignedDays(berlin, assignment(), holidays, june.start, june.end)).toBe(3);
+    expect(getAssignedDays(member({ location: 'Paris' }), assignment(), holidays, june.start, june.end)).toBe(5);
+  });
+
+  test('only counts days inside the period', () => {
+    expect(getAssignedDays(member(), assignment(), [], parseLocalDate('2025-06-05'), june.end)).toBe(2);
+  });
+});
+
+describe('getAssignmentContributions', () => {
+  test('lists the member own assignments that fall in the period', () => {
+    const contributions = getAssignmentContributions(
+      member(),
+      [assignment({ id: 1 }), assignment({ id: 2, memberId: 2 }), assignment({ id: 3, startDate: '2025-07-01', endDate: '2025-07-04' })],
+      [],
+      june.start,
+      june.end
+    );
+
+    expect(contributions.map(c => c.assignment.id)).toEqual([1]);
+  });
+});
+
+describe('getMembersUtilization', () => {
+  test('divides assigned days by available days across members', () => {
+    const figures = getMembersUtilization(
+      [member({ id: 1 }), member({ id: 2, ftePercent: 50 })],
+      [assignment({ memberId: 1 }), assignment({ id: 2, memberId: 2 })],
+      [],
+      parseLocalDate('2025-06-02'),
+      parseLocalDate('2025-06-13')
+    );
+
+    expect(figures).toEqual({ assignedDays: 7.5, availableDays: 15, utilization: 0.5 });
+  });
+
+  test('reports zero when nobody is available', () => {
+    expect(getMembersUtilization([], [], [], june.start, june.end).utilization).toBe(0);
+  });
+});
+
+describe('getWeeklyUtilization', () => {
+  test('splits the period into Monday weeks trimmed at both ends', () => {
+    const weeks = getWeeklyUtilization(
+      [member()],
+      [assignment({ allocationPercent: 50 })],
+      [],
+      parseLocalDate('2025-06-04'),
+      parseLocalDate('2025-06-10')
+    );
+
+    expect(weeks.map(week => week.weekStart)).toEqual(['2025-06-04', '2025-06-09']);
+    expect(weeks[0]).toMatchObject({ assignedDays: 1.5, availableDays: 3, utilization: 0.5 });
+    expect(weeks[1]).toMatchObject({ assignedDays: 0, availableDays: 2, utilization: 0 });
+  });
+});
+
+describe('getUtilizationLevel', () => {
+  test('maps utilization to levels', () => {
+    expect(getUtilizationLevel(0.5)).toBe('low');
+    expect(getUtilizationLevel(0.8)).toBe('medium');
+    expect(getUtilizationLevel(1)).toBe('high');
+    expect(getUtilizationLevel(1.01)).toBe('over');
+  });
+
+  test('formats as a whole percentage', () => {
+    expect(formatUtilization(0.876)).toBe('88%');
+  });
+});
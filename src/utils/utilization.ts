@@ -0,0 +1,114 @@
+/**
+ * Utilization: allocated working days over available working days, per member, team and week
+ */
+
+import { PublicHoliday, ResourceAssignment, TeamMember } from '../types/resourcePlanning.types';
+import { getAllocation } from './assignmentAllocation';
+import { toDateKey } from './assignmentTimeline';
+import { eachDay, getAvailableDays, getDayStatus, getFtePercent } from './memberAvailability';
+import { addDays, formatLocalDate } from './quarterUtils';
+
+export type UtilizationLevel = 'low' | 'medium' | 'high' | 'over';
+
+export interface UtilizationFigures {
+  assignedDays: number;
+  availableDays: number;
+  utilization: number; // 0 to 1, above 1 when over-allocated
+}
+
+export interface AssignmentContribution {
+  assignment: ResourceAssignment;
+  assignedDays: number;
+}
+
+export interface WeeklyUtilization extends UtilizationFigures {
+  weekStart: string;
+  label: string;
+}
+
+const toFigures = (assignedDays: number, availableDays: number): UtilizationFigures => ({
+  assignedDays: Math.round(assignedDays * 10) / 10,
+  availableDays: Math.round(availableDays * 10) / 10,
+  utilization: availableDays > 0 ? assignedDays / availableDays : 0,
+});
+
+/**
+ * Days of the member's time an assignment takes within the period: only days the member works
+ * count, each weighted by the assignment's allocation and the member's FTE
+ */
+export const getAssignedDays = (
+  member: TeamMember,
+  assignment: ResourceAssignment,
+  holidays: PublicHoliday[],
+  start: Date,
+  end: Date
+): number => {
+  const from = toDateKey(assignment.startDate);
+  const to = toDateKey(assignment.endDate);
+  const workedDays = eachDay(start, end).filter(date => {
+    const key = formatLocalDate(date);
+    return key >= from && key <= to && getDayStatus(member, holidays, date) === 'working';
+  }).length;
+  return (workedDays * (getAllocation(assignment) / 100) * getFtePercent(member)) / 100;
+};
+
+export const getAssignmentContributions = (
+  member: TeamMember,
+  assignments: ResourceAssignment[],
+  holidays: PublicHoliday[],
+  start: Date,
+  end: Date
+): AssignmentContribution[] =>
+  assignments
+    .filter(assignment => assignment.memberId === member.id)
+    .map(assignment => ({ assignment, assignedDays: getAssignedDays(member, assignment, holidays, start, end) }))
+    .filter(contribution => contribution.assignedDays > 0);
+
+export const getMembersUtilization = (
+  members: TeamMember[],
+  assignments: ResourceAssignment[],
+  holidays: PublicHoliday[],
+  start: Date,
+  end: Date
+): UtilizationFigures => {
+  const assigned = members.reduce(
+    (sum, member) =>
+      sum + getAssignmentContributions(member, assignments, holidays, start, end)
+        .reduce((total, contribution) => total + contribution.assignedDays, 0),
+    0
+  );
+  const available = members.reduce((sum, member) => sum + getAvailableDays(member, holidays, start, end), 0);
+  return toFigures(assigned, available);
+};
+
+// One bucket per week starting on Monday, trimmed to the period at both ends
+export const getWeeklyUtilization = (
+  members: TeamMember[],
+  assignments: ResourceAssignment[],
+  holidays: PublicHoliday[],
+  start: Date,
+  end: Date
+): WeeklyUtilization[] => {
+  const weeks: WeeklyUtilization[] = [];
+  let weekStart = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (weekStart <= end) {
+    const daysToSunday = (7 - weekStart.getDay()) % 7;
+    const weekEnd = addDays(weekStart, daysToSunday);
+    const clampedEnd = weekEnd > end ? end : weekEnd;
+    weeks.push({
+      weekStart: formatLocalDate(weekStart),
+      label: weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      ...getMembersUtilization(members, assignments, holidays, weekStart, clampedEnd),
+    });
+    weekStart = addDays(weekEnd, 1);
+  }
+  return weeks;
+};
+
+export const getUtilizationLevel = (utilization: number): UtilizationLevel => {
+  if (utilization > 1) return 'over';
+  if (utilization > 0.8) return 'high';
+  return utilization > 0.5 ? 'medium' : 'low';
+};
+
+export const formatUtilization = (utilization: number): string => `${Math.round(utilization * 100)}%`;